@@ -1,23 +1,60 @@
+import { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import Layout from './components/Layout';
 import Home from './pages/Home';
 import Teams from './pages/Teams';
 import Games from './pages/Games';
+import GameLineup from './pages/GameLineup';
+import ScoutingReport from './pages/ScoutingReport';
+import VideoReview from './pages/VideoReview';
+import GameIntermissions from './pages/GameIntermissions';
+import GameEdit from './pages/GameEdit';
+import GameReplay from './pages/GameReplay';
+import Opponents from './pages/Opponents';
+import OpponentDetail from './pages/OpponentDetail';
 import LiveTracking from './pages/LiveTracking';
 import Seasons from './pages/Seasons';
 import DataAnalysis from './pages/DataAnalysis';
 import Training from './pages/Training';
+import Settings from './pages/Settings';
 import DrillDesigner from './pages/Training/DrillDesigner';
 import DrillDesignerKonva from './pages/Training/DrillDesignerKonva';
 import PracticePlanner from './pages/Training/PracticePlanner';
 import ShotTracking from './pages/LiveTracking/ShotTracking';
 import DrawPlay from './pages/LiveTracking/DrawPlay';
 import QuickStats from './pages/LiveTracking/QuickStats';
+import LiveDisplay from './pages/LiveTracking/LiveDisplay';
+import Intermission from './pages/LiveTracking/Intermission';
 import { ToastProvider } from './contexts/ToastContext';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { Login } from './components/Login';
+import { useGameStore } from './stores/gameStore';
+import { isDisplayWindow } from './db';
 
 const AuthenticatedApp = () => {
+  const startOfflineSync = useGameStore(state => state.startOfflineSync);
+  const startSharedSession = useGameStore(state => state.startSharedSession);
+  const startDisplayFeed = useGameStore(state => state.startDisplayFeed);
+  const liveGameId = useGameStore(state => state.currentGame?.status === 'live' ? state.currentGame.id : null);
+
+  // Flush live tracking writes left in the outbox and restore a live game after a reload
+  useEffect(() => {
+    if (isDisplayWindow()) return;
+    return startOfflineSync();
+  }, [startOfflineSync]);
+
+  // Bench display windows follow this one; a display window only listens
+  useEffect(() => {
+    if (isDisplayWindow()) return;
+    return startDisplayFeed();
+  }, [startDisplayFeed]);
+
+  // Follow what another device tracking the same game records
+  useEffect(() => {
+    if (!liveGameId || isDisplayWindow()) return;
+    return startSharedSession(liveGameId);
+  }, [liveGameId, startSharedSession]);
+
   return (
     <Router>
       <Routes>
@@ -25,15 +62,26 @@ const AuthenticatedApp = () => {
         <Route path="/" element={<Layout><Home /></Layout>} />
         <Route path="/teams" element={<Layout><Teams /></Layout>} />
         <Route path="/games" element={<Layout><Games /></Layout>} />
+        <Route path="/games/:id/lineup" element={<Layout><GameLineup /></Layout>} />
+        <Route path="/games/:id/scouting" element={<Layout><ScoutingReport /></Layout>} />
+        <Route path="/games/:id/video" element={<Layout><VideoReview /></Layout>} />
+        <Route path="/games/:id/intermissions" element={<Layout><GameIntermissions /></Layout>} />
+        <Route path="/games/:id/edit" element={<Layout><GameEdit /></Layout>} />
+        <Route path="/games/:id/replay" element={<Layout><GameReplay /></Layout>} />
         <Route path="/live" element={<Layout><LiveTracking /></Layout>} />
+        <Route path="/opponents" element={<Layout><Opponents /></Layout>} />
+        <Route path="/opponents/:id" element={<Layout><OpponentDetail /></Layout>} />
         <Route path="/seasons" element={<Layout><Seasons /></Layout>} />
         <Route path="/analysis" element={<Layout><DataAnalysis /></Layout>} />
         <Route path="/training" element={<Layout><Training /></Layout>} />
+        <Route path="/settings" element={<Layout><Settings /></Layout>} />
         
         {/* Live tracking subpages */}
         <Route path="/live/tracking" element={<ShotTracking />} />
         <Route path="/live/draw" element={<DrawPlay />} />
         <Route path="/live/stats" element={<QuickStats />} />
+        <Route path="/live/display" element={<LiveDisplay />} />
+        <Route path="/live/intermission/:period" element={<Intermission />} />
         
         {/* Training subpages */}
         <Route path="/training/drill-designer" element={<DrillDesigner />} />
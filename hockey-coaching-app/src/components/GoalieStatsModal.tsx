@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { Shield, X } from 'lucide-react';
+import type { Game, GoalieGameStats, GoalieSeasonStats } from '../types';
+import { dbHelpers } from '../db';
+import { getFilteredGames, getGoalieGameStats } from '../lib/utils/analysis';
+import { aggregateGoalieStats } from '../utils/goalies';
+
+interface GoalieStatsModalProps {
+  title: string;
+  seasonId?: string;
+  teamId?: string;
+  onClose: () => void;
+}
+
+const formatMinutes = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Per-goalie minutes, GAA and save % for a season or a team
+const GoalieStatsModal: React.FC<GoalieStatsModalProps> = ({ title, seasonId, teamId, onClose }) => {
+  const [loading, setLoading] = useState(true);
+  const [games, setGames] = useState<Game[]>([]);
+  const [gameStats, setGameStats] = useState<GoalieGameStats[]>([]);
+  const [seasonStats, setSeasonStats] = useState<GoalieSeasonStats[]>([]);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      setLoading(true);
+      try {
+        const filteredGames = (await getFilteredGames({ seasonId, teamId }))
+          .filter(game => game.status !== 'planned');
+
+        // Goalie names come from the rosters of the teams involved
+        const teamIds = Array.from(new Set(filteredGames.map(game => game.homeTeamId)));
+        const rosters = await Promise.all(teamIds.map(id => dbHelpers.getPlayersByTeam(id).catch(() => [])));
+
+        const stats = await getGoalieGameStats(filteredGames, rosters.flat());
+        setGames(filteredGames);
+        setGameStats(stats);
+        setSeasonStats(aggregateGoalieStats(stats));
+      } catch (error) {
+        console.error('Error loading goalie stats:', error);
+        setGameStats([]);
+        setSeasonStats([]);
+      }
+      setLoading(false);
+    };
+
+    loadStats();
+  }, [seasonId, teamId]);
+
+  const getGameLabel = (gameId: string) => {
+    const game = games.find(g => g.id === gameId);
+    if (!game) return 'Unknown game';
+    return `${new Date(game.date).toLocaleDateString()} vs ${game.awayTeamName}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center space-x-2">
+            <Shield className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold">Goalie Stats - {title}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="text-gray-500">Loading goalie stats...</div>
+          </div>
+        ) : seasonStats.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">
+            No goalie time recorded yet. Set the goalie in net during live tracking to credit shots against.
+          </p>
+        ) : (
+          <>
+            {/* Totals */}
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-2 font-medium">Goalie</th>
+                  <th className="py-2 pr-2 font-medium text-right">GP</th>
+                  <th className="py-2 pr-2 font-medium text-right">MIN</th>
+                  <th className="py-2 pr-2 font-medium text-right">SA</th>
+                  <th className="py-2 pr-2 font-medium text-right">GA</th>
+                  <th className="py-2 pr-2 font-medium text-right">GAA</th>
+                  <th className="py-2 font-medium text-right">SV%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {seasonStats.map(stats => (
+                  <tr key={stats.goalieId} className="border-b last:border-0">
+                    <td className="py-2 pr-2 text-gray-900">#{stats.jerseyNumber} {stats.name}</td>
+                    <td className="py-2 pr-2 text-right">{stats.gamesPlayed}</td>
+                    <td className="py-2 pr-2 text-right">{formatMinutes(stats.secondsPlayed)}</td>
+                    <td className="py-2 pr-2 text-right">{stats.shotsAgainst}</td>
+                    <td className="py-2 pr-2 text-right">{stats.goalsAgainst}</td>
+                    <td className="py-2 pr-2 text-right">{stats.goalsAgainstAverage.toFixed(2)}</td>
+                    <td className="py-2 text-right font-semibold">{stats.savePercentage.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {/* Per game */}
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">By Game</h4>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-2 font-medium">Game</th>
+                  <th className="py-2 pr-2 font-medium">Goalie</th>
+                  <th className="py-2 pr-2 font-medium text-right">MIN</th>
+                  <th className="py-2 pr-2 font-medium text-right">SA</th>
+                  <th className="py-2 pr-2 font-medium text-right">GA</th>
+                  <th className="py-2 pr-2 font-medium text-right">GAA</th>
+                  <th className="py-2 font-medium text-right">SV%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {gameStats.map(stats => (
+                  <tr key={`${stats.gameId}-${stats.goalieId}`} className="border-b last:border-0">
+                    <td className="py-2 pr-2 text-gray-900">{getGameLabel(stats.gameId)}</td>
+                    <td className="py-2 pr-2">#{stats.jerseyNumber}</td>
+                    <td className="py-2 pr-2 text-right">{formatMinutes(stats.secondsPlayed)}</td>
+                    <td className="py-2 pr-2 text-right">{stats.shotsAgainst}</td>
+                    <td className="py-2 pr-2 text-right">{stats.goalsAgainst}</td>
+                    <td className="py-2 pr-2 text-right">{stats.goalsAgainstAverage.toFixed(2)}</td>
+                    <td className="py-2 text-right">{stats.savePercentage.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GoalieStatsModal;
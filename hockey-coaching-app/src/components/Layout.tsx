@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { Home, Users, Calendar, Play, Trophy, BarChart3, Target, LogOut, User } from 'lucide-react';
+import { Home, Users, Calendar, Play, Trophy, BarChart3, Target, LogOut, User, Settings, Shield } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useGameStore } from '../stores/gameStore';
@@ -73,6 +73,7 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
     { path: '/teams', icon: Users, label: 'Teams' },
     { path: '/seasons', icon: Trophy, label: 'Seasons' },
     { path: '/games', icon: Calendar, label: 'Games' },
+    { path: '/opponents', icon: Shield, label: 'Opponents' },
     { path: '/live', icon: Play, label: 'Live Tracking' },
     { path: '/training', icon: Target, label: 'Training' }
   ];
@@ -134,6 +135,14 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
                       <div className="font-medium">{currentUser?.displayName || 'User'}</div>
                       <div className="text-gray-500">{currentUser?.email}</div>
                     </div>
+                    <Link
+                      to="/settings"
+                      onClick={() => setShowUserMenu(false)}
+                      className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
+                    >
+                      <Settings className="w-4 h-4 mr-2" />
+                      Settings
+                    </Link>
                     <button
                       onClick={handleLogout}
                       className="flex items-center w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-100"
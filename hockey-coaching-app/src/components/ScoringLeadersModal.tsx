@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Medal, X } from 'lucide-react';
+import type { PlayerScoringStats } from '../types';
+import { dbHelpers } from '../db';
+import { getFilteredGames, getPlayerScoringStats } from '../lib/utils/analysis';
+
+interface ScoringLeadersModalProps {
+  title: string;
+  seasonId?: string;
+  teamId?: string;
+  onClose: () => void;
+}
+
+const formatPlusMinus = (plusMinus: number) => (plusMinus > 0 ? `+${plusMinus}` : `${plusMinus}`);
+
+// Goals, assists, points and plus/minus per player for a season or a team
+const ScoringLeadersModal: React.FC<ScoringLeadersModalProps> = ({ title, seasonId, teamId, onClose }) => {
+  const [loading, setLoading] = useState(true);
+  const [stats, setStats] = useState<PlayerScoringStats[]>([]);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      setLoading(true);
+      try {
+        const filteredGames = (await getFilteredGames({ seasonId, teamId }))
+          .filter(game => game.status !== 'planned');
+
+        // Player names come from the rosters of the teams involved
+        const teamIds = Array.from(new Set(filteredGames.map(game => game.homeTeamId)));
+        const rosters = await Promise.all(teamIds.map(id => dbHelpers.getPlayersByTeam(id).catch(() => [])));
+
+        setStats(await getPlayerScoringStats(filteredGames, rosters.flat()));
+      } catch (error) {
+        console.error('Error loading scoring leaders:', error);
+        setStats([]);
+      }
+      setLoading(false);
+    };
+
+    loadStats();
+  }, [seasonId, teamId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center space-x-2">
+            <Medal className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold">Scoring Leaders - {title}</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center items-center h-32">
+            <div className="text-gray-500">Loading scoring leaders...</div>
+          </div>
+        ) : stats.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">
+            No goals credited yet. Pick the scorer and assists on the goal detail sheet during live tracking.
+          </p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-2 font-medium">#</th>
+                <th className="py-2 pr-2 font-medium">Player</th>
+                <th className="py-2 pr-2 font-medium text-right">G</th>
+                <th className="py-2 pr-2 font-medium text-right">A</th>
+                <th className="py-2 pr-2 font-medium text-right">P</th>
+                <th className="py-2 pr-2 font-medium text-right">PPG</th>
+                <th className="py-2 pr-2 font-medium text-right">SHG</th>
+                <th className="py-2 font-medium text-right">+/-</th>
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map((player, index) => (
+                <tr key={player.playerId} className="border-b last:border-0">
+                  <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                  <td className="py-2 pr-2 text-gray-900">#{player.jerseyNumber} {player.name}</td>
+                  <td className="py-2 pr-2 text-right">{player.goals}</td>
+                  <td className="py-2 pr-2 text-right">{player.assists}</td>
+                  <td className="py-2 pr-2 text-right font-semibold">{player.points}</td>
+                  <td className="py-2 pr-2 text-right">{player.powerPlayGoals}</td>
+                  <td className="py-2 pr-2 text-right">{player.shorthandedGoals}</td>
+                  <td className={`py-2 text-right ${
+                    player.plusMinus > 0 ? 'text-green-600' : player.plusMinus < 0 ? 'text-red-600' : ''
+                  }`}>
+                    {formatPlusMinus(player.plusMinus)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScoringLeadersModal;
@@ -1,19 +1,27 @@
 import React from 'react';
 import { Target, TrendingUp, TrendingDown, Minus, Home, Plane } from 'lucide-react';
-import type { ShotResult, AnalysisFilters } from '../../types';
+import type { ShotResult, AnalysisFilters, Player, StrengthState, ShotType, ShotContext } from '../../types';
+import { STRENGTH_LABELS } from '../../utils/penalties';
+import { SHOT_CONTEXTS, SHOT_CONTEXT_LABELS, SHOT_TYPES, SHOT_TYPE_LABELS } from '../../utils/shotTags';
 
 interface AdvancedFiltersProps {
   filters: AnalysisFilters;
   onFiltersChange: (filters: AnalysisFilters) => void;
   gameCount: number;
+  players?: Player[];
 }
 
 const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
   filters,
   onFiltersChange,
-  gameCount
+  gameCount,
+  players = []
 }) => {
   const selectedShotResults = filters.shotResults || [];
+  const selectedShooterIds = filters.shooterIds || [];
+  const selectedStrengths = filters.strengths || [];
+  const selectedShotTypes = filters.shotTypes || [];
+  const selectedShotContexts = filters.shotContexts || [];
   const scoreSituation = filters.scoreSituation || 'all';
   const showGoalsAgainst = false; // This could be added to filters later
   const shotResults: { value: ShotResult; label: string; color: string; icon: React.ReactNode }[] = [
@@ -95,6 +103,56 @@ const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
     });
   };
 
+  const handleStrengthToggle = (strength: StrengthState) => {
+    const newStrengths = selectedStrengths.includes(strength)
+      ? selectedStrengths.filter(s => s !== strength)
+      : [...selectedStrengths, strength];
+
+    onFiltersChange({
+      ...filters,
+      strengths: newStrengths
+    });
+  };
+
+  const handleShotTypeToggle = (shotType: ShotType) => {
+    const newShotTypes = selectedShotTypes.includes(shotType)
+      ? selectedShotTypes.filter(t => t !== shotType)
+      : [...selectedShotTypes, shotType];
+
+    onFiltersChange({
+      ...filters,
+      shotTypes: newShotTypes
+    });
+  };
+
+  const handleShotContextToggle = (context: ShotContext) => {
+    const newShotContexts = selectedShotContexts.includes(context)
+      ? selectedShotContexts.filter(c => c !== context)
+      : [...selectedShotContexts, context];
+
+    onFiltersChange({
+      ...filters,
+      shotContexts: newShotContexts
+    });
+  };
+
+  const handleScreenedChange = (screened?: boolean) => {
+    const newFilters = { ...filters, screened };
+    if (screened === undefined) delete newFilters.screened;
+    onFiltersChange(newFilters);
+  };
+
+  const handleShooterToggle = (playerId: string) => {
+    const newShooterIds = selectedShooterIds.includes(playerId)
+      ? selectedShooterIds.filter(id => id !== playerId)
+      : [...selectedShooterIds, playerId];
+
+    onFiltersChange({
+      ...filters,
+      shooterIds: newShooterIds
+    });
+  };
+
   return (
     <div className="space-y-4">
       {/* Shot Results Filter */}
@@ -156,6 +214,154 @@ const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
         </div>
       </div>
 
+      {/* Strength Filter */}
+      <div className="space-y-3 border-t pt-3">
+        <h4 className="text-sm font-medium text-gray-700">Strength</h4>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(STRENGTH_LABELS) as StrengthState[]).map((strength) => {
+            const isSelected = selectedStrengths.includes(strength);
+
+            return (
+              <button
+                key={strength}
+                onClick={() => handleStrengthToggle(strength)}
+                title={STRENGTH_LABELS[strength]}
+                className={`px-3 py-2 text-xs font-medium rounded-lg border transition-colors ${
+                  isSelected
+                    ? 'bg-blue-100 text-blue-700 border-blue-200'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400 hover:bg-blue-50'
+                }`}
+              >
+                {strength}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Shot Tag Filters */}
+      <div className="space-y-3 border-t pt-3">
+        <h4 className="text-sm font-medium text-gray-700">Shot Type</h4>
+
+        <div className="grid grid-cols-3 gap-2">
+          {SHOT_TYPES.map((shotType) => {
+            const isSelected = selectedShotTypes.includes(shotType);
+
+            return (
+              <button
+                key={shotType}
+                onClick={() => handleShotTypeToggle(shotType)}
+                className={`px-3 py-2 text-xs font-medium rounded-lg border transition-colors ${
+                  isSelected
+                    ? 'bg-blue-100 text-blue-700 border-blue-200'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400 hover:bg-blue-50'
+                }`}
+              >
+                {SHOT_TYPE_LABELS[shotType]}
+              </button>
+            );
+          })}
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-700">Context</h4>
+
+        <div className="grid grid-cols-2 gap-2">
+          {SHOT_CONTEXTS.map((context) => {
+            const isSelected = selectedShotContexts.includes(context);
+
+            return (
+              <button
+                key={context}
+                onClick={() => handleShotContextToggle(context)}
+                className={`px-3 py-2 text-xs font-medium rounded-lg border transition-colors ${
+                  isSelected
+                    ? 'bg-blue-100 text-blue-700 border-blue-200'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400 hover:bg-blue-50'
+                }`}
+              >
+                {SHOT_CONTEXT_LABELS[context]}
+              </button>
+            );
+          })}
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-700">Screened</h4>
+
+        <div className="grid grid-cols-3 gap-2">
+          {([
+            { value: undefined, label: 'All' },
+            { value: true, label: 'Yes' },
+            { value: false, label: 'No' }
+          ] as { value?: boolean; label: string }[]).map((option) => {
+            const isSelected = filters.screened === option.value;
+
+            return (
+              <button
+                key={option.label}
+                onClick={() => handleScreenedChange(option.value)}
+                className={`px-3 py-2 text-xs font-medium rounded-lg border transition-colors ${
+                  isSelected
+                    ? 'bg-blue-100 text-blue-700 border-blue-200'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400 hover:bg-blue-50'
+                }`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+
+        {(selectedShotTypes.length > 0 || selectedShotContexts.length > 0 || filters.screened !== undefined) && (
+          <div className="text-xs text-gray-500 p-2 bg-gray-50 rounded">
+            Shots without the selected tags are left out
+          </div>
+        )}
+      </div>
+
+      {/* Shooter Filter */}
+      {players.length > 0 && (
+        <div className="space-y-3 border-t pt-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-gray-700">Shooters</h4>
+            {selectedStrengths.length > 0 && (
+            <div className="text-xs text-blue-600">
+              Strength: {selectedStrengths.join(', ')}
+            </div>
+          )}
+          {selectedShooterIds.length > 0 && (
+              <button
+                onClick={() => onFiltersChange({ ...filters, shooterIds: [] })}
+                className="text-xs text-gray-600 hover:text-gray-800"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-5 gap-1">
+            {players.map((player) => {
+              const isSelected = selectedShooterIds.includes(player.id);
+
+              return (
+                <button
+                  key={player.id}
+                  onClick={() => handleShooterToggle(player.id)}
+                  title={`${player.firstName} ${player.lastName}`}
+                  className={`px-2 py-1 text-xs font-medium rounded border transition-colors ${
+                    isSelected
+                      ? 'bg-blue-100 text-blue-700 border-blue-200'
+                      : 'bg-white text-gray-700 border-gray-300 hover:border-blue-400 hover:bg-blue-50'
+                  }`}
+                >
+                  #{player.jerseyNumber}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Score Situation Filter */}
       <div className="space-y-3 border-t pt-3">
         <h4 className="text-sm font-medium text-gray-700">Game Situation</h4>
@@ -210,12 +416,35 @@ const AdvancedFilters: React.FC<AdvancedFiltersProps> = ({
               Situation: {scoreSituation}
             </div>
           )}
+          {selectedShooterIds.length > 0 && (
+            <div className="text-xs text-blue-600">
+              Shooters: {players
+                .filter(player => selectedShooterIds.includes(player.id))
+                .map(player => `#${player.jerseyNumber}`)
+                .join(', ')}
+            </div>
+          )}
+          {selectedShotTypes.length > 0 && (
+            <div className="text-xs text-blue-600">
+              Shot types: {selectedShotTypes.map(shotType => SHOT_TYPE_LABELS[shotType]).join(', ')}
+            </div>
+          )}
+          {selectedShotContexts.length > 0 && (
+            <div className="text-xs text-blue-600">
+              Context: {selectedShotContexts.map(context => SHOT_CONTEXT_LABELS[context]).join(', ')}
+            </div>
+          )}
+          {filters.screened !== undefined && (
+            <div className="text-xs text-blue-600">
+              {filters.screened ? 'Screened shots' : 'Unscreened shots'}
+            </div>
+          )}
           {showGoalsAgainst && (
             <div className="text-xs text-blue-600">
               Including goals against
             </div>
           )}
-          {selectedShotResults.length === 0 && scoreSituation === 'all' && !showGoalsAgainst && (
+          {selectedShotResults.length === 0 && scoreSituation === 'all' && selectedShooterIds.length === 0 && selectedStrengths.length === 0 && selectedShotTypes.length === 0 && selectedShotContexts.length === 0 && filters.screened === undefined && !showGoalsAgainst && (
             <div className="text-xs text-gray-500">No advanced filters active</div>
           )}
         </div>
@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Flag } from 'lucide-react';
+import type { Player } from '../../types';
+import { getCustomEventCounts, type NormalizedCustomEvent } from '../../utils/customEvents';
+
+interface CustomEventsBreakdownProps {
+  events: NormalizedCustomEvent[];
+  players: Player[];
+  gameCount: number;
+  className?: string;
+}
+
+// Counts of the coach's own events, filterable by event, with locations and players
+const CustomEventsBreakdown: React.FC<CustomEventsBreakdownProps> = ({
+  events,
+  players,
+  gameCount,
+  className = ''
+}) => {
+  const [selectedTypeIds, setSelectedTypeIds] = useState<string[]>([]);
+  const counts = useMemo(() => getCustomEventCounts(events, gameCount), [events, gameCount]);
+
+  const selectedEvents = useMemo(() => {
+    if (selectedTypeIds.length === 0) return events;
+    return events.filter(event => selectedTypeIds.includes(event.customTypeId));
+  }, [events, selectedTypeIds]);
+
+  const locatedEvents = selectedEvents.filter(event => event.normalizedX !== undefined);
+
+  const playerCounts = useMemo(() => {
+    const byPlayer = new Map<string, number>();
+    selectedEvents.forEach(event => {
+      if (event.playerId) byPlayer.set(event.playerId, (byPlayer.get(event.playerId) || 0) + 1);
+    });
+    return [...byPlayer.entries()]
+      .map(([playerId, count]) => ({ player: players.find(p => p.id === playerId), playerId, count }))
+      .sort((a, b) => b.count - a.count);
+  }, [selectedEvents, players]);
+
+  const toggleType = (customTypeId: string) => {
+    setSelectedTypeIds(selectedTypeIds.includes(customTypeId)
+      ? selectedTypeIds.filter(id => id !== customTypeId)
+      : [...selectedTypeIds, customTypeId]);
+  };
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Flag className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Custom Events</h3>
+        </div>
+        {selectedTypeIds.length > 0 && (
+          <button onClick={() => setSelectedTypeIds([])} className="text-xs text-blue-600 hover:text-blue-800">
+            Show all
+          </button>
+        )}
+      </div>
+
+      {events.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          No custom events recorded yet. Add your own event buttons in Settings.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* Counts, click to filter */}
+          <table className="w-full text-sm self-start">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-2 font-medium">Event</th>
+                <th className="py-2 pr-2 font-medium text-right">Total</th>
+                <th className="py-2 font-medium text-right">Per Game</th>
+              </tr>
+            </thead>
+            <tbody>
+              {counts.map(count => (
+                <tr
+                  key={count.customTypeId}
+                  onClick={() => toggleType(count.customTypeId)}
+                  className={`border-b last:border-0 cursor-pointer ${
+                    selectedTypeIds.includes(count.customTypeId) ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <td className="py-2 pr-2 text-gray-900">{count.label}</td>
+                  <td className="py-2 pr-2 text-right">{count.count}</td>
+                  <td className="py-2 text-right font-semibold">{count.perGame.toFixed(1)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* Locations */}
+          <div>
+            <div
+              className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+              style={{
+                backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+                backgroundSize: 'contain',
+                aspectRatio: '2/1'
+              }}
+            >
+              {locatedEvents.map(event => (
+                <div
+                  key={event.id}
+                  className="absolute w-2.5 h-2.5 rounded-full bg-blue-600 transform -translate-x-1/2 -translate-y-1/2 border border-white"
+                  style={{ left: `${event.normalizedX! * 100}%`, top: `${event.normalizedY! * 100}%` }}
+                  title={`${event.label} - Period ${event.period}`}
+                />
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              {locatedEvents.length} of {selectedEvents.length} with a location, attacking right
+            </p>
+          </div>
+
+          {/* Players */}
+          <div>
+            {playerCounts.length === 0 ? (
+              <p className="text-sm text-gray-500">No players attributed</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-2 font-medium">Player</th>
+                    <th className="py-2 font-medium text-right">Events</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {playerCounts.map(({ player, playerId, count }) => (
+                    <tr key={playerId} className="border-b last:border-0">
+                      <td className="py-2 pr-2 text-gray-900">
+                        {player ? `#${player.jerseyNumber} ${player.firstName} ${player.lastName}` : 'Unknown player'}
+                      </td>
+                      <td className="py-2 text-right font-semibold">{count}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomEventsBreakdown;
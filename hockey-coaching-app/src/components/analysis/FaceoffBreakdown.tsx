@@ -0,0 +1,126 @@
+import React, { useMemo } from 'react';
+import { Crosshair } from 'lucide-react';
+import type { GameEvent, Player } from '../../types';
+import {
+  FACEOFF_DOT_LABELS,
+  calculateFaceoffStats,
+  getFaceoffDetails,
+  getFaceoffStatsByDot,
+  getFaceoffStatsByPeriod,
+  getFaceoffStatsByPlayer,
+  isFaceoffEvent,
+  type FaceoffStats
+} from '../../utils/faceoffs';
+
+interface FaceoffBreakdownProps {
+  events: GameEvent[];
+  players: Player[];
+  getPeriodLabel?: (period: number) => string;
+  className?: string;
+}
+
+const percentageColor = (percentage: number) =>
+  percentage >= 55 ? 'text-green-600' : percentage < 45 ? 'text-red-600' : 'text-gray-900';
+
+const StatsRow: React.FC<{ label: React.ReactNode; stats: FaceoffStats }> = ({ label, stats }) => (
+  <tr className="border-b last:border-0">
+    <td className="py-2 pr-4 text-gray-900">{label}</td>
+    <td className="py-2 pr-4 text-right">{stats.wins}-{stats.losses}</td>
+    <td className={`py-2 text-right font-semibold ${percentageColor(stats.percentage)}`}>
+      {stats.percentage.toFixed(0)}%
+    </td>
+  </tr>
+);
+
+const StatsTable: React.FC<{ title: string; children: React.ReactNode; isEmpty: boolean; emptyText: string }> = ({
+  title,
+  children,
+  isEmpty,
+  emptyText
+}) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-600 mb-2">{title}</h4>
+    {isEmpty ? (
+      <div className="text-xs text-gray-500 py-2">{emptyText}</div>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-2 pr-4 font-medium"></th>
+            <th className="py-2 pr-4 font-medium text-right">W-L</th>
+            <th className="py-2 font-medium text-right">FO%</th>
+          </tr>
+        </thead>
+        <tbody>{children}</tbody>
+      </table>
+    )}
+  </div>
+);
+
+// Faceoff % by dot, by player and by period
+const FaceoffBreakdown: React.FC<FaceoffBreakdownProps> = ({
+  events,
+  players,
+  getPeriodLabel = (period) => `Period ${period}`,
+  className = ''
+}) => {
+  const faceoffs = useMemo(() => events.filter(isFaceoffEvent), [events]);
+  const totals = useMemo(() => calculateFaceoffStats(faceoffs), [faceoffs]);
+  const dotStats = useMemo(() => getFaceoffStatsByDot(faceoffs), [faceoffs]);
+  const playerStats = useMemo(() => getFaceoffStatsByPlayer(faceoffs, players), [faceoffs, players]);
+  const periodStats = useMemo(() => getFaceoffStatsByPeriod(faceoffs), [faceoffs]);
+  const withoutDot = faceoffs.filter(event => !getFaceoffDetails(event).dot).length;
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Crosshair className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Faceoffs</h3>
+          {totals.total > 0 && (
+            <span className="text-sm text-gray-500">
+              {totals.wins}-{totals.losses} ({totals.percentage.toFixed(0)}%)
+            </span>
+          )}
+        </div>
+        {withoutDot > 0 && (
+          <span className="text-xs text-gray-500">
+            {withoutDot} faceoff{withoutDot !== 1 ? 's' : ''} without dot
+          </span>
+        )}
+      </div>
+
+      {totals.total === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          No faceoffs tracked yet. Record them from the faceoff ribbon during live tracking.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <StatsTable title="By Dot" isEmpty={dotStats.length === 0} emptyText="Pick the dot before recording the draw">
+            {dotStats.map(stats => (
+              <StatsRow key={stats.dot} label={FACEOFF_DOT_LABELS[stats.dot]} stats={stats} />
+            ))}
+          </StatsTable>
+
+          <StatsTable title="By Player" isEmpty={playerStats.length === 0} emptyText="Pick who took the draw">
+            {playerStats.map(stats => (
+              <StatsRow
+                key={stats.playerId}
+                label={stats.jerseyNumber !== undefined ? `#${stats.jerseyNumber} ${stats.name}` : stats.name}
+                stats={stats}
+              />
+            ))}
+          </StatsTable>
+
+          <StatsTable title="By Period" isEmpty={periodStats.length === 0} emptyText="No faceoffs">
+            {periodStats.map(stats => (
+              <StatsRow key={stats.period} label={getPeriodLabel(stats.period)} stats={stats} />
+            ))}
+          </StatsTable>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FaceoffBreakdown;
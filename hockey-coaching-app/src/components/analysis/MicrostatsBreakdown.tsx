@@ -0,0 +1,159 @@
+import React, { useMemo, useState } from 'react';
+import { Activity } from 'lucide-react';
+import type { MicrostatType } from '../../types';
+import {
+  MICROSTAT_LABELS,
+  MICROSTAT_TYPES,
+  TRANSITION_LABELS,
+  calculateMicrostatRates,
+  hasTransition,
+  type NormalizedMicrostat
+} from '../../utils/microstats';
+
+interface MicrostatsBreakdownProps {
+  microstats: NormalizedMicrostat[];
+  gameCount: number;
+  className?: string;
+}
+
+const typeColors: Record<MicrostatType, string> = {
+  zone_entry: '#16a34a',
+  zone_exit: '#2563eb',
+  turnover: '#dc2626',
+  takeaway: '#0d9488',
+  hit: '#9333ea'
+};
+
+const DUMP_COLOR = '#f97316';
+
+const getDotColor = (microstat: NormalizedMicrostat) =>
+  microstat.transition === 'dump' ? DUMP_COLOR : typeColors[microstat.type];
+
+// Rink map per microstat type, with entry/exit control rates and per-game counts
+const MicrostatsBreakdown: React.FC<MicrostatsBreakdownProps> = ({
+  microstats,
+  gameCount,
+  className = ''
+}) => {
+  const [selectedType, setSelectedType] = useState<MicrostatType>('zone_entry');
+  const rates = useMemo(() => calculateMicrostatRates(microstats, gameCount), [microstats, gameCount]);
+  const mapped = useMemo(
+    () => microstats.filter(microstat => microstat.type === selectedType),
+    [microstats, selectedType]
+  );
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center space-x-2 mb-4">
+        <Activity className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Microstats</h3>
+      </div>
+
+      {microstats.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          No microstats tracked yet. Turn on microstats mode during live tracking.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+          {/* Map */}
+          <div className="xl:col-span-2">
+            <div className="flex flex-wrap gap-2 mb-3">
+              {MICROSTAT_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setSelectedType(type)}
+                  className={`px-3 py-1 rounded-md text-sm transition-colors ${
+                    selectedType === type
+                      ? 'bg-blue-600 text-white font-medium'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {MICROSTAT_LABELS[type]} ({rates.counts[type]})
+                </button>
+              ))}
+            </div>
+
+            <div
+              className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+              style={{
+                backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+                backgroundSize: 'contain',
+                aspectRatio: '2/1',
+                minHeight: '200px'
+              }}
+            >
+              {mapped.map(microstat => (
+                <div
+                  key={microstat.id}
+                  className="absolute w-2.5 h-2.5 rounded-full transform -translate-x-1/2 -translate-y-1/2 border border-white"
+                  style={{
+                    backgroundColor: getDotColor(microstat),
+                    left: `${microstat.normalizedX * 100}%`,
+                    top: `${microstat.normalizedY * 100}%`
+                  }}
+                  title={`${microstat.transition ? `${TRANSITION_LABELS[microstat.transition]} - ` : ''}Period ${microstat.period}`}
+                />
+              ))}
+
+              <div className="absolute bottom-2 left-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
+                Attacking right
+              </div>
+            </div>
+
+            {hasTransition(selectedType) && (
+              <div className="flex justify-center space-x-6 mt-3 text-sm">
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: typeColors[selectedType] }}></div>
+                  <span>{TRANSITION_LABELS.controlled}</span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: DUMP_COLOR }}></div>
+                  <span>{TRANSITION_LABELS.dump}</span>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Rates */}
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 text-center">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-2xl font-bold text-green-600">{rates.controlledEntryPercentage.toFixed(0)}%</div>
+                <div className="text-xs text-gray-600">Controlled Entries</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <div className="text-2xl font-bold text-blue-600">{rates.controlledExitPercentage.toFixed(0)}%</div>
+                <div className="text-xs text-gray-600">Controlled Exits</div>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3 col-span-2">
+                <div className="text-2xl font-bold text-teal-600">{rates.takeawayRatio.toFixed(2)}</div>
+                <div className="text-xs text-gray-600">Takeaways per Turnover</div>
+              </div>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-2 font-medium">Play</th>
+                  <th className="py-2 pr-2 font-medium text-right">Total</th>
+                  <th className="py-2 font-medium text-right">Per Game</th>
+                </tr>
+              </thead>
+              <tbody>
+                {MICROSTAT_TYPES.map(type => (
+                  <tr key={type} className="border-b last:border-0">
+                    <td className="py-2 pr-2 text-gray-900">{MICROSTAT_LABELS[type]}</td>
+                    <td className="py-2 pr-2 text-right">{rates.counts[type]}</td>
+                    <td className="py-2 text-right font-semibold">{rates.perGame[type].toFixed(1)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MicrostatsBreakdown;
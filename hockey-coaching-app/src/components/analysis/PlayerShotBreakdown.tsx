@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { User } from 'lucide-react';
+import type { Player, Shot } from '../../types';
+import { calculatePlayerShotStats } from '../../lib/utils/analysis';
+
+interface PlayerShotBreakdownProps {
+  shots: Shot[];
+  players: Player[];
+  className?: string;
+}
+
+const PlayerShotBreakdown: React.FC<PlayerShotBreakdownProps> = ({
+  shots,
+  players,
+  className = ''
+}) => {
+  const playerStats = useMemo(() => calculatePlayerShotStats(shots, players), [shots, players]);
+  const unattributedShots = shots.filter(shot => !shot.shooterId).length;
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <User className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Player Breakdown</h3>
+        </div>
+        {unattributedShots > 0 && (
+          <span className="text-xs text-gray-500">
+            {unattributedShots} shot{unattributedShots !== 1 ? 's' : ''} without shooter
+          </span>
+        )}
+      </div>
+
+      {playerStats.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          No shots attributed to players yet. Pick the shooter after each shot during live tracking.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4 font-medium">#</th>
+                <th className="py-2 pr-4 font-medium">Player</th>
+                <th className="py-2 pr-4 font-medium text-right">Shots</th>
+                <th className="py-2 pr-4 font-medium text-right">G</th>
+                <th className="py-2 pr-4 font-medium text-right">A</th>
+                <th className="py-2 pr-4 font-medium text-right">Pts</th>
+                <th className="py-2 font-medium text-right">Sh%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {playerStats.map(stats => (
+                <tr key={stats.playerId} className="border-b last:border-0">
+                  <td className="py-2 pr-4 font-bold text-gray-900">{stats.jerseyNumber}</td>
+                  <td className="py-2 pr-4 text-gray-900">{stats.name}</td>
+                  <td className="py-2 pr-4 text-right">{stats.shots}</td>
+                  <td className="py-2 pr-4 text-right text-green-600 font-medium">{stats.goals}</td>
+                  <td className="py-2 pr-4 text-right">{stats.assists}</td>
+                  <td className="py-2 pr-4 text-right font-semibold">{stats.points}</td>
+                  <td className="py-2 text-right">{stats.shootingPercentage.toFixed(1)}%</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlayerShotBreakdown;
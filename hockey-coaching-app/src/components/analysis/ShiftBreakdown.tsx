@@ -0,0 +1,65 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import type { PlayerShiftStats } from '../../types';
+import { LONG_SHIFT_SECONDS } from '../../utils/shifts';
+
+interface ShiftBreakdownProps {
+  stats: PlayerShiftStats[];
+  className?: string;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const plusMinusColor = (plusMinus: number) =>
+  plusMinus > 0 ? 'text-green-600' : plusMinus < 0 ? 'text-red-600' : 'text-gray-900';
+
+// Time on ice, shifts and plus/minus per player, from the bench line changes
+const ShiftBreakdown: React.FC<ShiftBreakdownProps> = ({ stats, className = '' }) => {
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center space-x-2 mb-4">
+        <Users className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Time on Ice</h3>
+      </div>
+
+      {stats.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">
+          No shifts tracked yet. Set up lines on the bench panel and tap them as they go out.
+        </div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-4 font-medium">Player</th>
+              <th className="py-2 pr-4 font-medium text-right">TOI</th>
+              <th className="py-2 pr-4 font-medium text-right">Shifts</th>
+              <th className="py-2 pr-4 font-medium text-right">Avg Shift</th>
+              <th className="py-2 font-medium text-right">+/-</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map(player => (
+              <tr key={player.playerId} className="border-b last:border-0">
+                <td className="py-2 pr-4 text-gray-900">#{player.jerseyNumber} {player.name}</td>
+                <td className="py-2 pr-4 text-right font-semibold">{formatTime(player.timeOnIce)}</td>
+                <td className="py-2 pr-4 text-right">{player.shifts}</td>
+                <td className={`py-2 pr-4 text-right ${player.averageShift >= LONG_SHIFT_SECONDS ? 'text-red-600' : ''}`}>
+                  {formatTime(player.averageShift)}
+                </td>
+                <td className={`py-2 text-right font-semibold ${plusMinusColor(player.plusMinus)}`}>
+                  {player.plusMinus > 0 ? `+${player.plusMinus}` : player.plusMinus}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ShiftBreakdown;
@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import { Tag } from 'lucide-react';
+import type { Shot, ShotTagStats } from '../../types';
+import { calculateShotTagStats } from '../../lib/utils/analysis';
+
+interface ShotTagBreakdownProps {
+  shots: Shot[];
+  className?: string;
+}
+
+const TagTable: React.FC<{ title: string; stats: ShotTagStats[] }> = ({ title, stats }) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+    {stats.length === 0 ? (
+      <p className="text-sm text-gray-500">No tagged shots</p>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600 border-b">
+            <th className="py-2 pr-2 font-medium">Tag</th>
+            <th className="py-2 pr-2 font-medium text-right">Shots</th>
+            <th className="py-2 pr-2 font-medium text-right">Goals</th>
+            <th className="py-2 font-medium text-right">Sh%</th>
+          </tr>
+        </thead>
+        <tbody>
+          {stats.map(tagStats => (
+            <tr key={tagStats.tag} className="border-b last:border-0">
+              <td className="py-2 pr-2 text-gray-900">{tagStats.label}</td>
+              <td className="py-2 pr-2 text-right">{tagStats.shots}</td>
+              <td className="py-2 pr-2 text-right">{tagStats.goals}</td>
+              <td className="py-2 text-right font-semibold">{tagStats.shootingPercentage.toFixed(0)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const ShotTagBreakdown: React.FC<ShotTagBreakdownProps> = ({
+  shots,
+  className = ''
+}) => {
+  const tagStats = useMemo(() => calculateShotTagStats(shots), [shots]);
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Tag className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Shot Tags</h3>
+        </div>
+        {tagStats.untagged > 0 && (
+          <span className="text-xs text-gray-500">
+            {tagStats.untagged} shot{tagStats.untagged !== 1 ? 's' : ''} without tags
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <TagTable title="Shot Type" stats={tagStats.shotTypes} />
+        <TagTable title="Context" stats={tagStats.contexts} />
+        <TagTable title="Screened" stats={tagStats.screened} />
+      </div>
+    </div>
+  );
+};
+
+export default ShotTagBreakdown;
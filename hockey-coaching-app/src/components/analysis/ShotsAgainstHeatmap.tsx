@@ -0,0 +1,144 @@
+import React, { useMemo } from 'react';
+import { Shield } from 'lucide-react';
+import type { Player } from '../../types';
+import type { NormalizedShotAgainst } from '../../utils/shotNormalization';
+import { calculateGoalieStats, calculateSavePercentage, getShotColor } from '../../lib/utils/analysis';
+
+interface ShotsAgainstHeatmapProps {
+  shotsAgainst: NormalizedShotAgainst[];
+  players: Player[];
+  className?: string;
+}
+
+// Heatmap grid resolution (columns x rows over the whole rink)
+const GRID_COLUMNS = 12;
+const GRID_ROWS = 6;
+
+const ShotsAgainstHeatmap: React.FC<ShotsAgainstHeatmapProps> = ({
+  shotsAgainst,
+  players,
+  className = ''
+}) => {
+  const heatCells = useMemo(() => {
+    const counts: number[][] = Array.from({ length: GRID_ROWS }, () => Array(GRID_COLUMNS).fill(0));
+
+    shotsAgainst.forEach(shot => {
+      const column = Math.min(GRID_COLUMNS - 1, Math.floor(shot.normalizedX * GRID_COLUMNS));
+      const row = Math.min(GRID_ROWS - 1, Math.floor(shot.normalizedY * GRID_ROWS));
+      counts[row][column]++;
+    });
+
+    const max = Math.max(1, ...counts.flat());
+    return counts.flatMap((rowCounts, row) =>
+      rowCounts.map((count, column) => ({ row, column, count, intensity: count / max }))
+    );
+  }, [shotsAgainst]);
+
+  const goalieStats = useMemo(() => calculateGoalieStats(shotsAgainst, players), [shotsAgainst, players]);
+  const savePercentage = calculateSavePercentage(shotsAgainst);
+  const goals = shotsAgainst.filter(s => s.result === 'goal').length;
+  const saves = shotsAgainst.filter(s => s.result === 'save').length;
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center space-x-2 mb-4">
+        <Shield className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Shots Against</h3>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        {/* Heatmap */}
+        <div className="xl:col-span-2">
+          <div
+            data-shots-against-chart
+            className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+            style={{
+              backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+              backgroundSize: 'contain',
+              aspectRatio: '2/1',
+              minHeight: '200px'
+            }}
+          >
+            {heatCells.filter(cell => cell.count > 0).map(cell => (
+              <div
+                key={`${cell.row}-${cell.column}`}
+                className="absolute pointer-events-none"
+                style={{
+                  left: `${(cell.column / GRID_COLUMNS) * 100}%`,
+                  top: `${(cell.row / GRID_ROWS) * 100}%`,
+                  width: `${100 / GRID_COLUMNS}%`,
+                  height: `${100 / GRID_ROWS}%`,
+                  backgroundColor: `rgba(239, 68, 68, ${0.15 + cell.intensity * 0.55})`
+                }}
+              />
+            ))}
+
+            {shotsAgainst.map(shot => (
+              <div
+                key={shot.id}
+                className="absolute w-2.5 h-2.5 rounded-full transform -translate-x-1/2 -translate-y-1/2 border border-white"
+                style={{
+                  backgroundColor: shot.result === 'goal' ? '#991b1b' : getShotColor(shot.result),
+                  left: `${shot.normalizedX * 100}%`,
+                  top: `${shot.normalizedY * 100}%`
+                }}
+                title={`${shot.result.charAt(0).toUpperCase() + shot.result.slice(1)} - Period ${shot.period}`}
+              />
+            ))}
+
+            <div className="absolute bottom-2 left-2 bg-black bg-opacity-75 text-white text-xs px-2 py-1 rounded">
+              {shotsAgainst.length} shots against
+            </div>
+          </div>
+        </div>
+
+        {/* Goaltending summary */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-gray-50 rounded-lg p-3">
+              <div className="text-2xl font-bold text-gray-900">{saves + goals}</div>
+              <div className="text-xs text-gray-600">On Goal</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <div className="text-2xl font-bold text-red-600">{goals}</div>
+              <div className="text-xs text-gray-600">Goals</div>
+            </div>
+            <div className="bg-gray-50 rounded-lg p-3">
+              <div className="text-2xl font-bold text-blue-600">{savePercentage.toFixed(1)}%</div>
+              <div className="text-xs text-gray-600">Save %</div>
+            </div>
+          </div>
+
+          {goalieStats.length > 0 ? (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-2 font-medium">Goalie</th>
+                  <th className="py-2 pr-2 font-medium text-right">SA</th>
+                  <th className="py-2 pr-2 font-medium text-right">GA</th>
+                  <th className="py-2 font-medium text-right">SV%</th>
+                </tr>
+              </thead>
+              <tbody>
+                {goalieStats.map(stats => (
+                  <tr key={stats.goalieId} className="border-b last:border-0">
+                    <td className="py-2 pr-2 text-gray-900">#{stats.jerseyNumber} {stats.name}</td>
+                    <td className="py-2 pr-2 text-right">{stats.shotsAgainst}</td>
+                    <td className="py-2 pr-2 text-right">{stats.goalsAgainst}</td>
+                    <td className="py-2 text-right font-semibold">{stats.savePercentage.toFixed(1)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <p className="text-sm text-gray-500">
+              No goalie attributed yet. Add goalies (position G) to the roster to credit them during tracking.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShotsAgainstHeatmap;
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { Zap } from 'lucide-react';
+import type { GoalAgainst, Shot, StrengthState } from '../../types';
+import { calculateStrengthStats } from '../../lib/utils/analysis';
+import { STRENGTH_LABELS } from '../../utils/penalties';
+
+interface SpecialTeamsBreakdownProps {
+  shots: Shot[];
+  goalsAgainst: GoalAgainst[];
+  className?: string;
+}
+
+const stateColors: Record<StrengthState, string> = {
+  EV: 'bg-gray-50 border-gray-200 text-gray-700',
+  PP: 'bg-green-50 border-green-200 text-green-700',
+  SH: 'bg-red-50 border-red-200 text-red-700'
+};
+
+const SpecialTeamsBreakdown: React.FC<SpecialTeamsBreakdownProps> = ({
+  shots,
+  goalsAgainst,
+  className = ''
+}) => {
+  const strengthStats = useMemo(
+    () => calculateStrengthStats(shots, goalsAgainst),
+    [shots, goalsAgainst]
+  );
+  const untaggedShots = shots.filter(shot => !shot.strength).length;
+
+  return (
+    <div className={`p-6 ${className}`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Zap className="w-5 h-5 text-gray-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Special Teams</h3>
+        </div>
+        {untaggedShots > 0 && (
+          <span className="text-xs text-gray-500">
+            {untaggedShots} shot{untaggedShots !== 1 ? 's' : ''} tracked before penalty tracking
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {strengthStats.map(stats => (
+          <div key={stats.state} className={`rounded-lg border p-4 ${stateColors[stats.state]}`}>
+            <div className="flex items-center justify-between mb-3">
+              <span className="font-semibold">{STRENGTH_LABELS[stats.state]}</span>
+              <span className="text-xs font-bold">{stats.state}</span>
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div>
+                <div className="text-xl font-bold">{stats.shots}</div>
+                <div className="text-xs opacity-75">Shots</div>
+              </div>
+              <div>
+                <div className="text-xl font-bold">{stats.goals}</div>
+                <div className="text-xs opacity-75">GF</div>
+              </div>
+              <div>
+                <div className="text-xl font-bold">{stats.goalsAgainst}</div>
+                <div className="text-xs opacity-75">GA</div>
+              </div>
+              <div>
+                <div className="text-xl font-bold">{stats.shootingPercentage.toFixed(0)}%</div>
+                <div className="text-xs opacity-75">Sh%</div>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpecialTeamsBreakdown;
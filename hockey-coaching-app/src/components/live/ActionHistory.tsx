@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { History, Undo, Redo } from 'lucide-react';
+import type { GameCommand } from '../../types';
+import { getCommandStacks } from '../../utils/commandLog';
+
+interface ActionHistoryProps {
+  commandLog: GameCommand[];
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  maxItems?: number;
+}
+
+const formatGameTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Actions recorded this session, latest first. Undone actions stay listed until
+// a new action replaces them.
+const ActionHistory: React.FC<ActionHistoryProps> = ({
+  commandLog,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  maxItems = 15
+}) => {
+  const entries = useMemo(() => {
+    const { applied, undone } = getCommandStacks(commandLog);
+    return [
+      ...undone.map(command => ({ command, isUndone: true })),
+      ...[...applied].reverse().map(command => ({ command, isUndone: false }))
+    ].slice(0, maxItems);
+  }, [commandLog, maxItems]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center space-x-2">
+          <History className="w-5 h-5" />
+          <span>Action History</span>
+        </h3>
+        <div className="flex space-x-2">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm font-medium bg-orange-500 hover:bg-orange-600 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Undo className="w-4 h-4" />
+            <span>Undo</span>
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="flex items-center space-x-1 px-3 py-1 rounded-lg text-sm font-medium bg-gray-500 hover:bg-gray-600 text-white disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Redo className="w-4 h-4" />
+            <span>Redo</span>
+          </button>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No actions recorded yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+          {entries.map(({ command, isUndone }) => (
+            <li
+              key={command.id}
+              className={`flex items-center justify-between py-2 text-sm ${isUndone ? 'text-gray-400 line-through' : 'text-gray-800'}`}
+            >
+              <span>{command.description}</span>
+              <span className="font-mono text-xs text-gray-500">
+                {formatGameTime(command.gameTime)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActionHistory;
@@ -0,0 +1,126 @@
+import React from 'react';
+import { AlertTriangle, Users } from 'lucide-react';
+import type { GameEvent, Line, LineType, Player } from '../../types';
+import { LINE_TYPE_LABELS, LONG_SHIFT_SECONDS, getCurrentLineChange, getCurrentShifts } from '../../utils/shifts';
+
+interface BenchPanelProps {
+  lines: Line[];
+  roster: Player[];
+  events: GameEvent[];
+  gameTime: number;
+  onChangeLine: (lineId: string) => void;
+  onEditLines?: () => void;
+  disabled?: boolean;
+  variant?: 'light' | 'dark';
+}
+
+const formatShift = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const LINE_TYPES: LineType[] = ['forward', 'defense'];
+
+// Tap a line to send it out; the running shifts turn red once they get long
+const BenchPanel: React.FC<BenchPanelProps> = ({
+  lines,
+  roster,
+  events,
+  gameTime,
+  onChangeLine,
+  onEditLines,
+  disabled = false,
+  variant = 'light'
+}) => {
+  const isDark = variant === 'dark';
+  const lineChange = getCurrentLineChange(events);
+  const shiftLengths = new Map(
+    getCurrentShifts(events, gameTime).map(shift => [shift.playerId, shift.end - shift.start])
+  );
+  const longShifts = [...shiftLengths.entries()].filter(([, length]) => length >= LONG_SHIFT_SECONDS);
+
+  const getLineShift = (line: Line) =>
+    Math.max(0, ...line.playerIds.map(playerId => shiftLengths.get(playerId) || 0));
+
+  const isOnIce = (line: Line) =>
+    lineChange?.forwardLineId === line.id || lineChange?.defenseLineId === line.id;
+
+  const getJerseyNumbers = (playerIds: string[]) =>
+    playerIds
+      .map(playerId => roster.find(player => player.id === playerId))
+      .filter((player): player is Player => !!player)
+      .map(player => `#${player.jerseyNumber}`)
+      .join(' ');
+
+  return (
+    <div className={`rounded-lg p-3 ${isDark ? 'bg-black bg-opacity-50 text-white' : 'bg-white shadow-lg'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className={`flex items-center space-x-1 text-sm font-medium ${isDark ? '' : 'text-gray-600'}`}>
+          <Users className="w-4 h-4" />
+          <span>Bench</span>
+        </span>
+        {onEditLines && (
+          <button
+            onClick={onEditLines}
+            className={`text-xs ${isDark ? 'text-blue-300 hover:text-blue-200' : 'text-blue-600 hover:text-blue-800'}`}
+          >
+            Edit lines
+          </button>
+        )}
+      </div>
+
+      {lines.length === 0 ? (
+        <p className={`text-sm ${isDark ? 'opacity-80' : 'text-gray-500'}`}>No lines set up yet</p>
+      ) : (
+        <div className="space-y-2">
+          {LINE_TYPES.map(type => {
+            const typeLines = lines.filter(line => line.type === type);
+            if (typeLines.length === 0) return null;
+
+            return (
+              <div key={type}>
+                <div className={`text-xs mb-1 ${isDark ? 'opacity-75' : 'text-gray-500'}`}>{LINE_TYPE_LABELS[type]}</div>
+                <div className="flex flex-wrap gap-2">
+                  {typeLines.map(line => {
+                    const onIce = isOnIce(line);
+                    const lineShift = getLineShift(line);
+                    const isLong = onIce && lineShift >= LONG_SHIFT_SECONDS;
+
+                    return (
+                      <button
+                        key={line.id}
+                        onClick={() => onChangeLine(line.id)}
+                        disabled={disabled}
+                        title={getJerseyNumbers(line.playerIds)}
+                        className={`px-3 py-2 rounded-lg text-sm font-bold transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                          isLong
+                            ? 'bg-red-600 text-white'
+                            : onIce
+                              ? 'bg-green-600 text-white'
+                              : isDark ? 'bg-gray-700 hover:bg-gray-600' : 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                        }`}
+                      >
+                        {line.name}
+                        {onIce && <span className="ml-2 font-mono text-xs">{formatShift(lineShift)}</span>}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {longShifts.length > 0 && (
+        <div className="mt-2 flex items-center space-x-1 text-xs font-medium text-red-500">
+          <AlertTriangle className="w-3 h-3" />
+          <span>Long shift: {getJerseyNumbers(longShifts.map(([playerId]) => playerId))}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BenchPanel;
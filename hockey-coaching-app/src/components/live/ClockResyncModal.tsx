@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Timer, X } from 'lucide-react';
+import type { ClockMode, Game } from '../../types';
+import { getGameTimeFromRemaining, getPeriodEndTime } from '../../utils/gameClock';
+
+interface ClockResyncModalProps {
+  game: Game;
+  gameTime: number;
+  onResync: (gameTime: number) => void;
+  onClockModeChange: (mode: ClockMode) => void;
+  onClose: () => void;
+}
+
+const formatClock = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const parseClock = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const clockModes: { mode: ClockMode; label: string; description: string }[] = [
+  { mode: 'stop', label: 'Stop time', description: 'Clock stops on goals, saves and penalties' },
+  { mode: 'running', label: 'Running time', description: 'Clock only stops when you pause it' }
+];
+
+// Matches the game clock to the time remaining on the rink scoreboard
+const ClockResyncModal: React.FC<ClockResyncModalProps> = ({
+  game,
+  gameTime,
+  onResync,
+  onClockModeChange,
+  onClose
+}) => {
+  const period = game.currentPeriod || 1;
+  const appRemaining = Math.max(0, getPeriodEndTime(game, period) - gameTime);
+  const [remainingInput, setRemainingInput] = useState(formatClock(appRemaining));
+
+  const scoreboardRemaining = parseClock(remainingInput);
+  const difference = scoreboardRemaining !== null ? appRemaining - scoreboardRemaining : 0;
+  const clockMode = game.clockMode || 'stop';
+
+  const handleResync = () => {
+    if (scoreboardRemaining === null) return;
+    onResync(getGameTimeFromRemaining(game, period, scoreboardRemaining));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg w-96">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold flex items-center space-x-2">
+            <Timer className="w-5 h-5" />
+            <span>Resync Clock</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-sm font-medium mb-2">
+            Scoreboard time remaining in period {period} (MM:SS)
+          </label>
+          <input
+            type="text"
+            value={remainingInput}
+            onChange={(e) => setRemainingInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleResync()}
+            placeholder="12:30"
+            className={`w-full p-3 border rounded-lg text-center text-xl font-mono ${
+              scoreboardRemaining === null ? 'border-red-400' : ''
+            }`}
+            autoFocus
+          />
+          <div className="text-sm text-gray-500 mt-2 text-center">
+            App clock: {formatClock(appRemaining)} remaining
+            {scoreboardRemaining !== null && difference !== 0 && (
+              <span className="font-medium text-orange-600">
+                {' '}({Math.abs(difference)}s {difference > 0 ? 'behind' : 'ahead of'} the scoreboard)
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <label className="block text-sm font-medium mb-2">Clock</label>
+          <div className="grid grid-cols-2 gap-2">
+            {clockModes.map(({ mode, label, description }) => (
+              <button
+                key={mode}
+                onClick={() => onClockModeChange(mode)}
+                className={`p-2 rounded-lg border text-left ${
+                  clockMode === mode ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="text-sm font-medium">{label}</div>
+                <div className="text-xs text-gray-500">{description}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleResync}
+            disabled={scoreboardRemaining === null}
+            className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+          >
+            Resync
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClockResyncModal;
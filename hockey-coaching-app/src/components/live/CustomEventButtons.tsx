@@ -0,0 +1,46 @@
+import React from 'react';
+import type { CustomEventType } from '../../types';
+import { getCustomEventIcon } from '../../utils/customEvents';
+
+interface CustomEventButtonsProps {
+  eventTypes: CustomEventType[];
+  armedId?: string; // Event waiting for its rink location
+  disabled?: boolean;
+  onSelect: (eventType: CustomEventType) => void;
+  layout?: 'row' | 'column';
+}
+
+// The coach's own event buttons, defined in Settings
+const CustomEventButtons: React.FC<CustomEventButtonsProps> = ({
+  eventTypes,
+  armedId,
+  disabled = false,
+  onSelect,
+  layout = 'row'
+}) => {
+  return (
+    <div className={layout === 'row' ? 'flex flex-wrap gap-2' : 'flex flex-col space-y-2'}>
+      {eventTypes.map(eventType => {
+        const Icon = getCustomEventIcon(eventType.icon);
+        const isArmed = armedId === eventType.id;
+        return (
+          <button
+            key={eventType.id}
+            onClick={() => onSelect(eventType)}
+            disabled={disabled}
+            className={`flex items-center space-x-2 px-3 py-2 rounded-lg text-sm font-bold text-white shadow transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+              isArmed ? 'ring-2 ring-white ring-offset-2 ring-offset-black' : 'hover:opacity-90'
+            }`}
+            style={{ backgroundColor: eventType.color }}
+            title={eventType.needsLocation ? `${eventType.label} - tap the rink after` : eventType.label}
+          >
+            <Icon className="w-4 h-4" />
+            <span>{eventType.label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CustomEventButtons;
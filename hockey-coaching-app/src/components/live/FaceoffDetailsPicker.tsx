@@ -0,0 +1,114 @@
+import React from 'react';
+import type { FaceoffDetails, FaceoffDot, Player } from '../../types';
+import { FACEOFF_DOT_LABELS } from '../../utils/faceoffs';
+
+interface FaceoffDetailsPickerProps {
+  details: FaceoffDetails;
+  players: Player[];
+  defending: 'left' | 'right'; // End of the rink we defend this period
+  onChange: (details: FaceoffDetails) => void;
+}
+
+type DotPosition = { end: 'left' | 'center' | 'right'; side: 'top' | 'middle' | 'bottom' };
+
+// Where each dot sits on screen. Attacking right, our players' left is the top of
+// the rink; attacking left, it is the bottom.
+const getDotPositions = (defending: 'left' | 'right'): Record<FaceoffDot, DotPosition> => {
+  const offensiveEnd = defending === 'left' ? 'right' : 'left';
+  const defensiveEnd = defending === 'left' ? 'left' : 'right';
+  const leftSide = defending === 'left' ? 'top' : 'bottom';
+  const rightSide = defending === 'left' ? 'bottom' : 'top';
+
+  return {
+    center: { end: 'center', side: 'middle' },
+    offensive_left: { end: offensiveEnd, side: leftSide },
+    offensive_right: { end: offensiveEnd, side: rightSide },
+    defensive_left: { end: defensiveEnd, side: leftSide },
+    defensive_right: { end: defensiveEnd, side: rightSide }
+  };
+};
+
+const endOffsets = { left: '20%', center: '50%', right: '80%' };
+const sideOffsets = { top: '28%', middle: '50%', bottom: '72%' };
+
+// Dot, taker and opponent number for the next faceoff. All optional so a bare
+// WIN / LOST tap still records the draw.
+const FaceoffDetailsPicker: React.FC<FaceoffDetailsPickerProps> = ({
+  details,
+  players,
+  defending,
+  onChange
+}) => {
+  const positions = getDotPositions(defending);
+  const skaters = players
+    .filter(player => player.position !== 'G')
+    .sort((a, b) => a.jerseyNumber - b.jerseyNumber);
+
+  // Fields are removed rather than set to undefined, Firestore rejects undefined
+  const updateDetails = (key: keyof FaceoffDetails, value?: FaceoffDetails[keyof FaceoffDetails]) => {
+    const next = { ...details };
+    delete next[key];
+    onChange(value === undefined ? next : { ...next, [key]: value });
+  };
+
+  const handleDot = (dot: FaceoffDot) => {
+    updateDetails('dot', details.dot === dot ? undefined : dot);
+  };
+
+  const handleOpponentNumber = (value: string) => {
+    const opponentNumber = parseInt(value);
+    updateDetails('opponentNumber', isNaN(opponentNumber) ? undefined : opponentNumber);
+  };
+
+  return (
+    <div className="flex items-center space-x-3 mt-2 pt-2 border-t border-gray-200">
+      {/* Mini rink with the five dots, oriented like the rink behind it */}
+      <div className="relative w-32 h-14 border-2 border-gray-300 rounded-lg bg-gray-50 flex-shrink-0">
+        <div className="absolute top-0 bottom-0 left-1/2 w-0.5 bg-red-300" />
+        {(Object.keys(positions) as FaceoffDot[]).map(dot => {
+          const isSelected = details.dot === dot;
+          return (
+            <button
+              key={dot}
+              onClick={() => handleDot(dot)}
+              title={FACEOFF_DOT_LABELS[dot]}
+              className={`absolute w-5 h-5 rounded-full border-2 transform -translate-x-1/2 -translate-y-1/2 transition-colors ${
+                isSelected ? 'bg-blue-600 border-blue-800' : 'bg-white border-red-400 hover:bg-red-100'
+              }`}
+              style={{ left: endOffsets[positions[dot].end], top: sideOffsets[positions[dot].side] }}
+            />
+          );
+        })}
+      </div>
+
+      <div className="space-y-1">
+        <select
+          value={details.playerId || ''}
+          onChange={(e) => updateDetails('playerId', e.target.value || undefined)}
+          className="w-32 px-1 py-1 border rounded text-xs"
+        >
+          <option value="">Our player</option>
+          {skaters.map(player => (
+            <option key={player.id} value={player.id}>
+              #{player.jerseyNumber} {player.lastName}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          value={details.opponentNumber ?? ''}
+          onChange={(e) => handleOpponentNumber(e.target.value)}
+          placeholder="Opp. #"
+          min="0"
+          className="w-32 px-1 py-1 border rounded text-xs"
+        />
+      </div>
+
+      <div className="text-xs text-gray-500 w-20">
+        {details.dot ? FACEOFF_DOT_LABELS[details.dot] : 'Tap a dot'}
+      </div>
+    </div>
+  );
+};
+
+export default FaceoffDetailsPicker;
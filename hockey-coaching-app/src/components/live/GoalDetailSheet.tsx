@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { GoalDetails, GoalType, Player } from '../../types';
+import { GOAL_TYPES, GOAL_TYPE_LABELS, type GoalSide } from '../../utils/goals';
+
+interface GoalDetailSheetProps {
+  side: GoalSide;
+  roster: Player[];
+  defaults: GoalDetails;
+  onSave: (details: GoalDetails) => void;
+  onSkip: () => void;
+  onClose?: () => void;
+}
+
+type ScoringSlot = 'scorer' | 'assist1' | 'assist2';
+
+const SLOT_LABELS: Record<ScoringSlot, string> = {
+  scorer: 'Scorer',
+  assist1: 'A1',
+  assist2: 'A2'
+};
+
+const SLOTS: ScoringSlot[] = ['scorer', 'assist1', 'assist2'];
+
+// Scorer, assists, goal type and our skaters on the ice, entered after a goal.
+// Goals against only take the goal type and who was on the ice.
+const GoalDetailSheet: React.FC<GoalDetailSheetProps> = ({ side, roster, defaults, onSave, onSkip, onClose }) => {
+  const [scoring, setScoring] = useState<Partial<Record<ScoringSlot, string>>>({});
+  const [activeSlot, setActiveSlot] = useState<ScoringSlot>('scorer');
+  const [goalType, setGoalType] = useState<GoalType>(defaults.goalType);
+  const [onIceIds, setOnIceIds] = useState<string[]>(defaults.onIceIds);
+  const skaters = roster.filter(player => player.position !== 'G');
+
+  const getJersey = (playerId?: string) => roster.find(player => player.id === playerId)?.jerseyNumber;
+
+  // Fills the active slot and moves on; tapping the player already there clears it
+  const pickScoringPlayer = (playerId: string) => {
+    const next = { ...scoring };
+    SLOTS.forEach(slot => {
+      if (next[slot] === playerId && slot !== activeSlot) delete next[slot];
+    });
+
+    if (next[activeSlot] === playerId) {
+      delete next[activeSlot];
+    } else {
+      next[activeSlot] = playerId;
+      const nextSlot = SLOTS[SLOTS.indexOf(activeSlot) + 1];
+      if (nextSlot) setActiveSlot(nextSlot);
+    }
+    setScoring(next);
+  };
+
+  const toggleOnIce = (playerId: string) => {
+    setOnIceIds(onIceIds.includes(playerId) ? onIceIds.filter(id => id !== playerId) : [...onIceIds, playerId]);
+  };
+
+  const handleSave = () => {
+    const assistIds = [scoring.assist1, scoring.assist2].filter((id): id is string => !!id);
+    onSave({
+      ...(side === 'for' && scoring.scorer && { scorerId: scoring.scorer }),
+      ...(side === 'for' && assistIds.length > 0 && { assistIds }),
+      goalType,
+      onIceIds
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 pointer-events-auto">
+      <div className="bg-white rounded-lg shadow-lg p-4 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="font-semibold">{side === 'for' ? 'Goal' : 'Goal against'}</h3>
+          {onClose && (
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+
+        {side === 'for' && (
+          <div className="mb-4">
+            <div className="grid grid-cols-3 gap-2 mb-2">
+              {SLOTS.map(slot => (
+                <button
+                  key={slot}
+                  onClick={() => setActiveSlot(slot)}
+                  className={`py-2 rounded border-2 text-sm font-bold ${
+                    activeSlot === slot ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  }`}
+                >
+                  {SLOT_LABELS[slot]} {scoring[slot] ? `#${getJersey(scoring[slot])}` : '-'}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-6 gap-1 max-h-40 overflow-y-auto">
+              {roster.map(player => (
+                <button
+                  key={player.id}
+                  onClick={() => pickScoringPlayer(player.id)}
+                  title={`${player.firstName} ${player.lastName}`}
+                  className={`py-2 rounded font-bold transition-colors ${
+                    SLOTS.some(slot => scoring[slot] === player.id)
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                  }`}
+                >
+                  {player.jerseyNumber}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 mb-1">Goal type</div>
+          <div className="flex flex-wrap gap-1">
+            {GOAL_TYPES.map(type => (
+              <button
+                key={type}
+                onClick={() => setGoalType(type)}
+                title={GOAL_TYPE_LABELS[type]}
+                className={`px-3 py-2 rounded text-sm font-bold ${
+                  goalType === type ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                }`}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {GOAL_TYPE_LABELS[goalType]}{side === 'against' && ' (their side)'}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <div className="text-sm font-medium text-gray-700 mb-1">On ice ({onIceIds.length})</div>
+          {skaters.length === 0 ? (
+            <p className="text-sm text-gray-500">No skaters on the roster</p>
+          ) : (
+            <div className="grid grid-cols-6 gap-1 max-h-40 overflow-y-auto">
+              {skaters.map(player => (
+                <button
+                  key={player.id}
+                  onClick={() => toggleOnIce(player.id)}
+                  title={`${player.firstName} ${player.lastName}`}
+                  className={`py-2 rounded text-sm font-bold transition-colors ${
+                    onIceIds.includes(player.id)
+                      ? 'bg-green-600 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                  }`}
+                >
+                  {player.jerseyNumber}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-3 px-4 rounded text-sm"
+          >
+            Save
+          </button>
+          <button
+            onClick={onSkip}
+            className="flex-1 bg-gray-500 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded text-sm"
+          >
+            Skip details
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalDetailSheet;
@@ -0,0 +1,132 @@
+import React from 'react';
+import type { Game, GameRecords } from '../../types';
+import { getShotColor } from '../../lib/utils/analysis';
+import { isOvertimePeriod } from '../../utils/gameClock';
+import { getIntermissionStats, getPeriodShotMap, getTalkingPoints, type IntermissionPeriodStats } from '../../utils/intermission';
+
+interface IntermissionReportProps {
+  game: Game;
+  period: number;
+  records: GameRecords;
+  homeTeamName: string;
+}
+
+const insightColors = {
+  positive: 'bg-green-50 border-green-200 text-green-800',
+  negative: 'bg-red-50 border-red-200 text-red-800',
+  neutral: 'bg-gray-50 border-gray-200 text-gray-800'
+};
+
+const formatFaceoffs = (stats: IntermissionPeriodStats) =>
+  stats.faceoffs.total > 0 ? `${stats.faceoffs.wins}-${stats.faceoffs.losses} (${Math.round(stats.faceoffs.percentage)}%)` : '-';
+
+const comparisonRows: Array<{ label: string; value: (stats: IntermissionPeriodStats) => string }> = [
+  { label: 'Shots on goal', value: stats => `${stats.shotsFor}-${stats.shotsAgainst}` },
+  { label: 'Goals', value: stats => `${stats.goalsFor}-${stats.goalsAgainst}` },
+  { label: 'Faceoffs', value: formatFaceoffs },
+  { label: 'Penalties taken / drawn', value: stats => `${stats.penaltiesTaken} / ${stats.penaltiesDrawn}` }
+];
+
+// Period shot map, the period next to the ones before it, and what to tell the players
+const IntermissionReport: React.FC<IntermissionReportProps> = ({ game, period, records, homeTeamName }) => {
+  const stats = getIntermissionStats(records, period);
+  const shotMap = getPeriodShotMap(game, records, period);
+  const talkingPoints = getTalkingPoints(game, records.shots, period);
+  const getPeriodLabel = (p: number) => (isOvertimePeriod(game, p) ? 'OT' : `P${p}`);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="font-semibold mb-2">
+          {getPeriodLabel(period)} shot map
+          <span className="text-sm font-normal text-gray-500 ml-2">
+            {homeTeamName} attacking right · {shotMap.shots.length} for, {shotMap.shotsAgainst.length} against
+          </span>
+        </h3>
+        <div
+          className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+          style={{
+            backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+            backgroundSize: 'contain',
+            aspectRatio: '2/1'
+          }}
+        >
+          {shotMap.shots.map(shot => (
+            <div
+              key={shot.id}
+              className="absolute w-3 h-3 rounded-full transform -translate-x-1/2 -translate-y-1/2 border-2 border-white"
+              style={{ backgroundColor: getShotColor(shot.result), left: `${shot.normalizedX * 100}%`, top: `${shot.normalizedY * 100}%` }}
+              title={`${homeTeamName}: ${shot.result}`}
+            />
+          ))}
+          {shotMap.shotsAgainst.map(shot => (
+            <div
+              key={shot.id}
+              className="absolute w-3 h-3 rounded-full transform -translate-x-1/2 -translate-y-1/2 border-2 border-red-600"
+              style={{ backgroundColor: getShotColor(shot.result), left: `${shot.normalizedX * 100}%`, top: `${shot.normalizedY * 100}%` }}
+              title={`${game.awayTeamName}: ${shot.result}`}
+            />
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-2">Red rings are {game.awayTeamName} shots</p>
+      </div>
+
+      <div className="space-y-6">
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="font-semibold mb-3">Talking points</h3>
+          {talkingPoints.length === 0 ? (
+            <p className="text-sm text-gray-500">Not enough shots this period for talking points</p>
+          ) : (
+            <ol className="space-y-2">
+              {talkingPoints.map((insight, index) => (
+                <li key={index} className={`flex items-center justify-between border rounded-lg px-3 py-2 ${insightColors[insight.type]}`}>
+                  <span className="font-medium">
+                    <span className="mr-2">{insight.icon}</span>
+                    {insight.text}
+                  </span>
+                  {insight.value && <span className="text-sm font-mono ml-3">{insight.value}</span>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 overflow-x-auto">
+          <h3 className="font-semibold mb-3">Period by period <span className="text-sm font-normal text-gray-500">(us-them)</span></h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-2 pr-4"></th>
+                {stats.map(periodStats => (
+                  <th
+                    key={periodStats.period}
+                    className={`text-center py-2 px-2 ${periodStats.period === period ? 'text-blue-700' : 'text-gray-600'}`}
+                  >
+                    {getPeriodLabel(periodStats.period)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparisonRows.map(row => (
+                <tr key={row.label} className="border-b last:border-0">
+                  <td className="py-2 pr-4 text-gray-600">{row.label}</td>
+                  {stats.map(periodStats => (
+                    <td
+                      key={periodStats.period}
+                      className={`text-center py-2 px-2 ${periodStats.period === period ? 'font-bold bg-blue-50' : ''}`}
+                    >
+                      {row.value(periodStats)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IntermissionReport;
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { Line, LineType, Player } from '../../types';
+import { LINE_SIZES } from '../../utils/shifts';
+
+interface LineEditorProps {
+  lines: Line[];
+  roster: Player[];
+  onSave: (lines: Line[]) => void;
+  onClose: () => void;
+}
+
+// Builds forward lines and D pairs from the roster skaters
+const LineEditor: React.FC<LineEditorProps> = ({ lines, roster, onSave, onClose }) => {
+  const [draftLines, setDraftLines] = useState<Line[]>(lines);
+  const skaters = roster.filter(player => player.position !== 'G');
+
+  const addLine = (type: LineType) => {
+    const count = draftLines.filter(line => line.type === type).length + 1;
+    setDraftLines([
+      ...draftLines,
+      { id: crypto.randomUUID(), name: type === 'forward' ? `Line ${count}` : `D Pair ${count}`, type, playerIds: [] }
+    ]);
+  };
+
+  const updateLine = (lineId: string, changes: Partial<Line>) => {
+    setDraftLines(draftLines.map(line => (line.id === lineId ? { ...line, ...changes } : line)));
+  };
+
+  const togglePlayer = (line: Line, playerId: string) => {
+    updateLine(line.id, {
+      playerIds: line.playerIds.includes(playerId)
+        ? line.playerIds.filter(id => id !== playerId)
+        : [...line.playerIds, playerId]
+    });
+  };
+
+  // Players of the matching position first, so a line is quick to fill
+  const getSortedSkaters = (type: LineType) => {
+    const position = type === 'forward' ? 'F' : 'D';
+    return [...skaters].sort((a, b) =>
+      Number(b.position === position) - Number(a.position === position) || a.jerseyNumber - b.jerseyNumber
+    );
+  };
+
+  const handleSave = () => {
+    onSave(draftLines.map(line => ({ ...line, name: line.name.trim() || 'Line' })));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 pointer-events-auto">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Lines</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4">
+          {draftLines.length === 0 && (
+            <p className="text-sm text-gray-500">Add forward lines and D pairs to change them from the bench.</p>
+          )}
+          {draftLines.map(line => (
+            <div key={line.id} className="border rounded-lg p-3">
+              <div className="flex items-center space-x-2 mb-2">
+                <input
+                  type="text"
+                  value={line.name}
+                  onChange={(e) => updateLine(line.id, { name: e.target.value })}
+                  className="flex-1 p-2 border rounded text-sm"
+                  maxLength={20}
+                />
+                <span className={`text-xs ${line.playerIds.length === LINE_SIZES[line.type] ? 'text-gray-500' : 'text-orange-600'}`}>
+                  {line.playerIds.length}/{LINE_SIZES[line.type]}
+                </span>
+                <button
+                  onClick={() => setDraftLines(draftLines.filter(l => l.id !== line.id))}
+                  className="text-red-500 hover:text-red-700 p-1"
+                  title="Delete line"
+                >
+                  🗑️
+                </button>
+              </div>
+              <div className="grid grid-cols-8 gap-1">
+                {getSortedSkaters(line.type).map(player => (
+                  <button
+                    key={player.id}
+                    onClick={() => togglePlayer(line, player.id)}
+                    title={`${player.firstName} ${player.lastName} (${player.position})`}
+                    className={`py-2 rounded text-sm font-bold transition-colors ${
+                      line.playerIds.includes(player.id)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                    }`}
+                  >
+                    #{player.jerseyNumber}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex space-x-2 mt-4">
+          <button
+            onClick={() => addLine('forward')}
+            className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded"
+          >
+            + Forward Line
+          </button>
+          <button
+            onClick={() => addLine('defense')}
+            className="flex-1 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium py-2 px-4 rounded"
+          >
+            + D Pair
+          </button>
+        </div>
+        <div className="flex space-x-2 mt-2">
+          <button
+            onClick={handleSave}
+            className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Save
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LineEditor;
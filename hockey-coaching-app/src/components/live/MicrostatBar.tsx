@@ -0,0 +1,52 @@
+import React from 'react';
+import type { MicrostatType, ZoneTransition } from '../../types';
+
+export interface ArmedMicrostat {
+  type: MicrostatType;
+  transition?: ZoneTransition;
+}
+
+interface MicrostatBarProps {
+  armed: ArmedMicrostat | null;
+  onArm: (microstat: ArmedMicrostat | null) => void;
+}
+
+const BUTTONS: Array<ArmedMicrostat & { label: string; color: string }> = [
+  { type: 'zone_entry', transition: 'controlled', label: 'Entry C', color: 'bg-green-600' },
+  { type: 'zone_entry', transition: 'dump', label: 'Entry D', color: 'bg-green-800' },
+  { type: 'zone_exit', transition: 'controlled', label: 'Exit C', color: 'bg-blue-600' },
+  { type: 'zone_exit', transition: 'dump', label: 'Exit D', color: 'bg-blue-800' },
+  { type: 'turnover', label: 'Turnover', color: 'bg-red-600' },
+  { type: 'takeaway', label: 'Takeaway', color: 'bg-teal-600' },
+  { type: 'hit', label: 'Hit', color: 'bg-purple-600' }
+];
+
+// Quick buttons for microstats mode. Picking one makes the next rink tap record
+// that play at the tapped spot instead of a shot.
+const MicrostatBar: React.FC<MicrostatBarProps> = ({ armed, onArm }) => {
+  const isArmed = (button: ArmedMicrostat) =>
+    armed?.type === button.type && armed.transition === button.transition;
+
+  return (
+    <div className="bg-black bg-opacity-50 rounded-lg p-2">
+      <div className="flex space-x-1">
+        {BUTTONS.map(button => (
+          <button
+            key={button.label}
+            onClick={() => onArm(isArmed(button) ? null : { type: button.type, transition: button.transition })}
+            className={`px-2 py-2 rounded text-xs font-bold text-white transition-all ${
+              isArmed(button) ? `${button.color} ring-2 ring-white` : `${button.color} opacity-70 hover:opacity-100`
+            }`}
+          >
+            {button.label}
+          </button>
+        ))}
+      </div>
+      <div className="text-xs text-white text-center mt-1 opacity-80">
+        {armed ? 'Tap the rink where it happened' : 'Pick a play, then tap the rink'}
+      </div>
+    </div>
+  );
+};
+
+export default MicrostatBar;
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { ActivePenalty, GameStrength } from '../../types';
+
+interface PenaltyBoxProps {
+  penalties: ActivePenalty[];
+  strength: GameStrength;
+  variant?: 'light' | 'dark';
+}
+
+const formatRemaining = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const strengthColors: Record<GameStrength['state'], string> = {
+  EV: 'bg-gray-500',
+  PP: 'bg-green-600',
+  SH: 'bg-red-600'
+};
+
+// Running penalty clocks and the resulting strength state
+const PenaltyBox: React.FC<PenaltyBoxProps> = ({ penalties, strength, variant = 'light' }) => {
+  if (penalties.length === 0 && strength.state === 'EV') return null;
+
+  const isDark = variant === 'dark';
+
+  return (
+    <div className={`rounded-lg p-3 ${isDark ? 'bg-black bg-opacity-50 text-white' : 'bg-white shadow-lg'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <span className={`text-sm font-medium ${isDark ? '' : 'text-gray-600'}`}>Penalties</span>
+        <span className={`px-2 py-0.5 rounded text-xs font-bold text-white ${strengthColors[strength.state]}`}>
+          {strength.state} {strength.label}
+        </span>
+      </div>
+      <div className="space-y-1">
+        {penalties.map(penalty => (
+          <div key={penalty.id} className="flex items-center justify-between text-sm space-x-3">
+            <span className={`font-medium ${penalty.team === 'home' ? 'text-blue-400' : 'text-red-400'}`}>
+              {penalty.team === 'home' ? 'Us' : 'Opp'}
+              {penalty.playerNumber !== undefined && ` #${penalty.playerNumber}`}
+            </span>
+            <span className={`truncate flex-1 ${isDark ? 'opacity-80' : 'text-gray-600'}`}>{penalty.infraction}</span>
+            <span className="font-mono font-bold">{formatRemaining(penalty.remaining)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PenaltyBox;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import type { Penalty, Player, TeamSide } from '../../types';
+import { PENALTY_INFRACTIONS, PENALTY_MINUTES } from '../../utils/penalties';
+
+interface PenaltyModalProps {
+  roster: Player[];
+  homeTeamName?: string; // Scouting games name both sides
+  opponentName: string;
+  onSubmit: (penalty: Omit<Penalty, 'id' | 'startTime' | 'expiresAt'>) => void;
+  onClose: () => void;
+}
+
+const PenaltyModal: React.FC<PenaltyModalProps> = ({
+  roster,
+  homeTeamName = 'Our Team',
+  opponentName,
+  onSubmit,
+  onClose
+}) => {
+  const [team, setTeam] = useState<TeamSide>('home');
+  const [playerId, setPlayerId] = useState<string>('');
+  const [jerseyNumber, setJerseyNumber] = useState('');
+  const [infraction, setInfraction] = useState(PENALTY_INFRACTIONS[0]);
+  const [minutes, setMinutes] = useState(2);
+
+  const handleSubmit = () => {
+    const penalty: Omit<Penalty, 'id' | 'startTime' | 'expiresAt'> = { team, infraction, minutes };
+
+    // Firestore rejects undefined fields, so only attach the player when known.
+    // Without a roster (opponents, scouting games) that is the jersey number.
+    if (team === 'home' && playerId) {
+      const player = roster.find(p => p.id === playerId);
+      penalty.playerId = playerId;
+      if (player) penalty.playerNumber = player.jerseyNumber;
+    } else if ((team === 'away' || roster.length === 0) && jerseyNumber.trim() !== '') {
+      const number = parseInt(jerseyNumber);
+      if (!isNaN(number)) penalty.playerNumber = number;
+    }
+
+    onSubmit(penalty);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 pointer-events-auto">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Penalty</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Team */}
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          <button
+            onClick={() => setTeam('home')}
+            className={`py-2 rounded-lg font-medium truncate px-2 ${
+              team === 'home' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {homeTeamName}
+          </button>
+          <button
+            onClick={() => setTeam('away')}
+            className={`py-2 rounded-lg font-medium truncate px-2 ${
+              team === 'away' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            {opponentName}
+          </button>
+        </div>
+
+        {/* Player */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Player</label>
+          {team === 'home' && roster.length > 0 ? (
+            <div className="grid grid-cols-6 gap-1 max-h-32 overflow-y-auto">
+              {roster.map(player => (
+                <button
+                  key={player.id}
+                  onClick={() => setPlayerId(playerId === player.id ? '' : player.id)}
+                  title={`${player.firstName} ${player.lastName}`}
+                  className={`py-2 rounded font-bold text-sm ${
+                    playerId === player.id ? 'bg-blue-600 text-white' : 'bg-gray-100 hover:bg-gray-200'
+                  }`}
+                >
+                  {player.jerseyNumber}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <input
+              type="number"
+              value={jerseyNumber}
+              onChange={(e) => setJerseyNumber(e.target.value)}
+              placeholder="Jersey number (optional)"
+              min="0"
+              className="w-full p-2 border rounded-lg"
+            />
+          )}
+        </div>
+
+        {/* Infraction */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Infraction</label>
+          <select
+            value={infraction}
+            onChange={(e) => setInfraction(e.target.value)}
+            className="w-full p-2 border rounded-lg"
+          >
+            {PENALTY_INFRACTIONS.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </div>
+
+        {/* Minutes */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Minutes</label>
+          <div className="grid grid-cols-4 gap-2">
+            {PENALTY_MINUTES.map(value => (
+              <button
+                key={value}
+                onClick={() => setMinutes(value)}
+                className={`py-2 rounded-lg font-bold ${
+                  minutes === value ? 'bg-yellow-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {value}'
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex space-x-2">
+          <button
+            onClick={handleSubmit}
+            className="flex-1 bg-yellow-500 hover:bg-yellow-600 text-white font-bold py-2 px-4 rounded"
+          >
+            Record Penalty
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PenaltyModal;
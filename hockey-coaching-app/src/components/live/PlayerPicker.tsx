@@ -0,0 +1,79 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import type { Player } from '../../types';
+
+interface PlayerPickerProps {
+  title: string;
+  subtitle?: string;
+  players: Player[];
+  selectedIds?: string[];
+  excludeIds?: string[];
+  onPick: (playerId: string) => void;
+  onSkip: () => void;
+  skipLabel?: string;
+  onClose?: () => void;
+}
+
+// Jersey number grid used to attribute live events to roster players
+const PlayerPicker: React.FC<PlayerPickerProps> = ({
+  title,
+  subtitle,
+  players,
+  selectedIds = [],
+  excludeIds = [],
+  onPick,
+  onSkip,
+  skipLabel = 'Skip',
+  onClose
+}) => {
+  const availablePlayers = players.filter(player => !excludeIds.includes(player.id));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 pointer-events-auto">
+      <div className="bg-white rounded-lg shadow-lg p-4 w-full max-w-md">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-semibold">{title}</h3>
+          {onClose && (
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {subtitle && <p className="text-sm text-gray-500 mb-3">{subtitle}</p>}
+
+        {availablePlayers.length === 0 ? (
+          <p className="text-sm text-gray-500 py-4 text-center">No players on the roster</p>
+        ) : (
+          <div className="grid grid-cols-5 gap-2 mb-3 max-h-72 overflow-y-auto">
+            {availablePlayers.map(player => {
+              const isSelected = selectedIds.includes(player.id);
+              return (
+                <button
+                  key={player.id}
+                  onClick={() => onPick(player.id)}
+                  title={`${player.firstName} ${player.lastName}`}
+                  className={`py-3 rounded font-bold text-lg transition-colors ${
+                    isSelected
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 hover:bg-gray-200 text-gray-900'
+                  }`}
+                >
+                  {player.jerseyNumber}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <button
+          onClick={onSkip}
+          className="w-full bg-gray-500 hover:bg-gray-600 text-white font-bold py-3 px-4 rounded text-sm"
+        >
+          {skipLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PlayerPicker;
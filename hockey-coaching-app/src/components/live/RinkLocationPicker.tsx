@@ -0,0 +1,50 @@
+import React, { useRef } from 'react';
+import { X } from 'lucide-react';
+
+interface RinkLocationPickerProps {
+  title: string;
+  onPick: (location: { x: number; y: number }) => void;
+  onClose: () => void;
+}
+
+// Tap-on-the-rink dialog for pages without the full-screen rink. Coordinates are
+// normalized 0-1 like the ones recorded on the tracking screen.
+const RinkLocationPicker: React.FC<RinkLocationPickerProps> = ({ title, onPick, onClose }) => {
+  const rinkRef = useRef<HTMLDivElement>(null);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!rinkRef.current) return;
+
+    const rect = rinkRef.current.getBoundingClientRect();
+    onPick({
+      x: Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height))
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-lg p-4 w-full max-w-2xl">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-semibold">{title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-3">Tap where it happened</p>
+        <div
+          ref={rinkRef}
+          onClick={handleClick}
+          className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded cursor-crosshair"
+          style={{
+            backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+            backgroundSize: 'contain',
+            aspectRatio: '2/1'
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default RinkLocationPicker;
@@ -0,0 +1,158 @@
+import React, { useMemo, useState } from 'react';
+import { Users, Edit2 } from 'lucide-react';
+import type { GameEvent, GoalAgainst, RecordedBy, Shot, ShotAgainst } from '../../types';
+import { getDeviceId } from '../../utils/device';
+
+interface SessionActivityProps {
+  shots: Shot[];
+  goalsAgainst: GoalAgainst[];
+  shotsAgainst: ShotAgainst[];
+  events: GameEvent[];
+  deviceName: string;
+  onRename: (name: string) => void;
+  maxItems?: number;
+}
+
+interface ActivityItem {
+  id: string;
+  label: string;
+  timestamp: number;
+  gameTime?: number;
+  recordedBy?: RecordedBy;
+}
+
+const formatGameTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Everything recorded for the game by every device, latest first, with the device
+// that recorded it. Lets two coaches sharing a game see each other's actions.
+const SessionActivity: React.FC<SessionActivityProps> = ({
+  shots,
+  goalsAgainst,
+  shotsAgainst,
+  events,
+  deviceName,
+  onRename,
+  maxItems = 15
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [nameInput, setNameInput] = useState(deviceName);
+  const deviceId = getDeviceId();
+
+  const items = useMemo<ActivityItem[]>(() => [
+    ...shots.map(shot => ({
+      id: shot.id,
+      label: shot.result === 'goal' ? 'Goal' : `Shot (${shot.result})`,
+      timestamp: shot.timestamp,
+      gameTime: shot.gameTime,
+      recordedBy: shot.recordedBy
+    })),
+    ...goalsAgainst.map(goal => ({
+      id: goal.id,
+      label: 'Goal against',
+      timestamp: goal.timestamp,
+      gameTime: goal.gameTime,
+      recordedBy: goal.recordedBy
+    })),
+    ...shotsAgainst.map(shot => ({
+      id: shot.id,
+      label: `Shot against (${shot.result})`,
+      timestamp: shot.timestamp,
+      gameTime: shot.gameTime,
+      recordedBy: shot.recordedBy
+    })),
+    ...events.map(event => ({
+      id: event.id,
+      label: event.description,
+      timestamp: event.timestamp,
+      gameTime: event.gameTime,
+      recordedBy: event.recordedBy
+    }))
+  ].sort((a, b) => b.timestamp - a.timestamp), [shots, goalsAgainst, shotsAgainst, events]);
+
+  const otherDevices = useMemo(() => {
+    const names = items
+      .filter(item => item.recordedBy && item.recordedBy.deviceId !== deviceId)
+      .map(item => item.recordedBy!.name);
+    return [...new Set(names)];
+  }, [items, deviceId]);
+
+  const handleRename = () => {
+    onRename(nameInput);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold flex items-center space-x-2">
+          <Users className="w-5 h-5" />
+          <span>Game Activity</span>
+        </h3>
+        {isEditing ? (
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+              className="p-1 border rounded text-sm w-32"
+              autoFocus
+            />
+            <button onClick={handleRename} className="text-sm font-medium text-blue-600 hover:text-blue-800">
+              Save
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => {
+              setNameInput(deviceName);
+              setIsEditing(true);
+            }}
+            className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700"
+            title="Name shown on what this device records"
+          >
+            <span>This device: {deviceName}</span>
+            <Edit2 className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+
+      {otherDevices.length > 0 && (
+        <p className="text-sm text-blue-700 bg-blue-50 rounded px-3 py-2 mb-3">
+          Also tracking this game: {otherDevices.join(', ')}
+        </p>
+      )}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing recorded yet</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+          {items.slice(0, maxItems).map(item => {
+            const isOwn = !item.recordedBy || item.recordedBy.deviceId === deviceId;
+            return (
+              <li key={item.id} className="flex items-center justify-between py-2 text-sm text-gray-800">
+                <span>{item.label}</span>
+                <span className="flex items-center space-x-2">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${
+                    isOwn ? 'bg-gray-100 text-gray-600' : 'bg-blue-100 text-blue-700'
+                  }`}>
+                    {isOwn ? 'You' : item.recordedBy!.name}
+                  </span>
+                  {item.gameTime !== undefined && (
+                    <span className="font-mono text-xs text-gray-500">{formatGameTime(item.gameTime)}</span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SessionActivity;
@@ -0,0 +1,197 @@
+import React, { useState } from 'react';
+import { Trophy } from 'lucide-react';
+import type { Player, ShootoutAttempt, ShootoutResult, TeamSide } from '../../types';
+import { SHOOTOUT_ROUNDS, type ShootoutState } from '../../utils/gameResult';
+
+interface ShootoutPanelProps {
+  shootout: ShootoutState;
+  roster: Player[];
+  goalieId: string | null; // Our goalie in net
+  homeTeamName: string;
+  opponentName: string;
+  onAttempt: (attempt: Omit<ShootoutAttempt, 'id' | 'round'>) => void;
+}
+
+const resultButtons: { result: ShootoutResult; label: string; className: string }[] = [
+  { result: 'goal', label: 'Goal', className: 'bg-green-500 hover:bg-green-700' },
+  { result: 'save', label: 'Save', className: 'bg-blue-500 hover:bg-blue-700' },
+  { result: 'miss', label: 'Miss', className: 'bg-gray-500 hover:bg-gray-700' }
+];
+
+const resultSymbols: Record<ShootoutResult, string> = {
+  goal: '●',
+  save: '○',
+  miss: '✕'
+};
+
+// Records shootout attempts one at a time, alternating teams, until one team can't be caught
+const ShootoutPanel: React.FC<ShootoutPanelProps> = ({
+  shootout,
+  roster,
+  goalieId,
+  homeTeamName,
+  opponentName,
+  onAttempt
+}) => {
+  const [teamOverride, setTeamOverride] = useState<TeamSide | null>(null);
+  const [shooterId, setShooterId] = useState('');
+  const [shooterNumber, setShooterNumber] = useState('');
+  const [opponentGoalieNumber, setOpponentGoalieNumber] = useState('');
+
+  const team = teamOverride ?? shootout.nextTeam;
+  const goalieInNet = roster.find(player => player.id === goalieId);
+  const skaters = roster.filter(player => player.position !== 'G');
+
+  const handleResult = (result: ShootoutResult) => {
+    const attempt: Omit<ShootoutAttempt, 'id' | 'round'> = { team, result };
+
+    // Firestore rejects undefined fields, so only attach what was entered
+    if (team === 'home') {
+      if (shooterId) attempt.shooterId = shooterId;
+      const goalieNumber = parseInt(opponentGoalieNumber);
+      if (!isNaN(goalieNumber)) attempt.goalieNumber = goalieNumber;
+    } else {
+      const number = parseInt(shooterNumber);
+      if (!isNaN(number)) attempt.shooterNumber = number;
+      if (goalieId) attempt.goalieId = goalieId;
+    }
+
+    onAttempt(attempt);
+    setTeamOverride(null);
+    setShooterId('');
+    setShooterNumber('');
+  };
+
+  const renderAttempts = (side: TeamSide) => {
+    const attempts = shootout.attempts.filter(attempt => attempt.team === side);
+    const slots = Math.max(SHOOTOUT_ROUNDS, attempts.length);
+    return (
+      <div className="flex space-x-1 justify-center">
+        {Array.from({ length: slots }, (_, index) => {
+          const attempt = attempts[index];
+          return (
+            <span
+              key={index}
+              className={`w-7 h-7 rounded-full border flex items-center justify-center text-sm ${
+                attempt?.result === 'goal' ? 'bg-green-100 border-green-500 text-green-700' : 'border-gray-300 text-gray-500'
+              }`}
+            >
+              {attempt ? resultSymbols[attempt.result] : ''}
+            </span>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
+        <Trophy className="w-5 h-5" />
+        <span>Shootout</span>
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4 text-center mb-4">
+        <div>
+          <div className="text-sm font-medium text-gray-600 truncate">{homeTeamName}</div>
+          <div className="text-3xl font-bold text-blue-600 mb-2">{shootout.homeGoals}</div>
+          {renderAttempts('home')}
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-600 truncate">{opponentName}</div>
+          <div className="text-3xl font-bold text-red-600 mb-2">{shootout.awayGoals}</div>
+          {renderAttempts('away')}
+        </div>
+      </div>
+
+      {shootout.winner ? (
+        <div className={`text-center font-semibold py-3 rounded-lg ${
+          shootout.winner === 'home' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+        }`}>
+          {shootout.winner === 'home' ? homeTeamName : opponentName} win the shootout - end the game to save the result
+        </div>
+      ) : (
+        <>
+          <div className="text-sm text-gray-500 mb-2 text-center">
+            Round {shootout.round}{shootout.round > SHOOTOUT_ROUNDS ? ' (sudden death)' : ''}
+          </div>
+
+          {/* Shooting team */}
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            <button
+              onClick={() => setTeamOverride('home')}
+              className={`py-2 rounded-lg font-medium ${
+                team === 'home' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Our Shooter
+            </button>
+            <button
+              onClick={() => setTeamOverride('away')}
+              className={`py-2 rounded-lg font-medium truncate px-2 ${
+                team === 'away' ? 'bg-red-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {opponentName} Shooter
+            </button>
+          </div>
+
+          {/* Shooter and goalie */}
+          {team === 'home' ? (
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              <select
+                value={shooterId}
+                onChange={(e) => setShooterId(e.target.value)}
+                className="p-2 border rounded-lg"
+              >
+                <option value="">Shooter</option>
+                {skaters.map(player => (
+                  <option key={player.id} value={player.id}>
+                    #{player.jerseyNumber} {player.lastName}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min="0"
+                value={opponentGoalieNumber}
+                onChange={(e) => setOpponentGoalieNumber(e.target.value)}
+                placeholder="Their goalie #"
+                className="p-2 border rounded-lg"
+              />
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2 mb-3">
+              <input
+                type="number"
+                min="0"
+                value={shooterNumber}
+                onChange={(e) => setShooterNumber(e.target.value)}
+                placeholder="Shooter #"
+                className="p-2 border rounded-lg"
+              />
+              <div className="p-2 border rounded-lg bg-gray-50 text-sm text-gray-600 truncate">
+                {goalieInNet ? `In net: #${goalieInNet.jerseyNumber} ${goalieInNet.lastName}` : 'No goalie in net'}
+              </div>
+            </div>
+          )}
+
+          {/* Result */}
+          <div className="grid grid-cols-3 gap-2">
+            {resultButtons.map(({ result, label, className }) => (
+              <button
+                key={result}
+                onClick={() => handleResult(result)}
+                className={`h-12 rounded-lg font-bold text-white ${className}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShootoutPanel;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Cloud, CloudOff, RefreshCw, X } from 'lucide-react';
+import type { OutboxCollection, OutboxOperation, OutboxStatus } from '../../types';
+
+interface SyncStatusProps {
+  status: OutboxStatus;
+  isSyncing: boolean;
+  onRetry: () => void;
+  variant?: 'light' | 'dark';
+}
+
+const collectionLabels: Record<OutboxCollection, string> = {
+  games: 'Game',
+  shots: 'Shot',
+  goalsAgainst: 'Goal against',
+  shotsAgainst: 'Shot against',
+  gameEvents: 'Event'
+};
+
+const operationLabels: Record<OutboxOperation, string> = {
+  set: 'create',
+  update: 'update',
+  delete: 'delete'
+};
+
+// Writes still waiting in the offline outbox. Tapping it retries right away, or lists
+// the records Firestore rejected when there are any.
+const SyncStatus: React.FC<SyncStatusProps> = ({ status, isSyncing, onRetry, variant = 'light' }) => {
+  const [showFailures, setShowFailures] = useState(false);
+
+  const isDark = variant === 'dark';
+  const failureCount = status.failures.length;
+
+  const label = status.pending === 0
+    ? 'All saved'
+    : `${status.pending} pending${failureCount > 0 ? ` - ${failureCount} failed` : ''}`;
+
+  const title = failureCount > 0
+    ? `${status.lastError || 'Sync failed'}${status.nextRetryAt ? ` - retrying at ${new Date(status.nextRetryAt).toLocaleTimeString()}` : ''}`
+    : status.pending > 0 ? 'Waiting to sync' : 'Everything is synced';
+
+  const colors = failureCount > 0
+    ? 'bg-red-100 text-red-700'
+    : status.pending > 0
+      ? 'bg-yellow-100 text-yellow-800'
+      : isDark ? 'bg-black bg-opacity-50 text-green-300' : 'bg-green-100 text-green-700';
+
+  const Icon = failureCount > 0 ? CloudOff : status.pending > 0 ? RefreshCw : Cloud;
+
+  const handleClick = () => {
+    if (failureCount > 0) {
+      setShowFailures(!showFailures);
+    } else {
+      onRetry();
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleClick}
+        disabled={isSyncing || status.pending === 0}
+        className={`flex items-center space-x-1 px-2 py-1 rounded-full text-xs font-medium disabled:cursor-default ${colors}`}
+        title={title}
+      >
+        <Icon className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+        <span>{label}</span>
+      </button>
+
+      {showFailures && failureCount > 0 && (
+        <div className="absolute top-full right-0 mt-2 w-80 bg-white text-gray-800 rounded-lg shadow-lg border p-3 z-50">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-semibold">Failed to sync</span>
+            <button onClick={() => setShowFailures(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <ul className="divide-y divide-gray-100 max-h-60 overflow-y-auto text-xs">
+            {status.failures.map(failure => (
+              <li key={failure.key} className="py-2">
+                <div className="flex justify-between font-medium">
+                  <span>{collectionLabels[failure.collection]} {operationLabels[failure.operation]}</span>
+                  <span className="font-mono text-gray-500">{failure.docId.slice(0, 8)}</span>
+                </div>
+                <div className="text-red-600">{failure.error}</div>
+                <div className="text-gray-500">
+                  {failure.attempts} attempt{failure.attempts === 1 ? '' : 's'}, next at {new Date(failure.nextAttemptAt).toLocaleTimeString()}
+                </div>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => {
+              setShowFailures(false);
+              onRetry();
+            }}
+            disabled={isSyncing}
+            className="mt-2 w-full bg-blue-500 hover:bg-blue-600 text-white text-sm font-medium py-1 rounded disabled:opacity-50"
+          >
+            Retry now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatus;
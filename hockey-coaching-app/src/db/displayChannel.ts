@@ -0,0 +1,55 @@
+import type { ScoreboardFeed } from '../utils/scoreboard';
+
+const CHANNEL_NAME = 'live-display';
+
+const DISPLAY_PATH = '/live/display';
+
+type DisplayMessage = { type: 'feed'; feed: ScoreboardFeed } | { type: 'request' };
+
+/**
+ * Bench display windows open on their own page load and only ever read the feed
+ */
+export const isDisplayWindow = (): boolean =>
+  typeof window !== 'undefined' && window.location.pathname === DISPLAY_PATH;
+
+/**
+ * Sends the scoreboard to display windows on this device: on every change, and
+ * whenever a display opens and asks for it. Other devices follow Firestore instead.
+ */
+export const startDisplayBroadcast = (
+  getFeed: () => ScoreboardFeed | null,
+  subscribe: (onChange: () => void) => () => void
+): (() => void) => {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = () => {
+    const feed = getFeed();
+    if (feed) channel.postMessage({ type: 'feed', feed } satisfies DisplayMessage);
+  };
+
+  channel.onmessage = (event: MessageEvent<DisplayMessage>) => {
+    if (event.data?.type === 'request') post();
+  };
+  const unsubscribe = subscribe(post);
+
+  return () => {
+    unsubscribe();
+    channel.close();
+  };
+};
+
+/**
+ * Scoreboards a tracking window on this device sends, starting with its current one
+ */
+export const subscribeToDisplayBroadcast = (onFeed: (feed: ScoreboardFeed) => void): (() => void) => {
+  if (typeof BroadcastChannel === 'undefined') return () => {};
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<DisplayMessage>) => {
+    if (event.data?.type === 'feed') onFeed(event.data.feed);
+  };
+  channel.postMessage({ type: 'request' } satisfies DisplayMessage);
+
+  return () => channel.close();
+};
@@ -12,6 +12,7 @@ import {
   onSnapshot,
   writeBatch,
   serverTimestamp,
+  deleteField,
   Timestamp
 } from 'firebase/firestore';
 import { db, auth } from '../firebase';
@@ -19,14 +20,18 @@ import type {
   Team,
   Player,
   Season,
+  Opponent,
   Game,
   Shot,
   GoalAgainst,
+  ShotAgainst,
   GameEvent,
   Drill,
   PracticePlan,
   TacticalDrawing,
-  GamePreset
+  GamePreset,
+  CustomEventType,
+  OutboxWrite
 } from '../types';
 
 // Collection names
@@ -34,14 +39,17 @@ const COLLECTIONS = {
   teams: 'teams',
   players: 'players',
   seasons: 'seasons',
+  opponents: 'opponents',
   games: 'games',
   shots: 'shots',
   goalsAgainst: 'goalsAgainst',
+  shotsAgainst: 'shotsAgainst',
   gameEvents: 'gameEvents',
   drills: 'drills',
   practicePlans: 'practicePlans',
   tacticalDrawings: 'tacticalDrawings',
-  gamePresets: 'gamePresets'
+  gamePresets: 'gamePresets',
+  customEventTypes: 'customEventTypes'
 } as const;
 
 // Helper function to convert Firestore timestamps
@@ -353,6 +361,70 @@ export const firebaseDbHelpers = {
     return seasonsWithCounts;
   },
 
+  // ==========================================
+  // OPPONENTS
+  // ==========================================
+  async getAllOpponents(): Promise<Opponent[]> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return [];
+
+    const q = query(
+      collection(db, COLLECTIONS.opponents),
+      where('userId', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    const opponents = querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestamps(doc.data())
+    })) as Opponent[];
+
+    // Sort client-side instead of server-side
+    return opponents.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  async getOpponentById(id: string): Promise<Opponent | undefined> {
+    const docRef = doc(db, COLLECTIONS.opponents, id);
+    const docSnap = await getDoc(docRef);
+
+    if (docSnap.exists()) {
+      return {
+        id: docSnap.id,
+        ...convertTimestamps(docSnap.data())
+      } as Opponent;
+    }
+    return undefined;
+  },
+
+  async createOpponent(opponent: Opponent): Promise<string> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) throw new Error('User must be authenticated');
+
+    const { id, ...opponentData } = opponent;
+    const docRef = doc(db, COLLECTIONS.opponents, id);
+    await setDoc(docRef, {
+      ...opponentData,
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return id;
+  },
+
+  async updateOpponent(id: string, changes: Partial<Opponent>): Promise<number> {
+    const docRef = doc(db, COLLECTIONS.opponents, id);
+    await updateDoc(docRef, {
+      ...changes,
+      updatedAt: serverTimestamp()
+    });
+    return 1;
+  },
+
+  // Games keep the opponent's name; their link is dropped the next time names are merged
+  async deleteOpponent(id: string): Promise<void> {
+    const docRef = doc(db, COLLECTIONS.opponents, id);
+    await deleteDoc(docRef);
+  },
+
   // ==========================================
   // GAMES
   // ==========================================
@@ -445,7 +517,7 @@ export const firebaseDbHelpers = {
     batch.delete(gameRef);
 
     // Delete related data with userId filter
-    const relatedCollections = [COLLECTIONS.shots, COLLECTIONS.goalsAgainst, COLLECTIONS.gameEvents, COLLECTIONS.tacticalDrawings];
+    const relatedCollections = [COLLECTIONS.shots, COLLECTIONS.goalsAgainst, COLLECTIONS.shotsAgainst, COLLECTIONS.gameEvents, COLLECTIONS.tacticalDrawings];
 
     for (const collectionName of relatedCollections) {
       const q = query(
@@ -498,10 +570,14 @@ export const firebaseDbHelpers = {
     return id;
   },
 
+  // A field set to undefined is removed, like a shooter cleared after the game
   async updateShot(id: string, changes: Partial<Shot>): Promise<number> {
     const docRef = doc(db, COLLECTIONS.shots, id);
+    const fields = Object.fromEntries(
+      Object.entries(changes).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+    );
     await updateDoc(docRef, {
-      ...changes,
+      ...fields,
       updatedAt: serverTimestamp()
     });
     return 1;
@@ -562,6 +638,56 @@ export const firebaseDbHelpers = {
     await deleteDoc(docRef);
   },
 
+  // ==========================================
+  // SHOTS AGAINST
+  // ==========================================
+  async getShotsAgainstByGame(gameId: string): Promise<ShotAgainst[]> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return [];
+
+    const q = query(
+      collection(db, COLLECTIONS.shotsAgainst),
+      where('gameId', '==', gameId),
+      where('userId', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    const shotsAgainst = querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestamps(doc.data())
+    })) as ShotAgainst[];
+
+    // Sort client-side to avoid composite index
+    return shotsAgainst.sort((a, b) => a.timestamp - b.timestamp);
+  },
+
+  async createShotAgainst(shotAgainst: ShotAgainst): Promise<string> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) throw new Error('User must be authenticated');
+
+    const { id, ...shotAgainstData } = shotAgainst;
+    const docRef = doc(db, COLLECTIONS.shotsAgainst, id);
+    await setDoc(docRef, {
+      ...shotAgainstData,
+      userId,
+      createdAt: serverTimestamp()
+    });
+    return id;
+  },
+
+  async updateShotAgainst(id: string, changes: Partial<ShotAgainst>): Promise<number> {
+    const docRef = doc(db, COLLECTIONS.shotsAgainst, id);
+    await updateDoc(docRef, {
+      ...changes,
+      updatedAt: serverTimestamp()
+    });
+    return 1;
+  },
+
+  async deleteShotAgainst(id: string): Promise<void> {
+    const docRef = doc(db, COLLECTIONS.shotsAgainst, id);
+    await deleteDoc(docRef);
+  },
+
   // ==========================================
   // GAME EVENTS
   // ==========================================
@@ -913,18 +1039,98 @@ export const firebaseDbHelpers = {
     }
     const docRef = doc(db, COLLECTIONS.gamePresets, id);
     await deleteDoc(docRef);
+  },
+
+  // ==========================================
+  // CUSTOM EVENT TYPES
+  // ==========================================
+  async getAllCustomEventTypes(): Promise<CustomEventType[]> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return [];
+
+    const q = query(
+      collection(db, COLLECTIONS.customEventTypes),
+      where('userId', '==', userId)
+    );
+    const querySnapshot = await getDocs(q);
+    const eventTypes = querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...convertTimestamps(doc.data())
+    })) as CustomEventType[];
+
+    // Sort client-side instead of server-side
+    return eventTypes.sort((a, b) => a.label.localeCompare(b.label));
+  },
+
+  async createCustomEventType(eventType: CustomEventType): Promise<string> {
+    const { id, ...eventTypeData } = eventType;
+    const docRef = doc(db, COLLECTIONS.customEventTypes, id);
+    await setDoc(docRef, {
+      ...eventTypeData,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp()
+    });
+    return id;
+  },
+
+  async updateCustomEventType(id: string, changes: Partial<CustomEventType>): Promise<number> {
+    const docRef = doc(db, COLLECTIONS.customEventTypes, id);
+    await updateDoc(docRef, {
+      ...changes,
+      updatedAt: serverTimestamp()
+    });
+    return 1;
+  },
+
+  async deleteCustomEventType(id: string): Promise<void> {
+    const docRef = doc(db, COLLECTIONS.customEventTypes, id);
+    await deleteDoc(docRef);
+  },
+
+  // ==========================================
+  // BATCHED WRITES
+  // ==========================================
+  // Commits queued creates, updates and deletes together; all of them land or none does.
+  // Creates and updates match createShot()/updateShot() and friends field for field.
+  async commitWrites(writes: OutboxWrite[]): Promise<void> {
+    const userId = auth.currentUser?.uid;
+    if (!userId) throw new Error('User must be authenticated');
+
+    const batch = writeBatch(db);
+    writes.forEach(({ collection: collectionName, docId, operation, data }) => {
+      const docRef = doc(db, COLLECTIONS[collectionName], docId);
+      if (operation === 'delete') {
+        batch.delete(docRef);
+      } else if (operation === 'set') {
+        // The id is the document id, not a field
+        const recordData = { ...data };
+        delete recordData.id;
+        batch.set(docRef, {
+          ...recordData,
+          userId,
+          createdAt: serverTimestamp()
+        });
+      } else {
+        batch.update(docRef, {
+          ...data,
+          updatedAt: serverTimestamp()
+        });
+      }
+    });
+    await batch.commit();
   }
 };
 
-// Real-time subscriptions helper
+// Real-time subscriptions helper. fromCache is true while the data may still be
+// missing documents the server has (offline, or before the first server response).
 export const subscribeToCollection = <T>(
   collectionName: string,
-  callback: (data: T[]) => void,
+  callback: (data: T[], fromCache: boolean) => void,
   queryConstraints: any[] = []
 ) => {
   const userId = auth.currentUser?.uid;
   if (!userId) {
-    callback([]);
+    callback([], true);
     return () => {}; // Return empty unsubscribe function
   }
 
@@ -939,6 +1145,6 @@ export const subscribeToCollection = <T>(
       id: doc.id,
       ...convertTimestamps(doc.data())
     })) as T[];
-    callback(data);
+    callback(data, snapshot.metadata.fromCache);
   });
 };
\ No newline at end of file
@@ -5,4 +5,20 @@ import { firebaseDbHelpers, subscribeToCollection } from './firebase';
 export const dbHelpers = firebaseDbHelpers;
 
 // Export real-time subscription helper
-export { subscribeToCollection };
\ No newline at end of file
+export { subscribeToCollection };
+
+// Export the offline outbox for live tracking writes
+export {
+  enqueueWrites,
+  flushOutbox,
+  getPendingWrites,
+  applyPendingWrites,
+  subscribeToOutbox,
+  startOutbox
+} from './outbox';
+
+// Export the shared live session for games tracked on two devices
+export { subscribeToLiveGame } from './liveSession';
+
+// Export the same-device feed for bench display windows
+export { isDisplayWindow, startDisplayBroadcast, subscribeToDisplayBroadcast } from './displayChannel';
@@ -0,0 +1,40 @@
+import { documentId, where } from 'firebase/firestore';
+import type { Game, GameEvent, GoalAgainst, Shot, ShotAgainst } from '../types';
+import { subscribeToCollection } from './firebase';
+
+export interface LiveGameHandlers {
+  onGame: (game: Game) => void;
+  onShots: (shots: Shot[]) => void;
+  onGoalsAgainst: (goalsAgainst: GoalAgainst[]) => void;
+  onShotsAgainst: (shotsAgainst: ShotAgainst[]) => void;
+  onEvents: (events: GameEvent[]) => void;
+}
+
+/**
+ * Live updates of a game and its tracking records, so two coaches can track the
+ * same game from two devices. Cached snapshots are skipped: they can be missing
+ * records the server has, which would look like the other device deleted them.
+ */
+export const subscribeToLiveGame = (gameId: string, handlers: LiveGameHandlers): (() => void) => {
+  const byGame = [where('gameId', '==', gameId)];
+
+  const unsubscribes = [
+    subscribeToCollection<Game>('games', (games, fromCache) => {
+      if (!fromCache && games[0]) handlers.onGame(games[0]);
+    }, [where(documentId(), '==', gameId)]),
+    subscribeToCollection<Shot>('shots', (shots, fromCache) => {
+      if (!fromCache) handlers.onShots(shots);
+    }, byGame),
+    subscribeToCollection<GoalAgainst>('goalsAgainst', (goalsAgainst, fromCache) => {
+      if (!fromCache) handlers.onGoalsAgainst(goalsAgainst);
+    }, byGame),
+    subscribeToCollection<ShotAgainst>('shotsAgainst', (shotsAgainst, fromCache) => {
+      if (!fromCache) handlers.onShotsAgainst(shotsAgainst);
+    }, byGame),
+    subscribeToCollection<GameEvent>('gameEvents', (events, fromCache) => {
+      if (!fromCache) handlers.onEvents(events);
+    }, byGame)
+  ];
+
+  return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+};
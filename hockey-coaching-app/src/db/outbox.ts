@@ -0,0 +1,407 @@
+import type {
+  Shot,
+  GoalAgainst,
+  ShotAgainst,
+  GameEvent,
+  OutboxCollection,
+  OutboxEntry,
+  OutboxFailure,
+  OutboxStatus,
+  OutboxWrite
+} from '../types';
+import { firebaseDbHelpers as dbHelpers } from './firebase';
+
+// Offline outbox for live tracking writes. Every write lands in IndexedDB first and
+// is removed only once Firestore accepted it, so a reload or a crash mid-game loses nothing.
+
+const DB_NAME = 'hockey-coaching-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+const FLUSH_DELAY_MS = 2000; // Lets quick taps pile up before a flush
+const WRITE_TIMEOUT_MS = 15000; // Firestore never rejects offline writes, it just waits
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_BATCH_WRITES = 500; // Firestore limit per batch
+
+type Writer = {
+  set?: (docId: string, data: Record<string, unknown>) => Promise<unknown>;
+  update: (docId: string, data: Record<string, unknown>) => Promise<unknown>;
+  delete?: (docId: string) => Promise<unknown>;
+};
+
+// Single writes, used to find the record that made a batch fail.
+// Every write is keyed by document id, so replaying one that already went through is harmless.
+const WRITERS: Record<OutboxCollection, Writer> = {
+  games: {
+    update: (id, data) => dbHelpers.updateGame(id, data)
+  },
+  shots: {
+    set: (id, data) => dbHelpers.createShot({ ...data, id } as Shot),
+    update: (id, data) => dbHelpers.updateShot(id, data),
+    delete: id => dbHelpers.deleteShot(id)
+  },
+  goalsAgainst: {
+    set: (id, data) => dbHelpers.createGoalAgainst({ ...data, id } as GoalAgainst),
+    update: (id, data) => dbHelpers.updateGoalAgainst(id, data),
+    delete: id => dbHelpers.deleteGoalAgainst(id)
+  },
+  shotsAgainst: {
+    set: (id, data) => dbHelpers.createShotAgainst({ ...data, id } as ShotAgainst),
+    update: (id, data) => dbHelpers.updateShotAgainst(id, data),
+    delete: id => dbHelpers.deleteShotAgainst(id)
+  },
+  gameEvents: {
+    set: (id, data) => dbHelpers.createGameEvent({ ...data, id } as GameEvent),
+    update: (id, data) => dbHelpers.updateGameEvent(id, data),
+    delete: id => dbHelpers.deleteGameEvent(id)
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let flushing: Promise<void> | null = null;
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushTimerAt: number | null = null;
+let retryAfter = 0; // No flush before this time after a failure, except a forced one
+let started = false;
+const listeners = new Set<(status: OutboxStatus) => void>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        store.createIndex('gameId', 'gameId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const getEntryKey = (write: Pick<OutboxWrite, 'collection' | 'docId'>) => `${write.collection}/${write.docId}`;
+
+/**
+ * Folds a new write into the one already waiting for the same document.
+ * Updates merge into a pending create or update; a create or delete replaces it.
+ */
+const coalesceWrite = (existing: OutboxEntry | undefined, write: OutboxWrite): OutboxWrite => {
+  if (!existing || write.operation !== 'update' || existing.operation === 'delete') return write;
+  return { ...write, operation: existing.operation, data: { ...existing.data, ...write.data } };
+};
+
+/**
+ * Delay before the next attempt, doubling with every failure up to five minutes
+ */
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+};
+
+const getAllEntries = async (): Promise<OutboxEntry[]> => {
+  const db = await openOutbox();
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+  return requestToPromise(store.getAll() as IDBRequest<OutboxEntry[]>);
+};
+
+const getStatus = (entries: OutboxEntry[]): OutboxStatus => {
+  const failures: OutboxFailure[] = entries
+    .filter(entry => entry.attempts > 0)
+    .sort((a, b) => a.queuedAt - b.queuedAt)
+    .map(({ key, collection, docId, operation, attempts, lastError, nextAttemptAt }) => ({
+      key,
+      collection,
+      docId,
+      operation,
+      attempts,
+      error: lastError || 'Unknown error',
+      nextAttemptAt
+    }));
+
+  return {
+    pending: entries.length,
+    failures,
+    lastError: failures[failures.length - 1]?.error || null,
+    nextRetryAt: failures.length > 0
+      ? Math.max(retryAfter, Math.min(...failures.map(failure => failure.nextAttemptAt)))
+      : null
+  };
+};
+
+const notifyListeners = async (entries?: OutboxEntry[]) => {
+  if (listeners.size === 0) return;
+  const status = getStatus(entries || await getAllEntries());
+  listeners.forEach(listener => listener(status));
+};
+
+const scheduleFlush = (at: number) => {
+  const time = Math.max(at, retryAfter);
+  if (flushTimer && flushTimerAt !== null && flushTimerAt <= time) return;
+
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimerAt = time;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushTimerAt = null;
+    flushOutbox().catch(error => console.error('Outbox flush failed:', error));
+  }, Math.max(0, time - Date.now()));
+};
+
+class WriteTimeoutError extends Error {
+  constructor() {
+    super('Timed out waiting for the server');
+    this.name = 'WriteTimeoutError';
+  }
+}
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new WriteTimeoutError()), ms);
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * Whether a failure is about the connection rather than the record, in which case
+ * every other write would fail the same way
+ */
+const isConnectionError = (error: unknown): boolean => {
+  if (error instanceof WriteTimeoutError) return true;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const code = (error as { code?: string } | null)?.code;
+  return code === 'unavailable' || code === 'deadline-exceeded';
+};
+
+const applyWrite = async ({ collection, docId, operation, data }: OutboxEntry) => {
+  const writer = WRITERS[collection];
+  if (operation === 'delete') {
+    if (!writer.delete) throw new Error(`Cannot delete from ${collection}`);
+    await writer.delete(docId);
+  } else if (operation === 'set') {
+    if (!writer.set) throw new Error(`Cannot create in ${collection}`);
+    await writer.set(docId, data || {});
+  } else {
+    await writer.update(docId, data || {});
+  }
+};
+
+// Removes entries once they reached Firestore, unless a newer write replaced them meanwhile
+const removeEntries = async (entries: OutboxEntry[]) => {
+  const db = await openOutbox();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  for (const entry of entries) {
+    const current = await requestToPromise(store.get(entry.key) as IDBRequest<OutboxEntry | undefined>);
+    if (current && current.revision === entry.revision) {
+      store.delete(entry.key);
+    }
+  }
+  await transactionDone(transaction);
+};
+
+// Pushes failed entries back. A connection failure holds back the whole outbox,
+// a rejected record only itself.
+const markFailed = async (entries: OutboxEntry[], error: unknown, isConnectionFailure: boolean) => {
+  const message = error instanceof Error ? error.message : String(error);
+
+  const db = await openOutbox();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  for (const entry of entries) {
+    const current = await requestToPromise(store.get(entry.key) as IDBRequest<OutboxEntry | undefined>);
+    if (!current || current.revision !== entry.revision) continue;
+
+    const attempts = current.attempts + 1;
+    const nextAttemptAt = Date.now() + getRetryDelay(attempts);
+    if (isConnectionFailure) retryAfter = Math.max(retryAfter, nextAttemptAt);
+    store.put({ ...current, attempts, nextAttemptAt, lastError: message });
+  }
+  await transactionDone(transaction);
+};
+
+/**
+ * Sends entries in one batch. When the batch is rejected, the entries are retried
+ * one by one so only the records Firestore refuses stay behind, each with its own error.
+ * Returns false when the connection is down and the flush should stop.
+ */
+const sendBatch = async (entries: OutboxEntry[]): Promise<boolean> => {
+  try {
+    await withTimeout(dbHelpers.commitWrites(entries), WRITE_TIMEOUT_MS);
+    await removeEntries(entries);
+    return true;
+  } catch (error) {
+    if (isConnectionError(error)) {
+      console.error(`Outbox batch of ${entries.length} writes failed:`, error);
+      await markFailed(entries, error, true);
+      return false;
+    }
+    console.warn('Outbox batch rejected, retrying writes one by one:', error);
+  }
+
+  for (const entry of entries) {
+    try {
+      await withTimeout(applyWrite(entry), WRITE_TIMEOUT_MS);
+      await removeEntries([entry]);
+    } catch (error) {
+      console.error(`Outbox write ${entry.key} failed (attempt ${entry.attempts + 1}):`, error);
+      const isConnectionFailure = isConnectionError(error);
+      await markFailed([entry], error, isConnectionFailure);
+      if (isConnectionFailure) return false;
+    }
+  }
+  return true;
+};
+
+const runFlush = async (force: boolean) => {
+  if (force) retryAfter = 0;
+
+  const now = Date.now();
+  const due = (await getAllEntries())
+    .filter(entry => force || (entry.nextAttemptAt <= now && retryAfter <= now))
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+
+  // Oldest first, so a delete never overtakes the create it cancels
+  for (let start = 0; start < due.length; start += MAX_BATCH_WRITES) {
+    const isConnected = await sendBatch(due.slice(start, start + MAX_BATCH_WRITES));
+    if (!isConnected) break;
+  }
+
+  const remaining = await getAllEntries();
+  await notifyListeners(remaining);
+  if (remaining.length > 0) {
+    scheduleFlush(Math.min(...remaining.map(entry => entry.nextAttemptAt)));
+  }
+};
+
+/**
+ * Queues writes in IndexedDB and schedules a flush. Resolves once the writes are
+ * stored locally, not when they reach Firestore.
+ */
+export const enqueueWrites = async (writes: OutboxWrite[]): Promise<void> => {
+  if (writes.length === 0) return;
+
+  const db = await openOutbox();
+  const transaction = db.transaction(STORE_NAME, 'readwrite');
+  const store = transaction.objectStore(STORE_NAME);
+  const now = Date.now();
+
+  for (const write of writes) {
+    const key = getEntryKey(write);
+    const existing = await requestToPromise(store.get(key) as IDBRequest<OutboxEntry | undefined>);
+    store.put({
+      ...coalesceWrite(existing, write),
+      key,
+      revision: (existing?.revision || 0) + 1,
+      queuedAt: existing?.queuedAt || now,
+      attempts: 0,
+      nextAttemptAt: now
+    } satisfies OutboxEntry);
+  }
+  await transactionDone(transaction);
+
+  await notifyListeners();
+  scheduleFlush(now + FLUSH_DELAY_MS);
+};
+
+/**
+ * Sends every due write to Firestore. A forced flush ignores the retry backoff.
+ * Concurrent calls share the flush already running.
+ */
+export const flushOutbox = (force = false): Promise<void> => {
+  if (!flushing) {
+    flushing = runFlush(force).finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+/**
+ * Writes still waiting for Firestore, optionally only those of one game
+ */
+export const getPendingWrites = async (gameId?: string): Promise<OutboxEntry[]> => {
+  const entries = await getAllEntries();
+  return (gameId ? entries.filter(entry => entry.gameId === gameId) : entries)
+    .sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+/**
+ * Applies pending writes on top of records loaded from Firestore, so data
+ * that hasn't been synced yet shows up after a reload
+ */
+export const applyPendingWrites = <T extends { id: string }>(
+  records: T[],
+  entries: OutboxEntry[],
+  collection: OutboxCollection
+): T[] => {
+  return entries
+    .filter(entry => entry.collection === collection)
+    .reduce<T[]>((result, entry) => {
+      const others = result.filter(record => record.id !== entry.docId);
+      if (entry.operation === 'delete') return others;
+
+      const existing = result.find(record => record.id === entry.docId);
+      if (entry.operation === 'update' && !existing) return result;
+      return [...others, { ...existing, ...entry.data, id: entry.docId } as T];
+    }, records);
+};
+
+/**
+ * Listens to the pending count; the listener is called right away with the current status
+ */
+export const subscribeToOutbox = (listener: (status: OutboxStatus) => void): (() => void) => {
+  listeners.add(listener);
+  getAllEntries()
+    .then(entries => listener(getStatus(entries)))
+    .catch(error => console.error('Failed to read outbox:', error));
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Picks up writes left over from a previous session and retries when the
+ * connection comes back. Safe to call more than once.
+ */
+export const startOutbox = () => {
+  if (!started) {
+    started = true;
+    window.addEventListener('online', () => {
+      flushOutbox(true).catch(error => console.error('Outbox flush failed:', error));
+    });
+  }
+  return flushOutbox(true).catch(error => console.error('Outbox flush failed:', error));
+};
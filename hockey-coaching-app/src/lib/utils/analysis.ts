@@ -1,11 +1,28 @@
-import type { RinkZone, Shot, ShotWithGame, Game, ZoneStats, GameStats, AnalysisFilters, GoalAgainst } from '../../types';
+import type { RinkZone, Shot, ShotWithGame, Game, Opponent, ZoneStats, GameStats, AnalysisFilters, GameEvent, GoalAgainst, ShotAgainst, Player, PlayerScoringStats, PlayerShotStats, OutboxCollection, OutboxWrite, GameRecords, StrengthStats, StrengthState, ShotTagStats, ShotTagBreakdown, GoalieStats, GoalieGameStats, Penalty, ScoutingReport, ScoutingShot, ScoutingTeamReport, TeamSide } from '../../types';
 import { dbHelpers } from '../../db';
 import { 
   normalizeShotsArray, 
   normalizeGoalAgainst, 
+  normalizeShot,
+  normalizeShotAgainst,
   getNormalizedRinkZone,
-  type NormalizedShotWithGame 
+  type NormalizedShot,
+  type NormalizedShotWithGame,
+  type NormalizedShotAgainst
 } from '../../utils/shotNormalization';
+import { calculateGoalieGameStats, getGameEndTime } from '../../utils/goalies';
+import { countsForPlusMinus, getGoalRecords } from '../../utils/goals';
+import { getPlayersOnIceForGoal, getShifts } from '../../utils/shifts';
+import { affectsManpower } from '../../utils/penalties';
+import { getAwayStrength, getHomeTeamName, isScoutingGame } from '../../utils/scouting';
+import { getOpponentSideFields, planOpponentMerge } from '../../utils/opponents';
+import { getVideoOffsetChanges, type VideoRecord } from '../../utils/video';
+import { getEditedGameState, getScoreBeforeChanges, getStrengthChanges } from '../../utils/gameEdit';
+import { rebuildGameSituation } from '../../utils/gameSituation';
+import { isFaceoffEvent } from '../../utils/faceoffs';
+import { isMicrostatEvent } from '../../utils/microstats';
+import { isCustomEvent } from '../../utils/customEvents';
+import { SHOT_CONTEXTS, SHOT_CONTEXT_LABELS, SHOT_TYPES, SHOT_TYPE_LABELS, hasShotTags } from '../../utils/shotTags';
 
 // Define rink zones based on normalized coordinates (0-1)
 // Assumes attacking zone is on the right side (x > 0.5)
@@ -112,7 +129,9 @@ export const calculateZoneStats = (shots: Shot[]): ZoneStats[] => {
 };
 
 // New normalized version using normalized coordinates
-export const calculateNormalizedZoneStats = (normalizedShots: NormalizedShotWithGame[]): ZoneStats[] => {
+export const calculateNormalizedZoneStats = (
+  normalizedShots: Pick<NormalizedShotWithGame, 'normalizedX' | 'normalizedY' | 'result'>[]
+): ZoneStats[] => {
   const zoneData: Record<RinkZone, ZoneStats> = {
     high_slot: { zone: 'high_slot', shots: 0, goals: 0, saves: 0, misses: 0, percentage: 0 },
     low_slot: { zone: 'low_slot', shots: 0, goals: 0, saves: 0, misses: 0, percentage: 0 },
@@ -174,6 +193,197 @@ export const calculateGameStats = (shots: Shot[], games: Game[]): GameStats => {
   };
 };
 
+// Per-player shooting breakdown based on shot attribution
+export const calculatePlayerShotStats = (shots: Shot[], players: Player[]): PlayerShotStats[] => {
+  const stats = players.map(player => {
+    const playerShots = shots.filter(s => s.shooterId === player.id);
+    const goals = playerShots.filter(s => s.result === 'goal').length;
+    const assists = shots.filter(s => s.result === 'goal' && s.assistIds?.includes(player.id)).length;
+    const shootingPercentage = playerShots.length > 0 ? (goals / playerShots.length) * 100 : 0;
+
+    return {
+      playerId: player.id,
+      jerseyNumber: player.jerseyNumber,
+      name: `${player.firstName} ${player.lastName}`,
+      shots: playerShots.length,
+      goals,
+      assists,
+      points: goals + assists,
+      shootingPercentage: Math.round(shootingPercentage * 10) / 10
+    };
+  });
+
+  return stats
+    .filter(s => s.shots > 0 || s.assists > 0)
+    .sort((a, b) => b.points - a.points || b.goals - a.goals || b.shots - a.shots);
+};
+
+// Everything needed to credit the goals of one game
+export interface GameScoringData {
+  game: Game;
+  events: GameEvent[];
+  shots: Shot[];
+  goalsAgainst: GoalAgainst[];
+}
+
+// Goals, assists and plus/minus per player over a set of games. Scoreboard goals
+// count too, and the goal detail sheet's on-ice players win over the shifts.
+export const calculatePlayerScoringStats = (games: GameScoringData[], players: Player[]): PlayerScoringStats[] => {
+  const stats = new Map<string, PlayerScoringStats>();
+  const getStats = (playerId: string) => {
+    const existing = stats.get(playerId);
+    if (existing) return existing;
+
+    const player = players.find(p => p.id === playerId);
+    const created: PlayerScoringStats = {
+      playerId,
+      jerseyNumber: player?.jerseyNumber ?? 0,
+      name: player ? `${player.firstName} ${player.lastName}` : 'Unknown player',
+      goals: 0,
+      assists: 0,
+      points: 0,
+      powerPlayGoals: 0,
+      shorthandedGoals: 0,
+      plusMinus: 0
+    };
+    stats.set(playerId, created);
+    return created;
+  };
+
+  for (const { game, events, shots, goalsAgainst } of games) {
+    const shifts = getShifts(events, getGameEndTime(game, events));
+
+    for (const goal of getGoalRecords(shots, goalsAgainst, events)) {
+      if (goal.side === 'for') {
+        if (goal.scorerId) {
+          const scorer = getStats(goal.scorerId);
+          scorer.goals++;
+          if (goal.goalType === 'PP') scorer.powerPlayGoals++;
+          if (goal.goalType === 'SH') scorer.shorthandedGoals++;
+        }
+        goal.assistIds.forEach(playerId => { getStats(playerId).assists++; });
+      }
+
+      if (countsForPlusMinus(goal)) {
+        getPlayersOnIceForGoal(goal, shifts).forEach(playerId => {
+          getStats(playerId).plusMinus += goal.side === 'for' ? 1 : -1;
+        });
+      }
+    }
+  }
+
+  return Array.from(stats.values())
+    .map(player => ({ ...player, points: player.goals + player.assists }))
+    .sort((a, b) => b.points - a.points || b.goals - a.goals || b.plusMinus - a.plusMinus);
+};
+
+// Special teams split - shots and goals against grouped by strength state
+export const calculateStrengthStats = (shots: Shot[], goalsAgainst: GoalAgainst[] = []): StrengthStats[] => {
+  const states: StrengthState[] = ['EV', 'PP', 'SH'];
+
+  return states.map(state => {
+    const stateShots = shots.filter(s => s.strength === state);
+    const goals = stateShots.filter(s => s.result === 'goal').length;
+    const shootingPercentage = stateShots.length > 0 ? (goals / stateShots.length) * 100 : 0;
+
+    return {
+      state,
+      shots: stateShots.length,
+      goals,
+      goalsAgainst: goalsAgainst.filter(g => g.strength === state).length,
+      shootingPercentage: Math.round(shootingPercentage * 10) / 10
+    };
+  });
+};
+
+const getShotTagStats = (tag: string, label: string, shots: Shot[]): ShotTagStats => {
+  const goals = shots.filter(s => s.result === 'goal').length;
+  const shootingPercentage = shots.length > 0 ? (goals / shots.length) * 100 : 0;
+
+  return {
+    tag,
+    label,
+    shots: shots.length,
+    goals,
+    shootingPercentage: Math.round(shootingPercentage * 10) / 10
+  };
+};
+
+// Shots and shooting % by shot type, context and screen. Only tagged shots count
+// towards each group, so coaches who skip the tags don't skew the numbers.
+export const calculateShotTagStats = (shots: Shot[]): ShotTagBreakdown => {
+  const screenTagged = shots.filter(s => s.screened !== undefined);
+
+  return {
+    shotTypes: SHOT_TYPES
+      .map(type => getShotTagStats(type, SHOT_TYPE_LABELS[type], shots.filter(s => s.shotType === type)))
+      .filter(stats => stats.shots > 0),
+    contexts: SHOT_CONTEXTS
+      .map(context => getShotTagStats(context, SHOT_CONTEXT_LABELS[context], shots.filter(s => s.context === context)))
+      .filter(stats => stats.shots > 0),
+    screened: screenTagged.length > 0
+      ? [
+          getShotTagStats('screened', 'Screened', screenTagged.filter(s => s.screened)),
+          getShotTagStats('clear', 'Clear look', screenTagged.filter(s => !s.screened))
+        ]
+      : [],
+    untagged: shots.filter(s => !hasShotTags(s)).length
+  };
+};
+
+// Combine opponent shots with goals against into a single shots-against list
+export const mergeShotsAgainst = (shotsAgainst: ShotAgainst[], goalsAgainst: GoalAgainst[]): ShotAgainst[] => {
+  const goalShots: ShotAgainst[] = goalsAgainst.map(goal => ({
+    id: goal.id,
+    gameId: goal.gameId,
+    period: goal.period,
+    timestamp: goal.timestamp,
+    x: goal.x,
+    y: goal.y,
+    result: 'goal',
+    goalieId: goal.goalieId,
+    strength: goal.strength,
+    manpower: goal.manpower,
+    emptyNet: goal.emptyNet,
+    gameTime: goal.gameTime,
+    periodTime: goal.periodTime,
+    homeScore: goal.homeScore,
+    awayScore: goal.awayScore,
+    videoOffset: goal.videoOffset
+  }));
+
+  return [...shotsAgainst, ...goalShots].sort((a, b) => a.timestamp - b.timestamp);
+};
+
+// Save percentage only counts shots on goal (saves and goals)
+export const calculateSavePercentage = (shotsAgainst: Pick<ShotAgainst, 'result'>[]): number => {
+  const saves = shotsAgainst.filter(s => s.result === 'save').length;
+  const goals = shotsAgainst.filter(s => s.result === 'goal').length;
+  const onGoal = saves + goals;
+  return onGoal > 0 ? Math.round((saves / onGoal) * 1000) / 10 : 0;
+};
+
+export const calculateGoalieStats = (shotsAgainst: ShotAgainst[], players: Player[]): GoalieStats[] => {
+  const goalieIds = Array.from(new Set(shotsAgainst.map(s => s.goalieId).filter((id): id is string => !!id)));
+
+  return goalieIds.map(goalieId => {
+    const goalie = players.find(p => p.id === goalieId);
+    const goalieShots = shotsAgainst.filter(s => s.goalieId === goalieId);
+    const saves = goalieShots.filter(s => s.result === 'save').length;
+    const goalsAgainst = goalieShots.filter(s => s.result === 'goal').length;
+
+    return {
+      goalieId,
+      name: goalie ? `${goalie.firstName} ${goalie.lastName}` : 'Unknown goalie',
+      jerseyNumber: goalie?.jerseyNumber ?? 0,
+      shotsAgainst: saves + goalsAgainst,
+      saves,
+      goalsAgainst,
+      savePercentage: calculateSavePercentage(goalieShots)
+    };
+  }).sort((a, b) => b.shotsAgainst - a.shotsAgainst);
+};
+
 export const getFilteredShots = async (filters: AnalysisFilters): Promise<ShotWithGame[]> => {
   // Get all games first to apply filters
   let games: Game[] = [];
@@ -189,6 +399,9 @@ export const getFilteredShots = async (filters: AnalysisFilters): Promise<ShotWi
     return []; // Return empty array on error
   }
 
+  // Scouting games chart other teams, not ours
+  games = games.filter(game => !isScoutingGame(game));
+
   if (games.length === 0) {
     return []; // No games to analyze
   }
@@ -276,6 +489,352 @@ export const getFilteredGoalsAgainst = async (filters: AnalysisFilters) => {
   }
 };
 
+// Get opponent shots (including goals against) with normalization
+export const getFilteredShotsAgainst = async (filters: AnalysisFilters): Promise<NormalizedShotAgainst[]> => {
+  try {
+    const games = await getFilteredGames(filters);
+    const shotsAgainst: ShotAgainst[] = [];
+
+    for (const game of games) {
+      try {
+        const [gameShotsAgainst, gameGoalsAgainst] = await Promise.all([
+          dbHelpers.getShotsAgainstByGame(game.id),
+          dbHelpers.getGoalsAgainstByGame(game.id)
+        ]);
+        shotsAgainst.push(...mergeShotsAgainst(gameShotsAgainst, gameGoalsAgainst));
+      } catch (error) {
+        console.error(`Error loading shots against for game ${game.id}:`, error);
+        // Continue with other games
+      }
+    }
+
+    return shotsAgainst.map(shot => normalizeShotAgainst(shot, games.find(g => g.id === shot.gameId)!));
+  } catch (error) {
+    console.error('Error loading shots against:', error);
+    return [];
+  }
+};
+
+// Faceoff, microstat and custom events of the filtered games
+export const getFilteredGameEvents = async (filters: AnalysisFilters): Promise<GameEvent[]> => {
+  try {
+    const games = await getFilteredGames(filters);
+    const trackedEvents: GameEvent[] = [];
+
+    for (const game of games) {
+      try {
+        const events = await dbHelpers.getEventsByGame(game.id);
+        trackedEvents.push(...events.filter(event => isFaceoffEvent(event) || isMicrostatEvent(event) || isCustomEvent(event)));
+      } catch (error) {
+        console.error(`Error loading events for game ${game.id}:`, error);
+        // Continue with other games
+      }
+    }
+
+    return trackedEvents;
+  } catch (error) {
+    console.error('Error loading events:', error);
+    return [];
+  }
+};
+
+// Per-game goalie minutes, GAA and save % for a set of games
+export const getGoalieGameStats = async (games: Game[], players: Player[]): Promise<GoalieGameStats[]> => {
+  const stats: GoalieGameStats[] = [];
+
+  for (const game of games) {
+    try {
+      const [events, gameShotsAgainst, gameGoalsAgainst] = await Promise.all([
+        dbHelpers.getEventsByGame(game.id),
+        dbHelpers.getShotsAgainstByGame(game.id),
+        dbHelpers.getGoalsAgainstByGame(game.id)
+      ]);
+      stats.push(...calculateGoalieGameStats(
+        game,
+        events,
+        mergeShotsAgainst(gameShotsAgainst, gameGoalsAgainst),
+        players
+      ));
+    } catch (error) {
+      console.error(`Error loading goalie stats for game ${game.id}:`, error);
+      // Continue with other games
+    }
+  }
+
+  return stats;
+};
+
+// Season scoring leaderboard for a set of games
+export const getPlayerScoringStats = async (games: Game[], players: Player[]): Promise<PlayerScoringStats[]> => {
+  const gameData: GameScoringData[] = [];
+
+  for (const game of games) {
+    try {
+      const [events, shots, goalsAgainst] = await Promise.all([
+        dbHelpers.getEventsByGame(game.id),
+        dbHelpers.getShotsByGame(game.id),
+        dbHelpers.getGoalsAgainstByGame(game.id)
+      ]);
+      gameData.push({ game, events, shots, goalsAgainst });
+    } catch (error) {
+      console.error(`Error loading scoring for game ${game.id}:`, error);
+      // Continue with other games
+    }
+  }
+
+  return calculatePlayerScoringStats(gameData, players);
+};
+
+// One side of a scouting game, from its shots and the other side's shots on its goalie
+const calculateScoutingTeamReport = (
+  side: TeamSide,
+  teamName: string,
+  shots: ScoutingShot[],
+  opponentShots: ScoutingShot[],
+  events: GameEvent[]
+): ScoutingTeamReport => {
+  const isOnGoal = (shot: ScoutingShot) => shot.result === 'goal' || shot.result === 'save';
+  const powerPlayShots = shots.filter(shot => shot.strength === 'PP');
+  const opponentShotsOnGoal = opponentShots.filter(isOnGoal);
+
+  // Power plays come from manpower penalties taken by the other side
+  const opportunities = events.filter(event =>
+    event.type === 'penalty' && event.data?.team !== side && affectsManpower(event.data as Penalty)
+  ).length;
+
+  return {
+    side,
+    teamName,
+    shots,
+    shotsOnGoal: shots.filter(isOnGoal).length,
+    goals: shots.filter(shot => shot.result === 'goal').length,
+    shotZones: calculateNormalizedZoneStats(shots),
+    powerPlay: {
+      opportunities,
+      shots: powerPlayShots.length,
+      goals: powerPlayShots.filter(shot => shot.result === 'goal').length,
+      zones: calculateNormalizedZoneStats(powerPlayShots)
+    },
+    goalie: {
+      shotsAgainst: opponentShotsOnGoal.length,
+      goalsAgainst: opponentShotsOnGoal.filter(shot => shot.result === 'goal').length,
+      savePercentage: calculateSavePercentage(opponentShotsOnGoal),
+      zones: calculateNormalizedZoneStats(opponentShotsOnGoal)
+    }
+  };
+};
+
+// Scouting report for both sides. Away shots are tracked like shots against,
+// so they are turned around to attack right and their strength is flipped.
+export const calculateScoutingReport = (
+  game: Game,
+  shots: Shot[],
+  shotsAgainst: ShotAgainst[],
+  goalsAgainst: GoalAgainst[],
+  events: GameEvent[]
+): ScoutingReport => {
+  const homeShots: ScoutingShot[] = shots.map(shot => {
+    const { normalizedX, normalizedY } = normalizeShot(shot, game);
+    return { id: shot.id, period: shot.period, normalizedX, normalizedY, result: shot.result, strength: shot.strength };
+  });
+
+  const awayShots: ScoutingShot[] = mergeShotsAgainst(shotsAgainst, goalsAgainst).map(shot => {
+    const { normalizedX, normalizedY } = normalizeShotAgainst(shot, game);
+    return {
+      id: shot.id,
+      period: shot.period,
+      normalizedX: 1 - normalizedX,
+      normalizedY: 1 - normalizedY,
+      result: shot.result,
+      strength: getAwayStrength(shot.strength)
+    };
+  });
+
+  return {
+    home: calculateScoutingTeamReport('home', getHomeTeamName(game, 'Home'), homeShots, awayShots, events),
+    away: calculateScoutingTeamReport('away', game.awayTeamName, awayShots, homeShots, events)
+  };
+};
+
+export const getScoutingReport = async (game: Game): Promise<ScoutingReport> => {
+  const [shots, shotsAgainst, goalsAgainst, events] = await Promise.all([
+    dbHelpers.getShotsByGame(game.id),
+    dbHelpers.getShotsAgainstByGame(game.id),
+    dbHelpers.getGoalsAgainstByGame(game.id),
+    dbHelpers.getEventsByGame(game.id)
+  ]);
+  return calculateScoutingReport(game, shots, shotsAgainst, goalsAgainst, events);
+};
+
+// Rebuilds game clock and score from the event log for shots recorded before
+// they were captured live. Returns the number of records updated.
+export const backfillGameSituation = async (games: Game[]): Promise<number> => {
+  const isMissing = (item: { gameTime?: number; homeScore?: number }) =>
+    item.gameTime === undefined || item.homeScore === undefined;
+  let updated = 0;
+
+  for (const game of games) {
+    try {
+      const [events, shots, goalsAgainst, shotsAgainst] = await Promise.all([
+        dbHelpers.getEventsByGame(game.id),
+        dbHelpers.getShotsByGame(game.id),
+        dbHelpers.getGoalsAgainstByGame(game.id),
+        dbHelpers.getShotsAgainstByGame(game.id)
+      ]);
+
+      for (const shot of shots.filter(isMissing)) {
+        const situation = rebuildGameSituation(game, events, shot);
+        if (!situation) continue;
+        await dbHelpers.updateShot(shot.id, situation);
+        updated++;
+      }
+
+      for (const goal of goalsAgainst.filter(isMissing)) {
+        const situation = rebuildGameSituation(game, events, goal);
+        if (!situation) continue;
+        await dbHelpers.updateGoalAgainst(goal.id, situation);
+        updated++;
+      }
+
+      for (const shot of shotsAgainst.filter(isMissing)) {
+        const situation = rebuildGameSituation(game, events, shot);
+        if (!situation) continue;
+        await dbHelpers.updateShotAgainst(shot.id, situation);
+        updated++;
+      }
+    } catch (error) {
+      console.error(`Error backfilling game ${game.id}:`, error);
+      // Continue with other games
+    }
+  }
+
+  return updated;
+};
+
+// Links games to opponents by name, creating opponents for new names, and
+// writes the opponent's spelling back to them. Both sides of a scouting game
+// are linked. Returns the number of games updated.
+export const mergeOpponentNames = async (games: Game[], opponents: Opponent[], userId: string): Promise<number> => {
+  const updated = new Set<string>();
+
+  for (const merge of planOpponentMerge(games, opponents, userId)) {
+    try {
+      if (merge.isNew) {
+        await dbHelpers.createOpponent(merge.opponent);
+      }
+
+      for (const { game, side } of merge.sides) {
+        await dbHelpers.updateGame(game.id, getOpponentSideFields(side, merge.opponent));
+        updated.add(game.id);
+      }
+    } catch (error) {
+      console.error(`Error merging games into opponent ${merge.opponent.name}:`, error);
+      // Continue with other opponents
+    }
+  }
+
+  return updated.size;
+};
+
+// Our shots and theirs from a set of games against one opponent
+export const getOpponentShots = async (games: Game[]): Promise<{ shots: NormalizedShot[]; shotsAgainst: NormalizedShotAgainst[] }> => {
+  const shots: NormalizedShot[] = [];
+  const shotsAgainst: NormalizedShotAgainst[] = [];
+
+  for (const game of games) {
+    try {
+      const [gameShots, gameShotsAgainst, gameGoalsAgainst] = await Promise.all([
+        dbHelpers.getShotsByGame(game.id),
+        dbHelpers.getShotsAgainstByGame(game.id),
+        dbHelpers.getGoalsAgainstByGame(game.id)
+      ]);
+      shots.push(...gameShots.map(shot => normalizeShot(shot, game)));
+      shotsAgainst.push(...mergeShotsAgainst(gameShotsAgainst, gameGoalsAgainst).map(shot => normalizeShotAgainst(shot, game)));
+    } catch (error) {
+      console.error(`Error loading shots for game ${game.id}:`, error);
+      // Continue with other games
+    }
+  }
+
+  return { shots, shotsAgainst };
+};
+
+// Firestore commits at most 500 writes at once
+const MAX_BATCH_WRITES = 500;
+
+// Moves the game's video start and writes every record's offset into the
+// video, in batches. Returns the number of records updated.
+export const syncGameVideo = async (game: Game, videoStartedAt: number): Promise<number> => {
+  const [shots, goalsAgainst, shotsAgainst, events] = await Promise.all([
+    dbHelpers.getShotsByGame(game.id),
+    dbHelpers.getGoalsAgainstByGame(game.id),
+    dbHelpers.getShotsAgainstByGame(game.id),
+    dbHelpers.getEventsByGame(game.id)
+  ]);
+
+  const toWrites = (collection: OutboxCollection, records: VideoRecord[]): OutboxWrite[] =>
+    getVideoOffsetChanges(records, videoStartedAt).map(change => ({
+      collection,
+      docId: change.id,
+      gameId: game.id,
+      operation: 'update',
+      data: { videoOffset: change.videoOffset }
+    }));
+
+  const writes: OutboxWrite[] = [
+    { collection: 'games', docId: game.id, gameId: game.id, operation: 'update', data: { videoStartedAt } },
+    ...toWrites('shots', shots),
+    ...toWrites('goalsAgainst', goalsAgainst),
+    ...toWrites('shotsAgainst', shotsAgainst),
+    ...toWrites('gameEvents', events)
+  ];
+
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    await dbHelpers.commitWrites(writes.slice(start, start + MAX_BATCH_WRITES));
+  }
+
+  return writes.length - 1;
+};
+
+// Score, result and timeout of an edited game, plus the score before and the
+// strength of every shot, counted again from its events. Returns what was written.
+export const saveEditedGameState = async (game: Game, records: GameRecords): Promise<{ game: Game; records: GameRecords }> => {
+  // Score-before and strength of the same record go in one write
+  type RecordChange = { id: string } & Partial<Pick<Shot, 'homeScore' | 'awayScore' | 'strength' | 'manpower'>>;
+  const getRecordChanges = (list: Array<Shot | GoalAgainst | ShotAgainst>): RecordChange[] => {
+    const changes = new Map<string, RecordChange>();
+    [...getScoreBeforeChanges(list, records.events), ...getStrengthChanges(list, records.events)].forEach(change => {
+      changes.set(change.id, { ...changes.get(change.id), ...change });
+    });
+    return Array.from(changes.values());
+  };
+
+  const state = getEditedGameState(game, records.events);
+  const shotChanges = getRecordChanges(records.shots);
+  const goalAgainstChanges = getRecordChanges(records.goalsAgainst);
+  const shotAgainstChanges = getRecordChanges(records.shotsAgainst);
+
+  await Promise.all([
+    dbHelpers.updateGame(game.id, state),
+    ...shotChanges.map(({ id, ...changes }) => dbHelpers.updateShot(id, changes)),
+    ...goalAgainstChanges.map(({ id, ...changes }) => dbHelpers.updateGoalAgainst(id, changes)),
+    ...shotAgainstChanges.map(({ id, ...changes }) => dbHelpers.updateShotAgainst(id, changes))
+  ]);
+
+  const applyChanges = <T extends { id: string }>(list: T[], changes: Array<{ id: string }>): T[] =>
+    list.map(record => ({ ...record, ...changes.find(change => change.id === record.id) }));
+
+  return {
+    game: { ...game, ...state },
+    records: {
+      ...records,
+      shots: applyChanges(records.shots, shotChanges),
+      goalsAgainst: applyChanges(records.goalsAgainst, goalAgainstChanges),
+      shotsAgainst: applyChanges(records.shotsAgainst, shotAgainstChanges)
+    }
+  };
+};
+
 // Enhanced shot color with danger level
 export const getEnhancedShotColor = (result: Shot['result'], dangerLevel?: 'high' | 'medium' | 'low'): string => {
   if (result === 'goal') {
@@ -308,6 +867,9 @@ export const getFilteredGames = async (filters: AnalysisFilters): Promise<Game[]
     return []; // Return empty array on error
   }
 
+  // Scouting games chart other teams, not ours
+  games = games.filter(game => !isScoutingGame(game));
+
   if (games.length === 0) {
     return []; // No games to filter
   }
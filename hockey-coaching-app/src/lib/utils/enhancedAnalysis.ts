@@ -10,6 +10,25 @@ import {
   normalizeShotsArray,
   type NormalizedShotWithGame
 } from '../../utils/shotNormalization';
+import { getScoreSituation } from '../../utils/gameSituation';
+
+// Whether a shot falls inside a time window (minutes from period start).
+// Shots recorded before the game clock was captured have no periodTime.
+const isInTimeRange = (
+  shot: NormalizedShotWithGame,
+  games: Game[],
+  timeFrom?: number,
+  timeTo?: number
+): boolean => {
+  if (shot.periodTime === undefined) return false;
+
+  const game = games.find(g => g.id === shot.gameId);
+  const periodTime = shot.periodTime / 60; // Convert to minutes
+  const from = timeFrom ?? 0;
+  const to = timeTo ?? game?.periodMinutes ?? Infinity;
+
+  return periodTime >= from && periodTime <= to;
+};
 
 // Enhanced shot filtering with all the new filter options
 export const applyEnhancedFilters = (
@@ -33,52 +52,73 @@ export const applyEnhancedFilters = (
     );
   }
 
-  // Time range filtering within periods
-  if (filters.timeFrom !== undefined || filters.timeTo !== undefined) {
-    filteredShots = filteredShots.filter(shot => {
-      const shotGameTime = shot.timestamp; // This should be game time in seconds
-      const game = games.find(g => g.id === shot.gameId);
-      if (!game) return true;
+  // Shooter filtering
+  if (filters.shooterIds && filters.shooterIds.length > 0) {
+    filteredShots = filteredShots.filter(shot =>
+      shot.shooterId !== undefined && filters.shooterIds!.includes(shot.shooterId)
+    );
+  }
 
-      // Convert shot timestamp to period time in minutes
-      const periodLength = game.periodMinutes * 60; // Convert to seconds
-      const periodStartTime = (shot.period - 1) * periodLength;
-      const periodTime = (shotGameTime - periodStartTime) / 60; // Convert to minutes
+  // Strength filtering (shots from before penalty tracking have no strength)
+  if (filters.strengths && filters.strengths.length > 0) {
+    filteredShots = filteredShots.filter(shot =>
+      shot.strength !== undefined && filters.strengths!.includes(shot.strength)
+    );
+  }
 
-      const from = filters.timeFrom ?? 0;
-      const to = filters.timeTo ?? game.periodMinutes;
+  // Shot tag filtering (untagged shots drop out once a tag filter is set)
+  if (filters.shotTypes && filters.shotTypes.length > 0) {
+    filteredShots = filteredShots.filter(shot =>
+      shot.shotType !== undefined && filters.shotTypes!.includes(shot.shotType)
+    );
+  }
 
-      return periodTime >= from && periodTime <= to;
-    });
+  if (filters.shotContexts && filters.shotContexts.length > 0) {
+    filteredShots = filteredShots.filter(shot =>
+      shot.context !== undefined && filters.shotContexts!.includes(shot.context)
+    );
+  }
+
+  if (filters.screened !== undefined) {
+    filteredShots = filteredShots.filter(shot => shot.screened === filters.screened);
+  }
+
+  // Time range filtering within periods
+  if (filters.timeFrom !== undefined || filters.timeTo !== undefined) {
+    filteredShots = filteredShots.filter(shot =>
+      isInTimeRange(shot, games, filters.timeFrom, filters.timeTo)
+    );
   }
 
   // Score situation filtering
   if (filters.scoreSituation && filters.scoreSituation !== 'all') {
-    filteredShots = filteredShots.filter(shot => {
-      const game = games.find(g => g.id === shot.gameId);
-      if (!game) return true;
-
-      // For now, we'll use the final score as a proxy
-      // In a real implementation, you'd track score at time of shot
-      const homeScore = game.homeScore || 0;
-      const awayScore = game.awayScore || 0;
-
-      switch (filters.scoreSituation) {
-        case 'winning':
-          return homeScore > awayScore;
-        case 'losing':
-          return homeScore < awayScore;
-        case 'tied':
-          return homeScore === awayScore;
-        default:
-          return true;
-      }
-    });
+    // Uses the score when the shot was taken; older shots need the backfill first
+    filteredShots = filteredShots.filter(shot =>
+      shot.homeScore !== undefined &&
+      shot.awayScore !== undefined &&
+      getScoreSituation(shot.homeScore, shot.awayScore) === filters.scoreSituation
+    );
   }
 
   return filteredShots;
 };
 
+// Shots an active time or score situation filter leaves out only because they
+// were recorded before the game clock and score were captured
+export const countShotsMissingSituation = (
+  shots: NormalizedShotWithGame[],
+  filters: AnalysisFilters
+): number => {
+  const needsTime = filters.timeFrom !== undefined || filters.timeTo !== undefined;
+  const needsScore = !!filters.scoreSituation && filters.scoreSituation !== 'all';
+  if (!needsTime && !needsScore) return 0;
+
+  return shots.filter(shot =>
+    (needsTime && shot.periodTime === undefined) ||
+    (needsScore && (shot.homeScore === undefined || shot.awayScore === undefined))
+  ).length;
+};
+
 // Multi-game comparison data preparation
 export interface GameComparisonData {
   gameId: string;
@@ -250,20 +290,7 @@ export const filterShotsByTimeRange = (
     return shots;
   }
 
-  return shots.filter(shot => {
-    const game = games.find(g => g.id === shot.gameId);
-    if (!game) return true;
-
-    // Calculate period time for this shot
-    const periodLength = game.periodMinutes * 60; // seconds
-    const periodStartTime = (shot.period - 1) * periodLength;
-    const shotTimeInPeriod = (shot.timestamp - periodStartTime) / 60; // minutes
-
-    const from = timeFrom ?? 0;
-    const to = timeTo ?? game.periodMinutes;
-
-    return shotTimeInPeriod >= from && shotTimeInPeriod <= to;
-  });
+  return shots.filter(shot => isInTimeRange(shot, games, timeFrom, timeTo));
 };
 
 // Enhanced zone statistics with comparison capabilities
@@ -1,20 +1,25 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import type { Team, Season, Game, AnalysisFilters, ShotWithGame, ComparisonMode, AnalysisState } from '../types';
+import type { Team, Season, Game, GameEvent, AnalysisFilters, ShotWithGame, ComparisonMode, AnalysisState, Player } from '../types';
 import { dbHelpers } from '../db';
 import {
   getFilteredShots,
   getFilteredGames,
   getFilteredNormalizedShots,
   getFilteredGoalsAgainst,
-  calculateGameStats
+  getFilteredShotsAgainst,
+  getFilteredGameEvents,
+  calculateGameStats,
+  backfillGameSituation
 } from '../lib/utils/analysis';
 import {
   generateSmartInsights,
   type NormalizedShotWithGame,
-  type NormalizedGoalAgainst
+  type NormalizedGoalAgainst,
+  type NormalizedShotAgainst
 } from '../utils/shotNormalization';
 import {
   applyEnhancedFilters,
+  countShotsMissingSituation,
   prepareMultiGameComparison,
   aggregateMultipleGames,
   generateMultiGameInsights,
@@ -31,16 +36,29 @@ import AdvancedFilters from '../components/analysis/AdvancedFilters';
 import MultiRinkVisualization from '../components/analysis/MultiRinkVisualization';
 import InteractiveZoneAnalytics from '../components/analysis/InteractiveZoneAnalytics';
 import EnhancedInsightsPanel from '../components/analysis/EnhancedInsightsPanel';
+import PlayerShotBreakdown from '../components/analysis/PlayerShotBreakdown';
+import SpecialTeamsBreakdown from '../components/analysis/SpecialTeamsBreakdown';
+import ShotTagBreakdown from '../components/analysis/ShotTagBreakdown';
+import ShotsAgainstHeatmap from '../components/analysis/ShotsAgainstHeatmap';
+import FaceoffBreakdown from '../components/analysis/FaceoffBreakdown';
+import MicrostatsBreakdown from '../components/analysis/MicrostatsBreakdown';
+import CustomEventsBreakdown from '../components/analysis/CustomEventsBreakdown';
+import { isFaceoffEvent } from '../utils/faceoffs';
+import { normalizeMicrostats } from '../utils/microstats';
+import { normalizeCustomEvents } from '../utils/customEvents';
 
 import { Filter, Target, TrendingUp, Calendar, Users, Download, BarChart3, ChevronDown, ChevronUp } from 'lucide-react';
 
 const DataAnalysis: React.FC = () => {
   const [teams, setTeams] = useState<Team[]>([]);
   const [seasons, setSeasons] = useState<Season[]>([]);
+  const [players, setPlayers] = useState<Player[]>([]);
   const [filteredShots, setFilteredShots] = useState<ShotWithGame[]>([]);
   const [normalizedShots, setNormalizedShots] = useState<NormalizedShotWithGame[]>([]);
   const [enhancedFilteredShots, setEnhancedFilteredShots] = useState<NormalizedShotWithGame[]>([]);
   const [normalizedGoalsAgainst, setNormalizedGoalsAgainst] = useState<NormalizedGoalAgainst[]>([]);
+  const [shotsAgainst, setShotsAgainst] = useState<NormalizedShotAgainst[]>([]);
+  const [gameEvents, setGameEvents] = useState<GameEvent[]>([]);
   const [filteredGames, setFilteredGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
   const [isFiltersExpanded, setIsFiltersExpanded] = useState(false);
@@ -58,6 +76,7 @@ const DataAnalysis: React.FC = () => {
   const [timeRange, setTimeRange] = useState<{ from?: number; to?: number }>({});
   const [selectedShotResults, setSelectedShotResults] = useState<ShotWithGame['result'][]>([]);
   const [scoreSituation, setScoreSituation] = useState<'winning' | 'losing' | 'tied' | 'all'>('all');
+  const [isBackfilling, setIsBackfilling] = useState(false);
 
   const rinkRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -98,6 +117,27 @@ const DataAnalysis: React.FC = () => {
     return generateSmartInsights(enhancedFilteredShots);
   }, [enhancedFilteredShots]);
 
+  // Players of the selected team, or every roster when no team is selected
+  const filterPlayers = useMemo(() => {
+    return filters.teamId ? players.filter(player => player.teamId === filters.teamId) : players;
+  }, [players, filters.teamId]);
+
+  // Faceoffs, microstats and custom events in the selected periods
+  const periodEvents = useMemo(() => {
+    if (selectedPeriods.length === 0) return gameEvents;
+    return gameEvents.filter(event => selectedPeriods.includes(event.period));
+  }, [gameEvents, selectedPeriods]);
+
+  const faceoffEvents = useMemo(() => periodEvents.filter(isFaceoffEvent), [periodEvents]);
+
+  const microstats = useMemo(() => {
+    return filteredGames.flatMap(game => normalizeMicrostats(periodEvents, game));
+  }, [periodEvents, filteredGames]);
+
+  const customEvents = useMemo(() => {
+    return filteredGames.flatMap(game => normalizeCustomEvents(periodEvents, game));
+  }, [periodEvents, filteredGames]);
+
   // Multi-game comparison data
   const gameComparisonData = useMemo((): GameComparisonData[] => {
     if (analysisState.selectedGameIds.length === 0) return [];
@@ -318,6 +358,15 @@ const DataAnalysis: React.FC = () => {
     applyFilters();
   }, [filters]);
 
+  const enhancedFilters = useMemo<AnalysisFilters>(() => ({
+    ...filters,
+    periods: selectedPeriods.length > 0 ? selectedPeriods : undefined,
+    shotResults: selectedShotResults.length > 0 ? selectedShotResults : undefined,
+    scoreSituation,
+    timeFrom: timeRange.from,
+    timeTo: timeRange.to
+  }), [filters, selectedPeriods, selectedShotResults, scoreSituation, timeRange]);
+
   // Apply enhanced filters when base data or enhanced filter states change
   useEffect(() => {
     if (normalizedShots.length === 0) {
@@ -325,26 +374,20 @@ const DataAnalysis: React.FC = () => {
       return;
     }
 
-    const enhancedFilters: AnalysisFilters = {
-      ...filters,
-      periods: selectedPeriods.length > 0 ? selectedPeriods : undefined,
-      shotResults: selectedShotResults.length > 0 ? selectedShotResults : undefined,
-      scoreSituation,
-      timeFrom: timeRange.from,
-      timeTo: timeRange.to
-    };
-
     const enhanced = applyEnhancedFilters(normalizedShots, filteredGames, enhancedFilters);
     setEnhancedFilteredShots(enhanced);
-  }, [
-    normalizedShots,
-    filteredGames,
-    selectedPeriods,
-    selectedShotResults,
-    scoreSituation,
-    timeRange,
-    filters
-  ]);
+  }, [normalizedShots, filteredGames, enhancedFilters]);
+
+  // Shots the other filters keep that the time or score filter can't place
+  const shotsExcludedBySituation = useMemo(() => {
+    const withoutSituation = applyEnhancedFilters(normalizedShots, filteredGames, {
+      ...enhancedFilters,
+      scoreSituation: 'all',
+      timeFrom: undefined,
+      timeTo: undefined
+    });
+    return countShotsMissingSituation(withoutSituation, enhancedFilters);
+  }, [normalizedShots, filteredGames, enhancedFilters]);
 
   // Generate heatmap/splash zones when view mode or data changes
   useEffect(() => {
@@ -378,14 +421,20 @@ const DataAnalysis: React.FC = () => {
         dbHelpers.getAllSeasons().catch(() => [])
       ]);
 
+      const teamPlayers = await Promise.all(
+        allTeams.map(team => dbHelpers.getPlayersByTeam(team.id).catch(() => []))
+      );
+
       setTeams(allTeams);
       setSeasons(allSeasons);
+      setPlayers(teamPlayers.flat());
       setLoading(false);
     } catch (error) {
       console.error('Failed to load initial data:', error);
       // Set empty arrays as fallback
       setTeams([]);
       setSeasons([]);
+      setPlayers([]);
       setLoading(false);
     }
   };
@@ -393,17 +442,21 @@ const DataAnalysis: React.FC = () => {
   const applyFilters = async () => {
     setLoading(true);
     try {
-      const [shots, games, normalizedShotsData, goalsAgainstData] = await Promise.all([
+      const [shots, games, normalizedShotsData, goalsAgainstData, shotsAgainstData, eventsData] = await Promise.all([
         getFilteredShots(filters),
         getFilteredGames(filters),
         getFilteredNormalizedShots(filters),
-        getFilteredGoalsAgainst(filters)
+        getFilteredGoalsAgainst(filters),
+        getFilteredShotsAgainst(filters),
+        getFilteredGameEvents(filters)
       ]);
 
       setFilteredShots(shots);
       setFilteredGames(games);
       setNormalizedShots(normalizedShotsData);
       setNormalizedGoalsAgainst(goalsAgainstData);
+      setShotsAgainst(shotsAgainstData);
+      setGameEvents(eventsData);
       // Note: zoneStats, gameStats, and smartInsights are now computed via useMemo
     } catch (error) {
       console.error('Failed to apply filters:', error);
@@ -411,6 +464,27 @@ const DataAnalysis: React.FC = () => {
     setLoading(false);
   };
 
+  // Shots recorded before game clock and score were captured are skipped by
+  // the time and score filters until they are rebuilt from the event log
+  const shotsMissingSituation = useMemo(() => {
+    // Shots against already include goals against
+    return [...normalizedShots, ...shotsAgainst]
+      .filter(shot => shot.gameTime === undefined || shot.homeScore === undefined).length;
+  }, [normalizedShots, shotsAgainst]);
+
+  const handleBackfill = async () => {
+    setIsBackfilling(true);
+    try {
+      const updated = await backfillGameSituation(filteredGames);
+      alert(`Rebuilt game clock and score for ${updated} shot${updated !== 1 ? 's' : ''}.`);
+      await applyFilters();
+    } catch (error) {
+      console.error('Failed to rebuild game situation:', error);
+      alert('Failed to rebuild shots from the event log. Please try again.');
+    }
+    setIsBackfilling(false);
+  };
+
   const clearFilters = () => {
     setFilters({
       seasonId: '',
@@ -450,6 +524,11 @@ const DataAnalysis: React.FC = () => {
     if (scoreSituation !== 'all') count++;
     if (timeRange.from !== undefined || timeRange.to !== undefined) count++;
     if (analysisState.selectedGameIds.length > 0) count++;
+    if (filters.shooterIds && filters.shooterIds.length > 0) count++;
+    if (filters.strengths && filters.strengths.length > 0) count++;
+    if (filters.shotTypes && filters.shotTypes.length > 0) count++;
+    if (filters.shotContexts && filters.shotContexts.length > 0) count++;
+    if (filters.screened !== undefined) count++;
     return count;
   }, [filters, selectedPeriods, selectedShotResults, scoreSituation, timeRange, analysisState.selectedGameIds]);
 
@@ -516,7 +595,9 @@ const DataAnalysis: React.FC = () => {
         team,
         season,
         filteredShots,
-        insights
+        insights,
+        shotsAgainst,
+        players
       );
 
       await exportGameReport(reportData);
@@ -702,6 +783,7 @@ const DataAnalysis: React.FC = () => {
                     filters={filters}
                     onFiltersChange={setFilters}
                     gameCount={filteredGames.length}
+                    players={filterPlayers}
                   />
                 </div>
 
@@ -718,6 +800,28 @@ const DataAnalysis: React.FC = () => {
           </div>
         </div>
 
+        {/* Backfill for shots tracked before clock and score capture */}
+        {shotsMissingSituation > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-8 flex flex-col md:flex-row md:items-center md:justify-between">
+            <p className="text-sm text-yellow-800 mb-2 md:mb-0">
+              {shotsMissingSituation} shot{shotsMissingSituation !== 1 ? 's were' : ' was'} tracked without game clock and score,
+              so time and score situation filters skip {shotsMissingSituation !== 1 ? 'them' : 'it'}.
+              {shotsExcludedBySituation > 0 && (
+                <span className="font-semibold">
+                  {' '}The current filters leave out {shotsExcludedBySituation} shot{shotsExcludedBySituation !== 1 ? 's' : ''} because of this.
+                </span>
+              )}
+            </p>
+            <button
+              onClick={handleBackfill}
+              disabled={isBackfilling}
+              className="bg-yellow-500 hover:bg-yellow-600 disabled:opacity-50 text-white font-medium px-4 py-2 rounded-lg text-sm"
+            >
+              {isBackfilling ? 'Rebuilding...' : 'Rebuild from event log'}
+            </button>
+          </div>
+        )}
+
         {/* Key Stats Cards - Full Width */}
         <div className="grid grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
@@ -805,6 +909,74 @@ const DataAnalysis: React.FC = () => {
           </div>
         </div>
 
+        {/* Player Breakdown Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <PlayerShotBreakdown
+              shots={enhancedFilteredShots}
+              players={filterPlayers}
+            />
+          </div>
+        </div>
+
+        {/* Special Teams Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <SpecialTeamsBreakdown
+              shots={enhancedFilteredShots}
+              goalsAgainst={normalizedGoalsAgainst}
+            />
+          </div>
+        </div>
+
+        {/* Shot Tags Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <ShotTagBreakdown shots={enhancedFilteredShots} />
+          </div>
+        </div>
+
+        {/* Faceoffs Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <FaceoffBreakdown
+              events={faceoffEvents}
+              players={filterPlayers}
+            />
+          </div>
+        </div>
+
+        {/* Microstats Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <MicrostatsBreakdown
+              microstats={microstats}
+              gameCount={filteredGames.length}
+            />
+          </div>
+        </div>
+
+        {/* Custom Events Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <CustomEventsBreakdown
+              events={customEvents}
+              players={filterPlayers}
+              gameCount={filteredGames.length}
+            />
+          </div>
+        </div>
+
+        {/* Shots Against Section */}
+        <div className="mt-8">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <ShotsAgainstHeatmap
+              shotsAgainst={shotsAgainst}
+              players={players}
+            />
+          </div>
+        </div>
+
         {/* Multi-Game Visualization Section */}
         <div className="mt-8">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
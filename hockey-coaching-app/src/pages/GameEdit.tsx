@@ -0,0 +1,583 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Edit, Plus, Trash2 } from 'lucide-react';
+import type { Game, GameEvent, GameRecords, Player, ShotResult, TeamSide } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import { getShotColor, saveEditedGameState } from '../lib/utils/analysis';
+import { getPeriodStartTime, isOvertimePeriod } from '../utils/gameClock';
+import { getPeriodTime } from '../utils/gameSituation';
+import { getResultSuffix } from '../utils/gameResult';
+import { PENALTY_INFRACTIONS, PENALTY_MINUTES } from '../utils/penalties';
+import { getHomeTeamName } from '../utils/scouting';
+import { normalizeRinkPoint } from '../utils/shotNormalization';
+import {
+  INSERTABLE_EVENT_LABELS,
+  buildInsertedEvent,
+  buildRinkGoalEvent,
+  describeTimelineItem,
+  findRinkGoalEvent,
+  getGameTimeline,
+  type InsertableEventType,
+  type TimelineItem
+} from '../utils/gameEdit';
+
+type RinkItem = Exclude<TimelineItem, { kind: 'event' }>;
+
+interface EditForm {
+  item: RinkItem;
+  x: number; // Normalized, our team attacking right
+  y: number;
+  period: number;
+  result: ShotResult;
+  shooterId: string;
+}
+
+const EMPTY_INSERT_FORM = {
+  type: 'faceoff_won' as InsertableEventType,
+  period: 1,
+  time: '',
+  team: 'home' as TeamSide,
+  infraction: PENALTY_INFRACTIONS[0],
+  minutes: 2
+};
+
+const KIND_STYLES: Record<TimelineItem['kind'], string> = {
+  shot: 'bg-blue-100 text-blue-800',
+  goal_against: 'bg-red-100 text-red-800',
+  shot_against: 'bg-orange-100 text-orange-800',
+  event: 'bg-gray-100 text-gray-700'
+};
+
+const KIND_LABELS: Record<TimelineItem['kind'], string> = {
+  shot: 'Shot',
+  goal_against: 'Goal against',
+  shot_against: 'Shot against',
+  event: 'Event'
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// "m:ss" or plain seconds
+const parseTime = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+)(?::(\d{1,2}))?$/);
+  if (!match) return null;
+  return match[2] !== undefined ? Number(match[1]) * 60 + Number(match[2]) : Number(match[1]);
+};
+
+// Fixes a finished game: every shot, goal against and event, editable in place
+const GameEdit: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const rinkRef = useRef<HTMLDivElement>(null);
+  const [game, setGame] = useState<Game | null>(null);
+  const [records, setRecords] = useState<GameRecords>({ shots: [], goalsAgainst: [], shotsAgainst: [], events: [] });
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [ourTeamName, setOurTeamName] = useState('Home Team');
+  const [loading, setLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editForm, setEditForm] = useState<EditForm | null>(null);
+  const [insertForm, setInsertForm] = useState<typeof EMPTY_INSERT_FORM | null>(null);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadGame = async () => {
+      try {
+        const [loadedGame, shots, goalsAgainst, shotsAgainst, events] = await Promise.all([
+          dbHelpers.getGameById(id),
+          dbHelpers.getShotsByGame(id),
+          dbHelpers.getGoalsAgainstByGame(id),
+          dbHelpers.getShotsAgainstByGame(id),
+          dbHelpers.getEventsByGame(id)
+        ]);
+        if (!loadedGame || loadedGame.status !== 'archived') {
+          navigate('/games');
+          return;
+        }
+
+        const [team, teamPlayers] = await Promise.all([
+          dbHelpers.getTeamById(loadedGame.homeTeamId),
+          dbHelpers.getPlayersByTeam(loadedGame.homeTeamId)
+        ]);
+        setOurTeamName(team ? team.name : 'Unknown Team');
+        setPlayers(teamPlayers.sort((a, b) => a.jerseyNumber - b.jerseyNumber));
+        setGame(loadedGame);
+        setRecords({ shots, goalsAgainst, shotsAgainst, events });
+      } catch (error) {
+        console.error('Failed to load game:', error);
+        showError('Failed to load game');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGame();
+  }, [id, navigate, showError]);
+
+  const timeline = useMemo(() => getGameTimeline(records), [records]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading game...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game) return null;
+
+  const homeTeamName = getHomeTeamName(game, ourTeamName);
+  const periodCount = Math.max(game.periods + (game.hasOvertime ? 1 : 0), ...timeline.map(item => item.record.period));
+  const periods = Array.from({ length: periodCount }, (_, index) => index + 1);
+  const getPeriodLabel = (period: number) => (isOvertimePeriod(game, period) ? 'Overtime' : `Period ${period}`);
+
+  // Every change ends with the score, result, score-before and strength counted again
+  const applyChange = async (change: () => Promise<GameRecords>, message: string) => {
+    setIsSaving(true);
+    try {
+      const changedRecords = await change();
+      const saved = await saveEditedGameState(game, changedRecords);
+      setGame(saved.game);
+      setRecords(saved.records);
+      showSuccess(message);
+    } catch (error) {
+      console.error('Failed to save game change:', error);
+      showError('Failed to save the change. Please try again.');
+    }
+    setIsSaving(false);
+  };
+
+  const openEditForm = (item: RinkItem) => {
+    const { normalizedX, normalizedY } = normalizeRinkPoint(item.record.x, item.record.y, game, item.record.period);
+    setEditForm({
+      item,
+      x: normalizedX,
+      y: normalizedY,
+      period: item.record.period,
+      result: item.kind === 'goal_against' ? 'goal' : item.record.result,
+      shooterId: item.kind === 'shot' ? item.record.shooterId || '' : ''
+    });
+  };
+
+  const handleRinkClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!rinkRef.current || !editForm) return;
+
+    const rect = rinkRef.current.getBoundingClientRect();
+    setEditForm({
+      ...editForm,
+      x: Math.max(0, Math.min(1, (event.clientX - rect.left) / rect.width)),
+      y: Math.max(0, Math.min(1, (event.clientY - rect.top) / rect.height))
+    });
+  };
+
+  const handleSaveEdit = () => {
+    if (!editForm) return;
+    const { item, period } = editForm;
+    setEditForm(null);
+
+    applyChange(async () => {
+      // Back from the normalized rink to how it was tapped in that period
+      const { normalizedX: x, normalizedY: y } = normalizeRinkPoint(editForm.x, editForm.y, game, period);
+      // Same time into the new period. The timestamp moves too, it orders the score-before.
+      const periodShift = getPeriodStartTime(game, period) - getPeriodStartTime(game, item.record.period);
+      const gameTime = item.record.gameTime !== undefined ? item.record.gameTime + periodShift : undefined;
+      const location = {
+        x,
+        y,
+        period,
+        timestamp: item.record.timestamp + periodShift * 1000,
+        ...(gameTime !== undefined && { gameTime, periodTime: getPeriodTime(gameTime, period, game) })
+      };
+      let events = records.events;
+
+      const moveGoalEvent = async (goalEvent: GameEvent | undefined) => {
+        if (!goalEvent || goalEvent.period === period) return;
+        const moved = { period, gameTime: goalEvent.gameTime + periodShift, timestamp: goalEvent.timestamp + periodShift * 1000 };
+        await dbHelpers.updateGameEvent(goalEvent.id, moved);
+        events = events.map(event => (event.id === goalEvent.id ? { ...event, ...moved } : event));
+      };
+
+      if (item.kind === 'shot') {
+        const changes = { ...location, result: editForm.result, shooterId: editForm.shooterId || undefined };
+        await dbHelpers.updateShot(item.record.id, changes);
+
+        const goalEvent = item.record.result === 'goal' ? findRinkGoalEvent(events, 'shot', item.record) : undefined;
+        if (item.record.result === 'goal' && editForm.result !== 'goal') {
+          if (goalEvent) {
+            await dbHelpers.deleteGameEvent(goalEvent.id);
+            events = events.filter(event => event.id !== goalEvent.id);
+          }
+        } else if (item.record.result !== 'goal' && editForm.result === 'goal') {
+          const scoreEvent = buildRinkGoalEvent(game, events, { ...item.record, ...location });
+          await dbHelpers.createGameEvent(scoreEvent);
+          events = [...events, scoreEvent];
+        } else {
+          await moveGoalEvent(goalEvent);
+        }
+
+        return {
+          ...records,
+          events,
+          shots: records.shots.map(shot => (shot.id === item.record.id ? { ...shot, ...changes } : shot))
+        };
+      }
+
+      if (item.kind === 'goal_against') {
+        await dbHelpers.updateGoalAgainst(item.record.id, location);
+        await moveGoalEvent(findRinkGoalEvent(events, 'goal_against', item.record));
+        return {
+          ...records,
+          events,
+          goalsAgainst: records.goalsAgainst.map(goal => (goal.id === item.record.id ? { ...goal, ...location } : goal))
+        };
+      }
+
+      const changes = { ...location, result: editForm.result };
+      await dbHelpers.updateShotAgainst(item.record.id, changes);
+      return {
+        ...records,
+        shotsAgainst: records.shotsAgainst.map(shot => (shot.id === item.record.id ? { ...shot, ...changes } : shot))
+      };
+    }, 'Change saved');
+  };
+
+  const handleDelete = (item: TimelineItem) => {
+    if (!confirm(`Delete "${describeTimelineItem(item)}"?`)) return;
+
+    applyChange(async () => {
+      switch (item.kind) {
+        case 'shot':
+        case 'goal_against': {
+          const isGoal = item.kind === 'goal_against' || item.record.result === 'goal';
+          const goalEvent = isGoal ? findRinkGoalEvent(records.events, item.kind, item.record) : undefined;
+          if (item.kind === 'shot') {
+            await dbHelpers.deleteShot(item.record.id);
+          } else {
+            await dbHelpers.deleteGoalAgainst(item.record.id);
+          }
+          if (goalEvent) {
+            await dbHelpers.deleteGameEvent(goalEvent.id);
+          }
+          return {
+            ...records,
+            shots: records.shots.filter(shot => shot.id !== item.record.id),
+            goalsAgainst: records.goalsAgainst.filter(goal => goal.id !== item.record.id),
+            events: records.events.filter(event => event.id !== goalEvent?.id)
+          };
+        }
+        case 'shot_against':
+          await dbHelpers.deleteShotAgainst(item.record.id);
+          return { ...records, shotsAgainst: records.shotsAgainst.filter(shot => shot.id !== item.record.id) };
+        case 'event':
+          await dbHelpers.deleteGameEvent(item.record.id);
+          return { ...records, events: records.events.filter(event => event.id !== item.record.id) };
+      }
+    }, 'Deleted');
+  };
+
+  const handleInsert = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!insertForm) return;
+
+    const periodTime = parseTime(insertForm.time);
+    if (periodTime === null) {
+      showError('Enter the time in the period as m:ss');
+      return;
+    }
+
+    const form = insertForm;
+    setInsertForm(null);
+    applyChange(async () => {
+      const gameTime = getPeriodStartTime(game, form.period) + periodTime;
+      const event = buildInsertedEvent(game, records, form.type, form.period, gameTime, {
+        team: form.team,
+        infraction: form.infraction,
+        minutes: form.minutes
+      });
+      await dbHelpers.createGameEvent(event);
+      return { ...records, events: [...records.events, event] };
+    }, `${INSERTABLE_EVENT_LABELS[form.type]} added`);
+  };
+
+  const getItemTime = (item: TimelineItem) => {
+    const { gameTime, period } = item.record;
+    return gameTime !== undefined ? formatTime(getPeriodTime(gameTime, period, game)) : '';
+  };
+
+  const getShooter = (item: TimelineItem) => {
+    if (item.kind !== 'shot' || !item.record.shooterId) return null;
+    const player = players.find(p => p.id === item.record.shooterId);
+    return player ? `#${player.jerseyNumber} ${player.firstName} ${player.lastName}` : null;
+  };
+
+  const suffix = game.result ? getResultSuffix(game.result) : '';
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <button onClick={() => navigate('/games')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to games">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold">Edit Game</h1>
+            <p className="text-gray-600">
+              {homeTeamName} {game.homeScore || 0} - {game.awayScore || 0} {game.awayTeamName}
+              {suffix && ` ${suffix}`} · {new Date(game.date).toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setInsertForm(EMPTY_INSERT_FORM)}
+          disabled={isSaving}
+          className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Insert Event</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        {timeline.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">Nothing was tracked in this game</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {periods.filter(period => timeline.some(item => item.record.period === period)).map(period => (
+                <React.Fragment key={period}>
+                  <tr className="bg-gray-50">
+                    <td colSpan={4} className="px-4 py-2 font-semibold text-gray-700">{getPeriodLabel(period)}</td>
+                  </tr>
+                  {timeline.filter(item => item.record.period === period).map(item => (
+                    <tr key={`${item.kind}-${item.record.id}`} className="border-b last:border-0">
+                      <td className="px-4 py-2 w-16 font-mono text-gray-600">{getItemTime(item)}</td>
+                      <td className="px-2 py-2 w-32">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${KIND_STYLES[item.kind]}`}>
+                          {KIND_LABELS[item.kind]}
+                        </span>
+                      </td>
+                      <td className="px-2 py-2">
+                        {describeTimelineItem(item)}
+                        {getShooter(item) && <span className="text-gray-500 ml-2">{getShooter(item)}</span>}
+                      </td>
+                      <td className="px-4 py-2 w-20 text-right whitespace-nowrap">
+                        {item.kind !== 'event' && (
+                          <button
+                            onClick={() => openEditForm(item)}
+                            disabled={isSaving}
+                            className="p-1 text-gray-400 hover:text-blue-600"
+                            title="Edit"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(item)}
+                          disabled={isSaving}
+                          className="p-1 text-gray-400 hover:text-red-600"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Edit Shot Modal */}
+      {editForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-lg w-full max-w-2xl">
+            <h3 className="text-lg font-semibold mb-1">Edit {KIND_LABELS[editForm.item.kind].toLowerCase()}</h3>
+            <p className="text-sm text-gray-500 mb-3">Tap the rink to move it. {homeTeamName} attack right.</p>
+            <div
+              ref={rinkRef}
+              onClick={handleRinkClick}
+              className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded cursor-crosshair mb-4"
+              style={{
+                backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+                backgroundSize: 'contain',
+                aspectRatio: '2/1'
+              }}
+            >
+              <div
+                className="absolute w-4 h-4 rounded-full transform -translate-x-1/2 -translate-y-1/2 border-2 border-white shadow"
+                style={{ backgroundColor: getShotColor(editForm.result), left: `${editForm.x * 100}%`, top: `${editForm.y * 100}%` }}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium mb-2">Period</label>
+                <select
+                  value={editForm.period}
+                  onChange={(e) => setEditForm({ ...editForm, period: Number(e.target.value) })}
+                  className="w-full p-2 border rounded"
+                >
+                  {periods.map(period => <option key={period} value={period}>{getPeriodLabel(period)}</option>)}
+                </select>
+              </div>
+              {editForm.item.kind !== 'goal_against' && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Result</label>
+                  <select
+                    value={editForm.result}
+                    onChange={(e) => setEditForm({ ...editForm, result: e.target.value as ShotResult })}
+                    className="w-full p-2 border rounded"
+                  >
+                    {/* Goals against are their own records, so an opponent shot can't become one here */}
+                    {(editForm.item.kind === 'shot' ? ['goal', 'save', 'miss', 'blocked'] : ['save', 'miss', 'blocked']).map(result => (
+                      <option key={result} value={result}>{result.charAt(0).toUpperCase() + result.slice(1)}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {editForm.item.kind === 'shot' && players.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Shooter</label>
+                  <select
+                    value={editForm.shooterId}
+                    onChange={(e) => setEditForm({ ...editForm, shooterId: e.target.value })}
+                    className="w-full p-2 border rounded"
+                  >
+                    <option value="">No shooter</option>
+                    {players.map(player => (
+                      <option key={player.id} value={player.id}>#{player.jerseyNumber} {player.firstName} {player.lastName}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex space-x-2">
+              <button
+                onClick={handleSaveEdit}
+                className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+              >
+                Save
+              </button>
+              <button
+                onClick={() => setEditForm(null)}
+                className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Insert Event Modal */}
+      {insertForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-lg w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">Insert Event</h3>
+            <form onSubmit={handleInsert}>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Event</label>
+                <select
+                  value={insertForm.type}
+                  onChange={(e) => setInsertForm({ ...insertForm, type: e.target.value as InsertableEventType })}
+                  className="w-full p-2 border rounded"
+                >
+                  {(Object.keys(INSERTABLE_EVENT_LABELS) as InsertableEventType[]).map(type => (
+                    <option key={type} value={type}>{INSERTABLE_EVENT_LABELS[type]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Period</label>
+                  <select
+                    value={insertForm.period}
+                    onChange={(e) => setInsertForm({ ...insertForm, period: Number(e.target.value) })}
+                    className="w-full p-2 border rounded"
+                  >
+                    {periods.map(period => <option key={period} value={period}>{getPeriodLabel(period)}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Time in period</label>
+                  <input
+                    type="text"
+                    value={insertForm.time}
+                    onChange={(e) => setInsertForm({ ...insertForm, time: e.target.value })}
+                    className="w-full p-2 border rounded"
+                    placeholder="m:ss elapsed"
+                    required
+                  />
+                </div>
+              </div>
+              {insertForm.type === 'penalty' && (
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Team</label>
+                    <select
+                      value={insertForm.team}
+                      onChange={(e) => setInsertForm({ ...insertForm, team: e.target.value as TeamSide })}
+                      className="w-full p-2 border rounded"
+                    >
+                      <option value="home">{homeTeamName}</option>
+                      <option value="away">{game.awayTeamName}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Infraction</label>
+                    <select
+                      value={insertForm.infraction}
+                      onChange={(e) => setInsertForm({ ...insertForm, infraction: e.target.value })}
+                      className="w-full p-2 border rounded"
+                    >
+                      {PENALTY_INFRACTIONS.map(infraction => <option key={infraction} value={infraction}>{infraction}</option>)}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Minutes</label>
+                    <select
+                      value={insertForm.minutes}
+                      onChange={(e) => setInsertForm({ ...insertForm, minutes: Number(e.target.value) })}
+                      className="w-full p-2 border rounded"
+                    >
+                      {PENALTY_MINUTES.map(minutes => <option key={minutes} value={minutes}>{minutes}</option>)}
+                    </select>
+                  </div>
+                </div>
+              )}
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Insert
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setInsertForm(null)}
+                  className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameEdit;
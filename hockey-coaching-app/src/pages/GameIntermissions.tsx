@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import type { Game, GameRecords } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import AdvancedDrawingCanvas from '../components/AdvancedDrawingCanvas';
+import IntermissionReport from '../components/live/IntermissionReport';
+import { isOvertimePeriod } from '../utils/gameClock';
+import { getIntermission } from '../utils/intermission';
+import { getHomeTeamName } from '../utils/scouting';
+
+// Intermission reports of a game, with the whiteboard and notes saved in each
+const GameIntermissions: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showError } = useToast();
+  const [game, setGame] = useState<Game | null>(null);
+  const [records, setRecords] = useState<GameRecords>({ shots: [], goalsAgainst: [], shotsAgainst: [], events: [] });
+  const [ourTeamName, setOurTeamName] = useState('Home Team');
+  const [selectedPeriod, setSelectedPeriod] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadGame = async () => {
+      try {
+        const [loadedGame, shots, goalsAgainst, shotsAgainst, events] = await Promise.all([
+          dbHelpers.getGameById(id),
+          dbHelpers.getShotsByGame(id),
+          dbHelpers.getGoalsAgainstByGame(id),
+          dbHelpers.getShotsAgainstByGame(id),
+          dbHelpers.getEventsByGame(id)
+        ]);
+        if (!loadedGame) {
+          navigate('/games');
+          return;
+        }
+
+        const team = await dbHelpers.getTeamById(loadedGame.homeTeamId);
+        setOurTeamName(team ? team.name : 'Unknown Team');
+        setGame(loadedGame);
+        setRecords({ shots, goalsAgainst, shotsAgainst, events });
+      } catch (error) {
+        console.error('Failed to load intermissions:', error);
+        showError('Failed to load intermissions');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGame();
+  }, [id, navigate, showError]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading intermissions...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game) return null;
+
+  // Every period that ended has an intermission report
+  const endedPeriods = records.events
+    .filter(event => event.type === 'period_end')
+    .map(event => event.period)
+    .filter((period, index, periods) => periods.indexOf(period) === index)
+    .sort((a, b) => a - b);
+  const period = endedPeriods.includes(selectedPeriod) ? selectedPeriod : endedPeriods[0];
+  const intermission = period !== undefined ? getIntermission(records.events, period) : undefined;
+  const homeTeamName = getHomeTeamName(game, ourTeamName);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center space-x-3 mb-6">
+        <button onClick={() => navigate('/games')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to games">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-3xl font-bold">Intermissions</h1>
+          <p className="text-gray-600">
+            {homeTeamName} vs {game.awayTeamName} · {new Date(game.date).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      {period === undefined ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No period of this game has ended yet</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex space-x-2 mb-6">
+            {endedPeriods.map(endedPeriod => (
+              <button
+                key={endedPeriod}
+                onClick={() => setSelectedPeriod(endedPeriod)}
+                className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                  endedPeriod === period ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {isOvertimePeriod(game, endedPeriod) ? 'Overtime' : `Period ${endedPeriod}`}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-6">
+            <IntermissionReport game={game} period={period} records={records} homeTeamName={homeTeamName} />
+
+            <div className="bg-white rounded-lg shadow p-4">
+              <h3 className="font-semibold mb-3">Whiteboard</h3>
+              {intermission ? (
+                <div className="flex flex-col lg:flex-row gap-4">
+                  <div className="overflow-x-auto">
+                    <AdvancedDrawingCanvas
+                      elements={intermission.elements}
+                      selectedTool="pointer"
+                      selectedColor="blue"
+                      selectedElements={[]}
+                      onElementsChange={() => {}}
+                      onSelectionChange={() => {}}
+                      width={800}
+                      height={400}
+                      rinkImageSrc="/images/rink.png"
+                      readOnly
+                    />
+                  </div>
+                  <p className="flex-1 text-sm text-gray-700 whitespace-pre-wrap">
+                    {intermission.notes || <span className="text-gray-400">No notes</span>}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Nothing was drawn in this intermission</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GameIntermissions;
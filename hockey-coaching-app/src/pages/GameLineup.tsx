@@ -0,0 +1,290 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, FileDown, Save, X } from 'lucide-react';
+import type { Game, GameLineup as Lineup, LineType, Player, Team } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import { LINE_SIZES, LINE_TYPE_LABELS } from '../utils/shifts';
+import {
+  addLineupLine,
+  createEmptyLineup,
+  getPlacedPlayerIds,
+  movePlayerInLineup,
+  type LineupSpot
+} from '../utils/lineup';
+import { exportLineupCard } from '../utils/pdfExport';
+
+const POSITION_ORDER: Record<Player['position'], number> = { F: 0, D: 1, G: 2 };
+
+const GameLineup: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const [game, setGame] = useState<Game | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [lineup, setLineup] = useState<Lineup>(createEmptyLineup);
+  const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadLineup = async () => {
+      try {
+        const loadedGame = await dbHelpers.getGameById(id);
+        if (!loadedGame) {
+          navigate('/games');
+          return;
+        }
+
+        const [loadedTeam, loadedPlayers] = await Promise.all([
+          dbHelpers.getTeamById(loadedGame.homeTeamId),
+          dbHelpers.getPlayersByTeam(loadedGame.homeTeamId)
+        ]);
+        setGame(loadedGame);
+        setTeam(loadedTeam || null);
+        setPlayers(loadedPlayers);
+        if (loadedGame.lineup) {
+          setLineup(loadedGame.lineup);
+        }
+      } catch (error) {
+        console.error('Failed to load lineup:', error);
+        showError('Failed to load the lineup');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLineup();
+  }, [id, navigate, showError]);
+
+  const getPlayer = (playerId: string) => players.find(player => player.id === playerId);
+
+  const movePlayer = (playerId: string, spot: LineupSpot) => {
+    const next = movePlayerInLineup(lineup, playerId, spot);
+    if (next !== lineup) {
+      setLineup(next);
+      setHasChanges(true);
+    }
+    setSelectedPlayerId(null);
+  };
+
+  // Drop targets take a dragged player, or the one tapped before (tablets)
+  const dropProps = (spot: LineupSpot) => ({
+    onDragOver: (e: React.DragEvent) => e.preventDefault(),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      const playerId = e.dataTransfer.getData('text/plain');
+      if (playerId) movePlayer(playerId, spot);
+    },
+    onClick: () => {
+      if (selectedPlayerId) movePlayer(selectedPlayerId, spot);
+    }
+  });
+
+  const handleAddLine = (type: LineType) => {
+    setLineup(addLineupLine(lineup, type));
+    setHasChanges(true);
+  };
+
+  const handleSave = async () => {
+    if (!game) return;
+
+    setIsSaving(true);
+    try {
+      const savedLineup = { ...lineup, updatedAt: new Date().toISOString() };
+      await dbHelpers.updateGame(game.id, { lineup: savedLineup });
+      setLineup(savedLineup);
+      setGame({ ...game, lineup: savedLineup });
+      setHasChanges(false);
+      showSuccess('Lineup saved');
+    } catch (error) {
+      console.error('Failed to save lineup:', error);
+      showError('Failed to save the lineup');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!game || !team) return;
+    exportLineupCard({ game, team, lineup, players });
+  };
+
+  const renderPlayer = (playerId: string, removable = true) => {
+    const player = getPlayer(playerId);
+    if (!player) return null;
+
+    return (
+      <div
+        key={playerId}
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData('text/plain', playerId)}
+        onClick={(e) => {
+          e.stopPropagation();
+          setSelectedPlayerId(selectedPlayerId === playerId ? null : playerId);
+        }}
+        className={`flex items-center justify-between px-2 py-1 rounded border text-sm cursor-grab ${
+          selectedPlayerId === playerId ? 'bg-blue-100 border-blue-400' : 'bg-white border-gray-300 hover:border-blue-400'
+        }`}
+      >
+        <span className="truncate">
+          <span className="font-bold">#{player.jerseyNumber}</span> {player.firstName} {player.lastName}
+          <span className="ml-1 text-xs text-gray-500">{player.position}</span>
+        </span>
+        {removable && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              movePlayer(playerId, { kind: 'unassigned' });
+            }}
+            className="ml-1 text-gray-400 hover:text-red-600"
+            title="Back to undecided"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading lineup...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game) return null;
+
+  const placedIds = getPlacedPlayerIds(lineup);
+  const undecided = players
+    .filter(player => !placedIds.includes(player.id))
+    .sort((a, b) => POSITION_ORDER[a.position] - POSITION_ORDER[b.position] || a.jerseyNumber - b.jerseyNumber);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <button onClick={() => navigate('/games')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to games">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold">Lineup</h1>
+            <p className="text-gray-600">
+              {team?.name || 'Our team'} vs {game.awayTeamName} · {new Date(game.date).toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleExport}
+            disabled={!team}
+            className="bg-gray-500 hover:bg-gray-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded flex items-center space-x-2"
+          >
+            <FileDown className="w-4 h-4" />
+            <span>Lineup Card</span>
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges || isSaving}
+            className="bg-blue-500 hover:bg-blue-700 disabled:opacity-50 text-white font-bold py-2 px-4 rounded flex items-center space-x-2"
+          >
+            <Save className="w-4 h-4" />
+            <span>{isSaving ? 'Saving...' : 'Save'}</span>
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Drag players into lines, or tap a player and then the spot. The lines go to the bench when the game starts.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Undecided, scratched and absent players */}
+        <div className="space-y-4">
+          <div className="bg-white rounded-lg shadow p-4" {...dropProps({ kind: 'unassigned' })}>
+            <h2 className="font-semibold mb-2">Undecided ({undecided.length})</h2>
+            <div className="space-y-1 min-h-[3rem]">
+              {undecided.length === 0 ? (
+                <p className="text-sm text-gray-500">Every player is placed</p>
+              ) : (
+                undecided.map(player => renderPlayer(player.id, false))
+              )}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4" {...dropProps({ kind: 'scratched' })}>
+            <h2 className="font-semibold mb-2">Scratched ({lineup.scratchedIds.length})</h2>
+            <div className="space-y-1 min-h-[3rem]">
+              {lineup.scratchedIds.map(playerId => renderPlayer(playerId))}
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-4" {...dropProps({ kind: 'absent' })}>
+            <h2 className="font-semibold mb-2">Absent ({lineup.absentIds.length})</h2>
+            <div className="space-y-1 min-h-[3rem]">
+              {lineup.absentIds.map(playerId => renderPlayer(playerId))}
+            </div>
+          </div>
+        </div>
+
+        {/* Lines, pairs and goalies */}
+        <div className="lg:col-span-2 space-y-4">
+          {(['forward', 'defense'] as LineType[]).map(type => (
+            <div key={type} className="bg-white rounded-lg shadow p-4">
+              <div className="flex justify-between items-center mb-3">
+                <h2 className="font-semibold">{LINE_TYPE_LABELS[type]}</h2>
+                <button onClick={() => handleAddLine(type)} className="text-sm text-blue-600 hover:text-blue-800">
+                  + Add {type === 'forward' ? 'line' : 'pair'}
+                </button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {lineup.lines.filter(line => line.type === type).map(line => (
+                  <div
+                    key={line.id}
+                    className={`border-2 border-dashed rounded-lg p-2 ${
+                      line.playerIds.length < LINE_SIZES[type] ? 'border-gray-300' : 'border-green-300'
+                    }`}
+                    {...dropProps({ kind: 'line', lineId: line.id })}
+                  >
+                    <div className="text-xs font-medium text-gray-600 mb-1">
+                      {line.name} ({line.playerIds.length}/{LINE_SIZES[type]})
+                    </div>
+                    <div className="space-y-1 min-h-[2rem]">
+                      {line.playerIds.map(playerId => renderPlayer(playerId))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="bg-white rounded-lg shadow p-4">
+            <h2 className="font-semibold mb-3">Goalies</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {([
+                { spot: { kind: 'startingGoalie' }, label: 'Starter', playerId: lineup.startingGoalieId },
+                { spot: { kind: 'backupGoalie' }, label: 'Backup', playerId: lineup.backupGoalieId }
+              ] as { spot: LineupSpot; label: string; playerId?: string }[]).map(({ spot, label, playerId }) => (
+                <div key={label} className="border-2 border-dashed border-gray-300 rounded-lg p-2" {...dropProps(spot)}>
+                  <div className="text-xs font-medium text-gray-600 mb-1">{label}</div>
+                  <div className="min-h-[2rem]">{playerId && renderPlayer(playerId)}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameLineup;
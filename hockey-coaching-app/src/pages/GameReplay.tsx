@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Pause, Play, RotateCcw } from 'lucide-react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { Game, GameRecords } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import { getShotColor } from '../lib/utils/analysis';
+import { getPeriodStartTime, isOvertimePeriod } from '../utils/gameClock';
+import { getPeriodTime } from '../utils/gameSituation';
+import { getHomeTeamName } from '../utils/scouting';
+import { REPLAY_SPEEDS, getReplayItems, getReplayLength, getScoreAt, getShotDifferentialSeries } from '../utils/replay';
+
+// Replay ticks this often, in milliseconds
+const TICK_MS = 100;
+// Game seconds a shot stays highlighted on the rink
+const RECENT_SECONDS = 10;
+// Latest items listed under the rink
+const FEED_LENGTH = 8;
+
+const formatTime = (seconds: number) => {
+  const total = Math.floor(seconds);
+  return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+};
+
+// Plays a finished game back on the rink, against the game clock
+const GameReplay: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showError } = useToast();
+  const [game, setGame] = useState<Game | null>(null);
+  const [records, setRecords] = useState<GameRecords>({ shots: [], goalsAgainst: [], shotsAgainst: [], events: [] });
+  const [ourTeamName, setOurTeamName] = useState('Home Team');
+  const [loading, setLoading] = useState(true);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(REPLAY_SPEEDS[2]);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadGame = async () => {
+      try {
+        const [loadedGame, shots, goalsAgainst, shotsAgainst, events] = await Promise.all([
+          dbHelpers.getGameById(id),
+          dbHelpers.getShotsByGame(id),
+          dbHelpers.getGoalsAgainstByGame(id),
+          dbHelpers.getShotsAgainstByGame(id),
+          dbHelpers.getEventsByGame(id)
+        ]);
+        if (!loadedGame) {
+          navigate('/games');
+          return;
+        }
+
+        const team = await dbHelpers.getTeamById(loadedGame.homeTeamId);
+        setOurTeamName(team ? team.name : 'Unknown Team');
+        setGame(loadedGame);
+        setRecords({ shots, goalsAgainst, shotsAgainst, events });
+      } catch (error) {
+        console.error('Failed to load game for replay:', error);
+        showError('Failed to load the game');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGame();
+  }, [id, navigate, showError]);
+
+  const items = useMemo(() => (game ? getReplayItems(game, records) : []), [game, records]);
+  const length = useMemo(() => (game ? getReplayLength(game, items) : 0), [game, items]);
+  const differentialSeries = useMemo(() => getShotDifferentialSeries(items), [items]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setCurrentTime(time => Math.min(length, time + (speed * TICK_MS) / 1000));
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, length]);
+
+  // Stops by itself at the end of the game
+  useEffect(() => {
+    if (isPlaying && currentTime >= length) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, currentTime, length]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading game...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game) return null;
+
+  const homeTeamName = getHomeTeamName(game, ourTeamName);
+  const playedItems = items.filter(item => item.gameTime <= currentTime);
+  const shotItems = playedItems.filter(item => item.normalizedX !== undefined && item.normalizedY !== undefined);
+  const { homeScore, awayScore } = getScoreAt(records.events, currentTime);
+  const periodStarts = Array.from({ length: Math.max(game.periods, ...items.map(item => item.period)) }, (_, index) => ({
+    period: index + 1,
+    gameTime: getPeriodStartTime(game, index + 1)
+  }));
+  const currentPeriod = [...periodStarts].reverse().find(start => start.gameTime <= currentTime)?.period ?? 1;
+  const getPeriodLabel = (period: number) => (isOvertimePeriod(game, period) ? 'OT' : `P${period}`);
+
+  // The line runs up to the scrubber, flat since the last attempt
+  const playedSeries = differentialSeries.filter(point => point.gameTime <= currentTime);
+  const chartData = [...playedSeries, { gameTime: currentTime, differential: playedSeries[playedSeries.length - 1].differential }];
+
+  const togglePlaying = () => {
+    if (!isPlaying && currentTime >= length) {
+      setCurrentTime(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center space-x-3 mb-6">
+        <button onClick={() => navigate('/games')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to games">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-3xl font-bold">Game Replay</h1>
+          <p className="text-gray-600">
+            {homeTeamName} vs {game.awayTeamName} · {new Date(game.date).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            {/* Running score */}
+            <div className="flex items-center justify-center space-x-6 mb-3">
+              <span className="font-semibold text-gray-700">{homeTeamName}</span>
+              <span className="text-3xl font-bold font-mono">{homeScore} - {awayScore}</span>
+              <span className="font-semibold text-gray-700">{game.awayTeamName}</span>
+            </div>
+            <p className="text-center text-sm text-gray-500 mb-3">
+              {getPeriodLabel(currentPeriod)} {formatTime(getPeriodTime(Math.floor(currentTime), currentPeriod, game))} · {homeTeamName} attacking right
+            </p>
+
+            <div
+              className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+              style={{
+                backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+                backgroundSize: 'contain',
+                aspectRatio: '2/1'
+              }}
+            >
+              {shotItems.map(item => {
+                const isRecent = currentTime - item.gameTime <= RECENT_SECONDS;
+                return (
+                  <div
+                    key={item.id}
+                    className={`absolute rounded-full transform -translate-x-1/2 -translate-y-1/2 border-2 transition-all ${
+                      item.kind === 'shot' ? 'border-white' : 'border-red-600'
+                    } ${isRecent ? 'w-5 h-5 shadow-lg' : 'w-3 h-3 opacity-60'}`}
+                    style={{ backgroundColor: getShotColor(item.result!), left: `${item.normalizedX! * 100}%`, top: `${item.normalizedY! * 100}%` }}
+                    title={item.label}
+                  />
+                );
+              })}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Red rings are {game.awayTeamName} shots</p>
+
+            {/* Scrubber */}
+            <div className="relative h-3 mt-4">
+              {items.map(item => (
+                <div
+                  key={item.id}
+                  className="absolute top-0 h-full w-0.5 -translate-x-1/2"
+                  style={{
+                    left: `${(item.gameTime / length) * 100}%`,
+                    backgroundColor: item.kind === 'event' ? '#d1d5db' : getShotColor(item.result!)
+                  }}
+                  title={`${formatTime(item.gameTime)} ${item.label}`}
+                />
+              ))}
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={length}
+              step={1}
+              value={currentTime}
+              onChange={(e) => setCurrentTime(Number(e.target.value))}
+              className="w-full"
+            />
+            <div className="relative h-4 text-xs text-gray-500">
+              {periodStarts.map(({ period, gameTime }) => (
+                <span key={period} className="absolute" style={{ left: `${(gameTime / length) * 100}%` }}>
+                  {getPeriodLabel(period)}
+                </span>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between mt-3">
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={togglePlaying}
+                  className="flex items-center space-x-1 px-3 py-2 bg-blue-500 hover:bg-blue-700 text-white rounded text-sm font-medium"
+                >
+                  {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  <span>{isPlaying ? 'Pause' : 'Play'}</span>
+                </button>
+                <button
+                  onClick={() => { setIsPlaying(false); setCurrentTime(0); }}
+                  className="p-2 bg-gray-100 hover:bg-gray-200 rounded"
+                  title="Back to the start"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              </div>
+              <span className="text-sm text-gray-600 font-mono">{formatTime(currentTime)} / {formatTime(length)}</span>
+              <div className="flex items-center space-x-1">
+                {REPLAY_SPEEDS.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setSpeed(option)}
+                    className={`px-2 py-1 rounded text-sm ${option === speed ? 'bg-gray-800 text-white' : 'bg-gray-100 hover:bg-gray-200'}`}
+                  >
+                    {option}x
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Shot differential */}
+          <div className="bg-white rounded-lg shadow p-4">
+            <h3 className="font-semibold mb-3">
+              Shot attempt differential <span className="text-sm font-normal text-gray-500">(above zero: {homeTeamName} ahead)</span>
+            </h3>
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="gameTime"
+                    type="number"
+                    domain={[0, length]}
+                    ticks={periodStarts.map(({ gameTime }) => gameTime)}
+                    tickFormatter={(value: number) => formatTime(value)}
+                    tick={{ fontSize: 10 }}
+                  />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 10 }} />
+                  <Tooltip
+                    labelFormatter={(value) => formatTime(Number(value))}
+                    formatter={(value: number) => [value > 0 ? `+${value}` : value, 'Differential']}
+                  />
+                  <ReferenceLine y={0} stroke="#9ca3af" />
+                  <Line type="stepAfter" dataKey="differential" stroke="#3b82f6" strokeWidth={2} dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+
+        {/* Feed */}
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="font-semibold mb-3">Play by play</h3>
+          {playedItems.length === 0 ? (
+            <p className="text-sm text-gray-500">Press play to start the replay</p>
+          ) : (
+            <ul className="space-y-2">
+              {playedItems.slice(-FEED_LENGTH).reverse().map((item, index) => (
+                <li
+                  key={item.id}
+                  onClick={() => setCurrentTime(item.gameTime)}
+                  className={`flex items-center space-x-3 text-sm cursor-pointer rounded px-2 py-1 hover:bg-gray-50 ${index === 0 ? 'font-semibold' : 'text-gray-600'}`}
+                >
+                  <span className="font-mono text-gray-500 w-14">{getPeriodLabel(item.period)} {formatTime(getPeriodTime(item.gameTime, item.period, game))}</span>
+                  <span
+                    className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: item.kind === 'event' ? '#9ca3af' : getShotColor(item.result!) }}
+                  />
+                  <span>{item.label}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GameReplay;
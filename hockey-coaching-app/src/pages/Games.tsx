@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import type { Game, Team, Season, RinkSide, GamePreset } from '../types';
+import type { Game, GameType, Team, Season, RinkSide, GamePreset, Opponent } from '../types';
 import { dbHelpers } from '../db';
 import { useAppStore } from '../stores/appStore';
 import { useGameStore } from '../stores/gameStore';
 import { useUIStore } from '../stores/uiStore';
 import { useAuth } from '../contexts/AuthContext';
+import { getResultSuffix, getStoredGameResult } from '../utils/gameResult';
+import { getHomeTeamName, isScoutingGame } from '../utils/scouting';
+import { DEFAULT_OPPONENT_COLOR, findOpponentByName } from '../utils/opponents';
 import { 
   Calendar, 
   Plus, 
@@ -22,7 +25,13 @@ import {
   Edit,
   X,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Users,
+  Binoculars,
+  Film,
+  ClipboardList,
+  History,
+  CirclePlay
 } from 'lucide-react';
 
 // Default game presets (in-memory, not stored in Firebase)
@@ -58,6 +67,7 @@ const Games: React.FC = () => {
   const [games, setGames] = useState<Game[]>([]);
   const [teams, setTeams] = useState<Team[]>([]);
   const [seasons, setSeasons] = useState<Season[]>([]);
+  const [opponents, setOpponents] = useState<Opponent[]>([]);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [filteredGames, setFilteredGames] = useState<Game[]>([]);
   const [isSideSelectionOpen, setIsSideSelectionOpen] = useState(false);
@@ -87,7 +97,9 @@ const Games: React.FC = () => {
   });
   
   const [gameForm, setGameForm] = useState({
+    gameType: 'team' as GameType,
     homeTeamId: '',
+    homeTeamName: '',
     awayTeamName: '',
     date: '',
     time: '',
@@ -106,7 +118,7 @@ const Games: React.FC = () => {
   });
 
   const { currentSeason } = useAppStore();
-  const { initializeLiveGame } = useGameStore();
+  const { initializeLiveGame, joinLiveGame } = useGameStore();
   const { 
     isCreateGameExpanded, 
     isFiltersExpanded, 
@@ -148,16 +160,18 @@ const Games: React.FC = () => {
 
   const loadData = async () => {
     try {
-      const [allGames, allTeams, allSeasons, allPresets] = await Promise.all([
+      const [allGames, allTeams, allSeasons, allPresets, allOpponents] = await Promise.all([
         dbHelpers.getAllGames(),
         dbHelpers.getAllTeams(), 
         dbHelpers.getAllSeasons(),
-        dbHelpers.getAllGamePresets()
+        dbHelpers.getAllGamePresets(),
+        dbHelpers.getAllOpponents()
       ]);
       
       setGames(allGames);
       setTeams(allTeams);
       setSeasons(allSeasons);
+      setOpponents(allOpponents);
 
       // Combine default presets with user's custom presets
       const combinedPresets = [
@@ -214,6 +228,32 @@ const Games: React.FC = () => {
     setFilteredGames(filtered);
   };
 
+  // Links the typed name to a known opponent, spelled its way, or adds a new one
+  const findOrCreateOpponent = async (name: string): Promise<Opponent> => {
+    const existing = findOpponentByName(opponents, name);
+    if (existing) return existing;
+
+    const opponent: Opponent = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      primaryColor: DEFAULT_OPPONENT_COLOR,
+      userId: currentUser!.uid
+    };
+    await dbHelpers.createOpponent(opponent);
+    return opponent;
+  };
+
+  const getOpponentFields = async (name: string): Promise<Pick<Game, 'opponentId' | 'awayTeamName'>> => {
+    const opponent = await findOrCreateOpponent(name);
+    return { opponentId: opponent.id, awayTeamName: opponent.name };
+  };
+
+  // Scouting games chart two opponents, the home side is one too
+  const getHomeOpponentFields = async (name: string): Promise<Pick<Game, 'homeOpponentId' | 'homeTeamName'>> => {
+    const opponent = await findOrCreateOpponent(name);
+    return { homeOpponentId: opponent.id, homeTeamName: opponent.name };
+  };
+
   const handleCreateGame = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!currentUser) return;
@@ -223,13 +263,15 @@ const Games: React.FC = () => {
     const newGame: Game = {
       id: crypto.randomUUID(),
       homeTeamId: gameForm.homeTeamId,
-      awayTeamName: gameForm.awayTeamName,
+      ...(await getOpponentFields(gameForm.awayTeamName)),
+      ...(gameForm.gameType === 'scouting' && { gameType: 'scouting', ...(await getHomeOpponentFields(gameForm.homeTeamName)) }),
       date: gameDateTime,
       status: 'planned',
       seasonId: gameForm.seasonId,
       periods: gameForm.periods,
       periodMinutes: gameForm.periodMinutes,
       hasOvertime: gameForm.hasOvertime,
+      ...(gameForm.hasOvertime && { overtimeMinutes: gameForm.overtimeMinutes }),
       homeScore: 0,
       awayScore: 0,
       userId: currentUser.uid
@@ -260,9 +302,15 @@ const Games: React.FC = () => {
     navigate('/live');
   };
 
+  // Also opens a game that is live on another device, to track it together
+  const handleContinueLiveTracking = async (game: Game) => {
+    await joinLiveGame(game);
+    navigate('/live');
+  };
+
   const handleDeleteGame = async (gameId: string) => {
     const game = games.find(g => g.id === gameId);
-    const gameName = game ? `${getTeamName(game.homeTeamId)} vs ${game.awayTeamName}` : 'this game';
+    const gameName = game ? getGameTitle(game) : 'this game';
     
     if (confirm(`Delete game "${gameName}"?\n\nThis will permanently delete the game and all its data (shots, events, etc.).`)) {
       await dbHelpers.deleteGame(gameId);
@@ -272,7 +320,9 @@ const Games: React.FC = () => {
 
   const resetForm = () => {
     setGameForm({
+      gameType: 'team',
       homeTeamId: '',
+      homeTeamName: '',
       awayTeamName: '',
       date: '',
       time: '',
@@ -318,13 +368,14 @@ const Games: React.FC = () => {
     const newGame: Game = {
       id: crypto.randomUUID(),
       homeTeamId: teams[0].id, // Use first available team
-      awayTeamName: gameFromPresetForm.awayTeamName.trim(),
+      ...(await getOpponentFields(gameFromPresetForm.awayTeamName)),
       date: gameDateTime,
       status: 'planned',
       seasonId: gameFromPresetForm.seasonId || currentSeason.id,
       periods: selectedPreset.periods,
       periodMinutes: selectedPreset.periodMinutes,
       hasOvertime: selectedPreset.hasOvertime,
+      ...(selectedPreset.hasOvertime && selectedPreset.overtimeMinutes && { overtimeMinutes: selectedPreset.overtimeMinutes }),
       homeScore: 0,
       awayScore: 0,
       userId: currentUser.uid
@@ -460,7 +511,9 @@ const Games: React.FC = () => {
   const openEditModal = (game: Game) => {
     setSelectedGameForEdit(game);
     setGameForm({
+      gameType: game.gameType || 'team',
       homeTeamId: game.homeTeamId,
+      homeTeamName: game.homeTeamName || '',
       awayTeamName: game.awayTeamName,
       date: new Date(game.date).toISOString().split('T')[0],
       time: new Date(game.date).toTimeString().slice(0, 5),
@@ -468,25 +521,27 @@ const Games: React.FC = () => {
       periods: game.periods,
       periodMinutes: game.periodMinutes,
       hasOvertime: game.hasOvertime || false,
-      overtimeMinutes: 5
+      overtimeMinutes: game.overtimeMinutes || 5
     });
     setShowEditModal(true);
   };
 
   const updateGame = async () => {
-    if (!selectedGameForEdit) return;
+    if (!selectedGameForEdit || !currentUser) return;
 
     const gameDateTime = new Date(`${gameForm.date}T${gameForm.time}`).toISOString();
     
     const updatedGame: Game = {
       ...selectedGameForEdit,
       homeTeamId: gameForm.homeTeamId,
-      awayTeamName: gameForm.awayTeamName,
+      ...(await getOpponentFields(gameForm.awayTeamName)),
+      ...(isScoutingGame(selectedGameForEdit) && (await getHomeOpponentFields(gameForm.homeTeamName))),
       date: gameDateTime,
       seasonId: gameForm.seasonId,
       periods: gameForm.periods,
       periodMinutes: gameForm.periodMinutes,
-      hasOvertime: gameForm.hasOvertime
+      hasOvertime: gameForm.hasOvertime,
+      overtimeMinutes: gameForm.overtimeMinutes
     };
 
     await dbHelpers.updateGame(selectedGameForEdit.id, updatedGame);
@@ -518,6 +573,9 @@ const Games: React.FC = () => {
     return team ? team.name : 'Unknown Team';
   };
 
+  const getGameTitle = (game: Game) =>
+    `${getHomeTeamName(game, getTeamName(game.homeTeamId))} vs ${game.awayTeamName}`;
+
   const getSeasonName = (seasonId: string) => {
     const season = seasons.find(s => s.id === seasonId);
     return season ? season.name : 'Unknown Season';
@@ -566,6 +624,7 @@ const Games: React.FC = () => {
 
   const GameCard: React.FC<{ game: Game }> = ({ game }) => {
     const { date, time } = formatDateTime(game.date);
+    const resultSuffix = getResultSuffix(getStoredGameResult(game));
     
     return (
       <div className="bg-white rounded-lg shadow-md p-6 border border-gray-200 hover:border-gray-300 transition-all">
@@ -579,13 +638,76 @@ const Games: React.FC = () => {
                   <span className="capitalize">{game.status}</span>
                 </span>
               </span>
+              {isScoutingGame(game) && (
+                <span className="px-2 py-1 text-xs rounded-full border bg-purple-100 text-purple-800 border-purple-200">
+                  Scouting
+                </span>
+              )}
               <span className="text-xs text-gray-500">{getSeasonName(game.seasonId)}</span>
             </div>
             <h3 className="text-lg font-semibold">
-              {getTeamName(game.homeTeamId)} vs {game.awayTeamName}
+              {getGameTitle(game)}
             </h3>
+            {isScoutingGame(game) && (
+              <p className="text-xs text-gray-500">For {getTeamName(game.homeTeamId)}</p>
+            )}
           </div>
           <div className="flex space-x-1">
+            {game.status !== 'planned' && (
+              <button
+                onClick={() => navigate(`/games/${game.id}/video`)}
+                className={`p-1 hover:text-blue-600 ${game.videoStartedAt !== undefined ? 'text-blue-500' : 'text-gray-400'}`}
+                title="Video review"
+              >
+                <Film className="w-4 h-4" />
+              </button>
+            )}
+            {game.status !== 'planned' && (
+              <button
+                onClick={() => navigate(`/games/${game.id}/intermissions`)}
+                className="p-1 text-gray-400 hover:text-blue-600"
+                title="Intermissions"
+              >
+                <ClipboardList className="w-4 h-4" />
+              </button>
+            )}
+            {game.status === 'archived' && (
+              <button
+                onClick={() => navigate(`/games/${game.id}/replay`)}
+                className="p-1 text-gray-400 hover:text-blue-600"
+                title="Replay game"
+              >
+                <CirclePlay className="w-4 h-4" />
+              </button>
+            )}
+            {game.status === 'archived' && (
+              <button
+                onClick={() => navigate(`/games/${game.id}/edit`)}
+                className="p-1 text-gray-400 hover:text-blue-600"
+                title="Edit game timeline"
+              >
+                <History className="w-4 h-4" />
+              </button>
+            )}
+            {isScoutingGame(game) ? (
+              game.status !== 'planned' && (
+                <button
+                  onClick={() => navigate(`/games/${game.id}/scouting`)}
+                  className="p-1 text-purple-500 hover:text-purple-700"
+                  title="Scouting report"
+                >
+                  <Binoculars className="w-4 h-4" />
+                </button>
+              )
+            ) : (
+              <button
+                onClick={() => navigate(`/games/${game.id}/lineup`)}
+                className={`p-1 hover:text-blue-600 ${game.lineup ? 'text-blue-500' : 'text-gray-400'}`}
+                title={game.lineup ? 'Edit lineup' : 'Set lineup'}
+              >
+                <Users className="w-4 h-4" />
+              </button>
+            )}
             {game.status === 'planned' && (
               <button
                 onClick={() => openEditModal(game)}
@@ -613,12 +735,12 @@ const Games: React.FC = () => {
           <div className="flex items-center space-x-2 text-sm text-gray-600">
             <Clock className="w-4 h-4" />
             <span>{game.periods} periods × {game.periodMinutes} min</span>
-            {game.hasOvertime && <span>+ OT</span>}
+            {game.hasOvertime && <span>+ {game.overtimeMinutes ? `${game.overtimeMinutes} min ` : ''}OT</span>}
           </div>
           {game.status === 'archived' && (
             <div className="flex items-center space-x-2 text-sm font-medium">
               <Trophy className="w-4 h-4" />
-              <span>Final: {game.homeScore} - {game.awayScore}</span>
+              <span>Final: {game.homeScore} - {game.awayScore}{resultSuffix && ` (${resultSuffix})`}</span>
             </div>
           )}
         </div>
@@ -636,7 +758,7 @@ const Games: React.FC = () => {
           )}
           {game.status === 'live' && (
             <button
-              onClick={() => navigate('/live')}
+              onClick={() => handleContinueLiveTracking(game)}
               className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded flex items-center justify-center space-x-2"
             >
               <Play className="w-4 h-4" />
@@ -661,6 +783,13 @@ const Games: React.FC = () => {
 
   return (
     <div className="container mx-auto px-4 py-8">
+      {/* Opponent suggestions for the away team inputs */}
+      <datalist id="opponent-names">
+        {opponents.map(opponent => (
+          <option key={opponent.id} value={opponent.name} />
+        ))}
+      </datalist>
+
       {/* Header */}
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-3xl font-bold">Games</h1>
@@ -1001,21 +1130,52 @@ const Games: React.FC = () => {
           <div className="bg-white p-6 rounded-lg w-96 max-h-screen overflow-y-auto">
             <h3 className="text-lg font-semibold mb-4">Create New Game</h3>
             <form onSubmit={handleCreateGame}>
+              <div className="grid grid-cols-2 gap-2 mb-4">
+                {([['team', 'Our Game'], ['scouting', 'Scouting']] as [GameType, string][]).map(([type, label]) => (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() => setGameForm({ ...gameForm, gameType: type })}
+                    className={`py-2 rounded font-medium ${
+                      gameForm.gameType === type ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
               <div className="mb-4">
-                <label className="block text-sm font-medium mb-2">Home Team</label>
+                <label className="block text-sm font-medium mb-2">
+                  {gameForm.gameType === 'scouting' ? 'Scouting For' : 'Home Team'}
+                </label>
                 <select
                   value={gameForm.homeTeamId}
                   onChange={(e) => setGameForm({ ...gameForm, homeTeamId: e.target.value })}
                   className="w-full p-2 border rounded"
                   required
                 >
-                  <option value="">Select home team</option>
+                  <option value="">Select {gameForm.gameType === 'scouting' ? 'our team' : 'home team'}</option>
                   {teams.map(team => (
                     <option key={team.id} value={team.id}>{team.name}</option>
                   ))}
                 </select>
               </div>
 
+              {gameForm.gameType === 'scouting' && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium mb-2">Home Team</label>
+                  <input
+                    type="text"
+                    value={gameForm.homeTeamName}
+                    onChange={(e) => setGameForm({ ...gameForm, homeTeamName: e.target.value })}
+                    className="w-full p-2 border rounded"
+                    placeholder="Enter home team name"
+                    required
+                  />
+                </div>
+              )}
+
               <div className="mb-4">
                 <label className="block text-sm font-medium mb-2">Away Team</label>
                 <input
@@ -1023,6 +1183,7 @@ const Games: React.FC = () => {
                   value={gameForm.awayTeamName}
                   onChange={(e) => setGameForm({ ...gameForm, awayTeamName: e.target.value })}
                   className="w-full p-2 border rounded"
+                  list="opponent-names"
                   placeholder="Enter away team name"
                   required
                 />
@@ -1106,6 +1267,20 @@ const Games: React.FC = () => {
                 </label>
               </div>
 
+              {gameForm.hasOvertime && (
+                <div className="mb-4">
+                  <label className="block text-sm font-medium mb-2">Overtime Minutes</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    value={gameForm.overtimeMinutes}
+                    onChange={(e) => setGameForm({ ...gameForm, overtimeMinutes: parseInt(e.target.value) || 5 })}
+                    className="w-full p-2 border rounded"
+                  />
+                </div>
+              )}
+
               <div className="flex space-x-2">
                 <button
                   type="submit"
@@ -1146,6 +1321,7 @@ const Games: React.FC = () => {
                   value={gameFromPresetForm.awayTeamName}
                   onChange={(e) => setGameFromPresetForm({ ...gameFromPresetForm, awayTeamName: e.target.value })}
                   className="w-full p-3 border rounded-lg text-lg"
+                  list="opponent-names"
                   placeholder="Enter opponent name"
                 />
               </div>
@@ -1210,7 +1386,9 @@ const Games: React.FC = () => {
             
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium mb-2">Home Team</label>
+                <label className="block text-sm font-medium mb-2">
+                  {isScoutingGame(selectedGameForEdit) ? 'Scouting For' : 'Home Team'}
+                </label>
                 <select
                   value={gameForm.homeTeamId}
                   onChange={(e) => setGameForm({ ...gameForm, homeTeamId: e.target.value })}
@@ -1221,6 +1399,18 @@ const Games: React.FC = () => {
                   ))}
                 </select>
               </div>
+
+              {isScoutingGame(selectedGameForEdit) && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Home Team</label>
+                  <input
+                    type="text"
+                    value={gameForm.homeTeamName}
+                    onChange={(e) => setGameForm({ ...gameForm, homeTeamName: e.target.value })}
+                    className="w-full p-3 border rounded-lg"
+                  />
+                </div>
+              )}
               
               <div>
                 <label className="block text-sm font-medium mb-2">Away Team</label>
@@ -1229,6 +1419,7 @@ const Games: React.FC = () => {
                   value={gameForm.awayTeamName}
                   onChange={(e) => setGameForm({ ...gameForm, awayTeamName: e.target.value })}
                   className="w-full p-3 border rounded-lg"
+                  list="opponent-names"
                 />
               </div>
               
@@ -1302,6 +1493,20 @@ const Games: React.FC = () => {
                   <span className="text-sm font-medium">Has Overtime</span>
                 </label>
               </div>
+
+              {gameForm.hasOvertime && (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Overtime Minutes</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="30"
+                    value={gameForm.overtimeMinutes}
+                    onChange={(e) => setGameForm({ ...gameForm, overtimeMinutes: parseInt(e.target.value) || 5 })}
+                    className="w-full p-3 border rounded-lg"
+                  />
+                </div>
+              )}
             </div>
             
             <div className="flex space-x-3 mt-6">
@@ -1425,7 +1630,7 @@ const Games: React.FC = () => {
           <div className="bg-white p-8 rounded-lg w-96">
             <h3 className="text-xl font-semibold mb-6 text-center">Team Side Selection</h3>
             <p className="text-center mb-8 text-gray-600">
-              Which side does <strong>{getTeamName(selectedGameForStart.homeTeamId)}</strong> defend first?
+              Which side does <strong>{getHomeTeamName(selectedGameForStart, getTeamName(selectedGameForStart.homeTeamId))}</strong> defend first?
             </p>
             
             {/* Rink diagram with side buttons */}
@@ -3,7 +3,16 @@ import { useNavigate } from 'react-router-dom';
 import { useAppStore } from '../stores/appStore';
 import { useAuth } from '../contexts/AuthContext';
 import { dbHelpers } from '../db';
-import type { Game, Team } from '../types';
+import type { Game, GameResult, Team } from '../types';
+import {
+  formatGameRecord,
+  getGameRecord,
+  getResultSuffix,
+  getStoredGameResult,
+  isWin,
+  type GameRecord
+} from '../utils/gameResult';
+import { isScoutingGame } from '../utils/scouting';
 import { 
   Calendar, 
   Users, 
@@ -24,11 +33,9 @@ interface GameStats {
   totalGoals: number;
   avgShotsPerGame: number;
   bestShootingPercentage: number;
-  wins: number;
-  losses: number;
-  ties: number;
+  record: GameRecord;
   gamesThisWeek: number;
-  recentForm: string[];
+  recentForm: GameResult[];
 }
 
 interface RecentActivity {
@@ -82,9 +89,9 @@ const Home: React.FC = () => {
       setTeams(allTeams);
       
       if (currentSeason) {
-        // Get games from current season, sorted by date (most recent first)
+        // Get our games from current season, sorted by date (most recent first)
         const seasonGames = allGames
-          .filter(game => game.seasonId === currentSeason.id)
+          .filter(game => game.seasonId === currentSeason.id && !isScoutingGame(game))
           .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
         
         // Set last game (most recent archived game)
@@ -120,13 +127,8 @@ const Home: React.FC = () => {
           const totalShots = flatShots.length;
           const totalGoals = flatShots.filter(shot => shot.result === 'goal').length;
 
-          // Calculate wins/losses/ties
-          let wins = 0, losses = 0, ties = 0;
-          archivedGames.forEach(game => {
-            if ((game.homeScore ?? 0) > (game.awayScore ?? 0)) wins++;
-            else if ((game.homeScore ?? 0) < (game.awayScore ?? 0)) losses++;
-            else ties++;
-          });
+          // Overtime and shootout results count apart from regulation losses
+          const record = getGameRecord(archivedGames);
 
           // Games this week
           const weekStart = new Date();
@@ -140,10 +142,7 @@ const Home: React.FC = () => {
           const recentGames = archivedGames
             .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
             .slice(0, 5);
-          const recentForm = recentGames.map(game => 
-            (game.homeScore ?? 0) > (game.awayScore ?? 0) ? 'W' :
-            (game.homeScore ?? 0) < (game.awayScore ?? 0) ? 'L' : 'T'
-          );
+          const recentForm = recentGames.map(getStoredGameResult);
           
           setSeasonStats({
             totalGames: archivedGames.length,
@@ -151,9 +150,7 @@ const Home: React.FC = () => {
             totalGoals,
             avgShotsPerGame: totalShots / archivedGames.length,
             bestShootingPercentage: totalShots > 0 ? (totalGoals / totalShots) * 100 : 0,
-            wins,
-            losses,
-            ties,
+            record,
             gamesThisWeek,
             recentForm
           });
@@ -170,13 +167,14 @@ const Home: React.FC = () => {
           .slice(0, 3);
         
         recentGames.forEach(game => {
-          const result = (game.homeScore ?? 0) > (game.awayScore ?? 0) ? 'Won' :
-                        (game.homeScore ?? 0) < (game.awayScore ?? 0) ? 'Lost' : 'Tied';
+          const gameResult = getStoredGameResult(game);
+          const result = isWin(gameResult) ? 'Won' : gameResult === 'T' ? 'Tied' : 'Lost';
+          const suffix = getResultSuffix(gameResult);
           activities.push({
             id: game.id,
             type: 'game',
             title: `${result} vs ${game.awayTeamName}`,
-            description: `${game.homeScore ?? 0}-${game.awayScore ?? 0} • ${formatDate(game.date)}`,
+            description: `${game.homeScore ?? 0}-${game.awayScore ?? 0}${suffix ? ` ${suffix}` : ''} • ${formatDate(game.date)}`,
             timestamp: game.date,
             action: () => navigate('/games')
           });
@@ -331,6 +329,8 @@ const Home: React.FC = () => {
     );
   }
 
+  const seasonRecord = seasonStats ? formatGameRecord(seasonStats.record) : null;
+
   return (
     <div className="container mx-auto px-4 py-8">
       {/* Header Section */}
@@ -451,10 +451,10 @@ const Home: React.FC = () => {
           {seasonStats && seasonStats.totalGames > 0 ? (
             <div className="text-center">
               <div className="text-xl sm:text-2xl font-bold text-blue-600 mb-1">
-                {seasonStats.wins}-{seasonStats.losses}-{seasonStats.ties}
+                {seasonRecord?.value}
               </div>
               <div className="text-sm text-gray-600">
-                W-L-T Record
+                {seasonRecord?.label} Record
               </div>
             </div>
           ) : (
@@ -493,9 +493,12 @@ const Home: React.FC = () => {
               {seasonStats.recentForm.map((result, index) => (
                 <span
                   key={index}
-                  className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-bold text-sm ${
-                    result === 'W' ? 'bg-green-500' :
-                    result === 'L' ? 'bg-red-500' : 'bg-gray-500'
+                  className={`w-8 h-8 rounded-full flex items-center justify-center text-white font-bold ${
+                    result.length > 1 ? 'text-[10px]' : 'text-sm'
+                  } ${
+                    isWin(result) ? 'bg-green-500' :
+                    result === 'L' ? 'bg-red-500' :
+                    result === 'T' ? 'bg-gray-500' : 'bg-orange-500'
                   }`}
                 >
                   {result}
@@ -15,14 +15,46 @@ import {
   Home,
   Timer,
   PauseCircle,
-  CheckCircle
+  CheckCircle,
+  AlertTriangle,
+  Activity,
+  Film,
+  Monitor
 } from 'lucide-react';
 import { dbHelpers } from '../db';
+import PenaltyModal from '../components/live/PenaltyModal';
+import PenaltyBox from '../components/live/PenaltyBox';
+import ActionHistory from '../components/live/ActionHistory';
+import ClockResyncModal from '../components/live/ClockResyncModal';
+import SyncStatus from '../components/live/SyncStatus';
+import ShootoutPanel from '../components/live/ShootoutPanel';
+import SessionActivity from '../components/live/SessionActivity';
+import CustomEventButtons from '../components/live/CustomEventButtons';
+import RinkLocationPicker from '../components/live/RinkLocationPicker';
+import PlayerPicker from '../components/live/PlayerPicker';
+import BenchPanel from '../components/live/BenchPanel';
+import LineEditor from '../components/live/LineEditor';
+import GoalDetailSheet from '../components/live/GoalDetailSheet';
+import { getPeriodLength, getPeriodStartTime, isOvertimePeriod } from '../utils/gameClock';
+import { getShootoutState, isShootoutStarted } from '../utils/gameResult';
+import type { CustomEventType, GoalDetails } from '../types';
+import type { GoalSide } from '../utils/goals';
+import { getHomeTeamName, isScoutingGame } from '../utils/scouting';
+
+interface PendingCustomEvent {
+  eventType: CustomEventType;
+  x?: number;
+  y?: number;
+  step: 'location' | 'player';
+}
 
 const LiveTracking: React.FC = () => {
   const navigate = useNavigate();
-  const [timeInput, setTimeInput] = useState('');
-  const [isTimeInputOpen, setIsTimeInputOpen] = useState(false);
+  const [isResyncOpen, setIsResyncOpen] = useState(false);
+  const [isPenaltyModalOpen, setIsPenaltyModalOpen] = useState(false);
+  const [pendingCustomEvent, setPendingCustomEvent] = useState<PendingCustomEvent | null>(null);
+  const [isLineEditorOpen, setIsLineEditorOpen] = useState(false);
+  const [pendingGoalSide, setPendingGoalSide] = useState<GoalSide | null>(null);
   
   const { 
     currentGame, 
@@ -31,15 +63,49 @@ const LiveTracking: React.FC = () => {
     gameTime,
     startTracking, 
     pauseTracking, 
+    pauseForStoppage,
     resumeTracking,
     adjustTime,
     setGameTime,
+    setClockMode,
     startPeriod,
     endPeriod,
     endGame,
+    startShootout,
+    addShootoutAttempt,
+    shots,
+    goalsAgainst,
+    shotsAgainst,
+    events,
+    deviceName,
+    setDeviceName,
+    microstatsMode,
+    setMicrostatsMode,
+    customEventTypes,
+    loadCustomEventTypes,
+    addCustomEvent,
+    lines,
+    setLines,
+    changeLine,
+    getCurrentGoalieId,
     addHomeGoal,
     addAwayGoal,
-    useTimeout
+    getDefaultGoalDetails,
+    useTimeout,
+    markVideoStart,
+    roster,
+    loadRoster,
+    addPenalty,
+    getActivePenalties,
+    getCurrentStrength,
+    commandLog,
+    undoLastAction,
+    redoLastAction,
+    canUndo,
+    canRedo,
+    outboxStatus,
+    isSyncing,
+    syncToFirebase
   } = useGameStore();
 
   useEffect(() => {
@@ -49,6 +115,18 @@ const LiveTracking: React.FC = () => {
     }
   }, [currentGame, navigate]);
 
+  // Roster is not persisted, reload it after a page refresh
+  const currentGameId = currentGame?.id;
+  const hasRoster = roster.length > 0;
+  useEffect(() => {
+    if (currentGameId && !hasRoster) {
+      loadRoster();
+    }
+  }, [currentGameId, hasRoster, loadRoster]);
+
+  useEffect(() => {
+    loadCustomEventTypes();
+  }, [loadCustomEventTypes]);
 
   if (!currentGame) {
     return null;
@@ -60,10 +138,17 @@ const LiveTracking: React.FC = () => {
     return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const currentPeriod = currentGame.currentPeriod || 1;
+  const isOvertime = isOvertimePeriod(currentGame, currentPeriod);
+  const isTied = (currentGame.homeScore || 0) === (currentGame.awayScore || 0);
+  // Sudden death - the first goal in overtime decides the game
+  const isDecidedInOvertime = isOvertime && !isTied;
+  const isShootout = isShootoutStarted(events);
+  const isPlayOver = isDecidedInOvertime || isShootout;
+
   const getCurrentPeriodTime = () => {
-    const periodLength = currentGame.periodMinutes * 60;
-    const currentPeriod = currentGame.currentPeriod || 1;
-    const periodStartTime = (currentPeriod - 1) * periodLength;
+    const periodLength = getPeriodLength(currentGame, currentPeriod);
+    const periodStartTime = getPeriodStartTime(currentGame, currentPeriod);
     const periodElapsed = gameTime - periodStartTime;
     const periodRemaining = Math.max(0, periodLength - periodElapsed);
     
@@ -87,30 +172,33 @@ const LiveTracking: React.FC = () => {
     }
   };
 
-  const handleSetTime = () => {
-    const [mins, secs] = timeInput.split(':').map(Number);
-    if (!isNaN(mins) && !isNaN(secs)) {
-      const totalSeconds = mins * 60 + secs;
-      setGameTime(totalSeconds);
-      setTimeInput('');
-      setIsTimeInputOpen(false);
-    }
-  };
-
   const handleNextPeriod = async () => {
     if (!currentGame.currentPeriod) return;
     
+    const endedPeriod = currentGame.currentPeriod;
     await endPeriod();
     
-    const nextPeriod = currentGame.currentPeriod + 1;
+    const nextPeriod = endedPeriod + 1;
     if (nextPeriod <= currentGame.periods) {
       await startPeriod(nextPeriod);
-    } else if (currentGame.hasOvertime && currentGame.homeScore === currentGame.awayScore) {
-      // Start overtime
-      await startPeriod(nextPeriod);
+      navigate(`/live/intermission/${endedPeriod}`);
+    } else if (currentGame.hasOvertime && isTied) {
+      // Still tied after overtime goes to a shootout
+      if (isOvertime) {
+        await startShootout();
+      } else {
+        await startPeriod(nextPeriod);
+        navigate(`/live/intermission/${endedPeriod}`);
+      }
     }
   };
 
+  const getNextPeriodLabel = () => {
+    if (currentPeriod < currentGame.periods) return 'Next Period';
+    if (!currentGame.hasOvertime || !isTied) return 'End Period';
+    return isOvertime ? 'Start Shootout' : 'Start Overtime';
+  };
+
   const handleEndGame = async () => {
     if (confirm('Are you sure you want to end the game?')) {
       await endGame();
@@ -118,12 +206,51 @@ const LiveTracking: React.FC = () => {
     }
   };
 
+  // Custom events ask for a location, then a player, when their type needs them
+  const recordCustomEvent = async (pending: PendingCustomEvent, playerId?: string) => {
+    setPendingCustomEvent(null);
+    await addCustomEvent(pending.eventType, {
+      ...(pending.x !== undefined && pending.y !== undefined && { x: pending.x, y: pending.y }),
+      ...(playerId && { playerId })
+    });
+  };
+
+  const continueCustomEvent = (pending: PendingCustomEvent) => {
+    if (pending.eventType.needsLocation && pending.x === undefined) {
+      setPendingCustomEvent({ ...pending, step: 'location' });
+    } else if (pending.eventType.needsPlayer && roster.length > 0) {
+      setPendingCustomEvent({ ...pending, step: 'player' });
+    } else {
+      recordCustomEvent(pending);
+    }
+  };
+
+  // With a roster the goal detail sheet comes first; the clock stops while it's open
   const handleHomeGoal = async () => {
-    await addHomeGoal();
+    if (roster.length === 0) {
+      await addHomeGoal();
+      return;
+    }
+    pauseForStoppage();
+    setPendingGoalSide('for');
   };
 
   const handleAwayGoal = async () => {
-    await addAwayGoal();
+    if (roster.length === 0) {
+      await addAwayGoal();
+      return;
+    }
+    pauseForStoppage();
+    setPendingGoalSide('against');
+  };
+
+  const recordScoreboardGoal = async (side: GoalSide, details?: GoalDetails) => {
+    setPendingGoalSide(null);
+    if (side === 'for') {
+      await addHomeGoal(details);
+    } else {
+      await addAwayGoal(details);
+    }
   };
 
   const getTeamName = async (teamId: string) => {
@@ -131,20 +258,26 @@ const LiveTracking: React.FC = () => {
     return team ? team.name : 'Unknown Team';
   };
 
-  const [homeTeamName, setHomeTeamName] = useState('Home Team');
+  const [ourTeamName, setOurTeamName] = useState('Home Team');
 
   useEffect(() => {
     if (currentGame.homeTeamId) {
-      getTeamName(currentGame.homeTeamId).then(setHomeTeamName);
+      getTeamName(currentGame.homeTeamId).then(setOurTeamName);
     }
   }, [currentGame.homeTeamId]);
 
+  // Scouting games chart two other teams
+  const homeTeamName = getHomeTeamName(currentGame, ourTeamName);
+
 
   const handleTimeout = async () => {
     if (!currentGame || currentGame.timeoutUsed) return;
     await useTimeout();
   };
 
+  const activePenalties = getActivePenalties();
+  const strength = getCurrentStrength();
+
 
   return (
     <div className="min-h-screen bg-gray-50 p-4">
@@ -158,8 +291,18 @@ const LiveTracking: React.FC = () => {
             <Home className="w-5 h-5" />
             <span>Back to Games</span>
           </button>
-          <div className="text-sm text-gray-500">
-            Period {currentGame.currentPeriod || 1} of {currentGame.periods}
+          <div className="flex items-center space-x-3">
+            <SyncStatus status={outboxStatus} isSyncing={isSyncing} onRetry={syncToFirebase} />
+            <button
+              onClick={() => window.open(`/live/display?game=${currentGame.id}`, 'live-display')}
+              className="p-1 text-gray-500 hover:text-gray-800"
+              title="Open bench display"
+            >
+              <Monitor className="w-5 h-5" />
+            </button>
+            <div className="text-sm text-gray-500">
+              {isShootout ? 'Shootout' : isOvertime ? 'Overtime' : `Period ${currentPeriod} of ${currentGame.periods}`}
+            </div>
           </div>
         </div>
         
@@ -182,7 +325,8 @@ const LiveTracking: React.FC = () => {
             </div>
             <button
               onClick={handleHomeGoal}
-              className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg flex items-center space-x-2 mx-auto"
+              disabled={isPlayOver}
+              className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-lg flex items-center space-x-2 mx-auto disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Plus className="w-5 h-5" />
               <span>Goal</span>
@@ -198,9 +342,16 @@ const LiveTracking: React.FC = () => {
             <div className="text-sm text-gray-500">
               Game Time: {formatTime(gameTime)}
             </div>
-            {isPeriodComplete && (
+            <div className="text-xs text-gray-400">
+              {currentGame.clockMode === 'running' ? 'Running time' : 'Stop time'}
+            </div>
+            {isDecidedInOvertime ? (
+              <div className="text-green-600 font-semibold mt-2">
+                Overtime Winner!
+              </div>
+            ) : isPeriodComplete && (
               <div className="text-red-600 font-semibold mt-2">
-                Period Complete!
+                {isOvertime ? 'Overtime Complete!' : 'Period Complete!'}
               </div>
             )}
           </div>
@@ -213,7 +364,8 @@ const LiveTracking: React.FC = () => {
             </div>
             <button
               onClick={handleAwayGoal}
-              className="bg-red-500 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg flex items-center space-x-2 mx-auto"
+              disabled={isPlayOver}
+              className="bg-red-500 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg flex items-center space-x-2 mx-auto disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Plus className="w-5 h-5" />
               <span>Goal</span>
@@ -222,6 +374,53 @@ const LiveTracking: React.FC = () => {
         </div>
       </div>
 
+      {/* Ended on another device */}
+      {currentGame.status === 'archived' && (
+        <div className="bg-gray-100 border border-gray-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+          <span className="font-semibold text-gray-800">This game has ended</span>
+          <button
+            onClick={() => navigate('/games')}
+            className="bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg"
+          >
+            Back to Games
+          </button>
+        </div>
+      )}
+
+      {/* Sudden-death result */}
+      {isDecidedInOvertime && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+          <span className="font-semibold text-green-800">
+            {(currentGame.homeScore || 0) > (currentGame.awayScore || 0) ? homeTeamName : currentGame.awayTeamName} win in overtime
+          </span>
+          <button
+            onClick={handleEndGame}
+            className="bg-green-600 hover:bg-green-700 text-white font-bold py-2 px-4 rounded-lg"
+          >
+            End Game
+          </button>
+        </div>
+      )}
+
+      {/* Shootout */}
+      {isShootout && (
+        <ShootoutPanel
+          shootout={getShootoutState(events)}
+          roster={roster}
+          goalieId={getCurrentGoalieId()}
+          homeTeamName={homeTeamName}
+          opponentName={currentGame.awayTeamName}
+          onAttempt={addShootoutAttempt}
+        />
+      )}
+
+      {/* Active Penalties */}
+      {activePenalties.length > 0 && (
+        <div className="mb-6">
+          <PenaltyBox penalties={activePenalties} strength={strength} />
+        </div>
+      )}
+
       {/* Time Controls */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
         <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
@@ -229,11 +428,12 @@ const LiveTracking: React.FC = () => {
           <span>Time Controls</span>
         </h3>
         
-        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
           {/* Play/Pause Button */}
           <button
             onClick={handlePlayPause}
-            className={`h-16 rounded-lg font-bold text-white flex items-center justify-center space-x-2 ${
+            disabled={isPlayOver}
+            className={`h-16 rounded-lg font-bold text-white flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed ${
               isTracking && !isPaused 
                 ? 'bg-orange-500 hover:bg-orange-700' 
                 : 'bg-green-500 hover:bg-green-700'
@@ -275,6 +475,15 @@ const LiveTracking: React.FC = () => {
             )}
           </button>
 
+          {/* Penalty Button */}
+          <button
+            onClick={() => setIsPenaltyModalOpen(true)}
+            className="h-16 bg-red-500 hover:bg-red-700 text-white font-bold rounded-lg flex items-center justify-center space-x-2"
+          >
+            <AlertTriangle className="w-5 h-5" />
+            <span>Penalty</span>
+          </button>
+
           {/* Time Adjustments */}
           <button
             onClick={() => adjustTime(-10)}
@@ -293,11 +502,11 @@ const LiveTracking: React.FC = () => {
           </button>
 
           <button
-            onClick={() => setIsTimeInputOpen(true)}
+            onClick={() => setIsResyncOpen(true)}
             className="h-16 bg-blue-500 hover:bg-blue-700 text-white font-bold rounded-lg flex items-center justify-center space-x-2"
           >
             <Timer className="w-5 h-5" />
-            <span>Set Time</span>
+            <span>Resync</span>
           </button>
         </div>
 
@@ -305,19 +514,15 @@ const LiveTracking: React.FC = () => {
         <div className="grid grid-cols-2 gap-4">
           <button
             onClick={handleNextPeriod}
-            disabled={!isPeriodComplete && isTracking}
+            disabled={(!isPeriodComplete && isTracking) || isPlayOver}
             className={`h-12 rounded-lg font-bold text-white flex items-center justify-center space-x-2 ${
-              isPeriodComplete || !isTracking
+              (isPeriodComplete || !isTracking) && !isPlayOver
                 ? 'bg-purple-500 hover:bg-purple-700'
                 : 'bg-gray-400 cursor-not-allowed'
             }`}
           >
             <SkipForward className="w-5 h-5" />
-            <span>
-              {currentGame.currentPeriod && currentGame.currentPeriod < currentGame.periods 
-                ? 'Next Period' 
-                : 'Start Overtime'}
-            </span>
+            <span>{getNextPeriodLabel()}</span>
           </button>
 
           <button
@@ -328,14 +533,69 @@ const LiveTracking: React.FC = () => {
             <span>End Game</span>
           </button>
         </div>
+
+        {/* Video sync point, so every record gets its offset into the game video */}
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <span className="text-gray-600">
+            {currentGame.videoStartedAt !== undefined
+              ? `Video started at ${new Date(currentGame.videoStartedAt).toLocaleTimeString()}`
+              : 'Video not started'}
+          </span>
+          <button
+            onClick={markVideoStart}
+            className="flex items-center space-x-2 px-3 py-2 bg-gray-100 hover:bg-gray-200 text-gray-800 font-medium rounded"
+          >
+            <Film className="w-4 h-4" />
+            <span>{currentGame.videoStartedAt !== undefined ? 'Re-mark video start' : 'Mark video start'}</span>
+          </button>
+        </div>
       </div>
 
+      {/* Bench */}
+      {roster.length > 0 && (
+        <div className="mb-6">
+          <BenchPanel
+            lines={lines}
+            roster={roster}
+            events={events}
+            gameTime={gameTime}
+            onChangeLine={changeLine}
+            onEditLines={() => setIsLineEditorOpen(true)}
+            disabled={isPlayOver}
+          />
+        </div>
+      )}
+
+      {/* Custom Events */}
+      {customEventTypes.length > 0 && (
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">Custom Events</h3>
+          <CustomEventButtons
+            eventTypes={customEventTypes}
+            disabled={isPlayOver}
+            onSelect={(eventType) => continueCustomEvent({ eventType, step: 'location' })}
+          />
+        </div>
+      )}
+
       {/* Game Summary */}
       <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
-        <h3 className="text-lg font-semibold mb-4 flex items-center space-x-2">
-          <BarChart3 className="w-5 h-5" />
-          <span>Game Summary</span>
-        </h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold flex items-center space-x-2">
+            <BarChart3 className="w-5 h-5" />
+            <span>Game Summary</span>
+          </h3>
+          <button
+            onClick={() => setMicrostatsMode(!microstatsMode)}
+            className={`flex items-center space-x-2 px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+              microstatsMode ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+            title="Track zone entries, exits, turnovers, takeaways and hits on the rink"
+          >
+            <Activity className="w-4 h-4" />
+            <span>Microstats {microstatsMode ? 'On' : 'Off'}</span>
+          </button>
+        </div>
         
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
           <div className="bg-gray-50 rounded-lg p-3">
@@ -347,7 +607,7 @@ const LiveTracking: React.FC = () => {
           
           <div className="bg-gray-50 rounded-lg p-3">
             <div className="text-2xl font-bold text-green-600">
-              P{currentGame?.currentPeriod || 1}
+              {isShootout ? 'SO' : isOvertime ? 'OT' : `P${currentPeriod}`}
             </div>
             <div className="text-sm text-gray-600">Period</div>
           </div>
@@ -368,6 +628,25 @@ const LiveTracking: React.FC = () => {
         </div>
       </div>
 
+      {/* Action History */}
+      <ActionHistory
+        commandLog={commandLog}
+        canUndo={canUndo()}
+        canRedo={canRedo()}
+        onUndo={undoLastAction}
+        onRedo={redoLastAction}
+      />
+
+      {/* Everything recorded, by this device and any other one sharing the game */}
+      <SessionActivity
+        shots={shots}
+        goalsAgainst={goalsAgainst}
+        shotsAgainst={shotsAgainst}
+        events={events}
+        deviceName={deviceName}
+        onRename={setDeviceName}
+      />
+
       {/* Navigation Buttons */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <button
@@ -405,41 +684,74 @@ const LiveTracking: React.FC = () => {
       </div>
 
 
-      {/* Manual Time Input Modal */}
-      {isTimeInputOpen && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg w-80">
-            <h3 className="text-lg font-semibold mb-4">Set Game Time</h3>
-            <div className="mb-4">
-              <label className="block text-sm font-medium mb-2">Time (MM:SS)</label>
-              <input
-                type="text"
-                value={timeInput}
-                onChange={(e) => setTimeInput(e.target.value)}
-                placeholder="05:30"
-                className="w-full p-3 border rounded-lg text-center text-xl font-mono"
-                pattern="[0-9]{1,2}:[0-9]{2}"
-              />
-            </div>
-            <div className="flex space-x-2">
-              <button
-                onClick={handleSetTime}
-                className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
-              >
-                Set Time
-              </button>
-              <button
-                onClick={() => {
-                  setIsTimeInputOpen(false);
-                  setTimeInput('');
-                }}
-                className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
-              >
-                Cancel
-              </button>
-            </div>
-          </div>
-        </div>
+      {/* Penalty Modal */}
+      {isPenaltyModalOpen && (
+        <PenaltyModal
+          roster={roster}
+          homeTeamName={isScoutingGame(currentGame) ? homeTeamName : undefined}
+          opponentName={currentGame.awayTeamName}
+          onSubmit={async (penalty) => {
+            await addPenalty(penalty);
+            setIsPenaltyModalOpen(false);
+          }}
+          onClose={() => setIsPenaltyModalOpen(false)}
+        />
+      )}
+
+      {/* Custom Event Location / Player */}
+      {pendingCustomEvent?.step === 'location' && (
+        <RinkLocationPicker
+          title={pendingCustomEvent.eventType.label}
+          onPick={({ x, y }) => continueCustomEvent({ ...pendingCustomEvent, x, y })}
+          onClose={() => setPendingCustomEvent(null)}
+        />
+      )}
+
+      {pendingCustomEvent?.step === 'player' && (
+        <PlayerPicker
+          title={`${pendingCustomEvent.eventType.label} - player`}
+          subtitle="Tap the jersey number"
+          players={roster}
+          onPick={(playerId) => recordCustomEvent(pendingCustomEvent, playerId)}
+          onSkip={() => setPendingCustomEvent(null)}
+          skipLabel="Cancel"
+        />
+      )}
+
+      {/* Line Editor */}
+      {isLineEditorOpen && (
+        <LineEditor
+          lines={lines}
+          roster={roster}
+          onSave={(updatedLines) => {
+            setLines(updatedLines);
+            setIsLineEditorOpen(false);
+          }}
+          onClose={() => setIsLineEditorOpen(false)}
+        />
+      )}
+
+      {/* Goal Detail Sheet */}
+      {pendingGoalSide && (
+        <GoalDetailSheet
+          side={pendingGoalSide}
+          roster={roster}
+          defaults={getDefaultGoalDetails(pendingGoalSide)}
+          onSave={(details) => recordScoreboardGoal(pendingGoalSide, details)}
+          onSkip={() => recordScoreboardGoal(pendingGoalSide)}
+          onClose={() => setPendingGoalSide(null)}
+        />
+      )}
+
+      {/* Clock Resync Modal */}
+      {isResyncOpen && (
+        <ClockResyncModal
+          game={currentGame}
+          gameTime={gameTime}
+          onResync={setGameTime}
+          onClockModeChange={setClockMode}
+          onClose={() => setIsResyncOpen(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Save } from 'lucide-react';
+import AdvancedDrawingCanvas from '../../components/AdvancedDrawingCanvas';
+import ProfessionalToolbar from '../../components/ProfessionalToolbar';
+import IntermissionReport from '../../components/live/IntermissionReport';
+import { useDrawingHistory } from '../../lib/drawing/history';
+import { dbHelpers } from '../../db';
+import { useGameStore } from '../../stores/gameStore';
+import { useToast } from '../../contexts/ToastContext';
+import { isOvertimePeriod } from '../../utils/gameClock';
+import { getIntermission, getWhiteboardElements } from '../../utils/intermission';
+import { getHomeTeamName } from '../../utils/scouting';
+import type { DrawingColor, DrawingElement, DrawingToolType } from '../../types';
+
+// Shown when a period ends: the period's report and a whiteboard for the room
+const Intermission: React.FC = () => {
+  const navigate = useNavigate();
+  const { period: periodParam } = useParams<{ period: string }>();
+  const { showSuccess } = useToast();
+  const { currentGame, shots, goalsAgainst, shotsAgainst, events, saveIntermission } = useGameStore();
+  const period = Number(periodParam) || 1;
+  const saved = getIntermission(events, period);
+
+  const [elements, setElements] = useState<DrawingElement[]>(saved?.elements || []);
+  const [notes, setNotes] = useState(saved?.notes || '');
+  const [hasChanges, setHasChanges] = useState(false);
+  const [selectedTool, setSelectedTool] = useState<DrawingToolType>('arrow');
+  const [selectedColor, setSelectedColor] = useState<DrawingColor>('blue');
+  const [selectedElements, setSelectedElements] = useState<string[]>([]);
+  const [ourTeamName, setOurTeamName] = useState('Home Team');
+  const { saveState, undo, redo, canUndo, canRedo } = useDrawingHistory();
+
+  useEffect(() => {
+    if (!currentGame) {
+      navigate('/games');
+    }
+  }, [currentGame, navigate]);
+
+  const homeTeamId = currentGame?.homeTeamId;
+  useEffect(() => {
+    if (!homeTeamId) return;
+    dbHelpers.getTeamById(homeTeamId).then(team => setOurTeamName(team ? team.name : 'Unknown Team'));
+  }, [homeTeamId]);
+
+  // A whiteboard saved earlier can arrive after a reload, or from the other device
+  useEffect(() => {
+    if (!saved || hasChanges) return;
+    setElements(saved.elements);
+    setNotes(saved.notes);
+  }, [saved, hasChanges]);
+
+  const handleElementsChange = useCallback((newElements: DrawingElement[]) => {
+    saveState(elements);
+    setElements(newElements);
+    setHasChanges(true);
+  }, [elements, saveState]);
+
+  const handleStartDrawing = useCallback(() => {
+    saveState(elements);
+  }, [elements, saveState]);
+
+  const handleUndo = useCallback(() => {
+    const previousElements = undo(elements);
+    if (previousElements) {
+      setElements(previousElements);
+      setHasChanges(true);
+    }
+  }, [elements, undo]);
+
+  const handleRedo = useCallback(() => {
+    const nextElements = redo(elements);
+    if (nextElements) {
+      setElements(nextElements);
+      setHasChanges(true);
+    }
+  }, [elements, redo]);
+
+  const handleClear = useCallback(() => {
+    if (elements.length === 0) return;
+    saveState(elements);
+    setElements([]);
+    setSelectedElements([]);
+    setHasChanges(true);
+  }, [elements, saveState]);
+
+  if (!currentGame) {
+    return null;
+  }
+
+  const save = () => {
+    saveIntermission(period, { elements: getWhiteboardElements(elements), notes: notes.trim() });
+    setHasChanges(false);
+  };
+
+  const handleSave = () => {
+    save();
+    showSuccess('Intermission saved with the game');
+  };
+
+  // Nothing drawn is lost on the way back to the bench
+  const handleBack = () => {
+    if (hasChanges) {
+      save();
+    }
+    navigate('/live');
+  };
+
+  const periodLabel = isOvertimePeriod(currentGame, period) ? 'Overtime' : `Period ${period}`;
+
+  return (
+    <div className="min-h-screen bg-gray-100 pb-24">
+      {/* Header */}
+      <div className="bg-white border-b px-4 py-3 shadow-sm mb-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={handleBack}
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-900 transition-colors"
+            >
+              <ArrowLeft className="w-5 h-5" />
+              <span className="hidden sm:inline">Back to Game</span>
+            </button>
+            <div>
+              <h1 className="text-xl font-bold text-gray-900">{periodLabel} Intermission</h1>
+              <div className="text-sm text-gray-600">
+                {getHomeTeamName(currentGame, ourTeamName)} {currentGame.homeScore || 0} - {currentGame.awayScore || 0} {currentGame.awayTeamName}
+              </div>
+            </div>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={!hasChanges}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span className="hidden sm:inline">Save</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 space-y-6">
+        <IntermissionReport
+          game={currentGame}
+          period={period}
+          records={{ shots, goalsAgainst, shotsAgainst, events }}
+          homeTeamName={getHomeTeamName(currentGame, ourTeamName)}
+        />
+
+        {/* Whiteboard */}
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="font-semibold mb-3">Whiteboard</h3>
+          <div className="flex flex-col lg:flex-row gap-4">
+            <div className="overflow-x-auto">
+              <AdvancedDrawingCanvas
+                elements={elements}
+                selectedTool={selectedTool}
+                selectedColor={selectedColor}
+                selectedElements={selectedElements}
+                onElementsChange={handleElementsChange}
+                onSelectionChange={setSelectedElements}
+                onStartDrawing={handleStartDrawing}
+                width={800}
+                height={400}
+                rinkImageSrc="/images/rink.png"
+              />
+            </div>
+            <textarea
+              value={notes}
+              onChange={(e) => {
+                setNotes(e.target.value);
+                setHasChanges(true);
+              }}
+              placeholder="Notes for the room..."
+              className="flex-1 min-h-32 p-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <ProfessionalToolbar
+        selectedTool={selectedTool}
+        selectedColor={selectedColor}
+        onToolChange={setSelectedTool}
+        onColorChange={setSelectedColor}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onClear={handleClear}
+        canUndo={canUndo}
+        canRedo={canRedo}
+      />
+    </div>
+  );
+};
+
+export default Intermission;
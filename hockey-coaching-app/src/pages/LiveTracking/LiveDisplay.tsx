@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { Game, GameRecords } from '../../types';
+import { dbHelpers, subscribeToDisplayBroadcast, subscribeToLiveGame } from '../../db';
+import { getClockGameTime, getPeriodLength, getPeriodStartTime, isClockRunning, isOvertimePeriod } from '../../utils/gameClock';
+import { getActivePenalties, getGameStrength } from '../../utils/penalties';
+import { getHomeTeamName } from '../../utils/scouting';
+import { getScoreboardFeed, type ScoreboardFeed } from '../../utils/scoreboard';
+
+// How often a display with nothing to show looks for a live game again
+const LIVE_GAME_POLL_MS = 15000;
+
+const EMPTY_RECORDS: GameRecords = { shots: [], goalsAgainst: [], shotsAgainst: [], events: [] };
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const findLiveGame = async (): Promise<Game | undefined> => {
+  const games = await dbHelpers.getAllGames();
+  return games
+    .filter(game => game.status === 'live')
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())[0];
+};
+
+// Read-only bench scoreboard. A tracking window on this device drives it over a
+// BroadcastChannel; on any other device it follows the live game in Firestore.
+const LiveDisplay: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [gameId, setGameId] = useState<string | null>(searchParams.get('game'));
+  const [localFeed, setLocalFeed] = useState<ScoreboardFeed | null>(null);
+  const [remoteGame, setRemoteGame] = useState<Game | null>(null);
+  const [records, setRecords] = useState<GameRecords>(EMPTY_RECORDS);
+  const [ourTeamName, setOurTeamName] = useState('Home Team');
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeToDisplayBroadcast(setLocalFeed), []);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // No game to follow yet: wait for one to go live
+  useEffect(() => {
+    if (gameId || localFeed) return;
+
+    const lookForGame = () => {
+      findLiveGame()
+        .then(game => game && setGameId(game.id))
+        .catch(error => console.error('Failed to find a live game:', error));
+    };
+    lookForGame();
+    const interval = setInterval(lookForGame, LIVE_GAME_POLL_MS);
+    return () => clearInterval(interval);
+  }, [gameId, localFeed]);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    setRemoteGame(null);
+    setRecords(EMPTY_RECORDS);
+    return subscribeToLiveGame(gameId, {
+      onGame: setRemoteGame,
+      onShots: shots => setRecords(current => ({ ...current, shots })),
+      onGoalsAgainst: goalsAgainst => setRecords(current => ({ ...current, goalsAgainst })),
+      onShotsAgainst: shotsAgainst => setRecords(current => ({ ...current, shotsAgainst })),
+      onEvents: events => setRecords(current => ({ ...current, events }))
+    });
+  }, [gameId]);
+
+  // The tracking window on this device is ahead of Firestore
+  const feed = useMemo(
+    () => localFeed || (remoteGame ? getScoreboardFeed(remoteGame, records) : null),
+    [localFeed, remoteGame, records]
+  );
+
+  const homeTeamId = feed?.game.homeTeamId;
+  useEffect(() => {
+    if (!homeTeamId) return;
+    dbHelpers.getTeamById(homeTeamId)
+      .then(team => setOurTeamName(team ? team.name : 'Unknown Team'))
+      .catch(error => console.error('Failed to load team:', error));
+  }, [homeTeamId]);
+
+  if (!feed) {
+    return (
+      <div className="min-h-screen bg-black text-white flex flex-col items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-4 border-white border-t-transparent mb-6"></div>
+        <div className="text-3xl text-gray-400">Waiting for a live game...</div>
+      </div>
+    );
+  }
+
+  const { game, clock } = feed;
+  const homeTeamName = getHomeTeamName(game, ourTeamName);
+  const currentPeriod = game.currentPeriod || 1;
+  const isOvertime = isOvertimePeriod(game, currentPeriod);
+  const gameTime = getClockGameTime(clock, now);
+  const periodElapsed = gameTime - getPeriodStartTime(game, currentPeriod);
+  const remaining = Math.max(0, getPeriodLength(game, currentPeriod) - periodElapsed);
+  const activePenalties = getActivePenalties(feed.penaltyEvents, gameTime);
+  const strength = getGameStrength(activePenalties);
+  const periodLabel = game.status === 'archived' ? 'Final' : isOvertime ? 'Overtime' : `Period ${currentPeriod}`;
+
+  const teams = [
+    { side: 'home' as const, name: homeTeamName, score: game.homeScore || 0, shots: feed.homeShots, color: 'text-blue-400' },
+    { side: 'away' as const, name: game.awayTeamName, score: game.awayScore || 0, shots: feed.awayShots, color: 'text-red-400' }
+  ];
+
+  return (
+    <div className="min-h-screen bg-black text-white flex flex-col p-8 select-none">
+      {/* Score and clock */}
+      <div className="grid grid-cols-3 gap-8 items-center flex-1">
+        {teams.map((team, index) => (
+          <div key={team.side} className={`text-center ${index === 1 ? 'order-3' : ''}`}>
+            <div className="text-4xl font-semibold text-gray-300 truncate mb-4">{team.name}</div>
+            <div className={`text-[12rem] leading-none font-bold ${team.color}`}>{team.score}</div>
+            <div className="text-3xl text-gray-400 mt-6">
+              Shots <span className="font-bold text-white">{team.shots}</span>
+            </div>
+          </div>
+        ))}
+
+        <div className="text-center order-2">
+          <div className="text-4xl font-semibold text-gray-300 mb-4">{periodLabel}</div>
+          <div className={`text-9xl font-bold font-mono ${isClockRunning(clock) ? 'text-white' : 'text-yellow-400'}`}>
+            {formatTime(remaining)}
+          </div>
+          {strength.state !== 'EV' && (
+            <div className={`inline-block mt-6 px-4 py-1 rounded text-3xl font-bold ${strength.state === 'PP' ? 'bg-green-600' : 'bg-red-600'}`}>
+              {strength.state} {strength.label}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Penalties and faceoffs */}
+      <div className="grid grid-cols-3 gap-8 border-t border-gray-700 pt-6">
+        {teams.map((team, index) => {
+          const penalties = activePenalties.filter(penalty => penalty.team === team.side);
+          return (
+            <div key={team.side} className={`space-y-2 ${index === 1 ? 'order-3 text-right' : ''}`}>
+              {penalties.length === 0 ? (
+                <div className="text-2xl text-gray-600">No penalties</div>
+              ) : penalties.map(penalty => (
+                <div key={penalty.id} className="text-3xl">
+                  <span className="font-mono font-bold">{formatTime(penalty.remaining)}</span>
+                  <span className="text-gray-400 ml-4">
+                    {penalty.playerNumber !== undefined && `#${penalty.playerNumber} `}{penalty.infraction}
+                  </span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+
+        <div className="text-center order-2">
+          <div className="text-2xl text-gray-400">Faceoffs won</div>
+          <div className="text-5xl font-bold">
+            {feed.faceoffs.total > 0 ? `${Math.round(feed.faceoffs.percentage)}%` : '--'}
+          </div>
+          <div className="text-xl text-gray-500">{feed.faceoffs.wins}-{feed.faceoffs.losses}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveDisplay;
@@ -2,13 +2,18 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useGameStore } from '../../stores/gameStore';
 import { ArrowLeft, Target, Percent } from 'lucide-react';
-import type { Shot } from '../../types';
+import type { GameEvent, Shot } from '../../types';
+import FaceoffBreakdown from '../../components/analysis/FaceoffBreakdown';
+import ShiftBreakdown from '../../components/analysis/ShiftBreakdown';
+import { calculateFaceoffStats, isFaceoffEvent } from '../../utils/faceoffs';
+import { isOvertimePeriod } from '../../utils/gameClock';
+import { calculatePlayerShiftStats } from '../../utils/shifts';
 
 const QuickStats: React.FC = () => {
   const navigate = useNavigate();
-  const { currentGame, shots: allShots, events, isTracking } = useGameStore();
+  const { currentGame, shots: allShots, goalsAgainst, events, gameTime, roster, loadRoster, isTracking } = useGameStore();
   const [displayedShots, setDisplayedShots] = useState<Shot[]>([]);
-  const [faceoffStats, setFaceoffStats] = useState({ wins: 0, losses: 0 });
+  const [faceoffEvents, setFaceoffEvents] = useState<GameEvent[]>([]);
   const [selectedPeriod, setSelectedPeriod] = useState<number | 'all'>('all');
 
   useEffect(() => {
@@ -20,24 +25,25 @@ const QuickStats: React.FC = () => {
 
     if (selectedPeriod === 'all') {
       filteredShots = allShots;
-      filteredEvents = events.filter(event =>
-        event.type === 'faceoff_won' || event.type === 'faceoff_lost'
-      );
+      filteredEvents = events.filter(isFaceoffEvent);
     } else {
       filteredShots = allShots.filter(shot => shot.period === selectedPeriod);
-      filteredEvents = events.filter(event =>
-        event.period === selectedPeriod &&
-        (event.type === 'faceoff_won' || event.type === 'faceoff_lost')
-      );
+      filteredEvents = events.filter(event => event.period === selectedPeriod && isFaceoffEvent(event));
     }
 
     setDisplayedShots(filteredShots);
-
-    const wins = filteredEvents.filter(event => event.type === 'faceoff_won').length;
-    const losses = filteredEvents.filter(event => event.type === 'faceoff_lost').length;
-    setFaceoffStats({ wins, losses });
+    setFaceoffEvents(filteredEvents);
   }, [currentGame, allShots, events, selectedPeriod]);
 
+  // Roster is not persisted, reload it after a page refresh to name faceoff takers
+  const currentGameId = currentGame?.id;
+  const hasRoster = roster.length > 0;
+  useEffect(() => {
+    if (currentGameId && !hasRoster) {
+      loadRoster();
+    }
+  }, [currentGameId, hasRoster, loadRoster]);
+
   // Auto-refresh every 5 seconds if game is live
   useEffect(() => {
     if (!isTracking || !currentGame) return;
@@ -60,8 +66,15 @@ const QuickStats: React.FC = () => {
   const ourTotalShots = displayedShots.length;
   
   const shootingPercentage = ourTotalShots > 0 ? (ourGoals / ourTotalShots) * 100 : 0;
-  const faceoffTotal = faceoffStats.wins + faceoffStats.losses;
-  const faceoffPercentage = faceoffTotal > 0 ? (faceoffStats.wins / faceoffTotal) * 100 : 0;
+  const faceoffStats = calculateFaceoffStats(faceoffEvents);
+  const shiftStats = calculatePlayerShiftStats(
+    events,
+    allShots,
+    goalsAgainst,
+    roster,
+    gameTime,
+    selectedPeriod === 'all' ? undefined : selectedPeriod
+  );
 
   // Create mini rink visualization
   const renderMiniRink = () => {
@@ -215,13 +228,27 @@ const QuickStats: React.FC = () => {
             <h3 className="text-lg font-semibold">Faceoffs</h3>
           </div>
           <div className="text-3xl font-bold text-purple-600">
-            {faceoffTotal > 0 ? `${faceoffPercentage.toFixed(0)}%` : '0%'}
+            {faceoffStats.percentage.toFixed(0)}%
           </div>
           <div className="text-sm text-gray-600 mt-1">
             {faceoffStats.wins}-{faceoffStats.losses} record
           </div>
         </div>
       </div>
+
+      {/* Faceoffs by dot, player and period */}
+      <div className="bg-white rounded-lg shadow-lg mt-6">
+        <FaceoffBreakdown
+          events={faceoffEvents}
+          players={roster}
+          getPeriodLabel={(period) => isOvertimePeriod(currentGame, period) ? 'OT' : `Period ${period}`}
+        />
+      </div>
+
+      {/* Time on ice and plus/minus from the bench */}
+      <div className="bg-white rounded-lg shadow-lg mt-6">
+        <ShiftBreakdown stats={shiftStats} />
+      </div>
     </div>
   );
 };
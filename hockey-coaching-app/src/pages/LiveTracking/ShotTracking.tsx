@@ -8,9 +8,54 @@ import {
   Target,
   RotateCcw,
   X,
-  Undo
+  Undo,
+  Redo,
+  AlertTriangle,
+  Activity,
+  ChevronDown,
+  ChevronUp
 } from 'lucide-react';
-import type { ShotResult, TeamSide } from '../../types';
+import PlayerPicker from '../../components/live/PlayerPicker';
+import PenaltyModal from '../../components/live/PenaltyModal';
+import PenaltyBox from '../../components/live/PenaltyBox';
+import SyncStatus from '../../components/live/SyncStatus';
+import FaceoffDetailsPicker from '../../components/live/FaceoffDetailsPicker';
+import MicrostatBar, { type ArmedMicrostat } from '../../components/live/MicrostatBar';
+import CustomEventButtons from '../../components/live/CustomEventButtons';
+import BenchPanel from '../../components/live/BenchPanel';
+import GoalDetailSheet from '../../components/live/GoalDetailSheet';
+import type { CustomEventType, FaceoffDetails, GoalDetails, Microstat, MicrostatType, ShotResult, TeamSide } from '../../types';
+import { getRedoTarget, getUndoTarget } from '../../utils/commandLog';
+import { getPeriodEndTime, isOvertimePeriod } from '../../utils/gameClock';
+import { calculateFaceoffStats } from '../../utils/faceoffs';
+import { MICROSTAT_LABELS } from '../../utils/microstats';
+import { SHOT_CONTEXTS, SHOT_CONTEXT_LABELS, SHOT_TYPES, SHOT_TYPE_LABELS, type ShotTags } from '../../utils/shotTags';
+import { getHomeTeamName, isScoutingGame } from '../../utils/scouting';
+
+interface PendingShot {
+  result: ShotResult;
+  x: number;
+  y: number;
+  shooterId?: string;
+  tags: ShotTags;
+}
+
+interface PendingGoalAgainst {
+  x: number;
+  y: number;
+  reason: string;
+}
+
+interface PendingMicrostat {
+  type: MicrostatType;
+  microstat: Microstat;
+}
+
+interface PendingCustomEvent {
+  eventType: CustomEventType;
+  x?: number;
+  y?: number;
+}
 
 const ShotTracking: React.FC = () => {
   const navigate = useNavigate();
@@ -18,14 +63,26 @@ const ShotTracking: React.FC = () => {
   const tapTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   
   const [showShotPopup, setShowShotPopup] = useState(false);
+  const [showShotTags, setShowShotTags] = useState(false);
+  const [shotTags, setShotTags] = useState<ShotTags>({});
   const [showGoalAgainstPopup, setShowGoalAgainstPopup] = useState(false);
   const [clickPosition, setClickPosition] = useState({ x: 0, y: 0 });
   const [normalizedCoords, setNormalizedCoords] = useState({ x: 0, y: 0 });
   const [showFaceoffButtons, setShowFaceoffButtons] = useState(false);
+  const [faceoffDetails, setFaceoffDetails] = useState<FaceoffDetails>({});
   const [showStartTrackingButton, setShowStartTrackingButton] = useState(true);
   const [showTimeAdjust, setShowTimeAdjust] = useState(false);
   const [timeAdjustInput, setTimeAdjustInput] = useState('');
   const [timeAdjustMode, setTimeAdjustMode] = useState<'+' | '-'>('+');
+  const [pendingShot, setPendingShot] = useState<PendingShot | null>(null);
+  const [pickerStep, setPickerStep] = useState<'shooter' | 'goal' | null>(null);
+  const [pendingGoalAgainst, setPendingGoalAgainst] = useState<PendingGoalAgainst | null>(null);
+  const [showPenaltyModal, setShowPenaltyModal] = useState(false);
+  const [showGoaliePicker, setShowGoaliePicker] = useState(false);
+  const [armedMicrostat, setArmedMicrostat] = useState<ArmedMicrostat | null>(null);
+  const [pendingMicrostat, setPendingMicrostat] = useState<PendingMicrostat | null>(null);
+  const [armedCustomEvent, setArmedCustomEvent] = useState<CustomEventType | null>(null);
+  const [pendingCustomEvent, setPendingCustomEvent] = useState<PendingCustomEvent | null>(null);
 
   const {
     currentGame,
@@ -33,29 +90,74 @@ const ShotTracking: React.FC = () => {
     isPaused,
     gameTime,
     events,
+    roster,
+    loadRoster,
     startTracking,
     pauseTracking,
+    pauseForStoppage,
     resumeTracking,
     addShot,
     addGoalAgainst,
+    addShotAgainst,
+    getDefaultGoalDetails,
+    getCurrentGoalieId,
+    isGoaliePulled,
+    changeGoalie,
+    pullGoalie,
+    returnGoalie,
+    commandLog,
     undoLastAction,
+    redoLastAction,
     canUndo,
+    canRedo,
     adjustTime,
     addFaceoffWin,
-    addFaceoffLoss
+    addFaceoffLoss,
+    addPenalty,
+    microstatsMode,
+    setMicrostatsMode,
+    addMicrostat,
+    customEventTypes,
+    loadCustomEventTypes,
+    addCustomEvent,
+    lines,
+    changeLine,
+    getActivePenalties,
+    getCurrentStrength,
+    outboxStatus,
+    isSyncing,
+    syncToFirebase
   } = useGameStore();
 
-  // Keyboard handler for undo
+  // Keyboard handler for undo (Z) and redo (Y)
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
-      if (event.key.toLowerCase() === 'z' && !showShotPopup && !showGoalAgainstPopup && canUndo()) {
+      if (showShotPopup || showGoalAgainstPopup || pickerStep || pendingGoalAgainst || showPenaltyModal || showGoaliePicker || pendingMicrostat || pendingCustomEvent) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && canUndo()) {
         handleUndo();
+      } else if (key === 'y' && canRedo()) {
+        handleRedo();
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [showShotPopup, showGoalAgainstPopup, canUndo]);
+  }, [showShotPopup, showGoalAgainstPopup, pickerStep, pendingGoalAgainst, showPenaltyModal, showGoaliePicker, pendingMicrostat, pendingCustomEvent, canUndo, canRedo]);
+
+  // Roster is not persisted, reload it after a page refresh
+  const currentGameId = currentGame?.id;
+  const hasRoster = roster.length > 0;
+  useEffect(() => {
+    if (currentGameId && !hasRoster) {
+      loadRoster();
+    }
+  }, [currentGameId, hasRoster, loadRoster]);
+
+  useEffect(() => {
+    loadCustomEventTypes();
+  }, [loadCustomEventTypes]);
 
   // Manage start tracking button and faceoff ribbon
   useEffect(() => {
@@ -104,31 +206,41 @@ const ShotTracking: React.FC = () => {
     return { defending, teamSide };
   };
 
+  const showToast = (message: string) => {
+    const toast = document.createElement('div');
+    toast.className = 'fixed top-20 left-1/2 transform -translate-x-1/2 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
+    toast.textContent = message;
+    document.body.appendChild(toast);
+
+    setTimeout(() => {
+      document.body.removeChild(toast);
+    }, 2000);
+  };
+
   const handleUndo = async () => {
-    if (!currentGame || !canUndo()) return;
+    const target = getUndoTarget(commandLog);
+    if (!currentGame || !target) return;
 
     const success = await undoLastAction();
     if (success) {
-      // Show toast notification
-      const toast = document.createElement('div');
-      toast.className = 'fixed top-20 left-1/2 transform -translate-x-1/2 bg-green-500 text-white px-4 py-2 rounded-lg shadow-lg z-50';
-      toast.textContent = 'Last action undone';
-      document.body.appendChild(toast);
-
-      setTimeout(() => {
-        document.body.removeChild(toast);
-      }, 2000);
+      showToast(`Undone: ${target.description}`);
+    }
+  };
+
+  const handleRedo = async () => {
+    const target = getRedoTarget(commandLog);
+    if (!currentGame || !target) return;
+
+    const success = await redoLastAction();
+    if (success) {
+      showToast(`Redone: ${target.description}`);
     }
   };
 
   const getCurrentPeriodTime = () => {
     if (!currentGame) return { remaining: 0 };
-    const periodLength = currentGame.periodMinutes * 60;
-    const currentPeriod = currentGame.currentPeriod || 1;
-    const periodStartTime = (currentPeriod - 1) * periodLength;
-    const periodElapsed = gameTime - periodStartTime;
-    const periodRemaining = Math.max(0, periodLength - periodElapsed);
-    return { remaining: periodRemaining };
+    const periodEndTime = getPeriodEndTime(currentGame, currentGame.currentPeriod || 1);
+    return { remaining: Math.max(0, periodEndTime - gameTime) };
   };
 
   // Convert screen coordinates to normalized rink coordinates (0-1)
@@ -153,12 +265,42 @@ const ShotTracking: React.FC = () => {
   }, [currentGame]);
 
   const handleRinkClick = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
-    if (showShotPopup || showGoalAgainstPopup) return;
+    if (showShotPopup || showGoalAgainstPopup || pickerStep || pendingGoalAgainst || showPenaltyModal || showGoaliePicker || pendingMicrostat || pendingCustomEvent) return;
 
     const clientX = event.clientX;
     const clientY = event.clientY;
     const normalizedCoords = convertToNormalizedCoords(clientX, clientY);
 
+    // A custom event waiting for its location takes this tap instead of a shot
+    if (armedCustomEvent) {
+      const location = { x: normalizedCoords.x, y: normalizedCoords.y };
+      setArmedCustomEvent(null);
+
+      if (armedCustomEvent.needsPlayer && roster.length > 0) {
+        setPendingCustomEvent({ eventType: armedCustomEvent, ...location });
+      } else {
+        addCustomEvent(armedCustomEvent, location);
+      }
+      return;
+    }
+
+    // Microstats mode: an armed play takes this tap instead of a shot
+    if (armedMicrostat) {
+      const microstat: Microstat = {
+        x: normalizedCoords.x,
+        y: normalizedCoords.y,
+        ...(armedMicrostat.transition && { transition: armedMicrostat.transition })
+      };
+      setArmedMicrostat(null);
+
+      if (roster.length === 0) {
+        addMicrostat(armedMicrostat.type, microstat);
+      } else {
+        setPendingMicrostat({ type: armedMicrostat.type, microstat });
+      }
+      return;
+    }
+
     setClickPosition({ x: clientX, y: clientY });
     setNormalizedCoords(normalizedCoords);
 
@@ -168,63 +310,163 @@ const ShotTracking: React.FC = () => {
       clearTimeout(tapTimeoutRef.current);
       tapTimeoutRef.current = null;
       setShowGoalAgainstPopup(true);
-      pauseTracking(); // Auto-pause on goal against
+      pauseForStoppage(); // Auto-pause on goal against
     } else {
       // Single tap - wait for potential second tap
       tapTimeoutRef.current = setTimeout(() => {
         tapTimeoutRef.current = null;
+        setShotTags({});
         setShowShotPopup(true);
       }, 300); // 300ms window for double tap
     }
-  }, [showShotPopup, showGoalAgainstPopup, convertToNormalizedCoords, pauseTracking]);
+  }, [showShotPopup, showGoalAgainstPopup, pickerStep, pendingGoalAgainst, showPenaltyModal, showGoaliePicker, pendingMicrostat, pendingCustomEvent, armedMicrostat, armedCustomEvent, roster.length, addMicrostat, addCustomEvent, convertToNormalizedCoords, pauseForStoppage]);
 
-  const handleShotResult = async (result: ShotResult) => {
+  const handleCustomEventSelect = (eventType: CustomEventType) => {
+    setArmedMicrostat(null);
+
+    if (eventType.needsLocation) {
+      setArmedCustomEvent(armedCustomEvent?.id === eventType.id ? null : eventType);
+    } else if (eventType.needsPlayer && roster.length > 0) {
+      setPendingCustomEvent({ eventType });
+    } else {
+      addCustomEvent(eventType, {});
+    }
+  };
+
+  const recordCustomEvent = async (playerId: string) => {
+    if (!pendingCustomEvent) return;
+
+    const { eventType, x, y } = pendingCustomEvent;
+    await addCustomEvent(eventType, {
+      ...(x !== undefined && y !== undefined && { x, y }),
+      playerId
+    });
+    setPendingCustomEvent(null);
+  };
+
+  const recordMicrostat = async (playerId?: string) => {
+    if (!pendingMicrostat) return;
+
+    await addMicrostat(pendingMicrostat.type, {
+      ...pendingMicrostat.microstat,
+      ...(playerId && { playerId })
+    });
+    setPendingMicrostat(null);
+  };
+
+  const recordShot = async (shotDetails: PendingShot, goalDetails?: GoalDetails) => {
     if (!currentGame) return;
 
     const { teamSide } = getCurrentTeamSide();
+    const shooterId = goalDetails ? goalDetails.scorerId : shotDetails.shooterId;
 
+    // Firestore rejects undefined fields, so only attach attribution when set.
+    // A goal also bumps our score in the same undoable action.
     await addShot({
       period: currentGame.currentPeriod || 1,
-      x: normalizedCoords.x,
-      y: normalizedCoords.y,
-      result,
-      teamSide
+      x: shotDetails.x,
+      y: shotDetails.y,
+      result: shotDetails.result,
+      teamSide,
+      ...(shooterId && { shooterId }),
+      ...(goalDetails?.assistIds && { assistIds: goalDetails.assistIds }),
+      ...(goalDetails && { goalType: goalDetails.goalType, onIceIds: goalDetails.onIceIds }),
+      ...shotDetails.tags
     });
 
-    // If shot result is goal, increment home team score (single tap = our team goal)
-    if (result === 'goal') {
-      const gameStore = useGameStore.getState();
-      await gameStore.addHomeGoal();
-    }
+    setPendingShot(null);
+    setPickerStep(null);
+  };
+
+  const handleShotResult = async (result: ShotResult) => {
+    if (!currentGame) return;
 
     // Auto-pause on goal or save
     if (result === 'goal' || result === 'save') {
-      pauseTracking();
+      pauseForStoppage();
       setShowFaceoffButtons(true); // Show faceoff ribbon after auto-pause
     }
 
     setShowShotPopup(false);
+
+    const shotDetails: PendingShot = {
+      result,
+      x: normalizedCoords.x,
+      y: normalizedCoords.y,
+      tags: shotTags
+    };
+
+    // Without a roster there is nobody to attribute the shot to
+    if (roster.length === 0) {
+      await recordShot(shotDetails);
+      return;
+    }
+
+    // Goals get the detail sheet: scorer, assists, goal type and who was on the ice
+    setPendingShot(shotDetails);
+    setPickerStep(result === 'goal' ? 'goal' : 'shooter');
   };
 
-  const handleGoalAgainst = async (reason: string) => {
+  // Tags are optional extras; tapping a selected tag again clears it
+  const toggleShotTag = <K extends keyof ShotTags>(key: K, value: NonNullable<ShotTags[K]>) => {
+    const tags = { ...shotTags };
+    if (tags[key] === value) {
+      delete tags[key];
+    } else {
+      tags[key] = value;
+    }
+    setShotTags(tags);
+  };
+
+  const handleShooterPicked = async (playerId: string) => {
+    if (!pendingShot) return;
+    await recordShot({ ...pendingShot, shooterId: playerId });
+  };
+
+  // Opponent shot that didn't go in (goals against are recorded on double tap)
+  const handleShotAgainst = async (result: Exclude<ShotResult, 'goal'>) => {
     if (!currentGame) return;
 
-    await addGoalAgainst({
+    await addShotAgainst({
       period: currentGame.currentPeriod || 1,
       x: normalizedCoords.x,
       y: normalizedCoords.y,
-      reason
+      result
     });
 
-    // Double tap = goal against us, so increment away team score
-    const gameStore = useGameStore.getState();
-    await gameStore.addAwayGoal();
+    // Auto-pause on save, same as our shots
+    if (result === 'save') {
+      pauseForStoppage();
+      setShowFaceoffButtons(true);
+    }
 
-    // Auto-pause and show faceoff ribbon after goal against
-    pauseTracking();
-    setShowFaceoffButtons(true);
+    setShowShotPopup(false);
+  };
 
+  const handleGoalAgainst = async (reason: string) => {
     setShowGoalAgainstPopup(false);
+
+    const goal: PendingGoalAgainst = { x: normalizedCoords.x, y: normalizedCoords.y, reason };
+    if (roster.length === 0) {
+      await recordGoalAgainst(goal);
+    } else {
+      setPendingGoalAgainst(goal);
+    }
+  };
+
+  const recordGoalAgainst = async (goal: PendingGoalAgainst, goalDetails?: GoalDetails) => {
+    if (!currentGame) return;
+
+    await addGoalAgainst({
+      period: currentGame.currentPeriod || 1,
+      ...goal,
+      ...(goalDetails && { goalType: goalDetails.goalType, onIceIds: goalDetails.onIceIds })
+    });
+
+    // Double tap = goal against us, which also increments the away score
+    // and pauses the clock. Show the faceoff ribbon after it.
+    setShowFaceoffButtons(true);
+    setPendingGoalAgainst(null);
   };
 
   const closePopups = () => {
@@ -242,13 +484,22 @@ const ShotTracking: React.FC = () => {
     setShowFaceoffButtons(true); // Show faceoff ribbon when starting period
   };
 
+  // The dot changes every draw, the players taking it usually don't
+  const resetFaceoffDot = () => {
+    const nextDetails = { ...faceoffDetails };
+    delete nextDetails.dot;
+    setFaceoffDetails(nextDetails);
+  };
+
   const handleFaceoffWon = async () => {
-    await addFaceoffWin();
+    await addFaceoffWin(faceoffDetails);
+    resetFaceoffDot();
     setShowFaceoffButtons(false);
   };
 
   const handleFaceoffLost = async () => {
-    await addFaceoffLoss();
+    await addFaceoffLoss(faceoffDetails);
+    resetFaceoffDot();
     setShowFaceoffButtons(false);
   };
 
@@ -273,31 +524,24 @@ const ShotTracking: React.FC = () => {
     }
   };
 
-  // Calculate current period faceoff stats
-  const getCurrentPeriodFaceoffs = () => {
-    if (!currentGame) return { wins: 0, losses: 0, percentage: 0 };
-    
-    const currentPeriod = currentGame.currentPeriod || 1;
-    const periodFaceoffs = events.filter(event => 
-      event.period === currentPeriod && 
-      (event.type === 'faceoff_won' || event.type === 'faceoff_lost')
-    );
-    
-    const wins = periodFaceoffs.filter(event => event.type === 'faceoff_won').length;
-    const losses = periodFaceoffs.filter(event => event.type === 'faceoff_lost').length;
-    const total = wins + losses;
-    const percentage = total > 0 ? (wins / total) * 100 : 0;
-    
-    return { wins, losses, percentage, total };
-  };
-
   if (!currentGame) {
     navigate('/live');
     return null;
   }
 
   const periodTime = getCurrentPeriodTime();
-  const faceoffStats = getCurrentPeriodFaceoffs();
+  const faceoffStats = calculateFaceoffStats(
+    events.filter(event => event.period === (currentGame.currentPeriod || 1))
+  );
+  const activePenalties = getActivePenalties();
+  const strength = getCurrentStrength();
+  const goalies = roster.filter(player => player.position === 'G');
+  const currentGoalieId = getCurrentGoalieId();
+  const currentGoalie = roster.find(player => player.id === currentGoalieId);
+  const goaliePulled = isGoaliePulled();
+  // Scouting games chart two other teams, so the popups name them
+  const isScouting = isScoutingGame(currentGame);
+  const homeTeamName = getHomeTeamName(currentGame, 'Home');
 
   return (
     <div className="fixed inset-0 bg-black">
@@ -331,7 +575,7 @@ const ShotTracking: React.FC = () => {
           {/* Game info */}
           <div className="bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg text-center">
             <div className="text-lg font-bold">
-              Period {currentGame.currentPeriod || 1} - {formatTime(periodTime.remaining)}
+              {isOvertimePeriod(currentGame, currentGame.currentPeriod || 1) ? 'OT' : `Period ${currentGame.currentPeriod || 1}`} - {formatTime(periodTime.remaining)}
             </div>
             <div className="text-sm opacity-90">
               {currentGame.homeScore || 0} - {currentGame.awayScore || 0}
@@ -341,23 +585,78 @@ const ShotTracking: React.FC = () => {
             </div>
           </div>
 
-          {/* Play/Pause button */}
-          <button
-            onClick={handlePlayPause}
-            className={`p-3 rounded-full transition-colors ${
-              isTracking && !isPaused 
-                ? 'bg-orange-500 hover:bg-orange-600' 
-                : 'bg-green-500 hover:bg-green-600'
-            } text-white`}
-          >
-            {isTracking && !isPaused ? (
-              <Pause className="w-6 h-6" />
-            ) : (
-              <Play className="w-6 h-6" />
-            )}
-          </button>
+          <div className="flex items-center space-x-2">
+            {/* Unsynced writes */}
+            <SyncStatus
+              status={outboxStatus}
+              isSyncing={isSyncing}
+              onRetry={syncToFirebase}
+              variant="dark"
+            />
+
+            {/* Microstats mode */}
+            <button
+              onClick={() => {
+                setMicrostatsMode(!microstatsMode);
+                setArmedMicrostat(null);
+              }}
+              className={`p-3 rounded-full transition-opacity ${
+                microstatsMode ? 'bg-purple-600 text-white' : 'bg-black bg-opacity-50 text-purple-300 hover:bg-opacity-70'
+              }`}
+              title={microstatsMode ? 'Turn off microstats' : 'Track zone entries, exits, turnovers, takeaways and hits'}
+            >
+              <Activity className="w-6 h-6" />
+            </button>
+
+            {/* Penalty button */}
+            <button
+              onClick={() => {
+                pauseForStoppage();
+                setShowPenaltyModal(true);
+              }}
+              className="bg-black bg-opacity-50 text-yellow-400 p-3 rounded-full hover:bg-opacity-70 transition-opacity"
+              title="Record penalty"
+            >
+              <AlertTriangle className="w-6 h-6" />
+            </button>
+
+            {/* Play/Pause button */}
+            <button
+              onClick={handlePlayPause}
+              className={`p-3 rounded-full transition-colors ${
+                isTracking && !isPaused 
+                  ? 'bg-orange-500 hover:bg-orange-600' 
+                  : 'bg-green-500 hover:bg-green-600'
+              } text-white`}
+            >
+              {isTracking && !isPaused ? (
+                <Pause className="w-6 h-6" />
+              ) : (
+                <Play className="w-6 h-6" />
+              )}
+            </button>
+          </div>
         </div>
 
+        {/* Active penalties and the bench */}
+        {(activePenalties.length > 0 || lines.length > 0) && (
+          <div className="absolute top-20 left-4 w-56 pointer-events-auto space-y-2">
+            {activePenalties.length > 0 && (
+              <PenaltyBox penalties={activePenalties} strength={strength} variant="dark" />
+            )}
+            {lines.length > 0 && (
+              <BenchPanel
+                lines={lines}
+                roster={roster}
+                events={events}
+                gameTime={gameTime}
+                onChangeLine={changeLine}
+                variant="dark"
+              />
+            )}
+          </div>
+        )}
+
         {/* Team side indicator */}
         <div className="absolute bottom-4 left-4 pointer-events-auto">
           <div className="bg-black bg-opacity-50 text-white p-3 rounded-lg">
@@ -369,19 +668,81 @@ const ShotTracking: React.FC = () => {
             }`}>
               {getCurrentTeamSide().defending.toUpperCase()}
             </div>
+            {goalies.length > 0 && (
+              <>
+                <button
+                  onClick={() => setShowGoaliePicker(true)}
+                  className="mt-2 w-full text-left text-sm hover:text-blue-300"
+                  title="Change goalie in net"
+                >
+                  Goalie: {goaliePulled ? 'Empty net' : currentGoalie ? `#${currentGoalie.jerseyNumber}` : 'None'}
+                </button>
+                {goaliePulled ? (
+                  <button
+                    onClick={returnGoalie}
+                    className="mt-1 w-full px-2 py-1 text-xs rounded bg-green-600 hover:bg-green-700"
+                    title="Put the pulled goalie back in net"
+                  >
+                    Goalie back in
+                  </button>
+                ) : currentGoalieId && (
+                  <button
+                    onClick={pullGoalie}
+                    className="mt-1 w-full px-2 py-1 text-xs rounded bg-yellow-600 hover:bg-yellow-700"
+                    title="Pull the goalie for an extra attacker"
+                  >
+                    Pull goalie
+                  </button>
+                )}
+              </>
+            )}
           </div>
         </div>
 
-        {/* Undo button - show if can undo within time window */}
-        {canUndo() && (
-          <div className="absolute bottom-24 left-4 pointer-events-auto">
+        {/* Undo / redo buttons */}
+        {(canUndo() || canRedo()) && (
+          <div className="absolute bottom-44 left-4 pointer-events-auto flex space-x-2">
             <button
               onClick={handleUndo}
-              className="bg-orange-500 hover:bg-orange-600 text-white p-3 rounded-full shadow-lg transition-colors"
-              title="Undo last action (Z key) - 30 sec window"
+              disabled={!canUndo()}
+              className="bg-orange-500 hover:bg-orange-600 disabled:opacity-40 text-white p-3 rounded-full shadow-lg transition-colors"
+              title={`Undo ${getUndoTarget(commandLog)?.description || 'last action'} (Z key)`}
             >
               <Undo className="w-6 h-6" />
             </button>
+            <button
+              onClick={handleRedo}
+              disabled={!canRedo()}
+              className="bg-gray-600 hover:bg-gray-700 disabled:opacity-40 text-white p-3 rounded-full shadow-lg transition-colors"
+              title={`Redo ${getRedoTarget(commandLog)?.description || 'last action'} (Y key)`}
+            >
+              <Redo className="w-6 h-6" />
+            </button>
+          </div>
+        )}
+
+        {/* Custom event buttons */}
+        {customEventTypes.length > 0 && (
+          <div className="absolute top-20 right-4 pointer-events-auto">
+            <CustomEventButtons
+              eventTypes={customEventTypes}
+              armedId={armedCustomEvent?.id}
+              onSelect={handleCustomEventSelect}
+              layout="column"
+            />
+          </div>
+        )}
+
+        {/* Microstat quick buttons */}
+        {microstatsMode && (
+          <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 pointer-events-auto">
+            <MicrostatBar
+              armed={armedMicrostat}
+              onArm={(microstat) => {
+                setArmedCustomEvent(null);
+                setArmedMicrostat(microstat);
+              }}
+            />
           </div>
         )}
 
@@ -390,7 +751,7 @@ const ShotTracking: React.FC = () => {
           <div className="bg-black bg-opacity-50 text-white p-3 rounded-lg text-sm">
             <div className="flex items-center space-x-2 mb-1">
               <Target className="w-4 h-4" />
-              <span>Single tap: Our shot</span>
+              <span>Single tap: Shot for / against</span>
             </div>
             <div className="flex items-center space-x-2">
               <RotateCcw className="w-4 h-4" />
@@ -406,16 +767,68 @@ const ShotTracking: React.FC = () => {
           className="absolute pointer-events-auto bg-white rounded-lg shadow-lg p-4"
           style={{
             left: Math.min(clickPosition.x - 100, window.innerWidth - 220),
-            top: Math.min(clickPosition.y - 100, window.innerHeight - 180),
-            width: '200px'
+            top: Math.min(clickPosition.y - 100, window.innerHeight - (showShotTags ? 440 : 300)),
+            width: '240px'
           }}
         >
           <div className="flex justify-between items-center mb-3">
-            <h3 className="font-semibold">Shot Result</h3>
+            <h3 className="font-semibold truncate">
+              {isScouting ? `${homeTeamName} shot` : 'Shot Result'}
+            </h3>
             <button onClick={closePopups} className="text-gray-400 hover:text-gray-600">
               <X className="w-4 h-4" />
             </button>
           </div>
+          <button
+            onClick={() => setShowShotTags(!showShotTags)}
+            className="w-full flex items-center justify-between text-xs font-medium text-gray-500 mb-2"
+          >
+            <span>Tags (optional)</span>
+            {showShotTags ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          {showShotTags && (
+            <div className="space-y-2 mb-3">
+              <div className="flex flex-wrap gap-1">
+                {SHOT_TYPES.map(shotType => (
+                  <button
+                    key={shotType}
+                    onClick={() => toggleShotTag('shotType', shotType)}
+                    className={`px-2 py-1 rounded text-xs ${
+                      shotTags.shotType === shotType ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {SHOT_TYPE_LABELS[shotType]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {SHOT_CONTEXTS.map(context => (
+                  <button
+                    key={context}
+                    onClick={() => toggleShotTag('context', context)}
+                    className={`px-2 py-1 rounded text-xs ${
+                      shotTags.context === context ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {SHOT_CONTEXT_LABELS[context]}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-1">
+                {([true, false] as const).map(screened => (
+                  <button
+                    key={String(screened)}
+                    onClick={() => toggleShotTag('screened', screened)}
+                    className={`px-2 py-1 rounded text-xs ${
+                      shotTags.screened === screened ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {screened ? 'Screened' : 'Not screened'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-2 gap-2">
             <button
               onClick={() => handleShotResult('goal')}
@@ -442,6 +855,29 @@ const ShotTracking: React.FC = () => {
               Rebound
             </button>
           </div>
+          <div className="text-xs font-medium text-gray-500 mt-3 mb-2 truncate">
+            {isScouting ? `${currentGame.awayTeamName} shot` : 'Shot against'}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => handleShotAgainst('save')}
+              className="bg-red-100 hover:bg-red-200 text-red-700 font-bold py-2 rounded text-xs"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => handleShotAgainst('miss')}
+              className="bg-red-100 hover:bg-red-200 text-red-700 font-bold py-2 rounded text-xs"
+            >
+              Miss
+            </button>
+            <button
+              onClick={() => handleShotAgainst('blocked')}
+              className="bg-red-100 hover:bg-red-200 text-red-700 font-bold py-2 rounded text-xs"
+            >
+              Block
+            </button>
+          </div>
         </div>
       )}
 
@@ -456,7 +892,9 @@ const ShotTracking: React.FC = () => {
           }}
         >
           <div className="flex justify-between items-center mb-3">
-            <h3 className="font-semibold text-red-600">Goal Against</h3>
+            <h3 className="font-semibold text-red-600 truncate">
+              {isScouting ? `${currentGame.awayTeamName} goal` : 'Goal Against'}
+            </h3>
             <button onClick={closePopups} className="text-gray-400 hover:text-gray-600">
               <X className="w-4 h-4" />
             </button>
@@ -490,6 +928,90 @@ const ShotTracking: React.FC = () => {
         </div>
       )}
 
+      {/* Shooter Picker */}
+      {pendingShot && pickerStep === 'shooter' && (
+        <PlayerPicker
+          title="Shot taken by"
+          subtitle="Tap the jersey number"
+          players={roster}
+          onPick={handleShooterPicked}
+          onSkip={() => recordShot(pendingShot)}
+        />
+      )}
+
+      {/* Goal Detail Sheets */}
+      {pendingShot && pickerStep === 'goal' && (
+        <GoalDetailSheet
+          side="for"
+          roster={roster}
+          defaults={getDefaultGoalDetails('for')}
+          onSave={(details) => recordShot(pendingShot, details)}
+          onSkip={() => recordShot(pendingShot)}
+        />
+      )}
+
+      {pendingGoalAgainst && (
+        <GoalDetailSheet
+          side="against"
+          roster={roster}
+          defaults={getDefaultGoalDetails('against')}
+          onSave={(details) => recordGoalAgainst(pendingGoalAgainst, details)}
+          onSkip={() => recordGoalAgainst(pendingGoalAgainst)}
+        />
+      )}
+
+      {/* Microstat Player Picker */}
+      {pendingMicrostat && (
+        <PlayerPicker
+          title={`${MICROSTAT_LABELS[pendingMicrostat.type]} by`}
+          subtitle="Tap the jersey number"
+          players={roster}
+          onPick={recordMicrostat}
+          onSkip={() => recordMicrostat()}
+        />
+      )}
+
+      {/* Custom Event Player Picker */}
+      {pendingCustomEvent && (
+        <PlayerPicker
+          title={`${pendingCustomEvent.eventType.label} - player`}
+          subtitle="Tap the jersey number"
+          players={roster}
+          onPick={recordCustomEvent}
+          onSkip={() => setPendingCustomEvent(null)}
+          skipLabel="Cancel"
+        />
+      )}
+
+      {/* Goalie Picker */}
+      {showGoaliePicker && (
+        <PlayerPicker
+          title="Goalie in net"
+          players={goalies}
+          selectedIds={currentGoalieId ? [currentGoalieId] : []}
+          onPick={(goalieId) => {
+            changeGoalie(goalieId);
+            setShowGoaliePicker(false);
+          }}
+          onSkip={() => setShowGoaliePicker(false)}
+          skipLabel="Cancel"
+        />
+      )}
+
+      {/* Penalty Modal */}
+      {showPenaltyModal && (
+        <PenaltyModal
+          roster={roster}
+          homeTeamName={isScouting ? homeTeamName : undefined}
+          opponentName={currentGame.awayTeamName}
+          onSubmit={async (penalty) => {
+            await addPenalty(penalty);
+            setShowPenaltyModal(false);
+          }}
+          onClose={() => setShowPenaltyModal(false)}
+        />
+      )}
+
       {/* Start Game Button - Centered */}
       {showStartTrackingButton && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-auto">
@@ -612,6 +1134,13 @@ const ShotTracking: React.FC = () => {
               <X className="w-3 h-3" />
             </button>
           </div>
+
+          <FaceoffDetailsPicker
+            details={faceoffDetails}
+            players={roster}
+            defending={getCurrentTeamSide().defending}
+            onChange={setFaceoffDetails}
+          />
         </div>
       )}
     </div>
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Binoculars, Save } from 'lucide-react';
+import type { Game, Opponent } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import { getOpponentShots, getShotColor } from '../lib/utils/analysis';
+import { formatGameRecord, getGameRecord, getResultSuffix, getStoredGameResult } from '../utils/gameResult';
+import { getOpponentGames } from '../utils/opponents';
+import { getHomeTeamName, isScoutingGame } from '../utils/scouting';
+import type { NormalizedShot, NormalizedShotAgainst } from '../utils/shotNormalization';
+
+const ShotMap: React.FC<{ title: string; shots: Array<NormalizedShot | NormalizedShotAgainst> }> = ({ title, shots }) => (
+  <div>
+    <h3 className="font-semibold mb-2">{title} <span className="text-sm font-normal text-gray-500">({shots.length})</span></h3>
+    <div
+      className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+      style={{
+        backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+        backgroundSize: 'contain',
+        aspectRatio: '2/1'
+      }}
+    >
+      {shots.map(shot => (
+        <div
+          key={shot.id}
+          className="absolute w-2.5 h-2.5 rounded-full transform -translate-x-1/2 -translate-y-1/2 border border-white"
+          style={{
+            backgroundColor: getShotColor(shot.result),
+            left: `${shot.normalizedX * 100}%`,
+            top: `${shot.normalizedY * 100}%`
+          }}
+          title={`${shot.result.charAt(0).toUpperCase() + shot.result.slice(1)} - Period ${shot.period}`}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+// Head-to-head history, shot maps and scouting notes for one opponent
+const OpponentDetail: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const [opponent, setOpponent] = useState<Opponent | null>(null);
+  const [games, setGames] = useState<Game[]>([]);
+  const [scoutingGames, setScoutingGames] = useState<Game[]>([]);
+  const [shots, setShots] = useState<NormalizedShot[]>([]);
+  const [shotsAgainst, setShotsAgainst] = useState<NormalizedShotAgainst[]>([]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadOpponent = async () => {
+      try {
+        const [loadedOpponent, allGames] = await Promise.all([
+          dbHelpers.getOpponentById(id),
+          dbHelpers.getAllGames()
+        ]);
+        if (!loadedOpponent) {
+          navigate('/opponents');
+          return;
+        }
+
+        const opponentGames = getOpponentGames(allGames, loadedOpponent)
+          .filter(game => game.status !== 'planned')
+          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+        const teamGames = opponentGames.filter(game => !isScoutingGame(game));
+
+        setOpponent(loadedOpponent);
+        setNotes(loadedOpponent.notes || '');
+        setGames(teamGames);
+        // Scouted as either side
+        setScoutingGames(opponentGames.filter(isScoutingGame));
+
+        const opponentShots = await getOpponentShots(teamGames);
+        setShots(opponentShots.shots);
+        setShotsAgainst(opponentShots.shotsAgainst);
+      } catch (error) {
+        console.error('Failed to load opponent:', error);
+        showError('Failed to load opponent');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadOpponent();
+  }, [id, navigate, showError]);
+
+  const handleSaveNotes = async () => {
+    if (!opponent) return;
+
+    try {
+      await dbHelpers.updateOpponent(opponent.id, { notes: notes.trim() });
+      setOpponent({ ...opponent, notes: notes.trim() });
+      showSuccess('Notes saved');
+    } catch (error) {
+      console.error('Failed to save notes:', error);
+      showError('Failed to save notes');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading opponent...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!opponent) return null;
+
+  const playedGames = games.filter(game => game.status === 'archived');
+  const record = formatGameRecord(getGameRecord(playedGames));
+  const goalsFor = playedGames.reduce((total, game) => total + (game.homeScore || 0), 0);
+  const goalsAgainst = playedGames.reduce((total, game) => total + (game.awayScore || 0), 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center space-x-3 mb-6">
+        <button onClick={() => navigate('/opponents')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to opponents">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div className="flex">
+          <div className="w-4 h-10 rounded-l" style={{ backgroundColor: opponent.primaryColor }} />
+          <div className="w-4 h-10 rounded-r" style={{ backgroundColor: opponent.secondaryColor || opponent.primaryColor }} />
+        </div>
+        <h1 className="text-3xl font-bold">{opponent.name}</h1>
+      </div>
+
+      {/* Head to head */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">{record.value}</div>
+          <div className="text-xs text-gray-600">Record ({record.label})</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-2xl font-bold text-green-600">{goalsFor}</div>
+          <div className="text-xs text-gray-600">Goals For</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-2xl font-bold text-red-600">{goalsAgainst}</div>
+          <div className="text-xs text-gray-600">Goals Against</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-2xl font-bold text-gray-900">
+            {goalsFor - goalsAgainst > 0 ? `+${goalsFor - goalsAgainst}` : goalsFor - goalsAgainst}
+          </div>
+          <div className="text-xs text-gray-600">Goal Differential</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow p-6 space-y-6">
+            <ShotMap title="Our shots" shots={shots} />
+            <ShotMap title="Their shots" shots={shotsAgainst} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-3">Games</h2>
+            {games.length === 0 ? (
+              <p className="text-sm text-gray-500">No games played against {opponent.name} yet</p>
+            ) : (
+              <table className="w-full text-sm">
+                <tbody>
+                  {games.map(game => {
+                    const result = getStoredGameResult(game);
+                    const suffix = getResultSuffix(result);
+                    return (
+                      <tr key={game.id} className="border-b last:border-0">
+                        <td className="py-2 pr-4 text-gray-600">{new Date(game.date).toLocaleDateString()}</td>
+                        <td className="py-2 pr-4 font-semibold">
+                          {game.status === 'live' ? 'Live' : result.slice(-1)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {game.homeScore ?? 0} - {game.awayScore ?? 0}{suffix && ` ${suffix}`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-3">Scouting Notes</h2>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="w-full p-2 border rounded mb-2"
+              rows={8}
+              placeholder="Systems, key players, tendencies..."
+            />
+            <button
+              onClick={handleSaveNotes}
+              disabled={notes.trim() === (opponent.notes || '')}
+              className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded"
+            >
+              <Save className="w-4 h-4" />
+              <span>Save Notes</span>
+            </button>
+          </div>
+
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-xl font-semibold mb-3">Scouting Reports</h2>
+            {scoutingGames.length === 0 ? (
+              <p className="text-sm text-gray-500">No scouting games charted</p>
+            ) : (
+              <ul className="space-y-2">
+                {scoutingGames.map(game => (
+                  <li key={game.id}>
+                    <button
+                      onClick={() => navigate(`/games/${game.id}/scouting`)}
+                      className="flex items-center space-x-2 text-sm text-purple-700 hover:text-purple-900"
+                    >
+                      <Binoculars className="w-4 h-4" />
+                      <span>
+                        {getHomeTeamName(game, 'Home')} vs {game.awayTeamName} · {new Date(game.date).toLocaleDateString()}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default OpponentDetail;
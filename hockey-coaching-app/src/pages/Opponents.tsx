@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Edit, GitMerge, Plus, Trash2 } from 'lucide-react';
+import type { Game, Opponent } from '../types';
+import { dbHelpers } from '../db';
+import { useAuth } from '../contexts/AuthContext';
+import { useToast } from '../contexts/ToastContext';
+import { mergeOpponentNames } from '../lib/utils/analysis';
+import { formatGameRecord, getGameRecord } from '../utils/gameResult';
+import { isScoutingGame } from '../utils/scouting';
+import { DEFAULT_OPPONENT_COLOR, findOpponentByName, getOpponentGames, planOpponentMerge } from '../utils/opponents';
+
+const EMPTY_FORM = { name: '', primaryColor: DEFAULT_OPPONENT_COLOR, secondaryColor: '', notes: '' };
+
+const Opponents: React.FC = () => {
+  const navigate = useNavigate();
+  const { currentUser } = useAuth();
+  const { showSuccess, showError } = useToast();
+  const [opponents, setOpponents] = useState<Opponent[]>([]);
+  const [games, setGames] = useState<Game[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [opponentToEdit, setOpponentToEdit] = useState<Opponent | null>(null);
+  const [opponentForm, setOpponentForm] = useState(EMPTY_FORM);
+
+  const loadData = useCallback(async () => {
+    try {
+      const [allOpponents, allGames] = await Promise.all([
+        dbHelpers.getAllOpponents(),
+        dbHelpers.getAllGames()
+      ]);
+      setOpponents(allOpponents);
+      setGames(allGames);
+    } catch (error) {
+      console.error('Failed to load opponents:', error);
+      showError('Failed to load opponents');
+    } finally {
+      setLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Games typed in before opponents existed, or with another spelling
+  const unmergedGameCount = useMemo(() => {
+    if (!currentUser) return 0;
+    const gameIds = planOpponentMerge(games, opponents, currentUser.uid)
+      .flatMap(merge => merge.sides.map(({ game }) => game.id));
+    return new Set(gameIds).size;
+  }, [games, opponents, currentUser]);
+
+  const handleMerge = async () => {
+    if (!currentUser) return;
+
+    setIsMerging(true);
+    try {
+      const updated = await mergeOpponentNames(games, opponents, currentUser.uid);
+      showSuccess(`Linked ${updated} game${updated !== 1 ? 's' : ''} to opponents`);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to merge opponent names:', error);
+      showError('Failed to merge opponent names. Please try again.');
+    }
+    setIsMerging(false);
+  };
+
+  const openCreateForm = () => {
+    setOpponentToEdit(null);
+    setOpponentForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (opponent: Opponent) => {
+    setOpponentToEdit(opponent);
+    setOpponentForm({
+      name: opponent.name,
+      primaryColor: opponent.primaryColor,
+      secondaryColor: opponent.secondaryColor || '',
+      notes: opponent.notes || ''
+    });
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setOpponentToEdit(null);
+    setOpponentForm(EMPTY_FORM);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const name = opponentForm.name.trim();
+    const existing = findOpponentByName(opponents, name);
+    if (existing && existing.id !== opponentToEdit?.id) {
+      showError(`"${existing.name}" is already an opponent`);
+      return;
+    }
+
+    const details = {
+      name,
+      primaryColor: opponentForm.primaryColor,
+      ...(opponentForm.secondaryColor && { secondaryColor: opponentForm.secondaryColor }),
+      notes: opponentForm.notes.trim()
+    };
+
+    try {
+      if (opponentToEdit) {
+        await dbHelpers.updateOpponent(opponentToEdit.id, details);
+        // Games show the opponent under its new name, on either side of a scouting game
+        if (name !== opponentToEdit.name) {
+          await Promise.all(games.flatMap(game => [
+            ...(game.opponentId === opponentToEdit.id ? [dbHelpers.updateGame(game.id, { awayTeamName: name })] : []),
+            ...(game.homeOpponentId === opponentToEdit.id ? [dbHelpers.updateGame(game.id, { homeTeamName: name })] : [])
+          ]));
+        }
+      } else {
+        await dbHelpers.createOpponent({ id: crypto.randomUUID(), ...details, userId: currentUser.uid });
+      }
+      closeForm();
+      await loadData();
+    } catch (error) {
+      console.error('Failed to save opponent:', error);
+      showError('Failed to save opponent');
+    }
+  };
+
+  const handleDelete = async (opponent: Opponent) => {
+    if (!confirm(`Delete "${opponent.name}"?\n\nGames against them are kept.`)) return;
+
+    try {
+      await dbHelpers.deleteOpponent(opponent.id);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to delete opponent:', error);
+      showError('Failed to delete opponent');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading opponents...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold">Opponents</h1>
+        <button
+          onClick={openCreateForm}
+          className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Opponent</span>
+        </button>
+      </div>
+
+      {unmergedGameCount > 0 && (
+        <div className="flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-yellow-800">
+            {unmergedGameCount} game{unmergedGameCount !== 1 ? 's are' : ' is'} not linked to an opponent yet, or use another spelling.
+            Merging links them by name, so "Lions", "lions" and "Lions HC" become one opponent.
+          </p>
+          <button
+            onClick={handleMerge}
+            disabled={isMerging}
+            className="flex items-center space-x-2 ml-4 bg-yellow-500 hover:bg-yellow-600 disabled:bg-yellow-300 text-white font-bold py-2 px-4 rounded whitespace-nowrap"
+          >
+            <GitMerge className="w-4 h-4" />
+            <span>{isMerging ? 'Merging...' : 'Merge names'}</span>
+          </button>
+        </div>
+      )}
+
+      {opponents.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500">No opponents yet. Add one, or merge the names from your games.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {opponents.map(opponent => {
+            const playedGames = getOpponentGames(games, opponent)
+              .filter(game => game.status === 'archived' && !isScoutingGame(game));
+            const record = formatGameRecord(getGameRecord(playedGames));
+
+            return (
+              <div
+                key={opponent.id}
+                onClick={() => navigate(`/opponents/${opponent.id}`)}
+                className="bg-white rounded-lg shadow p-4 cursor-pointer hover:shadow-md transition-shadow"
+              >
+                <div className="flex justify-between items-start">
+                  <div className="flex items-center space-x-3">
+                    <div className="flex">
+                      <div className="w-4 h-8 rounded-l" style={{ backgroundColor: opponent.primaryColor }} />
+                      <div className="w-4 h-8 rounded-r" style={{ backgroundColor: opponent.secondaryColor || opponent.primaryColor }} />
+                    </div>
+                    <div>
+                      <h3 className="text-lg font-semibold">{opponent.name}</h3>
+                      <p className="text-sm text-gray-600">
+                        {playedGames.length > 0 ? `${record.value} (${record.label})` : 'No games played'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-1">
+                    <button
+                      onClick={(e) => { e.stopPropagation(); openEditForm(opponent); }}
+                      className="p-1 text-gray-400 hover:text-blue-600"
+                      title="Edit opponent"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); handleDelete(opponent); }}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Delete opponent"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                {opponent.notes && (
+                  <p className="text-sm text-gray-500 mt-3 line-clamp-2">{opponent.notes}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Create/Edit Opponent Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white p-6 rounded-lg w-full max-w-md">
+            <h3 className="text-lg font-semibold mb-4">{opponentToEdit ? 'Edit Opponent' : 'Add Opponent'}</h3>
+            <form onSubmit={handleSave}>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Name</label>
+                <input
+                  type="text"
+                  value={opponentForm.name}
+                  onChange={(e) => setOpponentForm({ ...opponentForm, name: e.target.value })}
+                  className="w-full p-2 border rounded"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Primary Color</label>
+                  <input
+                    type="color"
+                    value={opponentForm.primaryColor}
+                    onChange={(e) => setOpponentForm({ ...opponentForm, primaryColor: e.target.value })}
+                    className="w-full p-2 border rounded h-10"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Secondary Color</label>
+                  <input
+                    type="color"
+                    value={opponentForm.secondaryColor || opponentForm.primaryColor}
+                    onChange={(e) => setOpponentForm({ ...opponentForm, secondaryColor: e.target.value })}
+                    className="w-full p-2 border rounded h-10"
+                  />
+                </div>
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Scouting Notes</label>
+                <textarea
+                  value={opponentForm.notes}
+                  onChange={(e) => setOpponentForm({ ...opponentForm, notes: e.target.value })}
+                  className="w-full p-2 border rounded"
+                  rows={4}
+                  placeholder="Systems, key players, tendencies..."
+                />
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  {opponentToEdit ? 'Update' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Opponents;
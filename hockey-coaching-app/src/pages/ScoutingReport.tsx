@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, Shield, Target, Zap } from 'lucide-react';
+import type { Game, ScoutingReport as Report, ScoutingTeamReport, ZoneStats } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import { getScoutingReport, getShotColor, getZoneDisplayName } from '../lib/utils/analysis';
+import { getHomeTeamName } from '../utils/scouting';
+
+const formatPercentage = (value: number) => `${value.toFixed(1)}%`;
+
+const getSavePercentage = (zone: ZoneStats) => {
+  const onGoal = zone.saves + zone.goals;
+  return onGoal > 0 ? (zone.saves / onGoal) * 100 : 0;
+};
+
+// Shot map, power play and goalie sections for one side of the game
+const TeamReport: React.FC<{ report: ScoutingTeamReport }> = ({ report }) => {
+  const shootingPercentage = report.shotsOnGoal > 0 ? (report.goals / report.shotsOnGoal) * 100 : 0;
+  const powerPlayZones = [...report.powerPlay.zones].sort((a, b) => b.shots - a.shots);
+  // Weakest zones first: lowest save %, then most goals
+  const goalieZones = [...report.goalie.zones].sort((a, b) =>
+    getSavePercentage(a) - getSavePercentage(b) || b.goals - a.goals
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold mb-3">{report.teamName}</h2>
+        <div className="grid grid-cols-3 gap-2 text-center">
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-2xl font-bold text-gray-900">{report.shotsOnGoal}</div>
+            <div className="text-xs text-gray-600">Shots on Goal</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-2xl font-bold text-green-600">{report.goals}</div>
+            <div className="text-xs text-gray-600">Goals</div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-3">
+            <div className="text-2xl font-bold text-blue-600">{formatPercentage(shootingPercentage)}</div>
+            <div className="text-xs text-gray-600">Shooting %</div>
+          </div>
+        </div>
+      </div>
+
+      {/* Shot map */}
+      <div>
+        <div className="flex items-center space-x-2 mb-2">
+          <Target className="w-4 h-4 text-gray-600" />
+          <h3 className="font-semibold">Shot Map</h3>
+          <span className="text-xs text-gray-500">attacking right</span>
+        </div>
+        <div
+          className="relative w-full bg-center bg-contain bg-no-repeat border border-gray-300 rounded"
+          style={{
+            backgroundImage: 'url(/images/rink.png), url(/images/rink-placeholder.svg)',
+            backgroundSize: 'contain',
+            aspectRatio: '2/1'
+          }}
+        >
+          {report.shots.map(shot => (
+            <div
+              key={shot.id}
+              className="absolute w-2.5 h-2.5 rounded-full transform -translate-x-1/2 -translate-y-1/2 border border-white"
+              style={{
+                backgroundColor: getShotColor(shot.result),
+                left: `${shot.normalizedX * 100}%`,
+                top: `${shot.normalizedY * 100}%`
+              }}
+              title={`${shot.result.charAt(0).toUpperCase() + shot.result.slice(1)} - Period ${shot.period}${shot.strength ? ` - ${shot.strength}` : ''}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Power play */}
+      <div>
+        <div className="flex items-center space-x-2 mb-2">
+          <Zap className="w-4 h-4 text-gray-600" />
+          <h3 className="font-semibold">Power Play</h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-2">
+          {report.powerPlay.goals} goals on {report.powerPlay.opportunities} power plays, {report.powerPlay.shots} shots
+        </p>
+        {powerPlayZones.length === 0 ? (
+          <p className="text-sm text-gray-500">No power-play shots tracked</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4 font-medium">Shot from</th>
+                <th className="py-2 pr-4 font-medium text-right">Shots</th>
+                <th className="py-2 pr-4 font-medium text-right">Share</th>
+                <th className="py-2 font-medium text-right">Goals</th>
+              </tr>
+            </thead>
+            <tbody>
+              {powerPlayZones.map(zone => (
+                <tr key={zone.zone} className="border-b last:border-0">
+                  <td className="py-2 pr-4 text-gray-900">{getZoneDisplayName(zone.zone)}</td>
+                  <td className="py-2 pr-4 text-right">{zone.shots}</td>
+                  <td className="py-2 pr-4 text-right">{formatPercentage((zone.shots / report.powerPlay.shots) * 100)}</td>
+                  <td className="py-2 text-right">{zone.goals}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Goalie */}
+      <div>
+        <div className="flex items-center space-x-2 mb-2">
+          <Shield className="w-4 h-4 text-gray-600" />
+          <h3 className="font-semibold">Goalie</h3>
+        </div>
+        <p className="text-sm text-gray-600 mb-2">
+          {formatPercentage(report.goalie.savePercentage)} on {report.goalie.shotsAgainst} shots, {report.goalie.goalsAgainst} goals against
+        </p>
+        {goalieZones.length === 0 ? (
+          <p className="text-sm text-gray-500">No shots on goal tracked</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4 font-medium">Shot from</th>
+                <th className="py-2 pr-4 font-medium text-right">SA</th>
+                <th className="py-2 pr-4 font-medium text-right">GA</th>
+                <th className="py-2 font-medium text-right">SV%</th>
+              </tr>
+            </thead>
+            <tbody>
+              {goalieZones.map(zone => (
+                <tr key={zone.zone} className="border-b last:border-0">
+                  <td className="py-2 pr-4 text-gray-900">{getZoneDisplayName(zone.zone)}</td>
+                  <td className="py-2 pr-4 text-right">{zone.saves + zone.goals}</td>
+                  <td className="py-2 pr-4 text-right">{zone.goals}</td>
+                  <td className={`py-2 text-right font-semibold ${
+                    getSavePercentage(zone) < report.goalie.savePercentage ? 'text-red-600' : ''
+                  }`}>
+                    {formatPercentage(getSavePercentage(zone))}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ScoutingReport: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showError } = useToast();
+  const [game, setGame] = useState<Game | null>(null);
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadReport = async () => {
+      try {
+        const loadedGame = await dbHelpers.getGameById(id);
+        if (!loadedGame) {
+          navigate('/games');
+          return;
+        }
+
+        setGame(loadedGame);
+        setReport(await getScoutingReport(loadedGame));
+      } catch (error) {
+        console.error('Failed to load scouting report:', error);
+        showError('Failed to load the scouting report');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReport();
+  }, [id, navigate, showError]);
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading scouting report...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game || !report) return null;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center space-x-3 mb-6">
+        <button onClick={() => navigate('/games')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to games">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h1 className="text-3xl font-bold">Scouting Report</h1>
+          <p className="text-gray-600">
+            {getHomeTeamName(game, 'Home')} {game.homeScore ?? 0} - {game.awayScore ?? 0} {game.awayTeamName} · {new Date(game.date).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <TeamReport report={report.home} />
+        <TeamReport report={report.away} />
+      </div>
+    </div>
+  );
+};
+
+export default ScoutingReport;
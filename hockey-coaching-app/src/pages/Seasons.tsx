@@ -4,15 +4,20 @@ import type { Season, SeasonType, SeasonStatus } from '../types';
 import { dbHelpers } from '../db';
 import { useAppStore } from '../stores/appStore';
 import { useAuth } from '../contexts/AuthContext';
-import { Calendar, Trophy, Play, Archive, Edit2, Trash2, Plus, Crown } from 'lucide-react';
+import { Calendar, Trophy, Play, Archive, Edit2, Trash2, Plus, Crown, Shield, Medal } from 'lucide-react';
+import GoalieStatsModal from '../components/GoalieStatsModal';
+import ScoringLeadersModal from '../components/ScoringLeadersModal';
+import { formatGameRecord, getGameRecord, type GameRecord } from '../utils/gameResult';
 
 const Seasons: React.FC = () => {
   const navigate = useNavigate();
-  const [seasons, setSeasons] = useState<Array<Season & { gameCount: number; playedCount: number; upcomingCount: number }>>([]);
+  const [seasons, setSeasons] = useState<Array<Season & { gameCount: number; playedCount: number; upcomingCount: number; record: GameRecord }>>([]);
   const [loading, setLoading] = useState(true);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [editingSeason, setEditingSeason] = useState<Season | null>(null);
+  const [goalieStatsSeason, setGoalieStatsSeason] = useState<Season | null>(null);
+  const [scoringSeason, setScoringSeason] = useState<Season | null>(null);
   const [seasonForm, setSeasonForm] = useState({
     name: '',
     startDate: '',
@@ -40,13 +45,14 @@ const Seasons: React.FC = () => {
       // Calculate played vs upcoming games for each season
       const seasonsWithBreakdown = allSeasons.map(season => {
         const seasonGames = allGames.filter(game => game.seasonId === season.id);
-        const playedCount = seasonGames.filter(game => game.status === 'archived').length;
+        const playedGames = seasonGames.filter(game => game.status === 'archived');
         const upcomingCount = seasonGames.filter(game => game.status === 'planned').length;
 
         return {
           ...season,
-          playedCount,
-          upcomingCount
+          playedCount: playedGames.length,
+          upcomingCount,
+          record: getGameRecord(playedGames)
         };
       });
 
@@ -238,6 +244,26 @@ const Seasons: React.FC = () => {
                 </div>
               </div>
               <div className="flex space-x-1">
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setScoringSeason(season);
+                  }}
+                  className="p-1 text-gray-400 hover:text-blue-600"
+                  title="Scoring leaders"
+                >
+                  <Medal className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setGoalieStatsSeason(season);
+                  }}
+                  className="p-1 text-gray-400 hover:text-blue-600"
+                  title="Goalie stats"
+                >
+                  <Shield className="w-4 h-4" />
+                </button>
                 <button
                   onClick={(e) => {
                     e.stopPropagation();
@@ -276,6 +302,12 @@ const Seasons: React.FC = () => {
                   {season.playedCount} games played, {season.upcomingCount} upcoming
                 </span>
               </div>
+              {season.playedCount > 0 && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-500">{formatGameRecord(season.record).label}</span>
+                  <span className="font-semibold text-gray-900">{formatGameRecord(season.record).value}</span>
+                </div>
+              )}
               {season.status !== 'active' && (
                 <div className="flex justify-end">
                   <button
@@ -511,6 +543,24 @@ const Seasons: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Goalie Stats Modal */}
+      {goalieStatsSeason && (
+        <GoalieStatsModal
+          title={goalieStatsSeason.name}
+          seasonId={goalieStatsSeason.id}
+          onClose={() => setGoalieStatsSeason(null)}
+        />
+      )}
+
+      {/* Scoring Leaders Modal */}
+      {scoringSeason && (
+        <ScoringLeadersModal
+          title={scoringSeason.name}
+          seasonId={scoringSeason.id}
+          onClose={() => setScoringSeason(null)}
+        />
+      )}
     </div>
   );
 };
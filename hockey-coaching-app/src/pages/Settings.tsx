@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { MapPin, User } from 'lucide-react';
+import type { CustomEventType } from '../types';
+import { dbHelpers } from '../db';
+import { useAuth } from '../contexts/AuthContext';
+import { useGameStore } from '../stores/gameStore';
+import { CUSTOM_EVENT_COLORS, CUSTOM_EVENT_ICONS, getCustomEventIcon } from '../utils/customEvents';
+
+const EMPTY_FORM = {
+  label: '',
+  color: CUSTOM_EVENT_COLORS[0],
+  icon: 'flag',
+  needsLocation: false,
+  needsPlayer: false
+};
+
+const Settings: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { customEventTypes, loadCustomEventTypes } = useGameStore();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [eventTypeToEdit, setEventTypeToEdit] = useState<CustomEventType | null>(null);
+  const [eventTypeForm, setEventTypeForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    loadCustomEventTypes();
+  }, [loadCustomEventTypes]);
+
+  const openCreate = () => {
+    setEventTypeToEdit(null);
+    setEventTypeForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (eventType: CustomEventType) => {
+    setEventTypeToEdit(eventType);
+    setEventTypeForm({
+      label: eventType.label,
+      color: eventType.color,
+      icon: eventType.icon,
+      needsLocation: eventType.needsLocation,
+      needsPlayer: eventType.needsPlayer
+    });
+    setIsFormOpen(true);
+  };
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEventTypeToEdit(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
+
+    const changes = { ...eventTypeForm, label: eventTypeForm.label.trim() };
+    if (eventTypeToEdit) {
+      await dbHelpers.updateCustomEventType(eventTypeToEdit.id, changes);
+    } else {
+      const now = new Date().toISOString();
+      await dbHelpers.createCustomEventType({
+        id: crypto.randomUUID(),
+        ...changes,
+        createdAt: now,
+        updatedAt: now,
+        userId: currentUser.uid
+      });
+    }
+
+    closeForm();
+    await loadCustomEventTypes();
+  };
+
+  const handleDelete = async (eventType: CustomEventType) => {
+    if (confirm(`Delete the "${eventType.label}" button? Events already recorded are kept.`)) {
+      await dbHelpers.deleteCustomEventType(eventType.id);
+      await loadCustomEventTypes();
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold mb-6">Settings</h1>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-xl font-semibold">Custom Events</h2>
+          <button
+            onClick={openCreate}
+            className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+          >
+            Add Event
+          </button>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Buttons for anything else your team tracks, like a bad line change or a great backcheck.
+          They show up on the live tracking screens.
+        </p>
+
+        {customEventTypes.length === 0 ? (
+          <p className="text-gray-500">No custom events yet</p>
+        ) : (
+          <div className="space-y-2">
+            {customEventTypes.map(eventType => {
+              const Icon = getCustomEventIcon(eventType.icon);
+              return (
+                <div key={eventType.id} className="p-3 border rounded-lg flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <span
+                      className="w-8 h-8 rounded-full flex items-center justify-center text-white"
+                      style={{ backgroundColor: eventType.color }}
+                    >
+                      <Icon className="w-4 h-4" />
+                    </span>
+                    <span className="font-medium">{eventType.label}</span>
+                    {eventType.needsLocation && (
+                      <span className="flex items-center px-2 py-1 text-xs bg-gray-200 rounded" title="Asks for a rink location">
+                        <MapPin className="w-3 h-3 mr-1" />
+                        Location
+                      </span>
+                    )}
+                    {eventType.needsPlayer && (
+                      <span className="flex items-center px-2 py-1 text-xs bg-gray-200 rounded" title="Asks for a player">
+                        <User className="w-3 h-3 mr-1" />
+                        Player
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => openEdit(eventType)}
+                      className="text-blue-500 hover:text-blue-700 p-1"
+                      title="Edit event"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() => handleDelete(eventType)}
+                      className="text-red-500 hover:text-red-700 p-1"
+                      title="Delete event"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Create / Edit Custom Event Modal */}
+      {isFormOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center">
+          <div className="bg-white p-6 rounded-lg w-96">
+            <h3 className="text-lg font-semibold mb-4">
+              {eventTypeToEdit ? 'Edit Custom Event' : 'New Custom Event'}
+            </h3>
+            <form onSubmit={handleSubmit}>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Label</label>
+                <input
+                  type="text"
+                  value={eventTypeForm.label}
+                  onChange={(e) => setEventTypeForm({ ...eventTypeForm, label: e.target.value })}
+                  className="w-full p-2 border rounded"
+                  placeholder="e.g. Odd-man rush against"
+                  maxLength={30}
+                  required
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Color</label>
+                <div className="flex space-x-2">
+                  {CUSTOM_EVENT_COLORS.map(color => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => setEventTypeForm({ ...eventTypeForm, color })}
+                      className={`w-8 h-8 rounded-full ${
+                        eventTypeForm.color === color ? 'ring-2 ring-offset-2 ring-gray-800' : ''
+                      }`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium mb-2">Icon</label>
+                <div className="grid grid-cols-6 gap-2">
+                  {Object.entries(CUSTOM_EVENT_ICONS).map(([key, Icon]) => (
+                    <button
+                      key={key}
+                      type="button"
+                      onClick={() => setEventTypeForm({ ...eventTypeForm, icon: key })}
+                      className={`p-2 rounded border flex items-center justify-center ${
+                        eventTypeForm.icon === key ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                      }`}
+                    >
+                      <Icon className="w-5 h-5" />
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="mb-4 space-y-2">
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={eventTypeForm.needsLocation}
+                    onChange={(e) => setEventTypeForm({ ...eventTypeForm, needsLocation: e.target.checked })}
+                  />
+                  <span>Ask where on the rink it happened</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={eventTypeForm.needsPlayer}
+                    onChange={(e) => setEventTypeForm({ ...eventTypeForm, needsPlayer: e.target.checked })}
+                  />
+                  <span>Ask which player was involved</span>
+                </label>
+              </div>
+              <div className="flex space-x-2">
+                <button
+                  type="submit"
+                  className="flex-1 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  {eventTypeToEdit ? 'Save' : 'Create'}
+                </button>
+                <button
+                  type="button"
+                  onClick={closeForm}
+                  className="flex-1 bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -3,6 +3,7 @@ import type { Team, Player, Position } from '../types';
 import { dbHelpers, subscribeToCollection } from '../db';
 import { useAppStore } from '../stores/appStore';
 import { useAuth } from '../contexts/AuthContext';
+import GoalieStatsModal from '../components/GoalieStatsModal';
 
 const Teams: React.FC = () => {
   const [teams, setTeams] = useState<Team[]>([]);
@@ -11,6 +12,7 @@ const Teams: React.FC = () => {
   const [isCreateTeamOpen, setIsCreateTeamOpen] = useState(false);
   const [isCreatePlayerOpen, setIsCreatePlayerOpen] = useState(false);
   const [isEditTeamOpen, setIsEditTeamOpen] = useState(false);
+  const [isGoalieStatsOpen, setIsGoalieStatsOpen] = useState(false);
   const [teamToEdit, setTeamToEdit] = useState<Team | null>(null);
   const [teamForm, setTeamForm] = useState({ name: '', shortName: '', color: '#3B82F6' });
   const [playerForm, setPlayerForm] = useState({
@@ -203,12 +205,20 @@ const Teams: React.FC = () => {
               Players {selectedTeam && `- ${selectedTeam.name}`}
             </h2>
             {selectedTeam && (
-              <button
-                onClick={() => setIsCreatePlayerOpen(true)}
-                className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded"
-              >
-                Add Player
-              </button>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setIsGoalieStatsOpen(true)}
+                  className="bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Goalie Stats
+                </button>
+                <button
+                  onClick={() => setIsCreatePlayerOpen(true)}
+                  className="bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Add Player
+                </button>
+              </div>
             )}
           </div>
 
@@ -420,6 +430,15 @@ const Teams: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Goalie Stats Modal */}
+      {isGoalieStatsOpen && selectedTeam && (
+        <GoalieStatsModal
+          title={selectedTeam.name}
+          teamId={selectedTeam.id}
+          onClose={() => setIsGoalieStatsOpen(false)}
+        />
+      )}
     </div>
   );
 };
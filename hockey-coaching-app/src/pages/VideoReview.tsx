@@ -0,0 +1,399 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, Crosshair, Download, Film } from 'lucide-react';
+import type { Game, GameEvent, Shot, ShotAgainst } from '../types';
+import { dbHelpers } from '../db';
+import { useToast } from '../contexts/ToastContext';
+import { syncGameVideo } from '../lib/utils/analysis';
+import { getHomeTeamName } from '../utils/scouting';
+import {
+  CLIP_PRE_ROLL,
+  VIDEO_MARKER_COLORS,
+  VIDEO_MARKER_LABELS,
+  buildClipCsv,
+  buildClipEdl,
+  formatVideoTime,
+  getVideoMarkers,
+  getVideoStartedAt,
+  type VideoMarker,
+  type VideoMarkerKind
+} from '../utils/video';
+
+// Filter key of a marker: its kind, or its tag for custom events
+const getFilterKey = (marker: VideoMarker) => (marker.kind === 'custom' ? `custom:${marker.tag}` : marker.kind);
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Plays a local game video with the tracked records as markers on its timeline
+const VideoReview: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { showSuccess, showError } = useToast();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [game, setGame] = useState<Game | null>(null);
+  const [homeTeamName, setHomeTeamName] = useState('');
+  const [shots, setShots] = useState<Shot[]>([]);
+  const [shotsAgainst, setShotsAgainst] = useState<ShotAgainst[]>([]);
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [video, setVideo] = useState<{ url: string; name: string } | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [hiddenFilters, setHiddenFilters] = useState<string[]>(['event']);
+  const [activeMarkerId, setActiveMarkerId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [syncMarkerId, setSyncMarkerId] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const loadRecords = useCallback(async (gameId: string) => {
+    // Goals against get their marker from the goal_away event
+    const [gameShots, gameShotsAgainst, gameEvents] = await Promise.all([
+      dbHelpers.getShotsByGame(gameId),
+      dbHelpers.getShotsAgainstByGame(gameId),
+      dbHelpers.getEventsByGame(gameId)
+    ]);
+    setShots(gameShots);
+    setShotsAgainst(gameShotsAgainst);
+    setEvents(gameEvents);
+  }, []);
+
+  useEffect(() => {
+    if (!id) return;
+
+    const loadGame = async () => {
+      try {
+        const loadedGame = await dbHelpers.getGameById(id);
+        if (!loadedGame) {
+          navigate('/games');
+          return;
+        }
+
+        const team = await dbHelpers.getTeamById(loadedGame.homeTeamId).catch(() => undefined);
+        setGame(loadedGame);
+        setHomeTeamName(getHomeTeamName(loadedGame, team?.name || 'Home'));
+        await loadRecords(id);
+      } catch (error) {
+        console.error('Failed to load game for video review:', error);
+        showError('Failed to load the game');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGame();
+  }, [id, navigate, showError, loadRecords]);
+
+  // Release the picked file when it is replaced or the page closes
+  useEffect(() => {
+    return () => {
+      if (video) URL.revokeObjectURL(video.url);
+    };
+  }, [video]);
+
+  // Until the video is synced, markers assume it starts with the first tracked record
+  const markers = useMemo(() => {
+    const firstTimestamp = Math.min(...[...shots, ...shotsAgainst, ...events].map(record => record.timestamp));
+    const videoStartedAt = game?.videoStartedAt ?? (Number.isFinite(firstTimestamp) ? firstTimestamp : undefined);
+    return getVideoMarkers(shots, shotsAgainst, events, videoStartedAt);
+  }, [game, shots, shotsAgainst, events]);
+
+  const filterOptions = useMemo(() => {
+    const kinds: Array<{ key: string; label: string; color: string }> = (['shot', 'goal', 'event'] as VideoMarkerKind[])
+      .map(kind => ({ key: kind, label: VIDEO_MARKER_LABELS[kind], color: VIDEO_MARKER_COLORS[kind] }));
+    const tags = Array.from(new Set(markers.filter(marker => marker.kind === 'custom').map(marker => marker.tag!)));
+    return [...kinds, ...tags.map(tag => ({ key: `custom:${tag}`, label: tag, color: VIDEO_MARKER_COLORS.custom }))];
+  }, [markers]);
+
+  const visibleMarkers = markers.filter(marker => !hiddenFilters.includes(getFilterKey(marker)));
+  const selectedMarkers = markers.filter(marker => selectedIds.includes(marker.id));
+
+  const handleVideoFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setVideo({ url: URL.createObjectURL(file), name: file.name });
+    setCurrentTime(0);
+  };
+
+  const seek = (seconds: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = Math.max(0, Math.min(seconds, duration || seconds));
+  };
+
+  // Starts a little before the marker, to see the play build up
+  const jumpTo = (marker: VideoMarker) => {
+    setActiveMarkerId(marker.id);
+    seek(marker.offset - CLIP_PRE_ROLL);
+  };
+
+  const jump = (direction: 1 | -1) => {
+    const activeIndex = visibleMarkers.findIndex(marker => marker.id === activeMarkerId);
+    const target = activeIndex >= 0
+      ? visibleMarkers[activeIndex + direction]
+      : direction === 1
+        ? visibleMarkers.find(marker => marker.offset - CLIP_PRE_ROLL > currentTime)
+        : [...visibleMarkers].reverse().find(marker => marker.offset - CLIP_PRE_ROLL < currentTime);
+    if (target) jumpTo(target);
+  };
+
+  const toggleFilter = (key: string) => {
+    setHiddenFilters(hiddenFilters.includes(key) ? hiddenFilters.filter(k => k !== key) : [...hiddenFilters, key]);
+  };
+
+  const toggleSelected = (markerId: string) => {
+    setSelectedIds(selectedIds.includes(markerId) ? selectedIds.filter(k => k !== markerId) : [...selectedIds, markerId]);
+  };
+
+  // The chosen record happens at the current video time
+  const handleSync = async () => {
+    const syncMarker = markers.find(marker => marker.id === syncMarkerId);
+    if (!game || !syncMarker) return;
+
+    setIsSyncing(true);
+    try {
+      const videoStartedAt = getVideoStartedAt(syncMarker.timestamp, currentTime);
+      const updated = await syncGameVideo(game, videoStartedAt);
+      setGame({ ...game, videoStartedAt });
+      await loadRecords(game.id);
+      showSuccess(`Synced ${updated} record${updated !== 1 ? 's' : ''} to the video`);
+    } catch (error) {
+      console.error('Failed to sync video:', error);
+      showError('Failed to sync the video. Please try again.');
+    }
+    setIsSyncing(false);
+  };
+
+  const exportClips = (format: 'csv' | 'edl') => {
+    if (!game || selectedMarkers.length === 0) return;
+
+    const title = `${homeTeamName} vs ${game.awayTeamName} ${new Date(game.date).toLocaleDateString()}`;
+    const baseName = title.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+    if (format === 'csv') {
+      downloadFile(buildClipCsv(selectedMarkers), `${baseName}_clips.csv`, 'text/csv');
+    } else {
+      downloadFile(buildClipEdl(selectedMarkers, title, video?.name || 'game video'), `${baseName}_clips.edl`, 'text/plain');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="flex flex-col items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent mb-4"></div>
+          <div className="text-lg text-gray-600">Loading game...</div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!game) return null;
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-3">
+          <button onClick={() => navigate('/games')} className="p-2 text-gray-600 hover:text-gray-900" title="Back to games">
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <h1 className="text-3xl font-bold">Video Review</h1>
+            <p className="text-gray-600">
+              {homeTeamName} vs {game.awayTeamName} · {new Date(game.date).toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+        <label className="flex items-center space-x-2 bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded cursor-pointer">
+          <Film className="w-4 h-4" />
+          <span>{video ? 'Change video' : 'Open video'}</span>
+          <input type="file" accept="video/*" onChange={handleVideoFile} className="hidden" />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <div className="bg-white rounded-lg shadow p-4">
+            {video ? (
+              <video
+                ref={videoRef}
+                src={video.url}
+                controls
+                className="w-full rounded bg-black"
+                onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+                onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              />
+            ) : (
+              <div className="flex items-center justify-center bg-gray-100 rounded aspect-video text-gray-500">
+                Open the game video from this device to review it
+              </div>
+            )}
+
+            {/* Timeline */}
+            {duration > 0 && (
+              <div
+                className="relative h-8 mt-3 bg-gray-200 rounded cursor-pointer"
+                onClick={(e) => {
+                  const rect = e.currentTarget.getBoundingClientRect();
+                  seek(((e.clientX - rect.left) / rect.width) * duration);
+                }}
+              >
+                {visibleMarkers.filter(marker => marker.offset >= 0 && marker.offset <= duration).map(marker => (
+                  <button
+                    key={marker.id}
+                    onClick={(e) => { e.stopPropagation(); jumpTo(marker); }}
+                    className={`absolute top-0 h-full w-1.5 -translate-x-1/2 rounded ${marker.id === activeMarkerId ? 'ring-2 ring-black' : ''}`}
+                    style={{ left: `${(marker.offset / duration) * 100}%`, backgroundColor: VIDEO_MARKER_COLORS[marker.kind] }}
+                    title={`${formatVideoTime(marker.offset)} ${marker.label}`}
+                  />
+                ))}
+                <div
+                  className="absolute top-0 h-full w-0.5 bg-red-600 pointer-events-none"
+                  style={{ left: `${(currentTime / duration) * 100}%` }}
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mt-3">
+              <button
+                onClick={() => jump(-1)}
+                disabled={!video}
+                className="flex items-center space-x-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded text-sm font-medium"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                <span>Previous</span>
+              </button>
+              <span className="text-sm text-gray-600">
+                {formatVideoTime(currentTime)}{duration > 0 && ` / ${formatVideoTime(duration)}`}
+              </span>
+              <button
+                onClick={() => jump(1)}
+                disabled={!video}
+                className="flex items-center space-x-1 px-3 py-2 bg-gray-100 hover:bg-gray-200 disabled:opacity-50 rounded text-sm font-medium"
+              >
+                <span>Next</span>
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2 mt-3">
+              {filterOptions.map(option => (
+                <button
+                  key={option.key}
+                  onClick={() => toggleFilter(option.key)}
+                  className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm border ${
+                    hiddenFilters.includes(option.key) ? 'bg-white text-gray-400 border-gray-200' : 'bg-gray-100 text-gray-900 border-gray-300'
+                  }`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: option.color }} />
+                  <span>{option.label}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Sync */}
+          <div className="bg-white rounded-lg shadow p-4">
+            <div className="flex items-center space-x-2 mb-2">
+              <Crosshair className="w-4 h-4 text-gray-600" />
+              <h3 className="font-semibold">Sync</h3>
+              <span className="text-xs text-gray-500">
+                {game.videoStartedAt !== undefined
+                  ? `video starts at ${new Date(game.videoStartedAt).toLocaleTimeString()}`
+                  : 'not synced, markers assume the video starts with the first tracked record'}
+              </span>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={syncMarkerId}
+                onChange={(e) => setSyncMarkerId(e.target.value)}
+                className="flex-1 p-2 border rounded text-sm"
+              >
+                <option value="">Pick what is on screen now...</option>
+                {markers.map(marker => (
+                  <option key={marker.id} value={marker.id}>
+                    P{marker.period} {marker.label}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleSync}
+                disabled={!video || !syncMarkerId || isSyncing}
+                className="bg-blue-500 hover:bg-blue-700 disabled:bg-gray-300 text-white font-bold py-2 px-4 rounded text-sm whitespace-nowrap"
+              >
+                {isSyncing ? 'Syncing...' : `Happens at ${formatVideoTime(currentTime)}`}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Markers */}
+        <div className="bg-white rounded-lg shadow p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="font-semibold">Events ({visibleMarkers.length})</h3>
+            <div className="flex space-x-2 text-sm">
+              <button onClick={() => setSelectedIds(visibleMarkers.map(marker => marker.id))} className="text-blue-600 hover:text-blue-800">
+                Select all
+              </button>
+              <button onClick={() => setSelectedIds([])} className="text-gray-500 hover:text-gray-700">
+                Clear
+              </button>
+            </div>
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto divide-y">
+            {visibleMarkers.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4">No events to show</p>
+            ) : visibleMarkers.map(marker => (
+              <div
+                key={marker.id}
+                onClick={() => jumpTo(marker)}
+                className={`flex items-center space-x-2 py-2 px-1 text-sm cursor-pointer hover:bg-gray-50 ${
+                  marker.id === activeMarkerId ? 'bg-blue-50' : ''
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(marker.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={() => toggleSelected(marker.id)}
+                />
+                <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: VIDEO_MARKER_COLORS[marker.kind] }} />
+                <span className="font-mono text-gray-600">{formatVideoTime(marker.offset)}</span>
+                <span className="text-gray-500">P{marker.period}</span>
+                <span className="flex-1 truncate">{marker.label}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex space-x-2 mt-4">
+            <button
+              onClick={() => exportClips('csv')}
+              disabled={selectedMarkers.length === 0}
+              className="flex-1 flex items-center justify-center space-x-1 bg-gray-700 hover:bg-gray-900 disabled:bg-gray-300 text-white font-bold py-2 px-3 rounded text-sm"
+            >
+              <Download className="w-4 h-4" />
+              <span>CSV ({selectedMarkers.length})</span>
+            </button>
+            <button
+              onClick={() => exportClips('edl')}
+              disabled={selectedMarkers.length === 0}
+              className="flex-1 flex items-center justify-center space-x-1 bg-gray-700 hover:bg-gray-900 disabled:bg-gray-300 text-white font-bold py-2 px-3 rounded text-sm"
+            >
+              <Download className="w-4 h-4" />
+              <span>EDL ({selectedMarkers.length})</span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoReview;
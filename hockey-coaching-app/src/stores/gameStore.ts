@@ -1,345 +1,669 @@
 import { create } from 'zustand';
-import { persist, createJSONStorage } from 'zustand/middleware';
-import type { GameState, Game, Shot, GoalAgainst, TeamSide, GameEvent, GameEventType } from '../types';
-import { dbHelpers } from '../db';
+import { persist, createJSONStorage, type StateStorage } from 'zustand/middleware';
+import type { GameState, Game, GameClock, ClockMode, Shot, GoalAgainst, ShotAgainst, TeamSide, GameEvent, GameEventType, FaceoffDetails, CustomEventData, CustomEventType, Line, Microstat, MicrostatType, Penalty, ActivePenalty, GameStrength, GoalDetails, ShootoutAttempt, IntermissionData, GameCommand, GameCommandType, GameCommandEffects, GameProjection, OutboxCollection, OutboxEntry, OutboxStatus, OutboxWrite } from '../types';
+import {
+  dbHelpers,
+  enqueueWrites,
+  flushOutbox,
+  getPendingWrites,
+  applyPendingWrites,
+  subscribeToOutbox,
+  startOutbox,
+  subscribeToLiveGame,
+  startDisplayBroadcast,
+  isDisplayWindow
+} from '../db';
+import { getActivePenalties, getGameStrength, getPenaltyEndedByGoal } from '../utils/penalties';
+import { getGoalieInNet, getPulledGoalieId, isGoaliePulled } from '../utils/goalies';
+import { getPeriodTime, type GameSituation } from '../utils/gameSituation';
+import {
+  STOPPED_CLOCK,
+  getClockGameTime,
+  getPeriodEndTime,
+  isClockRunning,
+  isOvertimePeriod,
+  pauseClock,
+  resumeClock,
+  setClockGameTime,
+  startClock,
+  stopClock
+} from '../utils/gameClock';
+import {
+  diffRecords,
+  getClockChange,
+  getCommandRecordIds,
+  getRedoTarget,
+  getUndoTarget,
+  hasEffects,
+  mergeEffects,
+  mergeRemoteEvents,
+  mergeRemoteRecords,
+  projectGameState,
+  type ProjectionRecordKey
+} from '../utils/commandLog';
+import { getGameResult, getShootoutState } from '../utils/gameResult';
+import { describeFaceoff } from '../utils/faceoffs';
+import { describeMicrostat } from '../utils/microstats';
+import { describeCustomEvent } from '../utils/customEvents';
+import { applyLineChange, describeLineChange, getCurrentLineChange, getPlayersOnIce } from '../utils/shifts';
+import { getDefaultGoalType, type GoalSide } from '../utils/goals';
+import { isScoutingGame } from '../utils/scouting';
+import { getVideoOffset } from '../utils/video';
+import { getScoreboardFeed } from '../utils/scoreboard';
+import { getDeviceId, getDeviceName, getRecordedBy, saveDeviceName } from '../utils/device';
+
+// Only refreshes the display, the game time itself comes from the clock anchors
+const CLOCK_TICK_MS = 250;
+
+// A bench display window must neither restore the tracking window's saved game
+// (that would start a second clock) nor write its own state over it
+const DISPLAY_WINDOW_STORAGE: StateStorage = {
+  getItem: () => null,
+  setItem: () => {},
+  removeItem: () => {}
+};
+
+const EMPTY_OUTBOX_STATUS: OutboxStatus = { pending: 0, failures: [], lastError: null, nextRetryAt: null };
+
+const EMPTY_BASELINE: GameProjection = {
+  shots: [],
+  goalsAgainst: [],
+  shotsAgainst: [],
+  events: [],
+  homeScore: 0,
+  awayScore: 0,
+  currentPeriod: 1,
+  timeoutUsed: false
+};
+
+// Outbox writes for the records a change added or removed
+const getRecordWrites = <T extends { id: string }>(
+  collection: OutboxCollection,
+  gameId: string,
+  previous: T[],
+  next: T[]
+): OutboxWrite[] => {
+  const { added, removed } = diffRecords(previous, next);
+  return [
+    ...added.map(record => ({ collection, docId: record.id, gameId, operation: 'set' as const, data: { ...record } })),
+    ...removed.map(record => ({ collection, docId: record.id, gameId, operation: 'delete' as const }))
+  ];
+};
+
+// Outbox collection of each live record list
+const RECORD_COLLECTIONS: Record<ProjectionRecordKey, OutboxCollection> = {
+  shots: 'shots',
+  goalsAgainst: 'goalsAgainst',
+  shotsAgainst: 'shotsAgainst',
+  events: 'gameEvents'
+};
+
+// Outbox write for the game fields live tracking changes
+const getGameStateWrite = (game: Game): OutboxWrite => ({
+  collection: 'games',
+  docId: game.id,
+  gameId: game.id,
+  operation: 'update',
+  data: {
+    updatedBy: getDeviceId(),
+    currentPeriod: game.currentPeriod,
+    homeScore: game.homeScore,
+    awayScore: game.awayScore,
+    status: game.status,
+    timeoutUsed: !!game.timeoutUsed,
+    ...(game.clockMode && { clockMode: game.clockMode }),
+    ...(game.result && { result: game.result }),
+    ...(game.videoStartedAt !== undefined && { videoStartedAt: game.videoStartedAt }),
+    // Only include teamSide if it's defined
+    ...(game.teamSide !== undefined && { teamSide: game.teamSide })
+  }
+});
+
+// Outbox write sharing the clock. Written apart from the game state, so a device
+// only ever shares clock changes it made itself.
+const getClockWrite = (gameId: string, clock: GameClock): OutboxWrite => ({
+  collection: 'games',
+  docId: gameId,
+  gameId,
+  operation: 'update',
+  data: { clock, clockUpdatedBy: getDeviceId() }
+});
+
+const byTimestamp = (a: { timestamp: number }, b: { timestamp: number }) => a.timestamp - b.timestamp;
+
+// Live game records with the writes still waiting in the outbox applied on top
+const withPendingWrites = (
+  records: Pick<GameState, 'shots' | 'goalsAgainst' | 'shotsAgainst' | 'events'>,
+  pendingWrites: OutboxEntry[]
+) => ({
+  shots: applyPendingWrites(records.shots, pendingWrites, 'shots').sort(byTimestamp),
+  goalsAgainst: applyPendingWrites(records.goalsAgainst, pendingWrites, 'goalsAgainst').sort(byTimestamp),
+  shotsAgainst: applyPendingWrites(records.shotsAgainst, pendingWrites, 'shotsAgainst').sort(byTimestamp),
+  events: applyPendingWrites(records.events, pendingWrites, 'gameEvents').sort(byTimestamp)
+});
+
+const queueWrites = (writes: OutboxWrite[]) => {
+  enqueueWrites(writes).catch(error => console.error('❌ Failed to queue offline writes:', error));
+};
 
 interface GameStore extends GameState {
   // Timer
   timerInterval: NodeJS.Timeout | null;
-  // Local-first sync
-  pendingChanges: {
-    shots: boolean;
-    goalsAgainst: boolean;
-    events: boolean;
-    gameState: boolean;
-  };
+  // Local-first sync - every change is queued in the offline outbox
+  outboxStatus: OutboxStatus;
   lastSyncTime: number | null;
   isSyncing: boolean;
-  // Last action tracking for undo (30 second window)
-  lastAction: {
-    type: 'shot' | 'goal_against' | 'faceoff_win' | 'faceoff_loss';
-    timestamp: number;
-    wasGoal?: boolean; // For shots that resulted in goals
-  } | null;
+  isGameDataLoaded: boolean; // False after a reload until the game data is restored
+  deviceName: string; // Shown on the records this device adds
+  microstatsMode: boolean; // Track zone entries, exits, turnovers, takeaways and hits
+  customEventTypes: CustomEventType[]; // Coach-defined event buttons, kept for offline use
+  lines: Line[]; // Bench lines, kept from game to game
+  // Command log - live state is the baseline plus the commands in effect
+  commandBaseline: GameProjection;
+  activeCommandId: string | null; // Command a compound action is adding effects to
   // Actions
   setCurrentGame: (game: Game | null) => void;
   syncToFirebase: () => Promise<void>;
+  queueGameState: () => void;
+  shareClock: () => void;
+  startOfflineSync: () => () => void;
+  recoverLiveGame: () => Promise<void>;
+  // Shared session - two devices tracking the same game
+  setDeviceName: (name: string) => void;
+  joinLiveGame: (game: Game) => Promise<void>;
+  startSharedSession: (gameId: string) => () => void;
+  applyRemoteRecords: <K extends ProjectionRecordKey>(key: K, records: GameProjection[K]) => Promise<void>;
+  applyRemoteGame: (game: Game) => Promise<void>;
+  applyRemoteClock: (clock: GameClock) => void;
+  // Bench display windows on this device
+  startDisplayFeed: () => () => void;
   startTracking: () => void;
   stopTracking: () => void;
   pauseTracking: () => void;
   resumeTracking: () => void;
   addShot: (shot: Omit<Shot, 'id' | 'gameId' | 'timestamp'>) => Promise<void>;
   addGoalAgainst: (goal: Omit<GoalAgainst, 'id' | 'gameId' | 'timestamp'>) => Promise<void>;
-  updateGameScore: (homeScore: number, awayScore: number) => Promise<void>;
+  addShotAgainst: (shot: Omit<ShotAgainst, 'id' | 'gameId' | 'timestamp'>) => Promise<void>;
   updateGamePeriod: (period: number, teamSide: TeamSide) => Promise<void>;
   loadGameData: (gameId: string) => Promise<void>;
+  loadRoster: () => Promise<void>;
   clearGameData: () => void;
   // Game management
   initializeLiveGame: (game: Game) => Promise<void>;
   updateGameStatus: (gameId: string, status: 'planned' | 'live' | 'archived') => Promise<void>;
   endGame: () => Promise<void>;
   // Timer management
+  startClockTimer: () => void;
+  tickClock: () => void;
+  getCurrentGameTime: () => number;
+  pauseForStoppage: () => void;
+  setClockMode: (mode: ClockMode) => void;
   adjustTime: (seconds: number) => void;
   setGameTime: (seconds: number) => void;
   startPeriod: (period: number) => Promise<void>;
   endPeriod: () => Promise<void>;
+  endOvertimeOnGoal: () => Promise<void>;
+  // Shootout
+  startShootout: () => Promise<void>;
+  addShootoutAttempt: (attempt: Omit<ShootoutAttempt, 'id' | 'round'>) => Promise<void>;
   // Event management
   addGameEvent: (type: GameEventType, description: string, data?: any) => Promise<void>;
   // Score management  
-  addHomeGoal: () => Promise<void>;
-  addAwayGoal: () => Promise<void>;
-  // Undo functionality
+  addHomeGoal: (details?: GoalDetails) => Promise<void>;
+  addAwayGoal: (details?: GoalDetails) => Promise<void>;
+  getDefaultGoalDetails: (side: GoalSide) => GoalDetails;
+  // Command log and undo/redo
+  runCommand: (type: GameCommandType, description: string, action: () => Promise<void> | void) => Promise<void>;
+  recordEffects: (effects: GameCommandEffects) => void;
+  applyCommandLog: (log: GameCommand[]) => void;
+  resetCommandLog: () => void;
   undoLastAction: () => Promise<boolean>;
+  redoLastAction: () => Promise<boolean>;
   canUndo: () => boolean;
+  canRedo: () => boolean;
   // Timeout management
   useTimeout: () => Promise<void>;
+  // Intermission whiteboard
+  saveIntermission: (period: number, intermission: IntermissionData) => void;
+  // Game video
+  markVideoStart: () => void;
+  getVideoTiming: () => Pick<Shot, 'videoOffset'>;
   // Faceoff tracking
-  addFaceoffWin: () => Promise<void>;
-  addFaceoffLoss: () => Promise<void>;
+  addFaceoffWin: (details?: FaceoffDetails) => Promise<void>;
+  addFaceoffLoss: (details?: FaceoffDetails) => Promise<void>;
+  // Microstat tracking
+  setMicrostatsMode: (enabled: boolean) => void;
+  addMicrostat: (type: MicrostatType, microstat: Microstat) => Promise<void>;
+  // Custom events
+  loadCustomEventTypes: () => Promise<void>;
+  addCustomEvent: (eventType: CustomEventType, details: Omit<CustomEventData, 'customTypeId' | 'label'>) => Promise<void>;
+  // Line changes
+  setLines: (lines: Line[]) => void;
+  changeLine: (lineId: string) => Promise<void>;
+  getPlayersOnIce: () => string[];
+  // Penalty tracking
+  addPenalty: (penalty: Omit<Penalty, 'id' | 'startTime' | 'expiresAt'>) => Promise<void>;
+  getActivePenalties: () => ActivePenalty[];
+  getCurrentStrength: () => GameStrength;
+  getGameSituation: () => GameSituation;
+  releasePenaltyOnGoal: (scoringTeam: TeamSide) => Promise<void>;
+  // Goalie tracking
+  changeGoalie: (goalieId: string) => Promise<void>;
+  pullGoalie: () => Promise<void>;
+  returnGoalie: () => Promise<void>;
+  getCurrentGoalieId: () => string | null;
+  isGoaliePulled: () => boolean;
 }
 
 export const useGameStore = create<GameStore>()(
   persist(
-    (set, get) => ({
+    (set, get, store) => ({
       // State
       currentGame: null,
       isTracking: false,
       isPaused: false,
-      startTime: null,
+      clock: STOPPED_CLOCK,
       gameTime: 0,
-      periodStartTime: null,
       shots: [],
       goalsAgainst: [],
+      shotsAgainst: [],
       events: [],
+      roster: [],
+      commandLog: [],
+      commandBaseline: EMPTY_BASELINE,
+      activeCommandId: null,
       timerInterval: null,
       // Local-first sync state
-      pendingChanges: {
-        shots: false,
-        goalsAgainst: false,
-        events: false,
-        gameState: false
-      },
+      outboxStatus: EMPTY_OUTBOX_STATUS,
       lastSyncTime: null,
       isSyncing: false,
-      lastAction: null,
+      isGameDataLoaded: false,
+      deviceName: getDeviceName(),
+      microstatsMode: false,
+      customEventTypes: [],
+      lines: [],
 
       // Actions
       setCurrentGame: (game) => set({ currentGame: game }),
 
       startTracking: () => {
-        const { timerInterval } = get();
-        
-        // Clear any existing interval
-        if (timerInterval) {
-          clearInterval(timerInterval);
-        }
-        
-        // Start new timer interval
-        const newInterval = setInterval(() => {
-          const { isPaused, currentGame } = get();
-          if (!isPaused && currentGame) {
-            const newGameTime = get().gameTime + 1;
-
-            // Check if period should end automatically
-            const periodLength = currentGame.periodMinutes * 60;
-            const currentPeriod = currentGame.currentPeriod || 1;
-            const periodStartTime = (currentPeriod - 1) * periodLength;
-            const periodElapsed = newGameTime - periodStartTime;
-
-            // Auto-pause when period ends
-            if (periodElapsed >= periodLength) {
-              clearInterval(newInterval);
-              set({
-                gameTime: newGameTime,
-                isTracking: false,
-                isPaused: false,
-                timerInterval: null
-              });
-              console.log(`Period ${currentPeriod} completed - timer auto-stopped`);
-            } else {
-              set({ gameTime: newGameTime });
-            }
-          }
-        }, 1000);
-        
-        set({ 
-          isTracking: true, 
-          isPaused: false, 
-          startTime: Date.now(),
-          periodStartTime: Date.now(),
-          timerInterval: newInterval
+        set({
+          isTracking: true,
+          isPaused: false,
+          clock: startClock(get().getCurrentGameTime(), Date.now())
         });
+        get().startClockTimer();
+        get().shareClock();
       },
 
       stopTracking: () => {
-        const { timerInterval } = get();
+        const { timerInterval, clock } = get();
         if (timerInterval) {
           clearInterval(timerInterval);
         }
-        
-        set({ 
-          isTracking: false, 
-          isPaused: false, 
-          startTime: null,
-          periodStartTime: null,
+
+        const stopped = stopClock(clock, Date.now());
+        set({
+          isTracking: false,
+          isPaused: false,
+          clock: stopped,
+          gameTime: stopped.offset,
           timerInterval: null
         });
+        get().shareClock();
       },
 
-      pauseTracking: () => set({ isPaused: true }),
+      pauseTracking: () => {
+        set(state => ({ isPaused: true, clock: pauseClock(state.clock, Date.now()) }));
+        get().tickClock();
+        get().shareClock();
+      },
 
-      resumeTracking: () => set({ isPaused: false }),
+      resumeTracking: () => {
+        set(state => ({ isPaused: false, clock: resumeClock(state.clock, Date.now()) }));
+        get().shareClock();
+      },
 
-      // Sync pending changes to Firebase
+      // Push the offline outbox to Firebase now, ignoring the retry backoff
       syncToFirebase: async () => {
-        const {
-          currentGame,
-          shots,
-          goalsAgainst,
-          events,
-          pendingChanges,
-          isSyncing
-        } = get();
-
-        if (!currentGame || isSyncing) return;
+        if (get().isSyncing) return;
 
         set({ isSyncing: true });
 
         try {
-          console.log('🔄 Syncing to Firebase...', pendingChanges);
-
-          // Sync shots
-          if (pendingChanges.shots && shots.length > 0) {
-            const unsyncedShots = shots.filter((shot: any) => !shot.synced);
-            if (unsyncedShots.length > 0) {
-              await Promise.all(
-                unsyncedShots.map((shot: any) => {
-                  const { synced, ...shotToSync } = shot;
-                  return dbHelpers.createShot(shotToSync);
-                })
-              );
-              // Mark shots as synced
-              const syncedShots = shots.map((shot: any) => ({ ...shot, synced: true }));
-              set({ shots: syncedShots });
-            }
-          }
+          console.log('🔄 Syncing to Firebase...', get().outboxStatus);
+          await flushOutbox(true);
+          set({ lastSyncTime: Date.now(), isSyncing: false });
+          console.log('✅ Sync completed');
+        } catch (error) {
+          console.error('❌ Sync failed:', error);
+          set({ isSyncing: false });
+          throw error;
+        }
+      },
 
-          // Sync goals against
-          if (pendingChanges.goalsAgainst && goalsAgainst.length > 0) {
-            const unsyncedGoals = goalsAgainst.filter((goal: any) => !goal.synced);
-            if (unsyncedGoals.length > 0) {
-              await Promise.all(
-                unsyncedGoals.map((goal: any) => {
-                  const { synced, ...goalToSync } = goal;
-                  return dbHelpers.createGoalAgainst(goalToSync);
-                })
-              );
-              // Mark goals as synced
-              const syncedGoals = goalsAgainst.map((goal: any) => ({ ...goal, synced: true }));
-              set({ goalsAgainst: syncedGoals });
-            }
-          }
+      // Queue the game fields live tracking changes
+      queueGameState: () => {
+        const { currentGame } = get();
+        if (!currentGame) return;
 
-          // Sync events
-          if (pendingChanges.events && events.length > 0) {
-            const unsyncedEvents = events.filter((event: any) => !event.synced);
-            if (unsyncedEvents.length > 0) {
-              await Promise.all(
-                unsyncedEvents.map((event: any) => {
-                  const { synced, ...eventToSync } = event;
-                  return dbHelpers.createGameEvent(eventToSync);
-                })
-              );
-              // Mark events as synced
-              const syncedEvents = events.map((event: any) => ({ ...event, synced: true }));
-              set({ events: syncedEvents });
-            }
-          }
+        queueWrites([getGameStateWrite(currentGame)]);
+      },
 
-          // Sync game state
-          if (pendingChanges.gameState) {
-            const gameUpdates: any = {
-              currentPeriod: currentGame.currentPeriod,
-              homeScore: currentGame.homeScore,
-              awayScore: currentGame.awayScore,
-              status: currentGame.status
-            };
-
-            // Only include teamSide if it's defined
-            if (currentGame.teamSide !== undefined) {
-              gameUpdates.teamSide = currentGame.teamSide;
-            }
+      // Queue the clock for the other devices tracking this game
+      shareClock: () => {
+        const { currentGame, clock } = get();
+        if (!currentGame) return;
+
+        queueWrites([getClockWrite(currentGame.id, clock)]);
+      },
+
+      // Keeps the pending count current and picks up where a reload left off
+      startOfflineSync: () => {
+        const unsubscribe = subscribeToOutbox(outboxStatus => set({ outboxStatus }));
+        // Restore before flushing, so nothing leaves the outbox while the game is being read
+        get().recoverLiveGame()
+          .catch(error => console.error('❌ Failed to restore live game:', error))
+          .finally(() => startOutbox());
+        return unsubscribe;
+      },
+
+      // Only the game and the clock survive a reload, restore the rest from Firebase and the outbox
+      recoverLiveGame: async () => {
+        const { currentGame, isGameDataLoaded } = get();
+        if (!currentGame || currentGame.status !== 'live' || isGameDataLoaded) return;
 
-            await dbHelpers.updateGame(currentGame.id, gameUpdates);
+        try {
+          await get().loadGameData(currentGame.id);
+        } catch (error) {
+          // Offline - the outbox still holds everything that wasn't synced
+          console.error('❌ Failed to load game data, restoring unsynced data only:', error);
+          const pendingWrites = await getPendingWrites(currentGame.id);
+          set({
+            ...withPendingWrites({ shots: [], goalsAgainst: [], shotsAgainst: [], events: [] }, pendingWrites),
+            isGameDataLoaded: true
+          });
+          await get().loadRoster();
+        }
+
+        // The persisted game is the latest local state, newer than anything loaded
+        set({ currentGame });
+        get().resetCommandLog();
+      },
+
+      setDeviceName: (name) => {
+        saveDeviceName(name);
+        set({ deviceName: getDeviceName() });
+      },
+
+      // Second device: pick up a game another device already has live, without resetting it
+      joinLiveGame: async (game) => {
+        if (get().currentGame?.id === game.id && get().isGameDataLoaded) return;
+
+        get().clearGameData();
+        set({ currentGame: game });
+        await get().loadGameData(game.id);
+
+        const clock = get().currentGame?.clock;
+        if (clock) {
+          get().applyRemoteClock(clock);
+        }
+      },
+
+      // Both devices listen to the game and its records, and fold in what the other one wrote
+      startSharedSession: (gameId) => {
+        return subscribeToLiveGame(gameId, {
+          onGame: game => {
+            get().applyRemoteGame(game).catch(error => console.error('❌ Failed to apply shared game state:', error));
+          },
+          onShots: shots => {
+            get().applyRemoteRecords('shots', shots).catch(error => console.error('❌ Failed to merge shared shots:', error));
+          },
+          onGoalsAgainst: goalsAgainst => {
+            get().applyRemoteRecords('goalsAgainst', goalsAgainst).catch(error => console.error('❌ Failed to merge shared goals against:', error));
+          },
+          onShotsAgainst: shotsAgainst => {
+            get().applyRemoteRecords('shotsAgainst', shotsAgainst).catch(error => console.error('❌ Failed to merge shared shots against:', error));
+          },
+          onEvents: events => {
+            get().applyRemoteRecords('events', events).catch(error => console.error('❌ Failed to merge shared events:', error));
           }
+        });
+      },
+
+      // Remote records go into the baseline, so they can't be undone here and our own undo stack stays intact
+      applyRemoteRecords: async (key, remoteRecords) => {
+        const gameId = get().currentGame?.id;
+        if (!gameId || !get().isGameDataLoaded) return;
+
+        const pendingWrites = await getPendingWrites(gameId);
+        const { currentGame, commandBaseline, commandLog } = get();
+        if (currentGame?.id !== gameId) return;
+
+        const localIds = new Set([
+          ...getCommandRecordIds(commandLog, key),
+          ...pendingWrites.filter(entry => entry.collection === RECORD_COLLECTIONS[key]).map(entry => entry.docId)
+        ]);
+        const { records, added, removed } = mergeRemoteRecords<{ id: string }>(commandBaseline[key], remoteRecords, localIds);
+        if (added.length === 0 && removed.length === 0) return;
+
+        const baseline = {
+          ...(key === 'events' ? mergeRemoteEvents(commandBaseline, added as GameEvent[], removed as GameEvent[]) : commandBaseline),
+          [key]: records
+        };
+
+        // Already in Firestore - update the live list first so nothing is queued for them
+        set({ commandBaseline: baseline, [key]: projectGameState(baseline, commandLog)[key] });
+        get().applyCommandLog(commandLog);
+      },
+
+      // Period, clock mode and status written by the other device. Our own unsynced game write is newer.
+      applyRemoteGame: async (remoteGame) => {
+        const pendingWrites = await getPendingWrites(remoteGame.id);
+        if (pendingWrites.some(entry => entry.collection === 'games')) return;
+
+        const { currentGame, commandBaseline, commandLog, clock, isGameDataLoaded } = get();
+        if (!currentGame || currentGame.id !== remoteGame.id || !isGameDataLoaded) return;
 
-          // Clear pending changes
+        const deviceId = getDeviceId();
+        if (remoteGame.updatedBy && remoteGame.updatedBy !== deviceId) {
+          const currentPeriod = remoteGame.currentPeriod || commandBaseline.currentPeriod;
           set({
-            pendingChanges: {
-              shots: false,
-              goalsAgainst: false,
-              events: false,
-              gameState: false
+            currentGame: {
+              ...currentGame,
+              status: remoteGame.status,
+              currentPeriod,
+              ...(remoteGame.teamSide && { teamSide: remoteGame.teamSide }),
+              ...(remoteGame.clockMode && { clockMode: remoteGame.clockMode }),
+              ...(remoteGame.result && { result: remoteGame.result }),
+              ...(remoteGame.videoStartedAt !== undefined && { videoStartedAt: remoteGame.videoStartedAt })
             },
-            lastSyncTime: Date.now(),
-            isSyncing: false
+            commandBaseline: { ...commandBaseline, currentPeriod }
           });
+          get().applyCommandLog(commandLog);
+        }
 
-          console.log('✅ Sync completed successfully');
-        } catch (error) {
-          console.error('❌ Sync failed:', error);
-          set({ isSyncing: false });
-          throw error;
+        if (
+          remoteGame.clock &&
+          remoteGame.clockUpdatedBy &&
+          remoteGame.clockUpdatedBy !== deviceId &&
+          JSON.stringify(remoteGame.clock) !== JSON.stringify(clock)
+        ) {
+          get().applyRemoteClock(remoteGame.clock);
+        }
+      },
+
+      // Runs the clock the other device started, paused or moved
+      applyRemoteClock: (clock) => {
+        const { timerInterval, isPaused } = get();
+        const isTracking = clock.startTime !== null;
+
+        set({
+          clock,
+          isTracking,
+          isPaused: isTracking ? clock.pausedAt !== null : isPaused,
+          gameTime: getClockGameTime(clock, Date.now())
+        });
+
+        if (isTracking) {
+          get().startClockTimer();
+        } else if (timerInterval) {
+          clearInterval(timerInterval);
+          set({ timerInterval: null });
         }
       },
 
+      // Display windows on this device follow the store itself, ahead of Firestore
+      startDisplayFeed: () => {
+        return startDisplayBroadcast(
+          () => {
+            const { currentGame, clock, shots, goalsAgainst, shotsAgainst, events } = get();
+            return currentGame ? getScoreboardFeed(currentGame, { shots, goalsAgainst, shotsAgainst, events }, clock) : null;
+          },
+          onChange => store.subscribe((state, previous) => {
+            if (
+              state.currentGame !== previous.currentGame ||
+              state.clock !== previous.clock ||
+              state.shots !== previous.shots ||
+              state.goalsAgainst !== previous.goalsAgainst ||
+              state.shotsAgainst !== previous.shotsAgainst ||
+              state.events !== previous.events
+            ) {
+              onChange();
+            }
+          })
+        );
+      },
+
       addShot: async (shotData) => {
-        const { currentGame, shots, pendingChanges } = get();
+        const { currentGame, roster } = get();
         if (!currentGame) return;
 
+        const strength = get().getCurrentStrength();
         const shot: Shot = {
           id: crypto.randomUUID(),
           gameId: currentGame.id,
           timestamp: Date.now(),
-          synced: false, // Mark as unsynced
+          strength: strength.state,
+          manpower: strength.label,
+          ...get().getGameSituation(),
+          ...get().getVideoTiming(),
+          recordedBy: getRecordedBy(),
           ...shotData
         };
 
-        // Store locally only - Firebase sync happens later
-        set({
-          shots: [...shots, shot],
-          pendingChanges: { ...pendingChanges, shots: true },
-          lastAction: {
-            type: 'shot',
-            timestamp: Date.now(),
-            wasGoal: shotData.result === 'goal'
+        const shooter = roster.find(player => player.id === shot.shooterId);
+        const label = shot.result === 'goal' ? 'Goal' : `Shot (${shot.result})`;
+
+        // A goal also updates the score, so both are undone together
+        await get().runCommand('shot', `${label}${shooter ? ` #${shooter.jerseyNumber}` : ''}`, async () => {
+          get().recordEffects({ shots: [shot] });
+          if (shot.result === 'goal') {
+            await get().addHomeGoal();
           }
         });
       },
 
       addGoalAgainst: async (goalData) => {
-        const { currentGame, goalsAgainst, pendingChanges } = get();
+        const { currentGame } = get();
         if (!currentGame) return;
 
+        const goalieId = get().getCurrentGoalieId();
+        const strength = get().getCurrentStrength();
         const goal: GoalAgainst = {
           id: crypto.randomUUID(),
           gameId: currentGame.id,
           timestamp: Date.now(),
-          synced: false, // Mark as unsynced
+          ...(goalieId && { goalieId }),
+          ...(get().isGoaliePulled() && { emptyNet: true }),
+          strength: strength.state,
+          manpower: strength.label,
+          ...get().getGameSituation(),
+          ...get().getVideoTiming(),
+          recordedBy: getRecordedBy(),
           ...goalData
         };
 
-        // Store locally only - Firebase sync happens later
-        set({
-          goalsAgainst: [...goalsAgainst, goal],
-          pendingChanges: { ...pendingChanges, goalsAgainst: true },
-          lastAction: {
-            type: 'goal_against',
-            timestamp: Date.now()
-          }
+        await get().runCommand('goal_against', 'Goal against', async () => {
+          get().recordEffects({ goalsAgainst: [goal] });
+          await get().addAwayGoal();
         });
       },
 
-      updateGameScore: async (homeScore, awayScore) => {
-        const { currentGame, pendingChanges } = get();
+      addShotAgainst: async (shotData) => {
+        const { currentGame } = get();
         if (!currentGame) return;
 
-        const updatedGame = { ...currentGame, homeScore, awayScore };
+        const goalieId = get().getCurrentGoalieId();
+        const strength = get().getCurrentStrength();
+        const shotAgainst: ShotAgainst = {
+          id: crypto.randomUUID(),
+          gameId: currentGame.id,
+          timestamp: Date.now(),
+          ...(goalieId && { goalieId }),
+          ...(get().isGoaliePulled() && { emptyNet: true }),
+          strength: strength.state,
+          manpower: strength.label,
+          ...get().getGameSituation(),
+          ...get().getVideoTiming(),
+          recordedBy: getRecordedBy(),
+          ...shotData
+        };
 
-        // Store locally only - Firebase sync happens later
-        set({
-          currentGame: updatedGame,
-          pendingChanges: { ...pendingChanges, gameState: true }
+        await get().runCommand('shot_against', `Shot against (${shotAgainst.result})`, () => {
+          get().recordEffects({ shotsAgainst: [shotAgainst] });
         });
       },
 
       updateGamePeriod: async (period, teamSide) => {
-        const { currentGame, pendingChanges } = get();
+        const { currentGame } = get();
         if (!currentGame) return;
 
-        const updatedGame = { ...currentGame, currentPeriod: period, teamSide };
+        set({ currentGame: { ...currentGame, teamSide } });
+        get().queueGameState();
 
-        // Store locally only - Firebase sync happens later
-        set({
-          currentGame: updatedGame,
-          pendingChanges: { ...pendingChanges, gameState: true }
+        await get().runCommand('period_start', `Period ${period}`, () => {
+          get().recordEffects({ period });
         });
       },
 
       loadGameData: async (gameId) => {
-        const [game, shots, goalsAgainst, events] = await Promise.all([
+        const [game, shots, goalsAgainst, shotsAgainst, events, pendingWrites] = await Promise.all([
           dbHelpers.getGameById(gameId),
           dbHelpers.getShotsByGame(gameId),
           dbHelpers.getGoalsAgainstByGame(gameId),
-          dbHelpers.getEventsByGame(gameId)
+          dbHelpers.getShotsAgainstByGame(gameId),
+          dbHelpers.getEventsByGame(gameId),
+          getPendingWrites(gameId)
         ]);
 
+        // Writes still in the outbox are newer than what Firebase has
         set({
-          currentGame: game || null,
-          shots,
-          goalsAgainst,
-          events
+          currentGame: game ? applyPendingWrites([game], pendingWrites, 'games')[0] : null,
+          ...withPendingWrites({ shots, goalsAgainst, shotsAgainst, events }, pendingWrites),
+          isGameDataLoaded: true
         });
+        get().resetCommandLog();
+
+        await get().loadRoster();
+      },
+
+      // Load the home team roster used for shooter/assist attribution. Scouting
+      // games chart other teams, so there is nobody to attribute to.
+      loadRoster: async () => {
+        const { currentGame } = get();
+        if (!currentGame || isScoutingGame(currentGame)) {
+          set({ roster: [] });
+          return;
+        }
+
+        try {
+          const roster = await dbHelpers.getPlayersByTeam(currentGame.homeTeamId);
+          set({ roster });
+        } catch (error) {
+          console.error('Failed to load roster:', error);
+          set({ roster: [] });
+        }
       },
 
       clearGameData: () => {
@@ -352,12 +676,17 @@ export const useGameStore = create<GameStore>()(
           currentGame: null,
           isTracking: false,
           isPaused: false,
-          startTime: null,
+          clock: STOPPED_CLOCK,
           gameTime: 0,
-          periodStartTime: null,
           shots: [],
           goalsAgainst: [],
+          shotsAgainst: [],
           events: [],
+          roster: [],
+          commandLog: [],
+          commandBaseline: EMPTY_BASELINE,
+          activeCommandId: null,
+          isGameDataLoaded: false,
           timerInterval: null
         });
       },
@@ -370,30 +699,39 @@ export const useGameStore = create<GameStore>()(
         await get().loadGameData(game.id);
         set({
           currentGame: updatedGame,
+          clock: STOPPED_CLOCK,
           gameTime: 0,
           isTracking: false,
-          isPaused: true,
-          // Mark game state as needing sync
-          pendingChanges: {
-            shots: false,
-            goalsAgainst: false,
-            events: false,
-            gameState: true // Game status changed to 'live'
-          }
+          isPaused: true
         });
+        get().resetCommandLog();
+        // Game status changed to 'live'
+        get().queueGameState();
 
         // Add game start event but don't auto-start timer (now local-first)
         await get().addGameEvent('game_start', 'Game started');
+
+        // The lineup's lines go to the bench
+        const lineupLines = game.lineup?.lines.filter(line => line.playerIds.length > 0) || [];
+        if (lineupLines.length > 0) {
+          set({ lines: lineupLines });
+        }
+
+        // Put the lineup's starter, or else the first goalie on the roster, in net
+        const starter = get().roster.find(player =>
+          game.lineup?.startingGoalieId ? player.id === game.lineup.startingGoalieId : player.position === 'G'
+        );
+        if (starter && !get().getCurrentGoalieId()) {
+          await get().changeGoalie(starter.id);
+        }
       },
 
       updateGameStatus: async (gameId, status) => {
-        const { currentGame, pendingChanges } = get();
+        const { currentGame } = get();
         if (currentGame && currentGame.id === gameId) {
           // Local-first: store status change locally, sync later
-          set({
-            currentGame: { ...currentGame, status },
-            pendingChanges: { ...pendingChanges, gameState: true }
-          });
+          set({ currentGame: { ...currentGame, status } });
+          get().queueGameState();
         } else {
           // If not current game, sync immediately
           await dbHelpers.updateGame(gameId, { status });
@@ -411,8 +749,20 @@ export const useGameStore = create<GameStore>()(
         if (timerInterval) {
           clearInterval(timerInterval);
         }
+        const stopped = stopClock(get().clock, Date.now());
 
-        // Final sync to Firebase before archiving
+        // Archive through the outbox, so it goes out with the rest even when offline
+        const endedGame = get().currentGame!;
+        set({
+          currentGame: {
+            ...endedGame,
+            status: 'archived',
+            ...(!isScoutingGame(endedGame) && { result: getGameResult(endedGame, get().events) })
+          }
+        });
+        get().queueGameState();
+
+        // Final sync to Firebase
         console.log('🔄 Game ended - Final sync to Firebase...');
         try {
           await get().syncToFirebase();
@@ -421,46 +771,100 @@ export const useGameStore = create<GameStore>()(
           console.error('❌ Final game sync failed:', error);
         }
 
-        // Update game status to archived (direct Firebase call)
-        await dbHelpers.updateGame(currentGame.id, { status: 'archived' });
-
-        // Stop tracking and clear data
+        // Stop tracking
         set({
-          currentGame: { ...currentGame, status: 'archived' },
           isTracking: false,
           isPaused: false,
-          startTime: null,
-          periodStartTime: null,
+          clock: stopped,
+          gameTime: stopped.offset,
           timerInterval: null
         });
+        get().shareClock();
       },
 
       // Timer management
+      startClockTimer: () => {
+        const { timerInterval } = get();
+        if (timerInterval) {
+          clearInterval(timerInterval);
+        }
+
+        set({ timerInterval: setInterval(() => get().tickClock(), CLOCK_TICK_MS) });
+        get().tickClock();
+      },
+
+      // Refreshes gameTime from the clock and stops the clock when the period is over
+      tickClock: () => {
+        const { currentGame, clock, gameTime, timerInterval } = get();
+        if (!currentGame) return;
+
+        const currentPeriod = currentGame.currentPeriod || 1;
+        const periodEnd = getPeriodEndTime(currentGame, currentPeriod);
+        const clockTime = getClockGameTime(clock, Date.now());
+
+        if (isClockRunning(clock) && clockTime >= periodEnd) {
+          if (timerInterval) {
+            clearInterval(timerInterval);
+          }
+          set({
+            gameTime: periodEnd,
+            clock: { ...STOPPED_CLOCK, offset: periodEnd },
+            isTracking: false,
+            isPaused: false,
+            timerInterval: null
+          });
+          console.log(`Period ${currentPeriod} completed - timer auto-stopped`);
+          get().shareClock();
+        } else if (clockTime !== gameTime) {
+          set({ gameTime: clockTime });
+        }
+      },
+
+      // Game time right now, even if the timer hasn't ticked (background tab)
+      getCurrentGameTime: () => {
+        const { currentGame, clock } = get();
+        const clockTime = getClockGameTime(clock, Date.now());
+        if (!currentGame || !isClockRunning(clock)) return clockTime;
+
+        return Math.min(clockTime, getPeriodEndTime(currentGame, currentGame.currentPeriod || 1));
+      },
+
+      // Whistles stop the clock in stop time only; running time keeps going
+      pauseForStoppage: () => {
+        if (get().currentGame?.clockMode === 'running') return;
+        get().pauseTracking();
+      },
+
+      setClockMode: (mode) => {
+        const { currentGame } = get();
+        if (!currentGame) return;
+
+        set({ currentGame: { ...currentGame, clockMode: mode } });
+        get().queueGameState();
+      },
+
       adjustTime: (seconds) => {
-        set(state => ({ 
-          gameTime: Math.max(0, state.gameTime + seconds) 
-        }));
+        get().setGameTime(get().getCurrentGameTime() + seconds);
       },
 
       setGameTime: (seconds) => {
-        set({ gameTime: Math.max(0, seconds) });
+        const now = Date.now();
+        const clock = setClockGameTime(get().clock, seconds, now);
+        set({ clock, gameTime: getClockGameTime(clock, now) });
+        get().shareClock();
       },
 
       startPeriod: async (period) => {
         const { currentGame } = get();
         if (!currentGame) return;
 
-        // Update game with current period
-        await dbHelpers.updateGame(currentGame.id, { currentPeriod: period });
-        
-        // Add period start event
-        await get().addGameEvent('period_start', `Period ${period} started`);
-        
+        // Period change is synced with the game state, and undone with its event
+        await get().runCommand('period_start', `Period ${period} started`, async () => {
+          get().recordEffects({ period });
+          await get().addGameEvent('period_start', `Period ${period} started`);
+        });
+
         // Don't auto-start tracking - let coach press play button
-        
-        set(state => ({
-          currentGame: { ...state.currentGame!, currentPeriod: period }
-        }));
       },
 
       endPeriod: async () => {
@@ -472,14 +876,25 @@ export const useGameStore = create<GameStore>()(
           clearInterval(timerInterval);
         }
 
-        // Add period end event
-        await get().addGameEvent('period_end', `Period ${currentGame.currentPeriod} ended`);
-
+        // The clock stands at the end of the period, like the scoreboard
+        const periodEnd = getPeriodEndTime(currentGame, currentGame.currentPeriod);
+        const endTime = Math.max(get().getCurrentGameTime(), periodEnd);
+        const previousClock = get().clock;
         set({
           isTracking: false,
           isPaused: false,
+          clock: { ...STOPPED_CLOCK, offset: endTime },
+          gameTime: endTime,
           timerInterval: null
         });
+        get().shareClock();
+
+        // Undoing the period end puts the clock back too
+        const description = `Period ${currentGame.currentPeriod} ended`;
+        await get().runCommand('period_end', description, async () => {
+          get().recordEffects({ clock: { from: previousClock, to: get().clock } });
+          await get().addGameEvent('period_end', description);
+        });
 
         // Sync to Firebase after period 1 ends
         if (currentGame.currentPeriod === 1) {
@@ -493,11 +908,69 @@ export const useGameStore = create<GameStore>()(
         }
       },
 
+      // Sudden death - a goal in overtime ends the period, with the clock at the goal
+      endOvertimeOnGoal: async () => {
+        const { currentGame, timerInterval } = get();
+        if (!currentGame || !isOvertimePeriod(currentGame, currentGame.currentPeriod || 1)) return;
+
+        if (timerInterval) {
+          clearInterval(timerInterval);
+        }
+        const endTime = get().getCurrentGameTime();
+        const previousClock = get().clock;
+        set({
+          isTracking: false,
+          isPaused: false,
+          clock: { ...STOPPED_CLOCK, offset: endTime },
+          gameTime: endTime,
+          timerInterval: null
+        });
+        get().shareClock();
+
+        // Joins the goal's command, so undoing the goal runs the clock again
+        await get().runCommand('period_end', 'Overtime ended by sudden-death goal', async () => {
+          get().recordEffects({ clock: { from: previousClock, to: get().clock } });
+          await get().addGameEvent('period_end', 'Overtime ended by sudden-death goal');
+        });
+      },
+
+      // Shootout - attempts are events, so the shootout score can be undone like any goal
+      startShootout: async () => {
+        const { currentGame } = get();
+        if (!currentGame) return;
+
+        await get().addGameEvent('shootout_start', 'Shootout started');
+      },
+
+      addShootoutAttempt: async (attemptData) => {
+        const { currentGame, roster, events } = get();
+        if (!currentGame) return;
+
+        const { attempts } = getShootoutState(events);
+        const attempt: ShootoutAttempt = {
+          id: crypto.randomUUID(),
+          round: attempts.filter(previous => previous.team === attemptData.team).length + 1,
+          ...attemptData
+        };
+
+        const shooter = roster.find(player => player.id === attempt.shooterId);
+        const shooterLabel = shooter
+          ? ` #${shooter.jerseyNumber}`
+          : attempt.shooterNumber !== undefined ? ` #${attempt.shooterNumber}` : '';
+        const teamLabel = attempt.team === 'home' ? 'Home' : 'Away';
+        await get().addGameEvent(
+          'shootout_attempt',
+          `${teamLabel}${shooterLabel} shootout attempt (${attempt.result}), round ${attempt.round}`,
+          attempt
+        );
+      },
+
       // Event management
       addGameEvent: async (type, description, data = null) => {
-        const { currentGame, gameTime, events, pendingChanges } = get();
+        const { currentGame } = get();
         if (!currentGame) return;
 
+        const gameTime = get().getCurrentGameTime();
         const event: GameEvent = {
           id: crypto.randomUUID(),
           gameId: currentGame.id,
@@ -507,39 +980,60 @@ export const useGameStore = create<GameStore>()(
           timestamp: Date.now(),
           description,
           data,
-          synced: false // Mark as unsynced
+          ...get().getVideoTiming(),
+          recordedBy: getRecordedBy()
         };
 
-        // Store locally only - Firebase sync happens later
-        set({
-          events: [...events, event],
-          pendingChanges: { ...pendingChanges, events: true }
+        // Joins the running command, or becomes a command of its own
+        await get().runCommand(type, description, () => {
+          get().recordEffects({ events: [event] });
         });
       },
 
       // Score management
-      addHomeGoal: async () => {
+      // Details come from the goal detail sheet on the scoreboard buttons;
+      // rink goals keep them on the shot or goal against instead
+      addHomeGoal: async (details) => {
         const { currentGame } = get();
         if (!currentGame) return;
 
-        const newScore = (currentGame.homeScore || 0) + 1;
-        await get().updateGameScore(newScore, currentGame.awayScore || 0);
-        await get().addGameEvent('goal_home', `Home team goal (${newScore}-${currentGame.awayScore || 0})`);
-        
+        const homeScore = (currentGame.homeScore || 0) + 1;
+        const awayScore = currentGame.awayScore || 0;
+        await get().runCommand('goal_home', `Home team goal (${homeScore}-${awayScore})`, async () => {
+          await get().releasePenaltyOnGoal('home');
+          get().recordEffects({ homeGoals: 1 });
+          await get().addGameEvent('goal_home', `Home team goal (${homeScore}-${awayScore})`, details);
+          await get().endOvertimeOnGoal();
+        });
+
         // Pause tracking on goal
-        get().pauseTracking();
+        get().pauseForStoppage();
       },
 
-      addAwayGoal: async () => {
+      addAwayGoal: async (details) => {
         const { currentGame } = get();
         if (!currentGame) return;
 
-        const newScore = (currentGame.awayScore || 0) + 1;
-        await get().updateGameScore(currentGame.homeScore || 0, newScore);
-        await get().addGameEvent('goal_away', `Away team goal (${currentGame.homeScore || 0}-${newScore})`);
-        
+        const homeScore = currentGame.homeScore || 0;
+        const awayScore = (currentGame.awayScore || 0) + 1;
+        await get().runCommand('goal_away', `Away team goal (${homeScore}-${awayScore})`, async () => {
+          await get().releasePenaltyOnGoal('away');
+          get().recordEffects({ awayGoals: 1 });
+          await get().addGameEvent('goal_away', `Away team goal (${homeScore}-${awayScore})`, details);
+          await get().endOvertimeOnGoal();
+        });
+
         // Pause tracking on goal
-        get().pauseTracking();
+        get().pauseForStoppage();
+      },
+
+      // Goal type from the current strength and who is on the ice, as a starting point
+      getDefaultGoalDetails: (side) => {
+        const emptyNet = side === 'against' && get().isGoaliePulled();
+        return {
+          goalType: getDefaultGoalType(side, get().getCurrentStrength().state, emptyNet) ?? 'EV',
+          onIceIds: get().getPlayersOnIce()
+        };
       },
 
 
@@ -548,196 +1042,392 @@ export const useGameStore = create<GameStore>()(
         const { currentGame } = get();
         if (!currentGame || currentGame.timeoutUsed) return;
 
-        // Update game with timeout used
-        await dbHelpers.updateGame(currentGame.id, { timeoutUsed: true });
-        
-        // Add timeout event
-        await get().addGameEvent('timeout', 'Timeout used');
-        
+        await get().runCommand('timeout', 'Timeout used', async () => {
+          get().recordEffects({ timeoutUsed: true });
+          await get().addGameEvent('timeout', 'Timeout used');
+        });
+
         // Pause the game
         get().pauseTracking();
-        
-        // Update local state
-        set(state => ({
-          currentGame: { ...state.currentGame!, timeoutUsed: true }
-        }));
+      },
+
+      // Outside the command log, so undo never takes a whiteboard back. Saving
+      // again replaces the period's intermission event with a new one.
+      saveIntermission: (period, intermission) => {
+        const { currentGame, commandBaseline, commandLog } = get();
+        if (!currentGame) return;
+
+        const event: GameEvent = {
+          id: crypto.randomUUID(),
+          gameId: currentGame.id,
+          type: 'intermission',
+          period,
+          gameTime: get().getCurrentGameTime(),
+          timestamp: Date.now(),
+          description: `Period ${period} intermission`,
+          data: intermission,
+          recordedBy: getRecordedBy()
+        };
+        const events = commandBaseline.events.filter(existing => !(existing.type === 'intermission' && existing.period === period));
+
+        set({ commandBaseline: { ...commandBaseline, events: [...events, event] } });
+        get().applyCommandLog(commandLog);
+      },
+
+      // The video starts now; records from here on get their offset into it.
+      // Marking again moves the sync point.
+      markVideoStart: () => {
+        const { currentGame } = get();
+        if (!currentGame) return;
+
+        set({ currentGame: { ...currentGame, videoStartedAt: Date.now() } });
+        get().queueGameState();
+      },
+
+      getVideoTiming: () => {
+        const videoStartedAt = get().currentGame?.videoStartedAt;
+        return videoStartedAt !== undefined ? { videoOffset: getVideoOffset(Date.now(), videoStartedAt) } : {};
       },
 
       // Faceoff tracking
-      addFaceoffWin: async () => {
-        await get().addGameEvent('faceoff_won', 'Faceoff won');
-        set({
-          lastAction: {
-            type: 'faceoff_win',
-            timestamp: Date.now()
-          }
+      addFaceoffWin: async (details = {}) => {
+        const player = get().roster.find(p => p.id === details.playerId);
+        await get().addGameEvent('faceoff_won', describeFaceoff(true, details, player), details);
+      },
+
+      addFaceoffLoss: async (details = {}) => {
+        const player = get().roster.find(p => p.id === details.playerId);
+        await get().addGameEvent('faceoff_lost', describeFaceoff(false, details, player), details);
+      },
+
+      // Microstat tracking - each play is a GameEvent carrying a Microstat
+      setMicrostatsMode: (enabled) => set({ microstatsMode: enabled }),
+
+      addMicrostat: async (type, microstat) => {
+        const player = get().roster.find(p => p.id === microstat.playerId);
+        await get().addGameEvent(type, describeMicrostat(type, microstat, player), microstat);
+      },
+
+      // Custom events - coach-defined buttons stored as 'custom' GameEvents
+      loadCustomEventTypes: async () => {
+        try {
+          const customEventTypes = await dbHelpers.getAllCustomEventTypes();
+          set({ customEventTypes });
+        } catch (error) {
+          // Keep the persisted buttons when offline
+          console.error('Failed to load custom event types:', error);
+        }
+      },
+
+      addCustomEvent: async (eventType, details) => {
+        const player = get().roster.find(p => p.id === details.playerId);
+        const data: CustomEventData = {
+          customTypeId: eventType.id,
+          label: eventType.label,
+          ...details
+        };
+        await get().addGameEvent('custom', describeCustomEvent(eventType, player), data);
+      },
+
+      // Line changes - each change logs everyone on the ice, shifts are rebuilt from the game clock
+      setLines: (lines) => set({ lines }),
+
+      changeLine: async (lineId) => {
+        const { lines, events } = get();
+        const line = lines.find(l => l.id === lineId);
+        if (!line) return;
+
+        const change = applyLineChange(getCurrentLineChange(events), line, lines);
+        await get().addGameEvent('line_change', describeLineChange(line, change), change);
+      },
+
+      getPlayersOnIce: () => {
+        return getPlayersOnIce(get().events);
+      },
+
+      // Penalty tracking - penalties live in gameEvents and are served against gameTime
+      addPenalty: async (penaltyData) => {
+        const { currentGame } = get();
+        if (!currentGame) return;
+
+        const gameTime = get().getCurrentGameTime();
+        const penalty: Penalty = {
+          id: crypto.randomUUID(),
+          startTime: gameTime,
+          expiresAt: gameTime + penaltyData.minutes * 60,
+          ...penaltyData
+        };
+
+        const teamLabel = penalty.team === 'home' ? 'Home' : 'Away';
+        const player = penalty.playerNumber !== undefined ? ` #${penalty.playerNumber}` : '';
+        await get().addGameEvent(
+          'penalty',
+          `${teamLabel}${player} penalty: ${penalty.infraction} (${penalty.minutes} min)`,
+          penalty
+        );
+      },
+
+      // Same clock as the game time recorded on shots, goals and penalty ends
+      getActivePenalties: () => {
+        return getActivePenalties(get().events, get().getCurrentGameTime());
+      },
+
+      getCurrentStrength: () => {
+        return getGameStrength(get().getActivePenalties());
+      },
+
+      // Clock and score captured on every shot, before any goal it leads to
+      getGameSituation: () => {
+        const { currentGame } = get();
+        const gameTime = get().getCurrentGameTime();
+        return {
+          gameTime,
+          periodTime: currentGame ? getPeriodTime(gameTime, currentGame.currentPeriod || 1, currentGame) : gameTime,
+          homeScore: currentGame?.homeScore || 0,
+          awayScore: currentGame?.awayScore || 0
+        };
+      },
+
+      releasePenaltyOnGoal: async (scoringTeam) => {
+        const released = getPenaltyEndedByGoal(get().getActivePenalties(), scoringTeam);
+        if (!released) return;
+
+        await get().addGameEvent(
+          'penalty_end',
+          `${released.infraction} penalty ended by power-play goal`,
+          { penaltyId: released.id, reason: 'goal' }
+        );
+      },
+
+      // Goalie changes are logged as events so shots against can be credited
+      changeGoalie: async (goalieId) => {
+        const { roster } = get();
+        const previousGoalieId = get().getCurrentGoalieId();
+        if (previousGoalieId === goalieId) return;
+
+        const goalie = roster.find(player => player.id === goalieId);
+        const goalieLabel = goalie ? `#${goalie.jerseyNumber} ${goalie.lastName}` : 'Goalie';
+        await get().addGameEvent('goalie_in', `${goalieLabel} in net`, {
+          goalieId,
+          ...(previousGoalieId && { replacedGoalieId: previousGoalieId })
         });
       },
 
-      addFaceoffLoss: async () => {
-        await get().addGameEvent('faceoff_lost', 'Faceoff lost');
-        set({
-          lastAction: {
-            type: 'faceoff_loss',
-            timestamp: Date.now()
-          }
+      pullGoalie: async () => {
+        const goalieId = get().getCurrentGoalieId();
+        if (!goalieId) return;
+
+        await get().addGameEvent('goalie_out', 'Goalie pulled for extra attacker', {
+          goalieId,
+          pulled: true
         });
       },
 
-      // Enhanced undo functionality
-      canUndo: () => {
-        const { lastAction } = get();
-        if (!lastAction) return false;
+      returnGoalie: async () => {
+        const goalieId = getPulledGoalieId(get().events);
+        if (!goalieId) return;
 
-        // Allow undo within 30 seconds
-        const timeDiff = Date.now() - lastAction.timestamp;
-        return timeDiff <= 30000; // 30 seconds
+        await get().changeGoalie(goalieId);
       },
 
-      undoLastAction: async () => {
+      getCurrentGoalieId: () => {
+        return getGoalieInNet(get().events);
+      },
+
+      isGoaliePulled: () => {
+        return isGoaliePulled(get().events);
+      },
+
+      // Command log - every live action runs as a command so it can be undone exactly
+      runCommand: async (type, description, action) => {
+        const { currentGame, activeCommandId, commandLog } = get();
+        if (!currentGame) return;
+
+        // Nested actions (a shot that is a goal) join the running command
+        if (activeCommandId) {
+          await action();
+          return;
+        }
+
+        const command: GameCommand = {
+          id: crypto.randomUUID(),
+          type,
+          description,
+          timestamp: Date.now(),
+          gameTime: get().getCurrentGameTime(),
+          effects: {}
+        };
+        set({ commandLog: [...commandLog, command], activeCommandId: command.id });
+
+        try {
+          await action();
+        } finally {
+          set({ activeCommandId: null });
+
+          // Drop commands that ended up doing nothing, so undo always reverts something
+          const finished = get().commandLog.find(entry => entry.id === command.id);
+          if (finished && !hasEffects(finished.effects)) {
+            set(state => ({ commandLog: state.commandLog.filter(entry => entry.id !== command.id) }));
+          }
+        }
+      },
+
+      recordEffects: (effects) => {
+        const { activeCommandId, commandLog } = get();
+        if (!activeCommandId) return;
+
+        get().applyCommandLog(commandLog.map(command =>
+          command.id === activeCommandId
+            ? { ...command, effects: mergeEffects(command.effects, effects) }
+            : command
+        ));
+      },
+
+      // Rebuilds the live state from the baseline and the commands in effect
+      applyCommandLog: (log) => {
         const {
           currentGame,
+          commandLog,
+          commandBaseline,
           shots,
           goalsAgainst,
-          events,
-          lastAction,
-          pendingChanges
+          shotsAgainst,
+          events
         } = get();
+        if (!currentGame) return;
 
-        if (!currentGame || !lastAction) return false;
+        const projection = projectGameState(commandBaseline, log);
+        const gameChanged =
+          projection.homeScore !== (currentGame.homeScore || 0) ||
+          projection.awayScore !== (currentGame.awayScore || 0) ||
+          projection.currentPeriod !== (currentGame.currentPeriod || 1) ||
+          projection.timeoutUsed !== !!currentGame.timeoutUsed;
 
-        // Check time window
-        const timeDiff = Date.now() - lastAction.timestamp;
-        if (timeDiff > 30000) return false; // 30 seconds limit
+        // Another device's records interleave with ours, keep every list in time order
+        set({
+          commandLog: log,
+          currentGame: {
+            ...currentGame,
+            homeScore: projection.homeScore,
+            awayScore: projection.awayScore,
+            currentPeriod: projection.currentPeriod,
+            timeoutUsed: projection.timeoutUsed
+          },
+          shots: [...projection.shots].sort(byTimestamp),
+          goalsAgainst: [...projection.goalsAgainst].sort(byTimestamp),
+          shotsAgainst: [...projection.shotsAgainst].sort(byTimestamp),
+          events: [...projection.events].sort(byTimestamp)
+        });
 
-        try {
-          let updateState: any = { lastAction: null };
-
-          switch (lastAction.type) {
-            case 'shot':
-              if (shots.length === 0) return false;
-
-              const lastShot = shots[shots.length - 1];
-              updateState.shots = shots.slice(0, -1);
-              updateState.pendingChanges = { ...pendingChanges, shots: true };
-
-              // If shot was a goal, revert score
-              if (lastAction.wasGoal && lastShot.result === 'goal') {
-                const newHomeScore = Math.max(0, (currentGame.homeScore || 0) - 1);
-                updateState.currentGame = { ...currentGame, homeScore: newHomeScore };
-                updateState.pendingChanges.gameState = true;
-
-                // Remove the goal event from events
-                let goalEventIndex = -1;
-                for (let i = events.length - 1; i >= 0; i--) {
-                  if (events[i].type === 'goal_home' &&
-                      Math.abs(events[i].timestamp - lastShot.timestamp) < 1000) {
-                    goalEventIndex = i;
-                    break;
-                  }
-                }
-                if (goalEventIndex >= 0) {
-                  updateState.events = [
-                    ...events.slice(0, goalEventIndex),
-                    ...events.slice(goalEventIndex + 1)
-                  ];
-                  updateState.pendingChanges.events = true;
-                }
-              }
-              break;
-
-            case 'goal_against':
-              if (goalsAgainst.length === 0) return false;
-
-              const lastGoalAgainst = goalsAgainst[goalsAgainst.length - 1];
-              updateState.goalsAgainst = goalsAgainst.slice(0, -1);
-              updateState.pendingChanges = { ...pendingChanges, goalsAgainst: true };
-
-              // Revert away team score
-              const newAwayScore = Math.max(0, (currentGame.awayScore || 0) - 1);
-              updateState.currentGame = { ...currentGame, awayScore: newAwayScore };
-              updateState.pendingChanges.gameState = true;
-
-              // Remove the goal against event from events
-              let goalAgainstEventIndex = -1;
-              for (let i = events.length - 1; i >= 0; i--) {
-                if (events[i].type === 'goal_away' &&
-                    Math.abs(events[i].timestamp - lastGoalAgainst.timestamp) < 1000) {
-                  goalAgainstEventIndex = i;
-                  break;
-                }
-              }
-              if (goalAgainstEventIndex >= 0) {
-                updateState.events = [
-                  ...events.slice(0, goalAgainstEventIndex),
-                  ...events.slice(goalAgainstEventIndex + 1)
-                ];
-                updateState.pendingChanges.events = true;
-              }
-              break;
-
-            case 'faceoff_win':
-              // Remove last faceoff_won event
-              let faceoffWinIndex = -1;
-              for (let i = events.length - 1; i >= 0; i--) {
-                if (events[i].type === 'faceoff_won' &&
-                    Math.abs(events[i].timestamp - lastAction.timestamp) < 1000) {
-                  faceoffWinIndex = i;
-                  break;
-                }
-              }
-              if (faceoffWinIndex >= 0) {
-                updateState.events = [
-                  ...events.slice(0, faceoffWinIndex),
-                  ...events.slice(faceoffWinIndex + 1)
-                ];
-                updateState.pendingChanges = { ...pendingChanges, events: true };
-              }
-              break;
-
-            case 'faceoff_loss':
-              // Remove last faceoff_lost event
-              let faceoffLossIndex = -1;
-              for (let i = events.length - 1; i >= 0; i--) {
-                if (events[i].type === 'faceoff_lost' &&
-                    Math.abs(events[i].timestamp - lastAction.timestamp) < 1000) {
-                  faceoffLossIndex = i;
-                  break;
-                }
-              }
-              if (faceoffLossIndex >= 0) {
-                updateState.events = [
-                  ...events.slice(0, faceoffLossIndex),
-                  ...events.slice(faceoffLossIndex + 1)
-                ];
-                updateState.pendingChanges = { ...pendingChanges, events: true };
-              }
-              break;
-
-            default:
-              return false;
+        // Queue what changed - an undo deletes the records it removed
+        queueWrites([
+          ...getRecordWrites('shots', currentGame.id, shots, projection.shots),
+          ...getRecordWrites('goalsAgainst', currentGame.id, goalsAgainst, projection.goalsAgainst),
+          ...getRecordWrites('shotsAgainst', currentGame.id, shotsAgainst, projection.shotsAgainst),
+          ...getRecordWrites('gameEvents', currentGame.id, events, projection.events),
+          ...(gameChanged ? [getGameStateWrite(get().currentGame!)] : [])
+        ]);
+
+        // An undone or redone clock change runs like one from another device, and is shared
+        const clock = getClockChange(commandLog, log);
+        if (clock) {
+          get().applyRemoteClock(clock);
+          get().shareClock();
+        }
+      },
+
+      // The current state becomes the baseline of an empty log (after loading a game)
+      resetCommandLog: () => {
+        const { currentGame, shots, goalsAgainst, shotsAgainst, events } = get();
+        set({
+          commandLog: [],
+          activeCommandId: null,
+          commandBaseline: {
+            shots,
+            goalsAgainst,
+            shotsAgainst,
+            events,
+            homeScore: currentGame?.homeScore || 0,
+            awayScore: currentGame?.awayScore || 0,
+            currentPeriod: currentGame?.currentPeriod || 1,
+            timeoutUsed: !!currentGame?.timeoutUsed
           }
+        });
+      },
 
-          set(updateState);
-          return true;
+      canUndo: () => {
+        return getUndoTarget(get().commandLog) !== null;
+      },
 
-        } catch (error) {
-          console.error('Undo failed:', error);
-          return false;
-        }
+      canRedo: () => {
+        return getRedoTarget(get().commandLog) !== null;
+      },
+
+      // Undo and redo are appended to the log and revert or restore a whole command
+      undoLastAction: async () => {
+        const { commandLog, activeCommandId } = get();
+        const target = getUndoTarget(commandLog);
+        if (!target || activeCommandId) return false;
+
+        get().applyCommandLog([...commandLog, {
+          id: crypto.randomUUID(),
+          type: 'undo',
+          description: target.description,
+          timestamp: Date.now(),
+          gameTime: get().getCurrentGameTime(),
+          effects: {},
+          targetId: target.id
+        }]);
+        return true;
+      },
+
+      redoLastAction: async () => {
+        const { commandLog, activeCommandId } = get();
+        const target = getRedoTarget(commandLog);
+        if (!target || activeCommandId) return false;
+
+        get().applyCommandLog([...commandLog, {
+          id: crypto.randomUUID(),
+          type: 'redo',
+          description: target.description,
+          timestamp: Date.now(),
+          gameTime: get().getCurrentGameTime(),
+          effects: {},
+          targetId: target.id
+        }]);
+        return true;
       }
     }),
     {
       name: 'game-store',
-      storage: createJSONStorage(() => localStorage),
+      storage: createJSONStorage(() => isDisplayWindow() ? DISPLAY_WINDOW_STORAGE : localStorage),
+      version: 1,
+      // The command log stays out: a reload restores the records as the new baseline,
+      // so undo and redo only reach back to the last reload
       partialize: (state) => ({
         currentGame: state.currentGame,
         isTracking: state.isTracking,
         isPaused: state.isPaused,
-        startTime: state.startTime,
+        clock: state.clock,
         gameTime: state.gameTime,
-        periodStartTime: state.periodStartTime
-      })
+        microstatsMode: state.microstatsMode,
+        customEventTypes: state.customEventTypes,
+        lines: state.lines
+      }),
+      // Version 0 counted ticks and had no clock, stop it where it was
+      migrate: (persistedState, version) => {
+        const state = persistedState as Partial<GameState>;
+        if (version === 0) {
+          return { ...state, isTracking: false, isPaused: false, clock: { ...STOPPED_CLOCK, offset: state.gameTime || 0 } };
+        }
+        return state;
+      },
+      // The clock kept running while the app was closed, pick it up again
+      onRehydrateStorage: () => (state) => {
+        if (state?.isTracking) {
+          state.startClockTimer();
+        }
+      }
     }
   )
 );
\ No newline at end of file
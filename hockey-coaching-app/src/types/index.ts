@@ -34,20 +34,39 @@ export interface Season {
   userId: string; // Owner of this season
 }
 
+// A team we play or scout, so one opponent isn't spread over several spellings
+export interface Opponent {
+  id: string;
+  name: string;
+  primaryColor: string;
+  secondaryColor?: string;
+  notes?: string; // Scouting notes
+  userId: string; // Owner of this opponent
+}
+
 export type GameStatus = 'planned' | 'live' | 'archived';
 export type TeamSide = 'home' | 'away';
 export type RinkSide = 'left' | 'right';
+export type ClockMode = 'stop' | 'running'; // Running time doesn't stop for goals, saves or penalties
+export type GameType = 'team' | 'scouting'; // Scouting games chart two other teams
+// Final result from our team's point of view, stored when the game ends
+export type GameResult = 'W' | 'L' | 'T' | 'OTW' | 'OTL' | 'SOW' | 'SOL';
 
 export interface Game {
   id: string;
-  homeTeamId: string;
-  awayTeamName: string;
+  homeTeamId: string; // Scouting games: our team the scouting is for
+  awayTeamName: string; // Kept in step with the opponent's name
+  opponentId?: string; // The away team, linked by name for older games
+  gameType?: GameType; // Defaults to 'team'
+  homeTeamName?: string; // Scouting games only, the home side being charted, kept in step with its opponent's name
+  homeOpponentId?: string; // Scouting games only, the home side, linked by name for older games
   date: string;
   status: GameStatus;
   seasonId: string;
   periods: number;
   periodMinutes: number;
   hasOvertime: boolean;
+  overtimeMinutes?: number; // Sudden-death overtime length, defaults to periodMinutes
   currentPeriod?: number;
   timeRemaining?: number;
   homeScore?: number;
@@ -55,10 +74,37 @@ export interface Game {
   teamSide?: TeamSide; // Which side our team defends in current period
   initialTeamSide?: RinkSide; // Which side of rink team defends first period
   timeoutUsed?: boolean; // Whether timeout has been used
+  clockMode?: ClockMode; // Defaults to 'stop'
+  result?: GameResult; // Set when the game ends, scores exclude the shootout
+  clock?: GameClock; // Live clock shared between the devices tracking the game
+  clockUpdatedBy?: string; // Device id that last moved the clock
+  updatedBy?: string; // Device id that last wrote the live state
+  lineup?: GameLineup; // Pre-game lineup, set from the game card
+  videoStartedAt?: number; // Unix timestamp matching the start of the game video
   userId: string; // Owner of this game
 }
 
+// Who dresses and where. Players in no line, goalie spot or list are undecided.
+export interface GameLineup {
+  lines: Line[]; // Forward lines and D pairs, sent to the bench when the game starts
+  startingGoalieId?: string;
+  backupGoalieId?: string;
+  scratchedIds: string[]; // Healthy, not dressed
+  absentIds: string[]; // Not at the game (injured, sick, away)
+  updatedAt: string;
+}
+
+// Device that recorded a live tracking record, shown when two coaches share a game
+export interface RecordedBy {
+  deviceId: string;
+  name: string; // e.g. 'Tablet', editable on each device
+}
+
 export type ShotResult = 'goal' | 'save' | 'miss' | 'blocked';
+export type ShotType = 'wrist' | 'slap' | 'snap' | 'backhand' | 'tip';
+export type ShotContext = 'rush' | 'cycle' | 'rebound' | 'point';
+export type StrengthState = 'EV' | 'PP' | 'SH'; // From our team's point of view
+export type GoalType = 'EV' | 'PP' | 'SH' | 'EN' | 'PS'; // From the scoring team's point of view
 
 export interface Shot {
   id: string;
@@ -69,7 +115,21 @@ export interface Shot {
   y: number; // Rink coordinates
   result: ShotResult;
   teamSide: TeamSide;
-  synced?: boolean; // For local-first sync tracking
+  shooterId?: string; // Player who took the shot
+  assistIds?: string[]; // Up to two assisting players (goals only)
+  goalType?: GoalType; // From the goal detail sheet (goals only)
+  onIceIds?: string[]; // Our skaters on the ice (goals only)
+  shotType?: ShotType; // Optional tag from the shot popup
+  context?: ShotContext; // Optional tag, how the chance was created
+  screened?: boolean; // Optional tag, goalie's view was blocked
+  strength?: StrengthState; // Derived from active penalties when the shot was taken
+  manpower?: string; // Skaters on ice, ours first (e.g. '4v3')
+  gameTime?: number; // Game clock in seconds when recorded
+  periodTime?: number; // Seconds elapsed in the period when recorded
+  homeScore?: number; // Our score just before this shot
+  awayScore?: number; // Opponent score just before this shot
+  videoOffset?: number; // Seconds into the game video, once it is synced
+  recordedBy?: RecordedBy;
 }
 
 export interface GoalAgainst {
@@ -80,10 +140,43 @@ export interface GoalAgainst {
   x: number; // Rink coordinates
   y: number; // Rink coordinates
   reason?: string;
-  synced?: boolean; // For local-first sync tracking
+  goalieId?: string; // Our goalie in net when the goal was scored
+  emptyNet?: boolean; // Scored while our goalie was pulled
+  strength?: StrengthState; // Derived from active penalties when the goal was scored
+  goalType?: GoalType; // From the goal detail sheet, the opponent's point of view
+  onIceIds?: string[]; // Our skaters on the ice
+  manpower?: string; // Skaters on ice, ours first (e.g. '3v4')
+  gameTime?: number; // Game clock in seconds when recorded
+  periodTime?: number; // Seconds elapsed in the period when recorded
+  homeScore?: number; // Our score just before this shot
+  awayScore?: number; // Opponent score just before this shot
+  videoOffset?: number; // Seconds into the game video, once it is synced
+  recordedBy?: RecordedBy;
+}
+
+// Opponent shot on our net. Goals stay in goalsAgainst, this collection holds
+// saves, misses and blocks; mergeShotsAgainst() combines both for analysis.
+export interface ShotAgainst {
+  id: string;
+  gameId: string;
+  period: number;
+  timestamp: number;
+  x: number; // Rink coordinates
+  y: number; // Rink coordinates
+  result: ShotResult;
+  goalieId?: string; // Our goalie in net when the shot was taken
+  emptyNet?: boolean; // Taken while our goalie was pulled
+  strength?: StrengthState; // Derived from active penalties when the shot was taken
+  manpower?: string; // Skaters on ice, ours first (e.g. '3v4')
+  gameTime?: number; // Game clock in seconds when recorded
+  periodTime?: number; // Seconds elapsed in the period when recorded
+  homeScore?: number; // Our score just before this shot
+  awayScore?: number; // Opponent score just before this shot
+  videoOffset?: number; // Seconds into the game video, once it is synced
+  recordedBy?: RecordedBy;
 }
 
-export type GameEventType = 'period_start' | 'period_end' | 'goal_home' | 'goal_away' | 'timeout' | 'penalty' | 'game_start' | 'game_end' | 'faceoff_won' | 'faceoff_lost' | 'tactical_drawing';
+export type GameEventType = 'period_start' | 'period_end' | 'goal_home' | 'goal_away' | 'timeout' | 'penalty' | 'game_start' | 'game_end' | 'faceoff_won' | 'faceoff_lost' | 'tactical_drawing' | 'penalty_end' | 'goalie_in' | 'goalie_out' | 'shootout_start' | 'shootout_attempt' | MicrostatType | 'custom' | 'line_change' | 'intermission';
 
 export interface GameEvent {
   id: string;
@@ -94,19 +187,208 @@ export interface GameEvent {
   timestamp: number; // Unix timestamp when event occurred
   description: string;
   data?: any; // Additional event-specific data
-  synced?: boolean; // For local-first sync tracking
+  videoOffset?: number; // Seconds into the game video, once it is synced
+  recordedBy?: RecordedBy;
+}
+
+// Stored as the data of a 'penalty' GameEvent
+export interface Penalty {
+  id: string;
+  team: TeamSide; // 'home' is our team, like goal_home
+  playerId?: string; // Roster player (our team)
+  playerNumber?: number; // Jersey number (opponent)
+  infraction: string;
+  minutes: number;
+  startTime: number; // Game time in seconds when the penalty started
+  expiresAt: number; // Game time in seconds when the penalty ends
+}
+
+// Microstats: puck possession plays tracked on top of shots when microstats mode is on
+export type MicrostatType = 'zone_entry' | 'zone_exit' | 'turnover' | 'takeaway' | 'hit';
+export type ZoneTransition = 'controlled' | 'dump'; // Carried or passed vs dumped or chipped
+
+// Stored as the data of a microstat GameEvent
+export interface Microstat {
+  x: number; // Rink coordinates, like Shot
+  y: number; // Rink coordinates, like Shot
+  playerId?: string; // Our player who made the play
+  transition?: ZoneTransition; // Zone entries and exits only
+}
+
+// Stored as the data of a 'custom' GameEvent. The label is copied so the event still
+// reads right after its type is renamed or deleted.
+export interface CustomEventData {
+  customTypeId: string;
+  label: string;
+  x?: number; // Rink coordinates, like Shot
+  y?: number; // Rink coordinates, like Shot
+  playerId?: string; // Our player involved
+}
+
+// Forward lines and defense pairs change independently
+export type LineType = 'forward' | 'defense';
+
+// Group of our skaters the coach sends out together from the bench
+export interface Line {
+  id: string;
+  name: string; // e.g. 'Line 1', 'D Pair 2'
+  type: LineType;
+  playerIds: string[];
+}
+
+// Data of a 'line_change' GameEvent: who is on the ice from that game time on
+export interface LineChange {
+  playerIds: string[]; // All of our skaters on the ice after the change
+  forwardLineId?: string; // Forward line on the ice, if any
+  defenseLineId?: string; // Defense pair on the ice, if any
+}
+
+// Data of a 'goal_home' / 'goal_away' event entered from the scoreboard buttons.
+// Goals tapped on the rink keep their details on the shot or goal against instead.
+export interface GoalDetails {
+  scorerId?: string; // Our scorer (goals for only)
+  assistIds?: string[]; // Up to two of our players (goals for only)
+  goalType: GoalType;
+  onIceIds: string[]; // Our skaters on the ice
+}
+
+// Faceoff dots relative to our attack: 'offensive' is the zone we shoot at,
+// left/right as seen by our players skating toward it
+export type FaceoffDot = 'center' | 'offensive_left' | 'offensive_right' | 'defensive_left' | 'defensive_right';
+
+// Stored as the data of a 'faceoff_won' / 'faceoff_lost' GameEvent
+export interface FaceoffDetails {
+  dot?: FaceoffDot;
+  playerId?: string; // Roster player who took the draw
+  opponentNumber?: number; // Jersey number of the opponent taking the draw
+}
+
+export type ShootoutResult = 'goal' | 'save' | 'miss';
+
+// Stored as the data of a 'shootout_attempt' GameEvent
+export interface ShootoutAttempt {
+  id: string;
+  team: TeamSide; // Shooting team, 'home' is our team
+  round: number; // 1-based, rounds after the regulation rounds are sudden death
+  shooterId?: string; // Roster player (our team)
+  shooterNumber?: number; // Jersey number (opponent)
+  goalieId?: string; // Our goalie facing an opponent shooter
+  goalieNumber?: number; // Opponent goalie facing one of our shooters
+  result: ShootoutResult;
+}
+
+export interface ActivePenalty extends Penalty {
+  remaining: number; // Seconds left to serve
+}
+
+export interface GameStrength {
+  state: StrengthState;
+  ourSkaters: number;
+  theirSkaters: number;
+  label: string; // e.g. '4v3'
+}
+
+// Live tracking command log: every user action with the exact records it produced.
+// Undo and redo are appended as commands too, so the log is never rewritten.
+export type GameCommandType = 'shot' | 'goal_against' | 'shot_against' | GameEventType | 'undo' | 'redo';
+
+export interface GameCommandEffects {
+  shots?: Shot[];
+  goalsAgainst?: GoalAgainst[];
+  shotsAgainst?: ShotAgainst[];
+  events?: GameEvent[];
+  homeGoals?: number; // Change to our score
+  awayGoals?: number; // Change to the opponent score
+  period?: number; // Period set by the command
+  timeoutUsed?: boolean;
+  clock?: { from: GameClock; to: GameClock }; // Clock change, put back on undo and redo
+}
+
+export interface GameCommand {
+  id: string;
+  type: GameCommandType;
+  description: string;
+  timestamp: number; // Unix timestamp
+  gameTime: number; // Game clock in seconds
+  effects: GameCommandEffects;
+  targetId?: string; // Command reverted by an 'undo' or restored by a 'redo'
+}
+
+// Live game state rebuilt from the loaded game plus the command log
+export interface GameProjection {
+  shots: Shot[];
+  goalsAgainst: GoalAgainst[];
+  shotsAgainst: ShotAgainst[];
+  events: GameEvent[];
+  homeScore: number;
+  awayScore: number;
+  currentPeriod: number;
+  timeoutUsed: boolean;
+}
+
+// A game's tracking records
+export type GameRecords = Pick<GameProjection, 'shots' | 'goalsAgainst' | 'shotsAgainst' | 'events'>;
+
+// Offline outbox: unsynced live tracking writes, kept in IndexedDB until Firestore accepts them
+export type OutboxCollection = 'games' | 'shots' | 'goalsAgainst' | 'shotsAgainst' | 'gameEvents';
+export type OutboxOperation = 'set' | 'update' | 'delete';
+
+export interface OutboxWrite {
+  collection: OutboxCollection;
+  docId: string;
+  gameId: string;
+  operation: OutboxOperation;
+  data?: Record<string, unknown>; // Full record for 'set', changed fields for 'update'
+}
+
+export interface OutboxEntry extends OutboxWrite {
+  key: string; // `${collection}/${docId}` - one pending write per document
+  revision: number; // Bumped whenever a newer write replaces this one
+  queuedAt: number; // Unix timestamp
+  attempts: number;
+  nextAttemptAt: number; // Unix timestamp, pushed back after every failure
+  lastError?: string;
+}
+
+// A pending write Firestore rejected, kept with the error until it goes through
+export interface OutboxFailure {
+  key: string;
+  collection: OutboxCollection;
+  docId: string;
+  operation: OutboxOperation;
+  attempts: number;
+  error: string;
+  nextAttemptAt: number; // Unix timestamp
+}
+
+export interface OutboxStatus {
+  pending: number;
+  failures: OutboxFailure[]; // Entries that failed at least once
+  lastError: string | null;
+  nextRetryAt: number | null;
+}
+
+// Game clock anchored to wall-clock time. Game time is offset + (now - startTime - pauses),
+// so it stays correct however rarely the timer ticks.
+export interface GameClock {
+  startTime: number | null; // Unix timestamp the clock started from offset, null when stopped
+  pausedAt: number | null; // Unix timestamp of the running pause
+  pausedDuration: number; // Milliseconds of the finished pauses since startTime
+  offset: number; // Game time in seconds at startTime, moved by manual adjustments
 }
 
 export interface GameState {
   currentGame: Game | null;
   isTracking: boolean;
   isPaused: boolean;
-  startTime: number | null;
-  gameTime: number; // Current game time in seconds
-  periodStartTime: number | null;
+  clock: GameClock;
+  gameTime: number; // Current game time in seconds, refreshed from the clock
   shots: Shot[];
   goalsAgainst: GoalAgainst[];
+  shotsAgainst: ShotAgainst[];
   events: GameEvent[];
+  roster: Player[]; // Players of the home team, used for attribution
+  commandLog: GameCommand[]; // Append-only log of live tracking actions, for this session only
 }
 
 export interface AppState {
@@ -129,6 +411,11 @@ export interface AnalysisFilters {
   scoreSituation?: 'winning' | 'losing' | 'tied' | 'all';
   timeFrom?: number; // Minutes from period start
   timeTo?: number; // Minutes from period start
+  shooterIds?: string[]; // Only shots taken by these players
+  strengths?: StrengthState[]; // Only shots taken at these strengths
+  shotTypes?: ShotType[]; // Only shots tagged with these types
+  shotContexts?: ShotContext[]; // Only shots tagged with these contexts
+  screened?: boolean; // Only screened (true) or unscreened (false) shots
 }
 
 // Multi-game analysis types
@@ -156,6 +443,43 @@ export interface ZoneStats {
   percentage: number;
 }
 
+// One side of a scouting game. Home shots are the game's shots, away shots its
+// shots and goals against. Locations are turned so each team attacks right.
+export interface ScoutingShot {
+  id: string;
+  period: number;
+  normalizedX: number;
+  normalizedY: number;
+  result: ShotResult;
+  strength?: StrengthState; // This team's point of view
+}
+
+export interface ScoutingTeamReport {
+  side: TeamSide;
+  teamName: string;
+  shots: ScoutingShot[];
+  shotsOnGoal: number;
+  goals: number;
+  shotZones: ZoneStats[];
+  powerPlay: {
+    opportunities: number; // Manpower penalties drawn
+    shots: number;
+    goals: number;
+    zones: ZoneStats[];
+  };
+  goalie: {
+    shotsAgainst: number; // On goal
+    goalsAgainst: number;
+    savePercentage: number;
+    zones: ZoneStats[]; // The other team's shots on goal by zone
+  };
+}
+
+export interface ScoutingReport {
+  home: ScoutingTeamReport;
+  away: ScoutingTeamReport;
+}
+
 export interface ShotWithGame extends Shot {
   gameDate: string;
   homeTeamId: string;
@@ -163,6 +487,89 @@ export interface ShotWithGame extends Shot {
   seasonId: string;
 }
 
+export interface GoalieStats {
+  goalieId: string;
+  name: string;
+  jerseyNumber: number;
+  shotsAgainst: number; // Shots on goal (saves + goals)
+  saves: number;
+  goalsAgainst: number;
+  savePercentage: number;
+}
+
+export interface GoalieGameStats extends GoalieStats {
+  gameId: string;
+  secondsPlayed: number;
+  gameLengthSeconds: number; // Regulation length, used for GAA
+  goalsAgainstAverage: number; // Goals against per full game
+}
+
+export interface GoalieSeasonStats extends GoalieStats {
+  gamesPlayed: number;
+  secondsPlayed: number;
+  goalsAgainstAverage: number; // Goals against per full game
+}
+
+export interface PlayerShiftStats {
+  playerId: string;
+  jerseyNumber: number;
+  name: string;
+  shifts: number;
+  timeOnIce: number; // Seconds
+  averageShift: number; // Seconds
+  goalsFor: number; // Goals for while on the ice, power-play goals and penalty shots excluded
+  goalsAgainst: number; // Goals against while on the ice, shorthanded goals and penalty shots excluded
+  plusMinus: number;
+}
+
+// Season scoring line for one player
+export interface PlayerScoringStats {
+  playerId: string;
+  jerseyNumber: number;
+  name: string;
+  goals: number;
+  assists: number;
+  points: number;
+  powerPlayGoals: number;
+  shorthandedGoals: number;
+  plusMinus: number;
+}
+
+export interface PlayerShotStats {
+  playerId: string;
+  jerseyNumber: number;
+  name: string;
+  shots: number;
+  goals: number;
+  assists: number;
+  points: number;
+  shootingPercentage: number;
+}
+
+export interface StrengthStats {
+  state: StrengthState;
+  shots: number;
+  goals: number;
+  goalsAgainst: number;
+  shootingPercentage: number;
+}
+
+// Shots and goals for one shot tag value
+export interface ShotTagStats {
+  tag: string; // e.g. 'wrist', 'rush', 'screened'
+  label: string;
+  shots: number;
+  goals: number;
+  shootingPercentage: number;
+}
+
+export interface ShotTagBreakdown {
+  shotTypes: ShotTagStats[];
+  contexts: ShotTagStats[];
+  screened: ShotTagStats[];
+  untagged: number; // Shots with no tag at all
+}
+
 export interface GameStats {
   totalShots: number;
   totalGoals: number;
@@ -249,6 +656,12 @@ export interface TacticalDrawing {
   notes?: string;
 }
 
+// Intermission whiteboard and notes, saved on the period's 'intermission' event
+export interface IntermissionData {
+  elements: DrawingElement[];
+  notes: string;
+}
+
 export interface PracticePlan {
   id: string;
   name: string;
@@ -282,6 +695,19 @@ export interface EnhancedPracticePlan {
   updatedAt: string;
 }
 
+// Coach-defined event button for live tracking
+export interface CustomEventType {
+  id: string;
+  label: string; // e.g. 'Bad line change'
+  color: string; // Button color, hex
+  icon: string; // Key of CUSTOM_EVENT_ICONS
+  needsLocation: boolean; // Ask for a spot on the rink
+  needsPlayer: boolean; // Ask which of our players was involved
+  createdAt: string;
+  updatedAt: string;
+  userId: string; // Owner of this event type
+}
+
 export interface GamePreset {
   id: string;
   name: string;
@@ -0,0 +1,173 @@
+import type { GameClock, GameCommand, GameCommandEffects, GameEvent, GameProjection } from '../types';
+
+export type ProjectionRecordKey = 'shots' | 'goalsAgainst' | 'shotsAgainst' | 'events';
+
+// Commands that start the log can't be undone
+const NON_UNDOABLE_TYPES: GameCommand['type'][] = ['game_start'];
+
+/**
+ * Replays undo/redo markers over the log. Returns the commands currently in
+ * effect (in order) and the undone commands available for redo (latest last).
+ * A new action after an undo drops the redo stack, like any editor.
+ */
+export const getCommandStacks = (log: GameCommand[]) => {
+  const applied: GameCommand[] = [];
+  let undone: GameCommand[] = [];
+
+  for (const command of log) {
+    if (command.type === 'undo') {
+      const reverted = applied.pop();
+      if (reverted) undone.push(reverted);
+    } else if (command.type === 'redo') {
+      const restored = undone.pop();
+      if (restored) applied.push(restored);
+    } else {
+      applied.push(command);
+      undone = [];
+    }
+  }
+
+  return { applied, undone };
+};
+
+/**
+ * Next command an undo would revert, or null when there is nothing to undo
+ */
+export const getUndoTarget = (log: GameCommand[]): GameCommand | null => {
+  const { applied } = getCommandStacks(log);
+  const last = applied[applied.length - 1];
+  if (!last || NON_UNDOABLE_TYPES.includes(last.type)) return null;
+  return last;
+};
+
+/**
+ * Next command a redo would restore, or null when there is nothing to redo
+ */
+export const getRedoTarget = (log: GameCommand[]): GameCommand | null => {
+  const { undone } = getCommandStacks(log);
+  return undone[undone.length - 1] || null;
+};
+
+/**
+ * Merges more effects into a command, used while a compound action is running
+ */
+export const mergeEffects = (effects: GameCommandEffects, more: GameCommandEffects): GameCommandEffects => ({
+  ...effects,
+  ...more,
+  shots: [...(effects.shots || []), ...(more.shots || [])],
+  goalsAgainst: [...(effects.goalsAgainst || []), ...(more.goalsAgainst || [])],
+  shotsAgainst: [...(effects.shotsAgainst || []), ...(more.shotsAgainst || [])],
+  events: [...(effects.events || []), ...(more.events || [])],
+  homeGoals: (effects.homeGoals || 0) + (more.homeGoals || 0),
+  awayGoals: (effects.awayGoals || 0) + (more.awayGoals || 0),
+  clock: effects.clock && more.clock ? { from: effects.clock.from, to: more.clock.to } : more.clock || effects.clock
+});
+
+/**
+ * Whether a command produced anything; empty commands are dropped from the log
+ */
+export const hasEffects = (effects: GameCommandEffects): boolean => {
+  return !!(
+    effects.shots?.length ||
+    effects.goalsAgainst?.length ||
+    effects.shotsAgainst?.length ||
+    effects.events?.length ||
+    effects.homeGoals ||
+    effects.awayGoals ||
+    effects.period !== undefined ||
+    effects.timeoutUsed !== undefined ||
+    effects.clock !== undefined
+  );
+};
+
+/**
+ * Clock an undo or redo between two logs puts back: the one from before an
+ * undone command, or the one a redone command set. Null when no clock changed.
+ */
+export const getClockChange = (previousLog: GameCommand[], log: GameCommand[]): GameClock | null => {
+  const previousApplied = getCommandStacks(previousLog).applied;
+  const { applied } = getCommandStacks(log);
+  const previousIds = new Set(previousApplied.map(command => command.id));
+  const appliedIds = new Set(applied.map(command => command.id));
+
+  const redone = applied.filter(command => !previousIds.has(command.id) && command.effects.clock);
+  if (redone.length > 0) return redone[redone.length - 1].effects.clock!.to;
+
+  const undone = previousApplied.filter(command => !appliedIds.has(command.id) && command.effects.clock);
+  if (undone.length > 0) return undone[0].effects.clock!.from;
+
+  return null;
+};
+
+/**
+ * Records a re-projection added or removed, so the change can be written out
+ */
+export const diffRecords = <T extends { id: string }>(previous: T[], next: T[]) => {
+  const previousIds = new Set(previous.map(item => item.id));
+  const nextIds = new Set(next.map(item => item.id));
+
+  return {
+    added: next.filter(item => !previousIds.has(item.id)),
+    removed: previous.filter(item => !nextIds.has(item.id))
+  };
+};
+
+/**
+ * Ids of the records any command produced, including undone ones
+ */
+export const getCommandRecordIds = (log: GameCommand[], key: ProjectionRecordKey): Set<string> => {
+  return new Set(log.flatMap(command => (command.effects[key] || []).map(record => record.id)));
+};
+
+/**
+ * Folds the records another device wrote into the baseline. Records this device
+ * knows locally (its commands, or writes still in the outbox) are left alone, so a
+ * snapshot never adds them twice or brings back something that was just undone.
+ */
+export const mergeRemoteRecords = <T extends { id: string }>(baseline: T[], remote: T[], localIds: Set<string>) => {
+  const baselineIds = new Set(baseline.map(item => item.id));
+  const remoteIds = new Set(remote.map(item => item.id));
+
+  const added = remote.filter(item => !baselineIds.has(item.id) && !localIds.has(item.id));
+  const removed = baseline.filter(item => !remoteIds.has(item.id) && !localIds.has(item.id));
+  const removedIds = new Set(removed.map(item => item.id));
+
+  return {
+    records: [...baseline.filter(item => !removedIds.has(item.id)), ...added],
+    added,
+    removed
+  };
+};
+
+/**
+ * Baseline score and timeout after another device's events were added or removed.
+ * Counting the goal events lets goals from both devices add up instead of overwriting.
+ */
+export const mergeRemoteEvents = (baseline: GameProjection, added: GameEvent[], removed: GameEvent[]): GameProjection => {
+  const count = (events: GameEvent[], type: GameEvent['type']) => events.filter(event => event.type === type).length;
+
+  return {
+    ...baseline,
+    homeScore: Math.max(0, baseline.homeScore + count(added, 'goal_home') - count(removed, 'goal_home')),
+    awayScore: Math.max(0, baseline.awayScore + count(added, 'goal_away') - count(removed, 'goal_away')),
+    timeoutUsed: (baseline.timeoutUsed && count(removed, 'timeout') === 0) || count(added, 'timeout') > 0
+  };
+};
+
+/**
+ * Live game state: the loaded game plus the effects of every command in effect
+ */
+export const projectGameState = (baseline: GameProjection, log: GameCommand[]): GameProjection => {
+  const { applied } = getCommandStacks(log);
+
+  return applied.reduce<GameProjection>((state, { effects }) => ({
+    shots: effects.shots?.length ? [...state.shots, ...effects.shots] : state.shots,
+    goalsAgainst: effects.goalsAgainst?.length ? [...state.goalsAgainst, ...effects.goalsAgainst] : state.goalsAgainst,
+    shotsAgainst: effects.shotsAgainst?.length ? [...state.shotsAgainst, ...effects.shotsAgainst] : state.shotsAgainst,
+    events: effects.events?.length ? [...state.events, ...effects.events] : state.events,
+    homeScore: Math.max(0, state.homeScore + (effects.homeGoals || 0)),
+    awayScore: Math.max(0, state.awayScore + (effects.awayGoals || 0)),
+    currentPeriod: effects.period ?? state.currentPeriod,
+    timeoutUsed: effects.timeoutUsed ?? state.timeoutUsed
+  }), baseline);
+};
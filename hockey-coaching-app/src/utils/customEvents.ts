@@ -0,0 +1,111 @@
+import {
+  AlertCircle,
+  Clock,
+  Eye,
+  Flag,
+  Repeat,
+  Shield,
+  Star,
+  ThumbsDown,
+  ThumbsUp,
+  Users,
+  Wind,
+  Zap,
+  type LucideIcon
+} from 'lucide-react';
+import type { CustomEventData, CustomEventType, Game, GameEvent, Player } from '../types';
+import { normalizeRinkPoint } from './shotNormalization';
+
+export const CUSTOM_EVENT_ICONS: Record<string, LucideIcon> = {
+  flag: Flag,
+  star: Star,
+  alert: AlertCircle,
+  zap: Zap,
+  shield: Shield,
+  users: Users,
+  repeat: Repeat,
+  wind: Wind,
+  eye: Eye,
+  clock: Clock,
+  'thumbs-up': ThumbsUp,
+  'thumbs-down': ThumbsDown
+};
+
+export const CUSTOM_EVENT_COLORS = [
+  '#2563eb', // Blue
+  '#16a34a', // Green
+  '#dc2626', // Red
+  '#ea580c', // Orange
+  '#ca8a04', // Yellow
+  '#9333ea', // Purple
+  '#0d9488', // Teal
+  '#4b5563' // Gray
+];
+
+export const getCustomEventIcon = (icon: string): LucideIcon => CUSTOM_EVENT_ICONS[icon] || Flag;
+
+export interface NormalizedCustomEvent extends CustomEventData {
+  id: string;
+  gameId: string;
+  period: number;
+  gameTime: number;
+  normalizedX?: number;
+  normalizedY?: number;
+}
+
+export interface CustomEventCount {
+  customTypeId: string;
+  label: string;
+  count: number;
+  perGame: number;
+}
+
+export const isCustomEvent = (event: GameEvent) => event.type === 'custom' && !!event.data?.customTypeId;
+
+/**
+ * Short description for the event log, e.g. "Bad line change (#12)"
+ */
+export const describeCustomEvent = (eventType: CustomEventType, player?: Player): string => {
+  return player ? `${eventType.label} (#${player.jerseyNumber})` : eventType.label;
+};
+
+/**
+ * Custom events of a game, with any location rotated like shots so we always attack right
+ */
+export const normalizeCustomEvents = (events: GameEvent[], game: Game): NormalizedCustomEvent[] => {
+  return events
+    .filter(event => event.gameId === game.id && isCustomEvent(event))
+    .map(event => {
+      const data = event.data as CustomEventData;
+      return {
+        ...data,
+        id: event.id,
+        gameId: event.gameId,
+        period: event.period,
+        gameTime: event.gameTime,
+        ...(data.x !== undefined && data.y !== undefined && normalizeRinkPoint(data.x, data.y, game, event.period))
+      };
+    });
+};
+
+/**
+ * How often each custom event happened, most frequent first. Events whose type
+ * was deleted are still counted under their recorded label.
+ */
+export const getCustomEventCounts = (events: NormalizedCustomEvent[], gameCount: number): CustomEventCount[] => {
+  const counts = new Map<string, CustomEventCount>();
+
+  events.forEach(event => {
+    const current = counts.get(event.customTypeId);
+    counts.set(event.customTypeId, {
+      customTypeId: event.customTypeId,
+      label: current?.label || event.label,
+      count: (current?.count || 0) + 1,
+      perGame: 0
+    });
+  });
+
+  return [...counts.values()]
+    .map(count => ({ ...count, perGame: gameCount > 0 ? count.count / gameCount : 0 }))
+    .sort((a, b) => b.count - a.count);
+};
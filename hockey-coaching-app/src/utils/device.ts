@@ -0,0 +1,36 @@
+import type { RecordedBy } from '../types';
+
+const DEVICE_ID_KEY = 'hockey-device-id';
+const DEVICE_NAME_KEY = 'hockey-device-name';
+
+/**
+ * Stable id of this browser, used to tell our own records from another coach's
+ */
+export const getDeviceId = (): string => {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+const getDefaultDeviceName = (): string => {
+  const userAgent = navigator.userAgent;
+  if (/iPad|Tablet/i.test(userAgent)) return 'Tablet';
+  if (/Mobi|Android|iPhone/i.test(userAgent)) return 'Phone';
+  return 'Computer';
+};
+
+export const getDeviceName = (): string => {
+  return localStorage.getItem(DEVICE_NAME_KEY) || getDefaultDeviceName();
+};
+
+export const saveDeviceName = (name: string) => {
+  localStorage.setItem(DEVICE_NAME_KEY, name.trim() || getDefaultDeviceName());
+};
+
+export const getRecordedBy = (): RecordedBy => ({
+  deviceId: getDeviceId(),
+  name: getDeviceName()
+});
@@ -0,0 +1,114 @@
+import type { FaceoffDetails, FaceoffDot, GameEvent, Player } from '../types';
+
+export const FACEOFF_DOT_LABELS: Record<FaceoffDot, string> = {
+  center: 'Center',
+  offensive_left: 'Offensive Left',
+  offensive_right: 'Offensive Right',
+  defensive_left: 'Defensive Left',
+  defensive_right: 'Defensive Right'
+};
+
+export const FACEOFF_DOTS = Object.keys(FACEOFF_DOT_LABELS) as FaceoffDot[];
+
+export interface FaceoffStats {
+  wins: number;
+  losses: number;
+  total: number;
+  percentage: number;
+}
+
+export interface FaceoffDotStats extends FaceoffStats {
+  dot: FaceoffDot;
+}
+
+export interface FaceoffPlayerStats extends FaceoffStats {
+  playerId: string;
+  name: string;
+  jerseyNumber?: number;
+}
+
+export interface FaceoffPeriodStats extends FaceoffStats {
+  period: number;
+}
+
+export const isFaceoffEvent = (event: GameEvent) =>
+  event.type === 'faceoff_won' || event.type === 'faceoff_lost';
+
+export const getFaceoffDetails = (event: GameEvent): FaceoffDetails => event.data || {};
+
+/**
+ * Short description for the event log, e.g. "Faceoff won (Offensive Left, #12 vs #9)"
+ */
+export const describeFaceoff = (won: boolean, details: FaceoffDetails, player?: Player): string => {
+  const parts: string[] = [];
+  if (details.dot) parts.push(FACEOFF_DOT_LABELS[details.dot]);
+
+  const taker = player ? `#${player.jerseyNumber}` : '';
+  const opponent = details.opponentNumber !== undefined ? `#${details.opponentNumber}` : '';
+  if (taker && opponent) parts.push(`${taker} vs ${opponent}`);
+  else if (taker || opponent) parts.push(taker || `vs ${opponent}`);
+
+  const result = won ? 'Faceoff won' : 'Faceoff lost';
+  return parts.length > 0 ? `${result} (${parts.join(', ')})` : result;
+};
+
+export const calculateFaceoffStats = (events: GameEvent[]): FaceoffStats => {
+  const faceoffs = events.filter(isFaceoffEvent);
+  const wins = faceoffs.filter(event => event.type === 'faceoff_won').length;
+  const total = faceoffs.length;
+  return {
+    wins,
+    losses: total - wins,
+    total,
+    percentage: total > 0 ? (wins / total) * 100 : 0
+  };
+};
+
+/**
+ * Faceoff % at each dot. Dots with no draws are left out; draws logged
+ * without a dot are not counted.
+ */
+export const getFaceoffStatsByDot = (events: GameEvent[]): FaceoffDotStats[] => {
+  const faceoffs = events.filter(isFaceoffEvent);
+
+  return FACEOFF_DOTS
+    .map(dot => ({
+      dot,
+      ...calculateFaceoffStats(faceoffs.filter(event => getFaceoffDetails(event).dot === dot))
+    }))
+    .filter(stats => stats.total > 0);
+};
+
+/**
+ * Faceoff % for each player who took a draw, most draws first
+ */
+export const getFaceoffStatsByPlayer = (events: GameEvent[], players: Player[]): FaceoffPlayerStats[] => {
+  const byPlayer = new Map<string, GameEvent[]>();
+  events.filter(isFaceoffEvent).forEach(event => {
+    const playerId = getFaceoffDetails(event).playerId;
+    if (!playerId) return;
+    byPlayer.set(playerId, [...(byPlayer.get(playerId) || []), event]);
+  });
+
+  return [...byPlayer.entries()]
+    .map(([playerId, playerEvents]) => {
+      const player = players.find(p => p.id === playerId);
+      return {
+        playerId,
+        name: player ? `${player.firstName} ${player.lastName}` : 'Unknown player',
+        jerseyNumber: player?.jerseyNumber,
+        ...calculateFaceoffStats(playerEvents)
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+};
+
+export const getFaceoffStatsByPeriod = (events: GameEvent[]): FaceoffPeriodStats[] => {
+  const faceoffs = events.filter(isFaceoffEvent);
+  const periods = [...new Set(faceoffs.map(event => event.period))].sort((a, b) => a - b);
+
+  return periods.map(period => ({
+    period,
+    ...calculateFaceoffStats(faceoffs.filter(event => event.period === period))
+  }));
+};
@@ -0,0 +1,97 @@
+import type { Game, GameClock } from '../types';
+
+type PeriodSettings = Pick<Game, 'periods' | 'periodMinutes' | 'overtimeMinutes'>;
+
+export const STOPPED_CLOCK: GameClock = { startTime: null, pausedAt: null, pausedDuration: 0, offset: 0 };
+
+/**
+ * Game time in whole seconds: the offset plus the wall-clock time since the start
+ * anchor, minus every pause. Timer ticks only refresh the display, so a throttled
+ * background tab or a reload can't make the clock drift.
+ */
+export const getClockGameTime = (clock: GameClock, now: number): number => {
+  if (clock.startTime === null) return clock.offset;
+
+  const paused = clock.pausedDuration + (clock.pausedAt !== null ? now - clock.pausedAt : 0);
+  return clock.offset + Math.max(0, Math.floor((now - clock.startTime - paused) / 1000));
+};
+
+export const isClockRunning = (clock: GameClock): boolean => {
+  return clock.startTime !== null && clock.pausedAt === null;
+};
+
+/**
+ * Starts the clock from the given game time
+ */
+export const startClock = (gameTime: number, now: number): GameClock => ({
+  startTime: now,
+  pausedAt: null,
+  pausedDuration: 0,
+  offset: gameTime
+});
+
+export const pauseClock = (clock: GameClock, now: number): GameClock => {
+  if (clock.startTime === null || clock.pausedAt !== null) return clock;
+  return { ...clock, pausedAt: now };
+};
+
+export const resumeClock = (clock: GameClock, now: number): GameClock => {
+  if (clock.pausedAt === null) return clock;
+  return { ...clock, pausedAt: null, pausedDuration: clock.pausedDuration + (now - clock.pausedAt) };
+};
+
+/**
+ * Stops the clock, keeping the game time it stopped at
+ */
+export const stopClock = (clock: GameClock, now: number): GameClock => ({
+  ...STOPPED_CLOCK,
+  offset: getClockGameTime(clock, now)
+});
+
+/**
+ * Moves the clock to a game time without touching its anchors, so it keeps
+ * running (or stays paused) from there
+ */
+export const setClockGameTime = (clock: GameClock, gameTime: number, now: number): GameClock => ({
+  ...clock,
+  offset: clock.offset + Math.max(0, Math.round(gameTime)) - getClockGameTime(clock, now)
+});
+
+/**
+ * Periods after regulation are overtime
+ */
+export const isOvertimePeriod = (game: PeriodSettings, period: number): boolean => {
+  return period > game.periods;
+};
+
+/**
+ * Length of a period in seconds. Overtime has its own length when the game sets one.
+ */
+export const getPeriodLength = (game: PeriodSettings, period: number): number => {
+  const minutes = isOvertimePeriod(game, period) ? game.overtimeMinutes || game.periodMinutes : game.periodMinutes;
+  return minutes * 60;
+};
+
+/**
+ * Game time when a period starts, using the same continuous clock as live tracking
+ */
+export const getPeriodStartTime = (game: PeriodSettings, period: number): number => {
+  const regulationPeriods = Math.min(period - 1, game.periods);
+  const overtimePeriods = Math.max(0, period - 1 - game.periods);
+  return regulationPeriods * game.periodMinutes * 60 + overtimePeriods * getPeriodLength(game, game.periods + 1);
+};
+
+/**
+ * Game time when a period ends
+ */
+export const getPeriodEndTime = (game: PeriodSettings, period: number): number => {
+  return getPeriodStartTime(game, period) + getPeriodLength(game, period);
+};
+
+/**
+ * Game time matching the time remaining on the rink scoreboard
+ */
+export const getGameTimeFromRemaining = (game: PeriodSettings, period: number, remaining: number): number => {
+  const clamped = Math.min(getPeriodLength(game, period), Math.max(0, remaining));
+  return getPeriodEndTime(game, period) - clamped;
+};
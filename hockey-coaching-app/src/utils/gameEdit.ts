@@ -0,0 +1,205 @@
+import type { Game, GameEvent, GameEventType, GameRecords, GoalAgainst, Penalty, Shot, ShotAgainst, StrengthState, TeamSide } from '../types';
+import { describeFaceoff } from './faceoffs';
+import { getGameResult } from './gameResult';
+import { getScoreBefore } from './gameSituation';
+import { isGoalDetailsEvent } from './goals';
+import { getActivePenalties, getGameStrength } from './penalties';
+import { isScoutingGame } from './scouting';
+
+// A rink goal's score event is added right after its shot or goal against
+const RINK_GOAL_EVENT_WINDOW_MS = 10000;
+
+// Events the coach can add to a finished game
+export type InsertableEventType = 'goal_home' | 'goal_away' | 'faceoff_won' | 'faceoff_lost' | 'penalty' | 'timeout';
+
+export const INSERTABLE_EVENT_LABELS: Record<InsertableEventType, string> = {
+  goal_home: 'Goal for',
+  goal_away: 'Goal against',
+  faceoff_won: 'Faceoff won',
+  faceoff_lost: 'Faceoff lost',
+  penalty: 'Penalty',
+  timeout: 'Timeout'
+};
+
+export type TimelineItem =
+  | { kind: 'shot'; record: Shot }
+  | { kind: 'goal_against'; record: GoalAgainst }
+  | { kind: 'shot_against'; record: ShotAgainst }
+  | { kind: 'event'; record: GameEvent };
+
+const GOAL_EVENT_TYPES: Record<'shot' | 'goal_against', GameEventType> = {
+  shot: 'goal_home',
+  goal_against: 'goal_away'
+};
+
+/**
+ * The score event added with a rink goal. Scoreboard goals carry their own
+ * details and stand alone.
+ */
+export const findRinkGoalEvent = (
+  events: GameEvent[],
+  kind: 'shot' | 'goal_against',
+  record: Pick<Shot, 'period' | 'timestamp'>
+): GameEvent | undefined => {
+  return events
+    .filter(event =>
+      event.type === GOAL_EVENT_TYPES[kind] &&
+      !isGoalDetailsEvent(event) &&
+      event.period === record.period &&
+      Math.abs(event.timestamp - record.timestamp) <= RINK_GOAL_EVENT_WINDOW_MS
+    )
+    .sort((a, b) => Math.abs(a.timestamp - record.timestamp) - Math.abs(b.timestamp - record.timestamp))[0];
+};
+
+/**
+ * Every record of a game in play order. A rink goal's score event is shown
+ * through its shot or goal against, so they are edited together.
+ */
+export const getGameTimeline = (records: GameRecords): TimelineItem[] => {
+  const linkedEventIds = new Set<string>();
+  records.shots.filter(shot => shot.result === 'goal').forEach(shot => {
+    const event = findRinkGoalEvent(records.events, 'shot', shot);
+    if (event) linkedEventIds.add(event.id);
+  });
+  records.goalsAgainst.forEach(goal => {
+    const event = findRinkGoalEvent(records.events, 'goal_against', goal);
+    if (event) linkedEventIds.add(event.id);
+  });
+
+  const items: TimelineItem[] = [
+    ...records.shots.map(record => ({ kind: 'shot' as const, record })),
+    ...records.goalsAgainst.map(record => ({ kind: 'goal_against' as const, record })),
+    ...records.shotsAgainst.map(record => ({ kind: 'shot_against' as const, record })),
+    ...records.events.filter(event => !linkedEventIds.has(event.id)).map(record => ({ kind: 'event' as const, record }))
+  ];
+
+  return items.sort((a, b) => a.record.period - b.record.period || a.record.timestamp - b.record.timestamp);
+};
+
+export const describeTimelineItem = (item: TimelineItem): string => {
+  switch (item.kind) {
+    case 'shot':
+      return item.record.result === 'goal' ? 'Goal' : `Shot (${item.record.result})`;
+    case 'goal_against':
+      return 'Goal against';
+    case 'shot_against':
+      return `Shot against (${item.record.result})`;
+    case 'event':
+      return item.record.description;
+  }
+};
+
+/**
+ * Wall-clock time for a record added at a game time, placed between the
+ * records around it so the timeline and score-before stay in order
+ */
+export const estimateTimestamp = (records: GameRecords, gameTime: number, fallback: number): number => {
+  const timed = [...records.shots, ...records.goalsAgainst, ...records.shotsAgainst, ...records.events]
+    .filter((record): record is typeof record & { gameTime: number } => record.gameTime !== undefined)
+    .sort((a, b) => a.gameTime - b.gameTime);
+  if (timed.length === 0) return fallback;
+
+  const previous = [...timed].reverse().find(record => record.gameTime <= gameTime);
+  if (previous) return previous.timestamp + (gameTime - previous.gameTime) * 1000 + 1;
+  return timed[0].timestamp - (timed[0].gameTime - gameTime) * 1000 - 1;
+};
+
+/**
+ * Score event for a shot changed to a goal, just after it like live tracking records it
+ */
+export const buildRinkGoalEvent = (game: Game, events: GameEvent[], shot: Pick<Shot, 'period' | 'timestamp' | 'gameTime'>): GameEvent => {
+  const { homeScore, awayScore } = getScoreBefore(events, shot.timestamp);
+  return {
+    id: crypto.randomUUID(),
+    gameId: game.id,
+    type: 'goal_home',
+    period: shot.period,
+    gameTime: shot.gameTime ?? 0,
+    timestamp: shot.timestamp + 1,
+    description: `Home team goal (${homeScore + 1}-${awayScore})`,
+    data: null
+  };
+};
+
+/**
+ * A missed event to add after the game. Penalties start at the given game time.
+ */
+export const buildInsertedEvent = (
+  game: Game,
+  records: GameRecords,
+  type: InsertableEventType,
+  period: number,
+  gameTime: number,
+  penalty?: Pick<Penalty, 'team' | 'infraction' | 'minutes'>
+): GameEvent => {
+  const timestamp = estimateTimestamp(records, gameTime, new Date(game.date).getTime());
+  const { homeScore, awayScore } = getScoreBefore(records.events, timestamp);
+  const base = { id: crypto.randomUUID(), gameId: game.id, type, period, gameTime, timestamp };
+
+  switch (type) {
+    case 'goal_home':
+      return { ...base, description: `Home team goal (${homeScore + 1}-${awayScore})`, data: null };
+    case 'goal_away':
+      return { ...base, description: `Away team goal (${homeScore}-${awayScore + 1})`, data: null };
+    case 'faceoff_won':
+    case 'faceoff_lost':
+      return { ...base, description: describeFaceoff(type === 'faceoff_won', {}), data: {} };
+    case 'timeout':
+      return { ...base, description: 'Timeout used', data: null };
+    case 'penalty': {
+      const details = penalty || { team: 'home' as TeamSide, infraction: 'Other', minutes: 2 };
+      const data: Penalty = { id: crypto.randomUUID(), startTime: gameTime, expiresAt: gameTime + details.minutes * 60, ...details };
+      const teamLabel = data.team === 'home' ? 'Home' : 'Away';
+      return { ...base, description: `${teamLabel} penalty: ${data.infraction} (${data.minutes} min)`, data };
+    }
+  }
+};
+
+/**
+ * Score, result and timeout of a finished game, counted again from its events.
+ * Scouting games get no result, like when they end.
+ */
+export const getEditedGameState = (game: Game, events: GameEvent[]): Pick<Game, 'homeScore' | 'awayScore' | 'timeoutUsed' | 'result'> => {
+  const homeScore = events.filter(event => event.type === 'goal_home').length;
+  const awayScore = events.filter(event => event.type === 'goal_away').length;
+  return {
+    homeScore,
+    awayScore,
+    timeoutUsed: events.some(event => event.type === 'timeout'),
+    ...(!isScoutingGame(game) && { result: getGameResult({ ...game, homeScore, awayScore }, events) })
+  };
+};
+
+/**
+ * Records whose stored score-before no longer matches the goal events
+ */
+export const getScoreBeforeChanges = <T extends Pick<Shot, 'id' | 'timestamp' | 'homeScore' | 'awayScore'>>(
+  records: T[],
+  events: GameEvent[]
+): Array<{ id: string; homeScore: number; awayScore: number }> => {
+  return records
+    .filter(record => record.homeScore !== undefined)
+    .map(record => ({ id: record.id, ...getScoreBefore(events, record.timestamp), previous: record }))
+    .filter(change => change.homeScore !== change.previous.homeScore || change.awayScore !== change.previous.awayScore)
+    .map(({ id, homeScore, awayScore }) => ({ id, homeScore, awayScore }));
+};
+
+
+/**
+ * Records whose stored strength no longer matches the penalties. Only events
+ * recorded before a record count, so a penalty its own goal ended still applies.
+ */
+export const getStrengthChanges = <T extends Pick<Shot, 'id' | 'timestamp' | 'gameTime' | 'strength' | 'manpower'>>(
+  records: T[],
+  events: GameEvent[]
+): Array<{ id: string; strength: StrengthState; manpower: string }> => {
+  return records
+    .filter((record): record is T & { gameTime: number } => record.strength !== undefined && record.gameTime !== undefined)
+    .map(record => {
+      const earlierEvents = events.filter(event => event.timestamp < record.timestamp);
+      const strength = getGameStrength(getActivePenalties(earlierEvents, record.gameTime));
+      return { id: record.id, strength: strength.state, manpower: strength.label, previous: record };
+    })
+    .filter(change => change.strength !== change.previous.strength || change.manpower !== change.previous.manpower)
+    .map(({ id, strength, manpower }) => ({ id, strength, manpower }));
+};
@@ -0,0 +1,137 @@
+import type { Game, GameEvent, GameResult, ShootoutAttempt, TeamSide } from '../types';
+import { isOvertimePeriod } from './gameClock';
+import { isScoutingGame } from './scouting';
+
+// Attempts per team before the shootout goes to sudden death
+export const SHOOTOUT_ROUNDS = 3;
+
+export interface ShootoutState {
+  attempts: ShootoutAttempt[];
+  homeGoals: number;
+  awayGoals: number;
+  nextTeam: TeamSide; // Team taking the next attempt
+  round: number; // Round of the next attempt
+  winner: TeamSide | null;
+}
+
+// Season record. Wins include overtime and shootout wins, overtime and shootout
+// losses are counted apart from regulation losses.
+export interface GameRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  overtimeLosses: number;
+}
+
+export const isShootoutStarted = (events: GameEvent[]): boolean => {
+  return events.some(event => event.type === 'shootout_start');
+};
+
+export const getShootoutAttempts = (events: GameEvent[]): ShootoutAttempt[] => {
+  return events
+    .filter(event => event.type === 'shootout_attempt')
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map(event => event.data as ShootoutAttempt);
+};
+
+/**
+ * Shootout score, who shoots next and the winner once one team can't be caught.
+ * Teams alternate, starting with whichever team took the first attempt.
+ */
+export const getShootoutState = (events: GameEvent[]): ShootoutState => {
+  const attempts = getShootoutAttempts(events);
+  const firstTeam: TeamSide = attempts[0]?.team || 'home';
+
+  const homeAttempts = attempts.filter(attempt => attempt.team === 'home');
+  const awayAttempts = attempts.filter(attempt => attempt.team === 'away');
+  const homeGoals = homeAttempts.filter(attempt => attempt.result === 'goal').length;
+  const awayGoals = awayAttempts.filter(attempt => attempt.result === 'goal').length;
+
+  let winner: TeamSide | null = null;
+  if (homeAttempts.length <= SHOOTOUT_ROUNDS && awayAttempts.length <= SHOOTOUT_ROUNDS) {
+    // Decided early when the trailing team can't catch up with its remaining attempts
+    if (homeGoals > awayGoals + SHOOTOUT_ROUNDS - awayAttempts.length) winner = 'home';
+    if (awayGoals > homeGoals + SHOOTOUT_ROUNDS - homeAttempts.length) winner = 'away';
+  }
+  if (!winner && homeAttempts.length === awayAttempts.length && homeAttempts.length >= SHOOTOUT_ROUNDS && homeGoals !== awayGoals) {
+    winner = homeGoals > awayGoals ? 'home' : 'away';
+  }
+
+  const nextTeam: TeamSide = homeAttempts.length === awayAttempts.length
+    ? firstTeam
+    : homeAttempts.length < awayAttempts.length ? 'home' : 'away';
+  const round = (nextTeam === 'home' ? homeAttempts.length : awayAttempts.length) + 1;
+
+  return { attempts, homeGoals, awayGoals, nextTeam, round, winner };
+};
+
+/**
+ * Final result from our point of view. A game still tied after overtime is
+ * decided by the shootout, if there was one.
+ */
+export const getGameResult = (game: Game, events: GameEvent[]): GameResult => {
+  const homeScore = game.homeScore || 0;
+  const awayScore = game.awayScore || 0;
+
+  if (homeScore !== awayScore) {
+    const overtime = isOvertimePeriod(game, game.currentPeriod || 1);
+    if (homeScore > awayScore) return overtime ? 'OTW' : 'W';
+    return overtime ? 'OTL' : 'L';
+  }
+
+  const { winner } = getShootoutState(events);
+  if (winner) return winner === 'home' ? 'SOW' : 'SOL';
+  return 'T';
+};
+
+/**
+ * Stored result, or the score for games archived before results were stored
+ */
+export const getStoredGameResult = (game: Game): GameResult => {
+  if (game.result) return game.result;
+
+  const homeScore = game.homeScore || 0;
+  const awayScore = game.awayScore || 0;
+  if (homeScore > awayScore) return 'W';
+  if (homeScore < awayScore) return 'L';
+  return 'T';
+};
+
+export const isWin = (result: GameResult): boolean => {
+  return result === 'W' || result === 'OTW' || result === 'SOW';
+};
+
+// Scouting games don't count, they are other teams' results
+export const getGameRecord = (games: Game[]): GameRecord => {
+  return games.filter(game => !isScoutingGame(game)).reduce<GameRecord>((record, game) => {
+    const result = getStoredGameResult(game);
+    if (isWin(result)) record.wins++;
+    else if (result === 'L') record.losses++;
+    else if (result === 'T') record.ties++;
+    else record.overtimeLosses++;
+    return record;
+  }, { wins: 0, losses: 0, ties: 0, overtimeLosses: 0 });
+};
+
+/**
+ * W-L-T-OTL, dropping the columns nobody has used yet
+ */
+export const formatGameRecord = (record: GameRecord): { value: string; label: string } => {
+  const columns: [string, number][] = [['W', record.wins], ['L', record.losses]];
+  if (record.ties > 0) columns.push(['T', record.ties]);
+  if (record.overtimeLosses > 0) columns.push(['OTL', record.overtimeLosses]);
+
+  return {
+    value: columns.map(([, count]) => count).join('-'),
+    label: columns.map(([name]) => name).join('-')
+  };
+};
+
+/**
+ * Short suffix for a final score, e.g. 'OT' or 'SO'
+ */
+export const getResultSuffix = (result: GameResult): string => {
+  if (result === 'OTW' || result === 'OTL') return 'OT';
+  if (result === 'SOW' || result === 'SOL') return 'SO';
+  return '';
+};
@@ -0,0 +1,76 @@
+import type { Game, GameEvent } from '../types';
+import { getPeriodStartTime } from './gameClock';
+
+export type ScoreSituation = 'winning' | 'losing' | 'tied';
+
+// Game clock and score at the moment a shot was recorded
+export interface GameSituation {
+  gameTime: number; // Seconds
+  periodTime: number; // Seconds elapsed in the period
+  homeScore: number; // Our score
+  awayScore: number; // Opponent score
+}
+
+/**
+ * Seconds elapsed in the period, using the same continuous game clock as live tracking
+ */
+export const getPeriodTime = (gameTime: number, period: number, game: Pick<Game, 'periods' | 'periodMinutes' | 'overtimeMinutes'>): number => {
+  return Math.max(0, gameTime - getPeriodStartTime(game, period));
+};
+
+/**
+ * Score situation from our team's point of view
+ */
+export const getScoreSituation = (homeScore: number, awayScore: number): ScoreSituation => {
+  if (homeScore > awayScore) return 'winning';
+  if (homeScore < awayScore) return 'losing';
+  return 'tied';
+};
+
+/**
+ * Score just before the given moment, counted from the goal events
+ */
+export const getScoreBefore = (events: GameEvent[], timestamp: number) => {
+  const earlier = events.filter(event => event.timestamp < timestamp);
+  return {
+    homeScore: earlier.filter(event => event.type === 'goal_home').length,
+    awayScore: earlier.filter(event => event.type === 'goal_away').length
+  };
+};
+
+/**
+ * Estimates the game clock at a wall-clock moment from the surrounding events.
+ * Runs the clock forward from the previous event, capped at the next event
+ * so pauses between them can't push it too far.
+ */
+export const estimateGameTime = (events: GameEvent[], timestamp: number): number | null => {
+  if (events.length === 0) return null;
+
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+  const previous = [...sorted].reverse().find(event => event.timestamp <= timestamp);
+  const next = sorted.find(event => event.timestamp > timestamp);
+
+  if (!previous) return next ? next.gameTime : null;
+
+  const estimate = previous.gameTime + Math.round((timestamp - previous.timestamp) / 1000);
+  return next ? Math.min(estimate, Math.max(previous.gameTime, next.gameTime)) : estimate;
+};
+
+/**
+ * Rebuilds the situation of a shot recorded before it was captured live.
+ * Returns null when the game has no event log to rebuild from.
+ */
+export const rebuildGameSituation = (
+  game: Game,
+  events: GameEvent[],
+  item: { timestamp: number; period: number }
+): GameSituation | null => {
+  const gameTime = estimateGameTime(events, item.timestamp);
+  if (gameTime === null) return null;
+
+  return {
+    gameTime,
+    periodTime: getPeriodTime(gameTime, item.period, game),
+    ...getScoreBefore(events, item.timestamp)
+  };
+};
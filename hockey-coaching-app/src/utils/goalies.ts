@@ -0,0 +1,158 @@
+import type { Game, GameEvent, Player, ShotAgainst, GoalieGameStats, GoalieSeasonStats } from '../types';
+
+export interface GoalieInterval {
+  goalieId: string;
+  start: number; // Game time in seconds
+  end: number; // Game time in seconds
+}
+
+const isGoalieEvent = (event: GameEvent) => event.type === 'goalie_in' || event.type === 'goalie_out';
+
+/**
+ * Goalie currently in net, rebuilt from the 'goalie_in' / 'goalie_out' events.
+ * Returns null when no goalie has been set or the net is empty.
+ */
+export const getGoalieInNet = (events: GameEvent[]): string | null => {
+  const lastGoalieEvent = [...events].reverse().find(isGoalieEvent);
+  if (!lastGoalieEvent || lastGoalieEvent.type === 'goalie_out') return null;
+  return lastGoalieEvent.data?.goalieId || null;
+};
+
+/**
+ * Whether the goalie was pulled for an extra attacker and hasn't returned
+ */
+export const isGoaliePulled = (events: GameEvent[]): boolean => {
+  const lastGoalieEvent = [...events].reverse().find(isGoalieEvent);
+  return lastGoalieEvent?.type === 'goalie_out' && !!lastGoalieEvent.data?.pulled;
+};
+
+/**
+ * Last goalie that was pulled, so the same one can go back in
+ */
+export const getPulledGoalieId = (events: GameEvent[]): string | null => {
+  if (!isGoaliePulled(events)) return null;
+  const lastGoalieEvent = [...events].reverse().find(isGoalieEvent);
+  return lastGoalieEvent?.data?.goalieId || null;
+};
+
+/**
+ * Regulation length of a game in seconds
+ */
+export const getGameLengthSeconds = (game: Game): number => game.periods * game.periodMinutes * 60;
+
+/**
+ * Game time when the game ended: the 'game_end' event, or the last event logged
+ */
+export const getGameEndTime = (game: Game, events: GameEvent[]): number => {
+  const endEvent = events.find(event => event.type === 'game_end');
+  if (endEvent) return endEvent.gameTime;
+
+  const lastEventTime = events.reduce((max, event) => Math.max(max, event.gameTime), 0);
+  return lastEventTime > 0 ? lastEventTime : getGameLengthSeconds(game);
+};
+
+/**
+ * Time ranges each goalie spent in net. A 'goalie_in' replaces whoever was in net,
+ * a 'goalie_out' leaves the net empty.
+ */
+export const getGoalieIntervals = (events: GameEvent[], endTime: number): GoalieInterval[] => {
+  const intervals: GoalieInterval[] = [];
+  let current: { goalieId: string; start: number } | null = null;
+
+  const goalieEvents = events
+    .filter(isGoalieEvent)
+    .sort((a, b) => a.gameTime - b.gameTime || a.timestamp - b.timestamp);
+
+  for (const event of goalieEvents) {
+    if (current) {
+      intervals.push({ goalieId: current.goalieId, start: current.start, end: event.gameTime });
+      current = null;
+    }
+    if (event.type === 'goalie_in' && event.data?.goalieId) {
+      current = { goalieId: event.data.goalieId, start: event.gameTime };
+    }
+  }
+
+  if (current) {
+    intervals.push({ goalieId: current.goalieId, start: current.start, end: Math.max(current.start, endTime) });
+  }
+
+  return intervals;
+};
+
+/**
+ * Per-goalie minutes, save % and GAA for a single game
+ */
+export const calculateGoalieGameStats = (
+  game: Game,
+  events: GameEvent[],
+  shotsAgainst: ShotAgainst[],
+  players: Player[]
+): GoalieGameStats[] => {
+  const gameLengthSeconds = getGameLengthSeconds(game);
+  const intervals = getGoalieIntervals(events, getGameEndTime(game, events));
+
+  const goalieIds = Array.from(new Set([
+    ...intervals.map(interval => interval.goalieId),
+    ...shotsAgainst.map(shot => shot.goalieId).filter((id): id is string => !!id)
+  ]));
+
+  return goalieIds.map(goalieId => {
+    const goalie = players.find(p => p.id === goalieId);
+    const goalieShots = shotsAgainst.filter(shot => shot.goalieId === goalieId);
+    const saves = goalieShots.filter(shot => shot.result === 'save').length;
+    const goalsAgainst = goalieShots.filter(shot => shot.result === 'goal').length;
+    const onGoal = saves + goalsAgainst;
+    const secondsPlayed = intervals
+      .filter(interval => interval.goalieId === goalieId)
+      .reduce((total, interval) => total + (interval.end - interval.start), 0);
+
+    return {
+      goalieId,
+      gameId: game.id,
+      name: goalie ? `${goalie.firstName} ${goalie.lastName}` : 'Unknown goalie',
+      jerseyNumber: goalie?.jerseyNumber ?? 0,
+      shotsAgainst: onGoal,
+      saves,
+      goalsAgainst,
+      savePercentage: onGoal > 0 ? Math.round((saves / onGoal) * 1000) / 10 : 0,
+      secondsPlayed,
+      gameLengthSeconds,
+      goalsAgainstAverage: secondsPlayed > 0
+        ? Math.round((goalsAgainst / (secondsPlayed / gameLengthSeconds)) * 100) / 100
+        : 0
+    };
+  });
+};
+
+/**
+ * Sums per-game goalie stats into season totals. GAA is goals against per
+ * full game, so games with different lengths can be combined.
+ */
+export const aggregateGoalieStats = (gameStats: GoalieGameStats[]): GoalieSeasonStats[] => {
+  const byGoalie = new Map<string, GoalieGameStats[]>();
+  gameStats.forEach(stats => {
+    byGoalie.set(stats.goalieId, [...(byGoalie.get(stats.goalieId) || []), stats]);
+  });
+
+  return Array.from(byGoalie.entries()).map(([goalieId, games]) => {
+    const saves = games.reduce((total, g) => total + g.saves, 0);
+    const goalsAgainst = games.reduce((total, g) => total + g.goalsAgainst, 0);
+    const secondsPlayed = games.reduce((total, g) => total + g.secondsPlayed, 0);
+    const fullGamesPlayed = games.reduce((total, g) => total + g.secondsPlayed / g.gameLengthSeconds, 0);
+    const onGoal = saves + goalsAgainst;
+
+    return {
+      goalieId,
+      name: games[0].name,
+      jerseyNumber: games[0].jerseyNumber,
+      gamesPlayed: games.filter(g => g.secondsPlayed > 0).length,
+      secondsPlayed,
+      shotsAgainst: onGoal,
+      saves,
+      goalsAgainst,
+      savePercentage: onGoal > 0 ? Math.round((saves / onGoal) * 1000) / 10 : 0,
+      goalsAgainstAverage: fullGamesPlayed > 0 ? Math.round((goalsAgainst / fullGamesPlayed) * 100) / 100 : 0
+    };
+  }).sort((a, b) => b.secondsPlayed - a.secondsPlayed);
+};
@@ -0,0 +1,85 @@
+import type { GameEvent, GoalAgainst, GoalDetails, GoalType, Shot, StrengthState } from '../types';
+
+export const GOAL_TYPES: GoalType[] = ['EV', 'PP', 'SH', 'EN', 'PS'];
+
+export const GOAL_TYPE_LABELS: Record<GoalType, string> = {
+  EV: 'Even Strength',
+  PP: 'Power Play',
+  SH: 'Shorthanded',
+  EN: 'Empty Net',
+  PS: 'Penalty Shot'
+};
+
+export type GoalSide = 'for' | 'against';
+
+// One goal for or against us, from a rink shot, a goal against or a scoreboard goal
+export interface GoalRecord {
+  side: GoalSide;
+  period: number;
+  gameTime?: number;
+  scorerId?: string;
+  assistIds: string[];
+  goalType?: GoalType;
+  onIceIds?: string[]; // Only when entered on the goal detail sheet
+}
+
+/**
+ * Goal type suggested from our strength when the goal was scored. Our power
+ * play is their shorthanded and the other way round.
+ */
+export const getDefaultGoalType = (side: GoalSide, strength?: StrengthState, emptyNet = false): GoalType | undefined => {
+  if (emptyNet) return 'EN';
+  if (!strength || strength === 'EV') return strength;
+  if (side === 'for') return strength;
+  return strength === 'PP' ? 'SH' : 'PP';
+};
+
+export const isGoalDetailsEvent = (event: GameEvent) =>
+  (event.type === 'goal_home' || event.type === 'goal_away') && !!event.data?.goalType;
+
+/**
+ * Every goal of a game in one shape. Rink goals bump the score without
+ * details, so only scoreboard goals with details come from the events.
+ */
+export const getGoalRecords = (shots: Shot[], goalsAgainst: GoalAgainst[], events: GameEvent[]): GoalRecord[] => {
+  const goalsFor: GoalRecord[] = shots
+    .filter(shot => shot.result === 'goal')
+    .map(shot => ({
+      side: 'for',
+      period: shot.period,
+      gameTime: shot.gameTime,
+      scorerId: shot.shooterId,
+      assistIds: shot.assistIds || [],
+      goalType: shot.goalType ?? getDefaultGoalType('for', shot.strength),
+      onIceIds: shot.onIceIds
+    }));
+
+  const goalsAgainstRecords: GoalRecord[] = goalsAgainst.map(goal => ({
+    side: 'against',
+    period: goal.period,
+    gameTime: goal.gameTime,
+    assistIds: [],
+    goalType: goal.goalType ?? getDefaultGoalType('against', goal.strength, goal.emptyNet),
+    onIceIds: goal.onIceIds
+  }));
+
+  const scoreboardGoals: GoalRecord[] = events.filter(isGoalDetailsEvent).map(event => {
+    const details = event.data as GoalDetails;
+    return {
+      side: event.type === 'goal_home' ? 'for' : 'against',
+      period: event.period,
+      gameTime: event.gameTime,
+      scorerId: details.scorerId,
+      assistIds: details.assistIds || [],
+      goalType: details.goalType,
+      onIceIds: details.onIceIds
+    };
+  });
+
+  return [...goalsFor, ...goalsAgainstRecords, ...scoreboardGoals];
+};
+
+/**
+ * Power-play goals and penalty shots don't count for plus/minus, on either side
+ */
+export const countsForPlusMinus = (goal: GoalRecord) => goal.goalType !== 'PP' && goal.goalType !== 'PS';
@@ -0,0 +1,86 @@
+import type { DrawingElement, Game, GameEvent, GameRecords, IntermissionData, Penalty, Shot } from '../types';
+import { mergeShotsAgainst } from '../lib/utils/analysis';
+import { calculateFaceoffStats, isFaceoffEvent, type FaceoffStats } from './faceoffs';
+import { generateSmartInsights, normalizeShot, normalizeShotAgainst, type Insight } from './shotNormalization';
+
+// Talking points there is time for between periods
+export const INTERMISSION_TALKING_POINTS = 3;
+
+export interface IntermissionPeriodStats {
+  period: number;
+  shotsFor: number; // On goal
+  shotsAgainst: number; // On goal
+  goalsFor: number;
+  goalsAgainst: number;
+  faceoffs: FaceoffStats;
+  penaltiesTaken: number;
+  penaltiesDrawn: number;
+}
+
+const isOnGoal = (shot: Pick<Shot, 'result'>) => shot.result === 'goal' || shot.result === 'save';
+
+export const isIntermissionEvent = (event: GameEvent) => event.type === 'intermission';
+
+/**
+ * The whiteboard and notes saved for a period, if any
+ */
+export const getIntermission = (events: GameEvent[], period: number): IntermissionData | undefined => {
+  const event = events.find(event => isIntermissionEvent(event) && event.period === period);
+  return event?.data as IntermissionData | undefined;
+};
+
+/**
+ * Whiteboard elements without their editing state. Firestore rejects undefined fields.
+ */
+export const getWhiteboardElements = (elements: DrawingElement[]): DrawingElement[] =>
+  elements.map(element => JSON.parse(JSON.stringify({ ...element, selected: undefined, isEditing: undefined })));
+
+/**
+ * Shots, goals, faceoffs and penalties of every period up to the given one
+ */
+export const getIntermissionStats = (records: GameRecords, throughPeriod: number): IntermissionPeriodStats[] => {
+  const allShotsAgainst = mergeShotsAgainst(records.shotsAgainst, records.goalsAgainst);
+
+  return Array.from({ length: throughPeriod }, (_, index) => {
+    const period = index + 1;
+    const events = records.events.filter(event => event.period === period);
+    const penalties = events.filter(event => event.type === 'penalty').map(event => event.data as Penalty);
+
+    return {
+      period,
+      shotsFor: records.shots.filter(shot => shot.period === period && isOnGoal(shot)).length,
+      shotsAgainst: allShotsAgainst.filter(shot => shot.period === period && isOnGoal(shot)).length,
+      goalsFor: events.filter(event => event.type === 'goal_home').length,
+      goalsAgainst: events.filter(event => event.type === 'goal_away').length,
+      faceoffs: calculateFaceoffStats(events.filter(isFaceoffEvent)),
+      penaltiesTaken: penalties.filter(penalty => penalty.team === 'home').length,
+      penaltiesDrawn: penalties.filter(penalty => penalty.team === 'away').length
+    };
+  });
+};
+
+/**
+ * Shots for and against in the period, on one rink with our team attacking right
+ */
+export const getPeriodShotMap = (game: Game, records: GameRecords, period: number) => ({
+  shots: records.shots.filter(shot => shot.period === period).map(shot => normalizeShot(shot, game)),
+  shotsAgainst: mergeShotsAgainst(records.shotsAgainst, records.goalsAgainst)
+    .filter(shot => shot.period === period)
+    .map(shot => normalizeShotAgainst(shot, game))
+});
+
+/**
+ * The strongest insights from the period's shots
+ */
+export const getTalkingPoints = (game: Game, shots: Shot[], period: number): Insight[] => {
+  const periodShots = shots
+    .filter(shot => shot.period === period)
+    .map(shot => ({
+      ...normalizeShot(shot, game),
+      gameDate: game.date,
+      homeTeamId: game.homeTeamId,
+      awayTeamName: game.awayTeamName,
+      seasonId: game.seasonId
+    }));
+  return generateSmartInsights(periodShots).slice(0, INTERMISSION_TALKING_POINTS);
+};
@@ -0,0 +1,101 @@
+import type { GameLineup, Line, LineType } from '../types';
+import { LINE_SIZES } from './shifts';
+
+// Where a player can be dropped on the lineup board
+export type LineupSpot =
+  | { kind: 'line'; lineId: string }
+  | { kind: 'startingGoalie' }
+  | { kind: 'backupGoalie' }
+  | { kind: 'scratched' }
+  | { kind: 'absent' }
+  | { kind: 'unassigned' };
+
+const createLine = (type: LineType, number: number): Line => ({
+  id: crypto.randomUUID(),
+  name: type === 'forward' ? `Line ${number}` : `D Pair ${number}`,
+  type,
+  playerIds: []
+});
+
+/**
+ * Four forward lines and three D pairs, nobody placed yet
+ */
+export const createEmptyLineup = (): GameLineup => ({
+  lines: [
+    ...[1, 2, 3, 4].map(number => createLine('forward', number)),
+    ...[1, 2, 3].map(number => createLine('defense', number))
+  ],
+  scratchedIds: [],
+  absentIds: [],
+  updatedAt: new Date().toISOString()
+});
+
+export const addLineupLine = (lineup: GameLineup, type: LineType): GameLineup => ({
+  ...lineup,
+  lines: [...lineup.lines, createLine(type, lineup.lines.filter(line => line.type === type).length + 1)]
+});
+
+/**
+ * Takes a player out of every line, goalie spot and list
+ */
+export const removeFromLineup = (lineup: GameLineup, playerId: string): GameLineup => {
+  const next: GameLineup = {
+    ...lineup,
+    lines: lineup.lines.map(line => ({ ...line, playerIds: line.playerIds.filter(id => id !== playerId) })),
+    scratchedIds: lineup.scratchedIds.filter(id => id !== playerId),
+    absentIds: lineup.absentIds.filter(id => id !== playerId)
+  };
+  if (next.startingGoalieId === playerId) delete next.startingGoalieId;
+  if (next.backupGoalieId === playerId) delete next.backupGoalieId;
+  return next;
+};
+
+/**
+ * Moves a player to a spot. A full line doesn't take another player; a goalie
+ * spot sends the goalie already there back to the undecided players.
+ */
+export const movePlayerInLineup = (lineup: GameLineup, playerId: string, spot: LineupSpot): GameLineup => {
+  if (spot.kind === 'line') {
+    const line = lineup.lines.find(l => l.id === spot.lineId);
+    if (!line || line.playerIds.includes(playerId) || line.playerIds.length >= LINE_SIZES[line.type]) return lineup;
+  }
+
+  const next = removeFromLineup(lineup, playerId);
+  switch (spot.kind) {
+    case 'line':
+      return {
+        ...next,
+        lines: next.lines.map(line =>
+          line.id === spot.lineId ? { ...line, playerIds: [...line.playerIds, playerId] } : line
+        )
+      };
+    case 'startingGoalie':
+      return { ...next, startingGoalieId: playerId };
+    case 'backupGoalie':
+      return { ...next, backupGoalieId: playerId };
+    case 'scratched':
+      return { ...next, scratchedIds: [...next.scratchedIds, playerId] };
+    case 'absent':
+      return { ...next, absentIds: [...next.absentIds, playerId] };
+    default:
+      return next;
+  }
+};
+
+/**
+ * Players in a line or a goalie spot
+ */
+export const getDressedPlayerIds = (lineup: GameLineup): string[] => [
+  ...lineup.lines.flatMap(line => line.playerIds),
+  ...(lineup.startingGoalieId ? [lineup.startingGoalieId] : []),
+  ...(lineup.backupGoalieId ? [lineup.backupGoalieId] : [])
+];
+
+/**
+ * Players placed anywhere on the lineup, dressed or not
+ */
+export const getPlacedPlayerIds = (lineup: GameLineup): string[] => [
+  ...getDressedPlayerIds(lineup),
+  ...lineup.scratchedIds,
+  ...lineup.absentIds
+];
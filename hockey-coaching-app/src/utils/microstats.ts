@@ -0,0 +1,94 @@
+import type { Game, GameEvent, Microstat, MicrostatType, Player, ZoneTransition } from '../types';
+import { normalizeRinkPoint } from './shotNormalization';
+
+export const MICROSTAT_LABELS: Record<MicrostatType, string> = {
+  zone_entry: 'Zone Entry',
+  zone_exit: 'Zone Exit',
+  turnover: 'Turnover',
+  takeaway: 'Takeaway',
+  hit: 'Hit'
+};
+
+export const MICROSTAT_TYPES = Object.keys(MICROSTAT_LABELS) as MicrostatType[];
+
+export const TRANSITION_LABELS: Record<ZoneTransition, string> = {
+  controlled: 'Controlled',
+  dump: 'Dump'
+};
+
+export interface NormalizedMicrostat extends Microstat {
+  id: string;
+  gameId: string;
+  type: MicrostatType;
+  period: number;
+  gameTime: number;
+  normalizedX: number;
+  normalizedY: number;
+}
+
+export interface MicrostatRates {
+  counts: Record<MicrostatType, number>;
+  perGame: Record<MicrostatType, number>;
+  controlledEntryPercentage: number;
+  controlledExitPercentage: number;
+  takeawayRatio: number; // Takeaways per turnover
+}
+
+export const isMicrostatType = (type: string): type is MicrostatType => type in MICROSTAT_LABELS;
+
+export const isMicrostatEvent = (event: GameEvent) => isMicrostatType(event.type);
+
+export const hasTransition = (type: MicrostatType) => type === 'zone_entry' || type === 'zone_exit';
+
+/**
+ * Short description for the event log, e.g. "Controlled zone entry by #12"
+ */
+export const describeMicrostat = (type: MicrostatType, microstat: Microstat, player?: Player): string => {
+  const label = microstat.transition
+    ? `${TRANSITION_LABELS[microstat.transition]} ${MICROSTAT_LABELS[type].toLowerCase()}`
+    : MICROSTAT_LABELS[type];
+  return player ? `${label} by #${player.jerseyNumber}` : label;
+};
+
+/**
+ * Microstats of a game with locations rotated like shots, so we always attack right
+ */
+export const normalizeMicrostats = (events: GameEvent[], game: Game): NormalizedMicrostat[] => {
+  return events
+    .filter(event => event.gameId === game.id && isMicrostatEvent(event) && event.data)
+    .map(event => {
+      const microstat = event.data as Microstat;
+      return {
+        ...microstat,
+        id: event.id,
+        gameId: event.gameId,
+        type: event.type as MicrostatType,
+        period: event.period,
+        gameTime: event.gameTime,
+        ...normalizeRinkPoint(microstat.x, microstat.y, game, event.period)
+      };
+    });
+};
+
+const percentage = (part: number, total: number) => (total > 0 ? (part / total) * 100 : 0);
+
+export const calculateMicrostatRates = (microstats: NormalizedMicrostat[], gameCount: number): MicrostatRates => {
+  const ofType = (type: MicrostatType) => microstats.filter(microstat => microstat.type === type);
+  const counts = Object.fromEntries(
+    MICROSTAT_TYPES.map(type => [type, ofType(type).length])
+  ) as Record<MicrostatType, number>;
+  const perGame = Object.fromEntries(
+    MICROSTAT_TYPES.map(type => [type, gameCount > 0 ? counts[type] / gameCount : 0])
+  ) as Record<MicrostatType, number>;
+
+  const controlledEntries = ofType('zone_entry').filter(entry => entry.transition === 'controlled').length;
+  const controlledExits = ofType('zone_exit').filter(exit => exit.transition === 'controlled').length;
+
+  return {
+    counts,
+    perGame,
+    controlledEntryPercentage: percentage(controlledEntries, counts.zone_entry),
+    controlledExitPercentage: percentage(controlledExits, counts.zone_exit),
+    takeawayRatio: counts.turnover > 0 ? counts.takeaway / counts.turnover : counts.takeaway
+  };
+};
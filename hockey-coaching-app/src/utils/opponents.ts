@@ -0,0 +1,113 @@
+import type { Game, Opponent, TeamSide } from '../types';
+import { isScoutingGame } from './scouting';
+
+export const DEFAULT_OPPONENT_COLOR = '#6B7280';
+
+// Words a club name is typed with or without, e.g. "Lions" and "Lions HC"
+const CLUB_WORDS = ['hc', 'ihc', 'hockey', 'club'];
+
+/**
+ * Key shared by every spelling of one opponent: "Lions", "lions" and
+ * "Lions HC" all become "lions"
+ */
+export const getOpponentKey = (name: string): string => {
+  const words = name.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const nameWords = words.filter(word => !CLUB_WORDS.includes(word));
+  // A name made only of club words is its own key
+  return (nameWords.length > 0 ? nameWords : words).join(' ');
+};
+
+export const findOpponentByName = (opponents: Opponent[], name: string): Opponent | undefined => {
+  const key = getOpponentKey(name);
+  return key ? opponents.find(opponent => getOpponentKey(opponent.name) === key) : undefined;
+};
+
+// A side of a game played by an opponent
+export interface OpponentGameSide {
+  game: Game;
+  side: TeamSide;
+}
+
+/**
+ * The away team, and the home team too in a scouting game
+ */
+const getOpponentSides = (game: Game): OpponentGameSide[] => [
+  { game, side: 'away' },
+  ...(isScoutingGame(game) ? [{ game, side: 'home' as const }] : [])
+];
+
+const getSideName = ({ game, side }: OpponentGameSide): string =>
+  (side === 'home' ? game.homeTeamName || '' : game.awayTeamName).trim();
+
+const getSideOpponentId = ({ game, side }: OpponentGameSide): string | undefined =>
+  side === 'home' ? game.homeOpponentId : game.opponentId;
+
+/**
+ * Game fields linking one side of a game to an opponent, under its name
+ */
+export const getOpponentSideFields = (
+  side: TeamSide,
+  opponent: Opponent
+): Partial<Pick<Game, 'opponentId' | 'awayTeamName' | 'homeOpponentId' | 'homeTeamName'>> =>
+  side === 'home'
+    ? { homeOpponentId: opponent.id, homeTeamName: opponent.name }
+    : { opponentId: opponent.id, awayTeamName: opponent.name };
+
+/**
+ * Games against the opponent, or scouted with it on either side: linked ones,
+ * plus older ones whose name matches
+ */
+export const getOpponentGames = (games: Game[], opponent: Opponent): Game[] => {
+  const key = getOpponentKey(opponent.name);
+  return games.filter(game => getOpponentSides(game).some(side => {
+    const opponentId = getSideOpponentId(side);
+    return opponentId ? opponentId === opponent.id : getOpponentKey(getSideName(side)) === key;
+  }));
+};
+
+// Game sides to link to one opponent, which is created first when isNew
+export interface OpponentMerge {
+  opponent: Opponent;
+  isNew: boolean;
+  sides: OpponentGameSide[];
+}
+
+const getMostUsedName = (sides: OpponentGameSide[]): string => {
+  const counts = new Map<string, number>();
+  sides.forEach(side => {
+    const name = getSideName(side);
+    counts.set(name, (counts.get(name) || 0) + 1);
+  });
+  // Ties go to the spelling seen first
+  return Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+};
+
+/**
+ * Game sides that aren't linked to an opponent yet, or don't use its spelling.
+ * Names without an opponent become a new one, named after their most used spelling.
+ */
+export const planOpponentMerge = (games: Game[], opponents: Opponent[], userId: string): OpponentMerge[] => {
+  const merges = new Map<string, OpponentMerge>();
+
+  games.flatMap(getOpponentSides).forEach(side => {
+    const name = getSideName(side);
+    const linked = opponents.find(opponent => opponent.id === getSideOpponentId(side));
+    if (linked && linked.name === name) return;
+    if (!linked && !name) return;
+
+    const opponent = linked || findOpponentByName(opponents, name);
+    const key = opponent ? opponent.id : `new:${getOpponentKey(name)}`;
+    if (!merges.has(key)) {
+      merges.set(key, {
+        opponent: opponent || { id: crypto.randomUUID(), name, primaryColor: DEFAULT_OPPONENT_COLOR, userId },
+        isNew: !opponent,
+        sides: []
+      });
+    }
+    merges.get(key)!.sides.push(side);
+  });
+
+  return Array.from(merges.values()).map(merge =>
+    merge.isNew ? { ...merge, opponent: { ...merge.opponent, name: getMostUsedName(merge.sides) } } : merge
+  );
+};
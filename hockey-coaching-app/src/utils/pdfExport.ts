@@ -1,6 +1,7 @@
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import type { Game, Shot, Team, Season } from '../types';
+import type { Game, Shot, Team, Season, ShotAgainst, Player, GoalieStats, GameLineup } from '../types';
+import { calculateGoalieStats, calculateSavePercentage } from '../lib/utils/analysis';
 
 export interface GameReportData {
   game: Game;
@@ -25,9 +26,26 @@ export interface GameReportData {
     shots: number;
     goals: number;
   }>;
+  shotsAgainstStats: {
+    total: number;
+    onGoal: number;
+    saves: number;
+    goals: number;
+    misses: number;
+    blocked: number;
+    savePercentage: number;
+  };
+  goalieStats: GoalieStats[];
   insights: string[];
 }
 
+export interface LineupCardData {
+  game: Game;
+  team: Team;
+  lineup: GameLineup;
+  players: Player[];
+}
+
 export class PDFExporter {
   private doc: jsPDF;
   private yPosition: number = 20;
@@ -49,10 +67,88 @@ export class PDFExporter {
     // Capture shot chart if available
     await this.addShotChart();
 
+    await this.addShotsAgainst(data);
+
     this.addInsights(data);
     this.addFooter(data);
   }
 
+  // One-page lineup card for the bench and the scorekeeper
+  generateLineupCard(data: LineupCardData): void {
+    const { game, team, lineup, players } = data;
+    const playerLabel = (playerId: string) => {
+      const player = players.find(p => p.id === playerId);
+      return player ? `#${player.jerseyNumber} ${player.firstName} ${player.lastName}` : 'Unknown player';
+    };
+
+    this.doc.setFontSize(20);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.text('Lineup Card', this.margin, this.yPosition);
+
+    this.yPosition += 10;
+    this.doc.setFontSize(14);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.text(`${team.name} vs ${game.awayTeamName}`, this.margin, this.yPosition);
+
+    this.yPosition += 8;
+    this.doc.setFontSize(10);
+    this.doc.setTextColor(100);
+    this.doc.text(`Game Date: ${new Date(game.date).toLocaleString()}`, this.margin, this.yPosition);
+    this.doc.setTextColor(0);
+
+    this.yPosition += 10;
+    this.addSeparator();
+
+    const sections: { title: string; rows: string[] }[] = [
+      {
+        title: 'FORWARDS',
+        rows: lineup.lines
+          .filter(line => line.type === 'forward' && line.playerIds.length > 0)
+          .map(line => `${line.name}:  ${line.playerIds.map(playerLabel).join('   ')}`)
+      },
+      {
+        title: 'DEFENSE',
+        rows: lineup.lines
+          .filter(line => line.type === 'defense' && line.playerIds.length > 0)
+          .map(line => `${line.name}:  ${line.playerIds.map(playerLabel).join('   ')}`)
+      },
+      {
+        title: 'GOALIES',
+        rows: [
+          ...(lineup.startingGoalieId ? [`Starter:  ${playerLabel(lineup.startingGoalieId)}`] : []),
+          ...(lineup.backupGoalieId ? [`Backup:  ${playerLabel(lineup.backupGoalieId)}`] : [])
+        ]
+      },
+      { title: 'SCRATCHED', rows: lineup.scratchedIds.map(playerLabel) },
+      { title: 'ABSENT', rows: lineup.absentIds.map(playerLabel) }
+    ];
+
+    sections
+      .filter(section => section.rows.length > 0)
+      .forEach(section => {
+        this.doc.setFontSize(12);
+        this.doc.setFont('helvetica', 'bold');
+        this.doc.text(section.title, this.margin, this.yPosition);
+
+        this.yPosition += 7;
+        this.doc.setFontSize(10);
+        this.doc.setFont('helvetica', 'normal');
+        section.rows.forEach(row => {
+          const lines = this.doc.splitTextToSize(row, this.pageWidth - 2 * this.margin);
+          this.doc.text(lines, this.margin, this.yPosition);
+          this.yPosition += lines.length * 5 + 1;
+        });
+
+        this.yPosition += 6;
+      });
+
+    const footerY = this.pageHeight - 15;
+    this.doc.setFontSize(8);
+    this.doc.setTextColor(100);
+    this.doc.setFont('helvetica', 'italic');
+    this.doc.text(`Generated by Hockey Coach App on ${new Date().toLocaleString()}`, this.margin, footerY);
+  }
+
   private addHeader(data: GameReportData): void {
     // Title
     this.doc.setFontSize(20);
@@ -192,18 +288,85 @@ export class PDFExporter {
   }
 
   private async addShotChart(): Promise<void> {
-    // Look for shot chart element
-    const shotChartElement = document.querySelector('[data-shot-chart]') as HTMLElement;
+    await this.addChartImage('[data-shot-chart]', 'SHOT CHART');
+  }
+
+  private async addShotsAgainst(data: GameReportData): Promise<void> {
+    const stats = data.shotsAgainstStats;
+    if (stats.total === 0) return;
 
-    if (shotChartElement) {
+    // Check if we need a new page
+    if (this.yPosition + 60 + data.goalieStats.length * 5 > this.pageHeight - this.margin) {
+      this.doc.addPage();
+      this.yPosition = this.margin;
+    }
+
+    this.doc.setTextColor(0);
+    this.doc.setFontSize(12);
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.text('SHOTS AGAINST', this.margin, this.yPosition);
+
+    this.yPosition += 10;
+
+    const lines = [
+      ['Shots Against:', stats.total.toString()],
+      ['On Goal:', stats.onGoal.toString()],
+      ['Saves:', stats.saves.toString()],
+      ['Goals Against:', stats.goals.toString()],
+      ['Misses / Blocked:', `${stats.misses} / ${stats.blocked}`],
+      ['Save %:', `${stats.savePercentage.toFixed(1)}%`]
+    ];
+
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.setFontSize(10);
+
+    lines.forEach(([label, value]) => {
+      this.doc.text(label, this.margin, this.yPosition);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.text(value, this.margin + 40, this.yPosition);
+      this.doc.setFont('helvetica', 'normal');
+      this.yPosition += 5;
+    });
+
+    if (data.goalieStats.length > 0) {
+      this.yPosition += 5;
+      this.doc.setFontSize(9);
+      this.doc.setFont('helvetica', 'bold');
+      this.doc.text('Goalie', this.margin, this.yPosition);
+      this.doc.text('SA', this.margin + 70, this.yPosition);
+      this.doc.text('GA', this.margin + 90, this.yPosition);
+      this.doc.text('SV%', this.margin + 110, this.yPosition);
+
+      this.yPosition += 7;
+      this.doc.setFont('helvetica', 'normal');
+
+      data.goalieStats.forEach(goalie => {
+        this.doc.text(`#${goalie.jerseyNumber} ${goalie.name}`, this.margin, this.yPosition);
+        this.doc.text(goalie.shotsAgainst.toString(), this.margin + 70, this.yPosition);
+        this.doc.text(goalie.goalsAgainst.toString(), this.margin + 90, this.yPosition);
+        this.doc.text(`${goalie.savePercentage.toFixed(1)}%`, this.margin + 110, this.yPosition);
+        this.yPosition += 5;
+      });
+    }
+
+    this.yPosition += 10;
+
+    await this.addChartImage('[data-shots-against-chart]', 'SHOTS AGAINST MAP');
+  }
+
+  private async addChartImage(selector: string, title: string): Promise<void> {
+    // Look for chart element
+    const chartElement = document.querySelector(selector) as HTMLElement;
+
+    if (chartElement) {
       try {
         this.doc.setFontSize(12);
         this.doc.setFont('helvetica', 'bold');
-        this.doc.text('SHOT CHART', this.margin, this.yPosition);
+        this.doc.text(title, this.margin, this.yPosition);
 
         this.yPosition += 10;
 
-        const canvas = await html2canvas(shotChartElement, {
+        const canvas = await html2canvas(chartElement, {
           backgroundColor: '#ffffff',
           scale: 2
         });
@@ -221,7 +384,7 @@ export class PDFExporter {
         this.doc.addImage(imgData, 'PNG', this.margin, this.yPosition, imgWidth, imgHeight);
         this.yPosition += imgHeight + 15;
       } catch (error) {
-        console.warn('Could not capture shot chart:', error);
+        console.warn(`Could not capture ${title.toLowerCase()}:`, error);
       }
     }
   }
@@ -298,13 +461,24 @@ export async function exportGameReport(data: GameReportData): Promise<void> {
   exporter.save(filename);
 }
 
+// Utility function to export a game's lineup card
+export function exportLineupCard(data: LineupCardData): void {
+  const exporter = new PDFExporter();
+  exporter.generateLineupCard(data);
+
+  const filename = `${data.team.name}_vs_${data.game.awayTeamName}_lineup_${new Date(data.game.date).toISOString().split('T')[0]}.pdf`;
+  exporter.save(filename);
+}
+
 // Utility function to prepare report data from game and shots
 export function prepareGameReportData(
   game: Game,
   team: Team,
   season: Season,
   shots: Shot[],
-  insights: string[] = []
+  insights: string[] = [],
+  shotsAgainst: ShotAgainst[] = [],
+  players: Player[] = []
 ): GameReportData {
   const shotStats = {
     totalShots: shots.length,
@@ -327,6 +501,18 @@ export function prepareGameReportData(
     };
   });
 
+  const saves = shotsAgainst.filter(s => s.result === 'save').length;
+  const goalsAgainst = shotsAgainst.filter(s => s.result === 'goal').length;
+  const shotsAgainstStats = {
+    total: shotsAgainst.length,
+    onGoal: saves + goalsAgainst,
+    saves,
+    goals: goalsAgainst,
+    misses: shotsAgainst.filter(s => s.result === 'miss').length,
+    blocked: shotsAgainst.filter(s => s.result === 'blocked').length,
+    savePercentage: calculateSavePercentage(shotsAgainst)
+  };
+
   return {
     game,
     team,
@@ -339,6 +525,8 @@ export function prepareGameReportData(
     },
     shotStats,
     periodBreakdown,
+    shotsAgainstStats,
+    goalieStats: calculateGoalieStats(shotsAgainst, players),
     insights
   };
 }
\ No newline at end of file
@@ -0,0 +1,143 @@
+import type { GameEvent, Penalty, ActivePenalty, GameStrength, TeamSide, StrengthState } from '../types';
+
+// Inline hockey is played 4 on 4, a team can't drop below 3 skaters
+export const SKATERS_PER_SIDE = 4;
+export const MIN_SKATERS = 3;
+
+export const PENALTY_MINUTES = [2, 4, 5, 10];
+
+export const PENALTY_INFRACTIONS = [
+  'Tripping',
+  'Hooking',
+  'Slashing',
+  'Holding',
+  'Interference',
+  'High-sticking',
+  'Roughing',
+  'Cross-checking',
+  'Boarding',
+  'Delay of game',
+  'Too many players',
+  'Unsportsmanlike conduct',
+  'Other'
+];
+
+export const STRENGTH_LABELS: Record<StrengthState, string> = {
+  EV: 'Even Strength',
+  PP: 'Power Play',
+  SH: 'Short-Handed'
+};
+
+/**
+ * Misconducts (10 min) are served without the team playing short
+ */
+export const affectsManpower = (penalty: Penalty): boolean => penalty.minutes !== 10;
+
+/**
+ * Only minors (and double minors) end early on a power-play goal
+ */
+const endsOnGoal = (penalty: Penalty): boolean => penalty.minutes === 2 || penalty.minutes === 4;
+
+// Penalties a team can serve at once before it would drop below the minimum
+const MAX_SERVED_PENALTIES = SKATERS_PER_SIDE - MIN_SKATERS;
+
+/**
+ * When a penalty served from the given start ends, after the power-play goals
+ * that released it. A goal during the first half of a double minor only cancels that half.
+ */
+const getPenaltyEnd = (start: number, duration: number, goalTimes: number[]): number => {
+  let expiresAt = start + duration;
+  goalTimes.forEach(goalTime => {
+    if (goalTime < start || goalTime >= expiresAt) return;
+    const remaining = expiresAt - goalTime;
+    expiresAt = remaining > 120 ? goalTime + 120 : goalTime;
+  });
+  return expiresAt;
+};
+
+/**
+ * Rebuilds the penalties still being served at the given game time
+ * from the 'penalty' and 'penalty_end' events of a game. A penalty that would
+ * put its team below the minimum waits for an earlier one to expire, and its
+ * time only starts then.
+ */
+export const getActivePenalties = (events: GameEvent[], gameTime: number): ActivePenalty[] => {
+  const penalties: Penalty[] = [];
+  const goalTimes = new Map<string, number[]>();
+
+  events.forEach(event => {
+    if (event.type === 'penalty' && event.data?.id) {
+      penalties.push(event.data as Penalty);
+    } else if (event.type === 'penalty_end' && event.data?.penaltyId) {
+      goalTimes.set(event.data.penaltyId, [...(goalTimes.get(event.data.penaltyId) || []), event.gameTime]);
+    }
+  });
+
+  // Game time each team's penalty slots free up, filled in the order penalties were called
+  const slots: Record<TeamSide, number[]> = {
+    home: Array(MAX_SERVED_PENALTIES).fill(-Infinity),
+    away: Array(MAX_SERVED_PENALTIES).fill(-Infinity)
+  };
+
+  const served = [...penalties]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map(penalty => {
+      const duration = penalty.expiresAt - penalty.startTime;
+      const times = (goalTimes.get(penalty.id) || []).sort((a, b) => a - b);
+      if (!affectsManpower(penalty)) {
+        return { ...penalty, expiresAt: getPenaltyEnd(penalty.startTime, duration, times) };
+      }
+
+      const teamSlots = slots[penalty.team];
+      const slot = teamSlots.indexOf(Math.min(...teamSlots));
+      const startTime = Math.max(penalty.startTime, teamSlots[slot]);
+      const expiresAt = getPenaltyEnd(startTime, duration, times);
+      teamSlots[slot] = expiresAt;
+      return { ...penalty, startTime, expiresAt };
+    });
+
+  return served
+    .filter(penalty => penalty.startTime <= gameTime && penalty.expiresAt > gameTime)
+    .map(penalty => ({ ...penalty, remaining: penalty.expiresAt - gameTime }))
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+};
+
+/**
+ * Skaters on ice for each team, from our team's point of view
+ */
+export const getGameStrength = (activePenalties: ActivePenalty[]): GameStrength => {
+  const countShort = (team: TeamSide) =>
+    activePenalties.filter(penalty => penalty.team === team && affectsManpower(penalty)).length;
+
+  const ourSkaters = Math.max(MIN_SKATERS, SKATERS_PER_SIDE - countShort('home'));
+  const theirSkaters = Math.max(MIN_SKATERS, SKATERS_PER_SIDE - countShort('away'));
+
+  let state: StrengthState = 'EV';
+  if (ourSkaters > theirSkaters) state = 'PP';
+  if (ourSkaters < theirSkaters) state = 'SH';
+
+  return {
+    state,
+    ourSkaters,
+    theirSkaters,
+    label: `${ourSkaters}v${theirSkaters}`
+  };
+};
+
+/**
+ * Finds the penalty a power-play goal releases, if any:
+ * the earliest expiring minor of the team playing short
+ */
+export const getPenaltyEndedByGoal = (
+  activePenalties: ActivePenalty[],
+  scoringTeam: TeamSide
+): ActivePenalty | null => {
+  const strength = getGameStrength(activePenalties);
+  const scoringSkaters = scoringTeam === 'home' ? strength.ourSkaters : strength.theirSkaters;
+  const otherSkaters = scoringTeam === 'home' ? strength.theirSkaters : strength.ourSkaters;
+
+  if (scoringSkaters <= otherSkaters) return null;
+
+  const shortTeam: TeamSide = scoringTeam === 'home' ? 'away' : 'home';
+  return activePenalties.find(penalty => penalty.team === shortTeam && endsOnGoal(penalty)) || null;
+};
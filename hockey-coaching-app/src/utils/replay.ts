@@ -0,0 +1,93 @@
+import type { Game, GameEvent, GameRecords, Shot, ShotResult } from '../types';
+import { getPeriodEndTime, getPeriodStartTime } from './gameClock';
+import { estimateGameTime } from './gameSituation';
+import { describeTimelineItem, getGameTimeline, type TimelineItem } from './gameEdit';
+import { normalizeRinkPoint } from './shotNormalization';
+
+// Game seconds played per second of replay
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 30];
+
+// Events that happen too often, or off the ice, to show in the replay
+const UNREPLAYED_EVENT_TYPES: GameEvent['type'][] = ['line_change', 'tactical_drawing', 'intermission'];
+
+export interface ReplayItem {
+  id: string;
+  kind: TimelineItem['kind'];
+  gameTime: number;
+  period: number;
+  label: string;
+  // Shots and goals against only, with our team attacking right
+  result?: ShotResult;
+  normalizedX?: number;
+  normalizedY?: number;
+}
+
+export interface ShotDifferentialPoint {
+  gameTime: number;
+  differential: number; // Our shot attempts minus theirs so far
+}
+
+/**
+ * Game time of a record. Shots tracked without the clock are placed from the
+ * events around them, or at the start of their period.
+ */
+const getReplayGameTime = (game: Game, events: GameEvent[], record: Pick<Shot, 'gameTime' | 'timestamp' | 'period'>): number =>
+  record.gameTime ?? estimateGameTime(events, record.timestamp) ?? getPeriodStartTime(game, record.period);
+
+/**
+ * Everything that happened in a game, in game-clock order. A rink goal
+ * shows once, through its shot or goal against.
+ */
+export const getReplayItems = (game: Game, records: GameRecords): ReplayItem[] => {
+  return getGameTimeline(records)
+    .filter(item => item.kind !== 'event' || !UNREPLAYED_EVENT_TYPES.includes(item.record.type))
+    .map((item): ReplayItem => {
+      const base = {
+        id: item.record.id,
+        kind: item.kind,
+        gameTime: getReplayGameTime(game, records.events, item.record),
+        period: item.record.period,
+        label: describeTimelineItem(item)
+      };
+      if (item.kind === 'event') return base;
+
+      const { normalizedX, normalizedY } = normalizeRinkPoint(item.record.x, item.record.y, game, item.record.period);
+      return { ...base, result: item.kind === 'goal_against' ? 'goal' : item.record.result, normalizedX, normalizedY };
+    })
+    .sort((a, b) => a.gameTime - b.gameTime);
+};
+
+/**
+ * Game time the replay runs to: the end of the last period played
+ */
+export const getReplayLength = (game: Game, items: ReplayItem[]): number => {
+  const lastPeriod = Math.max(game.periods, ...items.map(item => item.period));
+  return Math.max(getPeriodEndTime(game, lastPeriod), ...items.map(item => item.gameTime));
+};
+
+/**
+ * Score on the rink scoreboard at a game time
+ */
+export const getScoreAt = (events: GameEvent[], gameTime: number) => {
+  const goals = events.filter(event => event.gameTime <= gameTime);
+  return {
+    homeScore: goals.filter(event => event.type === 'goal_home').length,
+    awayScore: goals.filter(event => event.type === 'goal_away').length
+  };
+};
+
+/**
+ * Shot attempt differential after each attempt, for and against, starting level
+ */
+export const getShotDifferentialSeries = (items: ReplayItem[]): ShotDifferentialPoint[] => {
+  let differential = 0;
+  return [
+    { gameTime: 0, differential },
+    ...items
+      .filter(item => item.kind !== 'event')
+      .map(item => {
+        differential += item.kind === 'shot' ? 1 : -1;
+        return { gameTime: item.gameTime, differential };
+      })
+  ];
+};
@@ -0,0 +1,32 @@
+import type { Game, GameClock, GameEvent, GameRecords, Shot } from '../types';
+import { mergeShotsAgainst } from '../lib/utils/analysis';
+import { calculateFaceoffStats, isFaceoffEvent, type FaceoffStats } from './faceoffs';
+import { STOPPED_CLOCK } from './gameClock';
+
+/**
+ * What a bench display needs from the tracking device. The clock and penalty
+ * events stay raw, so the display runs them down itself between updates.
+ */
+export interface ScoreboardFeed {
+  game: Game;
+  clock: GameClock;
+  homeShots: number; // On goal
+  awayShots: number;
+  penaltyEvents: GameEvent[];
+  faceoffs: FaceoffStats;
+}
+
+const isOnGoal = (shot: Pick<Shot, 'result'>) => shot.result === 'goal' || shot.result === 'save';
+
+/**
+ * Scoreboard for a game from its records. The clock defaults to the one the
+ * tracking device shared on the game.
+ */
+export const getScoreboardFeed = (game: Game, records: GameRecords, clock?: GameClock): ScoreboardFeed => ({
+  game,
+  clock: clock || game.clock || STOPPED_CLOCK,
+  homeShots: records.shots.filter(isOnGoal).length,
+  awayShots: mergeShotsAgainst(records.shotsAgainst, records.goalsAgainst).filter(isOnGoal).length,
+  penaltyEvents: records.events.filter(event => event.type === 'penalty' || event.type === 'penalty_end'),
+  faceoffs: calculateFaceoffStats(records.events.filter(isFaceoffEvent))
+});
@@ -0,0 +1,21 @@
+import type { Game, StrengthState } from '../types';
+
+/**
+ * Scouting games chart two other teams and stay out of our own stats and records
+ */
+export const isScoutingGame = (game: Game): boolean => game.gameType === 'scouting';
+
+/**
+ * Name of the home side: our team, or the charted home team in a scouting game
+ */
+export const getHomeTeamName = (game: Game, ourTeamName: string): string =>
+  isScoutingGame(game) ? game.homeTeamName || 'Home' : ourTeamName;
+
+/**
+ * Strength states are stored from the home side's point of view
+ */
+export const getAwayStrength = (strength?: StrengthState): StrengthState | undefined => {
+  if (strength === 'PP') return 'SH';
+  if (strength === 'SH') return 'PP';
+  return strength;
+};
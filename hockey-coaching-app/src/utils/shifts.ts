@@ -0,0 +1,194 @@
+import type { GameEvent, GoalAgainst, Line, LineChange, LineType, Player, PlayerShiftStats, Shot } from '../types';
+import { countsForPlusMinus, getGoalRecords, type GoalRecord } from './goals';
+
+// Shifts longer than this are flagged on the bench
+export const LONG_SHIFT_SECONDS = 60;
+
+export const LINE_TYPE_LABELS: Record<LineType, string> = {
+  forward: 'Forward Lines',
+  defense: 'Defense Pairs'
+};
+
+// Skaters in a full forward line or D pair
+export const LINE_SIZES: Record<LineType, number> = {
+  forward: 3,
+  defense: 2
+};
+
+export interface Shift {
+  playerId: string;
+  period: number;
+  start: number; // Game time in seconds
+  end: number; // Game time in seconds
+  isOpen: boolean; // Still on the ice at the end time
+}
+
+export const isLineChangeEvent = (event: GameEvent) => event.type === 'line_change' && !!event.data?.playerIds;
+
+const isShiftEvent = (event: GameEvent) =>
+  isLineChangeEvent(event) || event.type === 'period_start' || event.type === 'period_end';
+
+/**
+ * Latest line change, rebuilt from the 'line_change' events
+ */
+export const getCurrentLineChange = (events: GameEvent[]): LineChange | null => {
+  const lastLineChange = [...events].reverse().find(isLineChangeEvent);
+  return lastLineChange ? lastLineChange.data as LineChange : null;
+};
+
+/**
+ * Our skaters on the ice right now
+ */
+export const getPlayersOnIce = (events: GameEvent[]): string[] => getCurrentLineChange(events)?.playerIds || [];
+
+/**
+ * Who is on the ice after sending out a line. A line already on the ice goes
+ * back to the bench; the other line type stays where it is.
+ */
+export const applyLineChange = (current: LineChange | null, line: Line, lines: Line[]): LineChange => {
+  const slot = line.type === 'forward' ? 'forwardLineId' : 'defenseLineId';
+  const previousLine = lines.find(l => l.id === current?.[slot]);
+  const isGoingOff = current?.[slot] === line.id;
+
+  const staying = (current?.playerIds || []).filter(id => !previousLine?.playerIds.includes(id));
+  const next: LineChange = {
+    ...current,
+    playerIds: isGoingOff ? staying : Array.from(new Set([...staying, ...line.playerIds]))
+  };
+
+  if (isGoingOff) {
+    delete next[slot];
+  } else {
+    next[slot] = line.id;
+  }
+  return next;
+};
+
+/**
+ * Short description for the event log, e.g. "Line 1 on" or "D Pair 2 off"
+ */
+export const describeLineChange = (line: Line, change: LineChange): string => {
+  const isOn = change.forwardLineId === line.id || change.defenseLineId === line.id;
+  return `${line.name} ${isOn ? 'on' : 'off'}`;
+};
+
+/**
+ * Every shift, rebuilt from the line changes against the game clock. A period end
+ * sends everyone to the bench and the same players start the next period.
+ * Shifts still running are closed at the end time.
+ */
+export const getShifts = (events: GameEvent[], endTime: number): Shift[] => {
+  const shifts: Shift[] = [];
+  const onIce = new Map<string, { period: number; start: number }>();
+  let lastPlayerIds: string[] = [];
+
+  const closeShift = (playerId: string, end: number) => {
+    const open = onIce.get(playerId);
+    if (!open) return;
+    shifts.push({ playerId, period: open.period, start: open.start, end: Math.max(open.start, end), isOpen: false });
+    onIce.delete(playerId);
+  };
+
+  const shiftEvents = events
+    .filter(isShiftEvent)
+    .sort((a, b) => a.gameTime - b.gameTime || a.timestamp - b.timestamp);
+
+  for (const event of shiftEvents) {
+    if (event.type === 'period_end') {
+      [...onIce.keys()].forEach(playerId => closeShift(playerId, event.gameTime));
+    } else if (event.type === 'period_start') {
+      // Shifts started during the intermission belong to the new period
+      onIce.forEach(open => { open.period = event.period; });
+      lastPlayerIds
+        .filter(playerId => !onIce.has(playerId))
+        .forEach(playerId => onIce.set(playerId, { period: event.period, start: event.gameTime }));
+    } else {
+      const playerIds: string[] = event.data.playerIds;
+      [...onIce.keys()]
+        .filter(playerId => !playerIds.includes(playerId))
+        .forEach(playerId => closeShift(playerId, event.gameTime));
+      playerIds
+        .filter(playerId => !onIce.has(playerId))
+        .forEach(playerId => onIce.set(playerId, { period: event.period, start: event.gameTime }));
+      lastPlayerIds = playerIds;
+    }
+  }
+
+  onIce.forEach((open, playerId) => {
+    shifts.push({ playerId, period: open.period, start: open.start, end: Math.max(open.start, endTime), isOpen: true });
+  });
+
+  return shifts;
+};
+
+/**
+ * Shifts still running at the given game time, for the live bench
+ */
+export const getCurrentShifts = (events: GameEvent[], gameTime: number): Shift[] =>
+  getShifts(events, gameTime).filter(shift => shift.isOpen);
+
+/**
+ * Players on the ice at a game time. A shift that ends at that time counts,
+ * one that starts then doesn't: the change happened after the whistle.
+ */
+export const getPlayersOnIceAt = (shifts: Shift[], gameTime: number): string[] =>
+  shifts
+    .filter(shift => shift.start < gameTime && shift.end >= gameTime)
+    .map(shift => shift.playerId);
+
+/**
+ * Our skaters on the ice for a goal: the ones picked on the goal detail sheet,
+ * or else the ones the shifts put there
+ */
+export const getPlayersOnIceForGoal = (goal: GoalRecord, shifts: Shift[]): string[] => {
+  if (goal.onIceIds) return goal.onIceIds;
+  return goal.gameTime !== undefined ? getPlayersOnIceAt(shifts, goal.gameTime) : [];
+};
+
+/**
+ * Per-player time on ice, shifts and plus/minus, for the game or one period.
+ * Plus/minus follows the usual rule: power-play goals and penalty shots don't
+ * count, for or against.
+ */
+export const calculatePlayerShiftStats = (
+  events: GameEvent[],
+  shots: Shot[],
+  goalsAgainst: GoalAgainst[],
+  players: Player[],
+  endTime: number,
+  period?: number
+): PlayerShiftStats[] => {
+  const inPeriod = (record: { period: number }) => period === undefined || record.period === period;
+  const allShifts = getShifts(events, endTime);
+  const shifts = allShifts.filter(shift => shift.end > shift.start && inPeriod(shift));
+
+  const goals = getGoalRecords(shots, goalsAgainst, events).filter(goal => countsForPlusMinus(goal) && inPeriod(goal));
+  const onIceFor = goals
+    .filter(goal => goal.side === 'for')
+    .flatMap(goal => getPlayersOnIceForGoal(goal, allShifts));
+  const onIceAgainst = goals
+    .filter(goal => goal.side === 'against')
+    .flatMap(goal => getPlayersOnIceForGoal(goal, allShifts));
+
+  const playerIds = Array.from(new Set(shifts.map(shift => shift.playerId)));
+
+  return playerIds.map(playerId => {
+    const player = players.find(p => p.id === playerId);
+    const playerShifts = shifts.filter(shift => shift.playerId === playerId);
+    const timeOnIce = playerShifts.reduce((total, shift) => total + (shift.end - shift.start), 0);
+    const plus = onIceFor.filter(id => id === playerId).length;
+    const minus = onIceAgainst.filter(id => id === playerId).length;
+
+    return {
+      playerId,
+      name: player ? `${player.firstName} ${player.lastName}` : 'Unknown player',
+      jerseyNumber: player?.jerseyNumber ?? 0,
+      shifts: playerShifts.length,
+      timeOnIce,
+      averageShift: Math.round(timeOnIce / playerShifts.length),
+      goalsFor: plus,
+      goalsAgainst: minus,
+      plusMinus: plus - minus
+    };
+  }).sort((a, b) => b.timeOnIce - a.timeOnIce);
+};
@@ -1,4 +1,4 @@
-import type { Shot, ShotWithGame, Game, GoalAgainst, RinkZone } from '../types';
+import type { Shot, ShotWithGame, Game, GoalAgainst, ShotAgainst, RinkZone } from '../types';
 
 export interface NormalizedShot extends Shot {
   normalizedX: number;
@@ -17,6 +17,11 @@ export interface NormalizedGoalAgainst extends GoalAgainst {
   normalizedY: number;
 }
 
+export interface NormalizedShotAgainst extends ShotAgainst {
+  normalizedX: number;
+  normalizedY: number;
+}
+
 /**
  * Determines which side the team is defending in a given period
  */
@@ -31,6 +36,17 @@ export const getTeamSideForPeriod = (game: Game, period: number): 'left' | 'righ
   return isOddPeriod ? game.initialTeamSide : (game.initialTeamSide === 'left' ? 'right' : 'left');
 };
 
+/**
+ * Rotates a point tapped on the rink so our team is always attacking right
+ */
+export const normalizeRinkPoint = (x: number, y: number, game: Game, period: number): { normalizedX: number; normalizedY: number } => {
+  const isMirrored = getTeamSideForPeriod(game, period) === 'right';
+  return {
+    normalizedX: isMirrored ? 1 - x : x,
+    normalizedY: isMirrored ? 1 - y : y
+  };
+};
+
 /**
  * Normalizes shots to always show team "Always Attacking Right"
  * For periods when defending LEFT: Keep shots as-is
@@ -79,6 +95,28 @@ export function normalizeGoalAgainst(goalAgainst: GoalAgainst, game: Game): Norm
   }
 }
 
+/**
+ * Normalizes opponent shots the same way as goals against (our net on the left side)
+ */
+export function normalizeShotAgainst(shotAgainst: ShotAgainst, game: Game): NormalizedShotAgainst {
+  const teamSide = getTeamSideForPeriod(game, shotAgainst.period);
+
+  if (teamSide === 'left') {
+    return {
+      ...shotAgainst,
+      normalizedX: shotAgainst.x,
+      normalizedY: shotAgainst.y
+    };
+  } else {
+    // Defending right - rotate 180 degrees
+    return {
+      ...shotAgainst,
+      normalizedX: 1 - shotAgainst.x,
+      normalizedY: 1 - shotAgainst.y
+    };
+  }
+}
+
 /**
  * Determines shot danger level based on normalized coordinates
  */
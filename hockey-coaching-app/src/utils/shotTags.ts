@@ -0,0 +1,24 @@
+import type { Shot, ShotContext, ShotType } from '../types';
+
+export const SHOT_TYPE_LABELS: Record<ShotType, string> = {
+  wrist: 'Wrist',
+  slap: 'Slap',
+  snap: 'Snap',
+  backhand: 'Backhand',
+  tip: 'Tip'
+};
+
+export const SHOT_CONTEXT_LABELS: Record<ShotContext, string> = {
+  rush: 'Rush',
+  cycle: 'Cycle',
+  rebound: 'Rebound',
+  point: 'Point Shot'
+};
+
+export const SHOT_TYPES = Object.keys(SHOT_TYPE_LABELS) as ShotType[];
+export const SHOT_CONTEXTS = Object.keys(SHOT_CONTEXT_LABELS) as ShotContext[];
+
+export type ShotTags = Pick<Shot, 'shotType' | 'context' | 'screened'>;
+
+export const hasShotTags = (shot: ShotTags) =>
+  shot.shotType !== undefined || shot.context !== undefined || shot.screened !== undefined;
@@ -0,0 +1,175 @@
+import type { CustomEventData, GameEvent, Shot, ShotAgainst } from '../types';
+import { isCustomEvent } from './customEvents';
+
+// Seconds of video kept before and after each exported clip
+export const CLIP_PRE_ROLL = 5;
+export const CLIP_POST_ROLL = 3;
+// Frame rate the EDL timecodes assume
+export const EDL_FRAME_RATE = 30;
+
+// Events that happen too often, or off the ice, to be worth a marker
+const UNMARKED_EVENT_TYPES: GameEvent['type'][] = ['line_change', 'tactical_drawing', 'intermission'];
+
+export type VideoMarkerKind = 'shot' | 'goal' | 'custom' | 'event';
+
+export const VIDEO_MARKER_LABELS: Record<VideoMarkerKind, string> = {
+  shot: 'Shots',
+  goal: 'Goals',
+  custom: 'Custom tags',
+  event: 'Other events'
+};
+
+export const VIDEO_MARKER_COLORS: Record<VideoMarkerKind, string> = {
+  shot: '#3b82f6',
+  goal: '#22c55e',
+  custom: '#9333ea',
+  event: '#6b7280'
+};
+
+// Any record with a place in the game video
+export type VideoRecord = Pick<Shot, 'id' | 'timestamp' | 'period' | 'gameTime' | 'videoOffset'>;
+
+export interface VideoMarker {
+  id: string;
+  kind: VideoMarkerKind;
+  offset: number; // Seconds into the video
+  timestamp: number;
+  period: number;
+  gameTime?: number;
+  label: string;
+  tag?: string; // Custom event label, custom markers only
+}
+
+/**
+ * Seconds into the video, to a tenth, for a record made at the timestamp
+ */
+export const getVideoOffset = (timestamp: number, videoStartedAt: number): number =>
+  Math.round((timestamp - videoStartedAt) / 100) / 10;
+
+/**
+ * Video start for a sync point: the record was made at this many seconds into the video
+ */
+export const getVideoStartedAt = (timestamp: number, videoTime: number): number =>
+  Math.round(timestamp - videoTime * 1000);
+
+export const formatVideoTime = (seconds: number): string => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  const minutesAndSeconds = `${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${minutesAndSeconds}` : minutesAndSeconds;
+};
+
+/**
+ * Markers for every record of a game, in video order. Goals come from the goal
+ * events, so rink goals and scoreboard goals each get exactly one marker.
+ * Records without a stored offset are placed from the game's video start.
+ */
+export const getVideoMarkers = (
+  shots: Shot[],
+  shotsAgainst: ShotAgainst[],
+  events: GameEvent[],
+  videoStartedAt?: number
+): VideoMarker[] => {
+  const markers: VideoMarker[] = [];
+
+  const addMarker = (record: VideoRecord, marker: Pick<VideoMarker, 'kind' | 'label' | 'tag'>) => {
+    const offset = record.videoOffset
+      ?? (videoStartedAt !== undefined ? getVideoOffset(record.timestamp, videoStartedAt) : undefined);
+    if (offset === undefined) return;
+    markers.push({ id: record.id, offset, timestamp: record.timestamp, period: record.period, gameTime: record.gameTime, ...marker });
+  };
+
+  shots
+    .filter(shot => shot.result !== 'goal')
+    .forEach(shot => addMarker(shot, { kind: 'shot', label: `Shot (${shot.result})` }));
+
+  shotsAgainst.forEach(shot => addMarker(shot, { kind: 'shot', label: `Shot against (${shot.result})` }));
+
+  events
+    .filter(event => !UNMARKED_EVENT_TYPES.includes(event.type))
+    .forEach(event => {
+      if (event.type === 'goal_home' || event.type === 'goal_away') {
+        addMarker(event, { kind: 'goal', label: event.description });
+      } else if (isCustomEvent(event)) {
+        const data = event.data as CustomEventData;
+        addMarker(event, { kind: 'custom', label: event.description, tag: data.label });
+      } else {
+        addMarker(event, { kind: 'event', label: event.description });
+      }
+    });
+
+  return markers.sort((a, b) => a.offset - b.offset);
+};
+
+// Records to write a new offset to after the video is synced
+export const getVideoOffsetChanges = (
+  records: VideoRecord[],
+  videoStartedAt: number
+): Array<{ id: string; videoOffset: number }> => {
+  return records
+    .map(record => ({ id: record.id, videoOffset: getVideoOffset(record.timestamp, videoStartedAt) }))
+    .filter((change, index) => change.videoOffset !== records[index].videoOffset);
+};
+
+const getClipRange = (marker: VideoMarker) => ({
+  start: Math.max(0, marker.offset - CLIP_PRE_ROLL),
+  end: marker.offset + CLIP_POST_ROLL
+});
+
+const escapeCsv = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Clip list with start and end in seconds and as video time
+ */
+export const buildClipCsv = (markers: VideoMarker[]): string => {
+  const rows = markers.map((marker, index) => {
+    const { start, end } = getClipRange(marker);
+    return [
+      `${index + 1}`,
+      marker.tag || VIDEO_MARKER_LABELS[marker.kind],
+      marker.label,
+      `${marker.period}`,
+      start.toFixed(1),
+      end.toFixed(1),
+      formatVideoTime(start),
+      formatVideoTime(end)
+    ].map(escapeCsv).join(',');
+  });
+
+  return ['Clip,Type,Description,Period,Start (s),End (s),Start,End', ...rows].join('\n');
+};
+
+const formatTimecode = (seconds: number): string => {
+  const frames = Math.round(seconds * EDL_FRAME_RATE);
+  const parts = [
+    Math.floor(frames / (3600 * EDL_FRAME_RATE)),
+    Math.floor(frames / (60 * EDL_FRAME_RATE)) % 60,
+    Math.floor(frames / EDL_FRAME_RATE) % 60,
+    frames % EDL_FRAME_RATE
+  ];
+  return parts.map(part => part.toString().padStart(2, '0')).join(':');
+};
+
+/**
+ * CMX 3600 edit list cutting the clips out of the game video, back to back
+ */
+export const buildClipEdl = (markers: VideoMarker[], title: string, videoFileName: string): string => {
+  const lines = [`TITLE: ${title}`, 'FCM: NON-DROP FRAME', ''];
+  let recordStart = 0;
+
+  markers.forEach((marker, index) => {
+    const { start, end } = getClipRange(marker);
+    const recordEnd = recordStart + (end - start);
+    lines.push(
+      `${(index + 1).toString().padStart(3, '0')}  AX       V     C        ${formatTimecode(start)} ${formatTimecode(end)} ${formatTimecode(recordStart)} ${formatTimecode(recordEnd)}`,
+      `* FROM CLIP NAME: ${videoFileName}`,
+      `* COMMENT: ${marker.label}`,
+      ''
+    );
+    recordStart = recordEnd;
+  });
+
+  return lines.join('\n');
+};